@@ -12,12 +12,20 @@
 
 import Link from "next/link";
 import { useState, useEffect, useMemo, useRef, useCallback, Suspense } from "react";
-import { useRouter, useSearchParams } from "next/navigation";
+import { useSearchParams } from "next/navigation";
 import { motion, useReducedMotion } from "framer-motion";
 import { useAuth } from "../../context/AuthContext";
 import { useRequireAuth } from "../../hooks/useRequireAuth";
+import { useAthleteAccess } from "../../hooks/useAthleteAccess";
+import { useExerciseCatalogue } from "../../hooks/useExerciseCatalogue";
 import { apiService } from "../services/api";
 import WorkoutMap from "../components/WorkoutMap";
+import OfflineNotice from "../components/OfflineNotice";
+import ExerciseVolumeCard from "../components/ExerciseVolumeCard";
+import AccessDenied from "../components/AccessDenied";
+import { isNetworkError } from "../../lib/api-error";
+import type { StrengthWorkout, WorkoutSummary } from "../../lib/domain";
+import { formatDrillPrescription } from "../../lib/strength-workout";
 import {
   AppShell,
   Button,
@@ -29,49 +37,6 @@ import {
   Input,
 } from "../components/ui";
 
-interface WorkoutSummary {
-  workoutName: string;
-  workoutId: number;
-  workoutDurationInSeconds: number;
-  workoutDistanceInMeters: number;
-  workoutAvgHR: number;
-  workoutAvgPaceInMinKm: number;
-  workoutCoordsJsonStr: string;
-  workoutDate: string;
-  profilePicData: string;
-  athleteName: string;
-}
-
-interface WorkoutDrill {
-  drillName: string;
-  drillSets: number;
-  drillReps: number;
-}
-
-interface WorkoutReview {
-  athleteName: string;
-  reviewContent: string;
-  difficultyLevel: number;
-}
-
-interface StrengthWorkout {
-  coachName: string;
-  workoutName: string;
-  workoutDescription: string;
-  workoutDate: string;
-  workoutDrills: WorkoutDrill[];
-  athleteNames: string[];
-  workoutReviews: Record<string, WorkoutReview>;
-  workoutId: string | null;
-}
-
-interface WorkoutFeedResponse {
-  runningWorkouts: WorkoutSummary[];
-  strengthWorkouts: StrengthWorkout[];
-  runningNextCursor: string | null;
-  strengthNextCursor: string | null;
-}
-
 type ViewMode = "feed" | "date";
 type TypeFilter = "all" | "running" | "strength";
 
@@ -92,15 +57,6 @@ function DumbbellIcon(props: React.SVGProps<SVGSVGElement>) {
   );
 }
 
-function LockIcon(props: React.SVGProps<SVGSVGElement>) {
-  return (
-    <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth={2} strokeLinecap="round" strokeLinejoin="round" {...props}>
-      <rect x="3" y="11" width="18" height="11" rx="2" />
-      <path d="M7 11V7a5 5 0 0110 0v4" />
-    </svg>
-  );
-}
-
 function formatDate(date: Date): string {
   const month = (date.getMonth() + 1).toString();
   const day = date.getDate().toString();
@@ -155,7 +111,6 @@ function formatHR(hr: number | null | undefined): string {
 
 function ActivitiesPageContent() {
   const { user, loading: authLoading } = useAuth();
-  const router = useRouter();
   const searchParams = useSearchParams();
   const reduce = useReducedMotion();
 
@@ -163,11 +118,12 @@ function ActivitiesPageContent() {
   const [typeFilter, setTypeFilter] = useState<TypeFilter>("all");
   const [selectedDate, setSelectedDate] = useState<string>("");
   const [dateInputValue, setDateInputValue] = useState<string>("");
-  const [athleteName, setAthleteName] = useState<string>("");
   const [runningWorkouts, setRunningWorkouts] = useState<WorkoutSummary[]>([]);
   const [strengthWorkouts, setStrengthWorkouts] = useState<StrengthWorkout[]>([]);
+  const { catalogue } = useExerciseCatalogue(user?.userName);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [offline, setOffline] = useState(false);
   const [runningCursor, setRunningCursor] = useState<string | null>(null);
   const [strengthCursor, setStrengthCursor] = useState<string | null>(null);
   const [hasMoreRunning, setHasMoreRunning] = useState(false);
@@ -194,14 +150,7 @@ function ActivitiesPageContent() {
 
   useRequireAuth();
 
-  useEffect(() => {
-    const athleteParam = searchParams.get("athlete");
-    if (athleteParam) {
-      setAthleteName(athleteParam);
-    } else if (user) {
-      setAthleteName(user.userName);
-    }
-  }, [searchParams, user]);
+  const { athleteName, denial } = useAthleteAccess(searchParams.get("athlete"));
 
   const fetchWorkoutsByDate = async (date: string) => {
     if (!user?.apiKey || !athleteName) {
@@ -212,46 +161,18 @@ function ActivitiesPageContent() {
     try {
       setLoading(true);
       setError(null);
-      const response = await apiService.getWorkoutSummary<{
-        runningWorkouts: WorkoutSummary[];
-        strengthWorkouts: StrengthWorkout[];
-      }>(athleteName, user.apiKey, date);
+      setOffline(false);
+      const response = await apiService.getWorkoutSummary(athleteName, date);
 
-      if (response.data) {
-        const parseWorkout = (w: any): WorkoutSummary => ({
-          workoutName: w.workoutName || w.WorkoutName || "Running",
-          workoutId: typeof (w.workoutId || w.WorkoutId) === 'string' ? parseInt(w.workoutId || w.WorkoutId, 10) : (Number(w.workoutId || w.WorkoutId) || 0),
-          workoutDurationInSeconds: Number(w.workoutDurationInSeconds || w.WorkoutDurationInSeconds) || 0,
-          workoutDistanceInMeters: Number(w.workoutDistanceInMeters || w.WorkoutDistanceInMeters) || 0,
-          workoutAvgHR: Number(w.workoutAvgHR || w.WorkoutAvgHR) || 0,
-          workoutAvgPaceInMinKm: Number(w.workoutAvgPaceInMinKm || w.WorkoutAvgPaceInMinKm) || 0,
-          workoutCoordsJsonStr: w.workoutCoordsJsonStr || w.WorkoutCoordsJsonStr || "",
-          workoutDate: w.workoutDate || w.WorkoutDate || "",
-          profilePicData: w.profilePicData || w.ProfilePicData || "",
-          athleteName: w.athleteName || w.AthleteName || "",
-        });
-
-        const running = Array.isArray(response.data.runningWorkouts)
-          ? response.data.runningWorkouts.map(parseWorkout)
-          : [];
-        const strength = Array.isArray(response.data.strengthWorkouts)
-          ? response.data.strengthWorkouts.map((w: any) => ({
-              coachName: w.coachName || w.CoachName || "",
-              workoutName: w.workoutName || w.WorkoutName || "Strength Workout",
-              workoutDescription: w.workoutDescription || w.WorkoutDescription || "",
-              workoutDate: w.workoutDate || w.WorkoutDate || "",
-              workoutDrills: w.workoutDrills || w.WorkoutDrills || [],
-              athleteNames: w.athleteNames || w.AthleteNames || [],
-              workoutReviews: w.workoutReviews || w.WorkoutReviews || {},
-              workoutId: w.workoutId || w.WorkoutId || null,
-            }))
-          : [];
-        setRunningWorkouts(running);
-        setStrengthWorkouts(strength);
-      }
+      setRunningWorkouts(response.data.runningWorkouts);
+      setStrengthWorkouts(response.data.strengthWorkouts);
     } catch (err) {
       console.error("Failed to fetch workouts by date:", err);
-      setError(err instanceof Error ? err.message : "Failed to load workouts");
+      if (isNetworkError(err, "offline")) {
+        setOffline(true);
+      } else {
+        setError(err instanceof Error ? err.message : "Failed to load workouts");
+      }
       setRunningWorkouts([]);
       setStrengthWorkouts([]);
     } finally {
@@ -270,49 +191,24 @@ function ActivitiesPageContent() {
       loadingRef.current = true;
       setLoading(true);
       setError(null);
+      setOffline(false);
 
-      const response = await apiService.getWorkoutFeed<WorkoutFeedResponse>(
-        user.apiKey,
+      const response = await apiService.getWorkoutFeed(
         athleteName,
         loadMore ? runningCursorRef.current : null,
         loadMore ? strengthCursorRef.current : null
       );
 
       if (response.data) {
-        const parseWorkout = (w: any): WorkoutSummary => ({
-          workoutName: w.workoutName || w.WorkoutName || "Running",
-          workoutId: typeof (w.workoutId || w.WorkoutId) === 'string' ? parseInt(w.workoutId || w.WorkoutId, 10) : (Number(w.workoutId || w.WorkoutId) || 0),
-          workoutDurationInSeconds: Number(w.workoutDurationInSeconds || w.WorkoutDurationInSeconds) || 0,
-          workoutDistanceInMeters: Number(w.workoutDistanceInMeters || w.WorkoutDistanceInMeters) || 0,
-          workoutAvgHR: Number(w.workoutAvgHR || w.WorkoutAvgHR) || 0,
-          workoutAvgPaceInMinKm: Number(w.workoutAvgPaceInMinKm || w.WorkoutAvgPaceInMinKm) || 0,
-          workoutCoordsJsonStr: w.workoutCoordsJsonStr || w.WorkoutCoordsJsonStr || "",
-          workoutDate: w.workoutDate || w.WorkoutDate || "",
-          profilePicData: w.profilePicData || w.ProfilePicData || w.profilePicString || w.ProfilePicString || "",
-          athleteName: w.athleteName || w.AthleteName || athleteName || "",
-        });
-
-        const running = Array.isArray(response.data.runningWorkouts)
-          ? response.data.runningWorkouts.map((w: any) => {
-              const parsed = parseWorkout(w);
-              if (!parsed.profilePicData && parsed.athleteName === athleteName && user?.profilePicString) {
-                parsed.profilePicData = user.profilePicString;
-              }
-              return parsed;
-            })
-          : [];
-        const strength = Array.isArray(response.data.strengthWorkouts)
-          ? response.data.strengthWorkouts.map((w: any) => ({
-              coachName: w.coachName || w.CoachName || "",
-              workoutName: w.workoutName || w.WorkoutName || "Strength Workout",
-              workoutDescription: w.workoutDescription || w.WorkoutDescription || "",
-              workoutDate: w.workoutDate || w.WorkoutDate || "",
-              workoutDrills: w.workoutDrills || w.WorkoutDrills || [],
-              athleteNames: w.athleteNames || w.AthleteNames || [],
-              workoutReviews: w.workoutReviews || w.WorkoutReviews || {},
-              workoutId: w.workoutId || w.WorkoutId || null,
-            }))
-          : [];
+        const running = response.data.runningWorkouts.map((w) => ({
+          ...w,
+          athleteName: w.athleteName || athleteName,
+          profilePicData:
+            !w.profilePicData && (w.athleteName || athleteName) === athleteName && user?.profilePicString
+              ? user.profilePicString
+              : w.profilePicData,
+        }));
+        const strength = response.data.strengthWorkouts;
 
         if (loadMore) {
           setRunningWorkouts((prev) => [...prev, ...running]);
@@ -329,7 +225,11 @@ function ActivitiesPageContent() {
       }
     } catch (err) {
       console.error("Failed to fetch workout feed:", err);
-      setError(err instanceof Error ? err.message : "Failed to load workouts");
+      if (isNetworkError(err, "offline")) {
+        setOffline(true);
+      } else {
+        setError(err instanceof Error ? err.message : "Failed to load workouts");
+      }
       if (!loadMore) {
         setRunningWorkouts([]);
         setStrengthWorkouts([]);
@@ -450,28 +350,8 @@ function ActivitiesPageContent() {
     );
   }
 
-  const athleteParam = searchParams.get("athlete");
-  if (user && user.role?.toLowerCase() === "coach" && !athleteParam) {
-    return (
-      <AppShell hidePageHeader>
-        <div className="mx-auto max-w-xl text-center py-24">
-          <div className="mx-auto inline-flex h-14 w-14 items-center justify-center rounded-2xl bg-blue-500/10 text-blue-600 dark:text-blue-400 mb-4">
-            <LockIcon className="h-7 w-7" />
-          </div>
-          <h2 className="display-heading text-2xl font-bold text-gray-900 dark:text-gray-50">
-            No access
-          </h2>
-          <p className="mt-2 text-gray-600 dark:text-gray-400">
-            Please select an athlete to view their activities.
-          </p>
-          <div className="mt-6">
-            <Button variant="primary" onClick={() => router.push("/dashboard")}>
-              Return to dashboard
-            </Button>
-          </div>
-        </div>
-      </AppShell>
-    );
+  if (denial) {
+    return <AccessDenied denial={denial} subject="activities" />;
   }
 
   const title = "Activities";
@@ -565,6 +445,17 @@ function ActivitiesPageContent() {
         </Card>
       )}
 
+      {/* Offline */}
+      {offline && (
+        <OfflineNotice
+          onRetry={() =>
+            viewMode === "date"
+              ? selectedDate && fetchWorkoutsByDate(selectedDate)
+              : fetchWorkoutFeed(combinedWorkouts.length > 0)
+          }
+        />
+      )}
+
       {/* Error */}
       {error && (
         <div className="mb-6 rounded-xl border border-rose-200 bg-rose-50/80 px-4 py-3 text-sm text-rose-700 dark:border-rose-500/30 dark:bg-rose-500/10 dark:text-rose-300">
@@ -572,6 +463,10 @@ function ActivitiesPageContent() {
         </div>
       )}
 
+      {typeFilter === "strength" && strengthWorkouts.length > 0 && (
+        <ExerciseVolumeCard workouts={strengthWorkouts} catalogue={catalogue} />
+      )}
+
       {/* Loading skeletons (only for initial load, not load-more) */}
       {loading && runningWorkouts.length === 0 && strengthWorkouts.length === 0 && (
         <div className="space-y-4">
@@ -730,7 +625,7 @@ function ActivitiesPageContent() {
                     <div className="flex flex-wrap gap-1.5">
                       {workout.workoutDrills.map((drill, drillIndex) => (
                         <Badge key={drillIndex} variant="neutral" size="sm">
-                          {drill.drillName} · {drill.drillSets}×{drill.drillReps}
+                          {drill.drillName} · {formatDrillPrescription(drill)}
                         </Badge>
                       ))}
                     </div>
@@ -784,7 +679,7 @@ function ActivitiesPageContent() {
           })}
 
           {/* Empty state */}
-          {!loading && combinedWorkouts.length === 0 && (
+          {!loading && !offline && combinedWorkouts.length === 0 && (
             <Card variant="glass" padding="lg" className="text-center">
               <div className="mx-auto inline-flex h-14 w-14 items-center justify-center rounded-2xl bg-gradient-to-br from-blue-500/15 via-purple-500/15 to-teal-400/15 text-blue-600 dark:text-blue-400 ring-1 ring-inset ring-blue-500/20 mb-4">
                 <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth={2} strokeLinecap="round" strokeLinejoin="round" className="h-7 w-7">
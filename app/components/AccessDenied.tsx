@@ -0,0 +1,47 @@
+/**
+ * AccessDenied Component
+ * Shared "No Access" screen for role and athlete-access denials
+ */
+
+"use client";
+
+import Link from "next/link";
+import { describeDenial, type AccessDenial } from "../../lib/access";
+import { AppShell, Button, Card } from "./ui";
+
+interface AccessDeniedProps {
+  denial: AccessDenial;
+  /** What the page shows, e.g. "sleep data" */
+  subject?: string;
+  /** Where the button leads (defaults to the dashboard) */
+  backHref?: string;
+  backLabel?: string;
+}
+
+export default function AccessDenied({
+  denial,
+  subject,
+  backHref = "/dashboard",
+  backLabel = "Return to Dashboard",
+}: AccessDeniedProps) {
+  return (
+    <AppShell hidePageHeader maxWidth="md">
+      <Card variant="glass" padding="lg" className="mt-12 text-center">
+        <div className="mx-auto mb-4 flex h-14 w-14 items-center justify-center rounded-full bg-rose-500/10 text-rose-500">
+          <svg className="h-7 w-7" fill="none" viewBox="0 0 24 24" stroke="currentColor" aria-hidden>
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" />
+          </svg>
+        </div>
+        <h2 className="display-heading text-2xl font-bold text-gray-900 dark:text-gray-50">
+          No Access
+        </h2>
+        <p className="mt-2 text-gray-600 dark:text-gray-400">{describeDenial(denial, subject)}</p>
+        <div className="mt-6">
+          <Link href={backHref}>
+            <Button variant="primary">{backLabel}</Button>
+          </Link>
+        </div>
+      </Card>
+    </AppShell>
+  );
+}
@@ -0,0 +1,69 @@
+/**
+ * DebugLogPanel Component
+ * Development-only overlay listing recent logger entries (API requests, auth events).
+ * Entries are already redacted by lib/logger before they reach the panel.
+ */
+
+"use client";
+
+import { useEffect, useState } from "react";
+import { addLogSink, type LogEntry } from "../../lib/logger";
+import { cn } from "./ui";
+
+const MAX_ENTRIES = 200;
+
+const LEVEL_CLASSES: Record<LogEntry["level"], string> = {
+  debug: "text-gray-400",
+  info: "text-blue-400",
+  warn: "text-amber-400",
+  error: "text-rose-400",
+};
+
+export default function DebugLogPanel() {
+  const [entries, setEntries] = useState<LogEntry[]>([]);
+  const [open, setOpen] = useState(false);
+
+  useEffect(() => {
+    return addLogSink((entry) => {
+      setEntries((prev) => [...prev.slice(-(MAX_ENTRIES - 1)), entry]);
+    });
+  }, []);
+
+  return (
+    <div className="fixed bottom-4 left-4 z-[100] font-mono text-xs">
+      {open && (
+        <div className="mb-2 flex max-h-[60vh] w-[min(90vw,36rem)] flex-col overflow-hidden rounded-xl border border-white/10 bg-gray-950/95 text-gray-200 shadow-2xl">
+          <div className="flex items-center justify-between border-b border-white/10 px-3 py-2">
+            <span className="font-semibold">Logs ({entries.length})</span>
+            <button type="button" className="text-gray-400 hover:text-white" onClick={() => setEntries([])}>
+              Clear
+            </button>
+          </div>
+          <ul className="flex-1 space-y-1 overflow-y-auto px-3 py-2">
+            {entries.length === 0 && <li className="text-gray-500">No entries yet</li>}
+            {entries.map((entry, i) => (
+              <li key={i} className="break-all">
+                <span className="text-gray-500">{entry.timestamp.slice(11, 23)}</span>{" "}
+                <span className={cn("uppercase", LEVEL_CLASSES[entry.level])}>{entry.level}</span>{" "}
+                <span className="text-purple-300">[{entry.scope}]</span> {entry.message}
+                {entry.context !== undefined && (
+                  <details className="ml-4 text-gray-400">
+                    <summary className="cursor-pointer">context</summary>
+                    <pre className="whitespace-pre-wrap">{JSON.stringify(entry.context, null, 2)}</pre>
+                  </details>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      <button
+        type="button"
+        onClick={() => setOpen((o) => !o)}
+        className="rounded-full border border-white/10 bg-gray-950/90 px-3 py-1.5 text-gray-200 shadow-lg hover:bg-gray-900"
+      >
+        {open ? "Hide logs" : `Logs (${entries.length})`}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,282 @@
+/**
+ * ExerciseLibraryModal Component
+ * Browse the exercise library and manage a coach's custom exercises
+ */
+
+"use client";
+
+import { useState } from "react";
+import {
+  deleteCustomExercise,
+  EQUIPMENT,
+  findExercise,
+  muscleGroupLabel,
+  MUSCLE_GROUPS,
+  saveCustomExercise,
+  searchExercises,
+  type Equipment,
+  type Exercise,
+  type MuscleGroup,
+} from "../../lib/exercise-library";
+import { parseTags } from "../../lib/workout-templates";
+import { Badge, Button, Input, Modal, Select, Textarea, cn } from "./ui";
+
+interface ExerciseLibraryModalProps {
+  open: boolean;
+  onClose: () => void;
+  /** Owner of the custom exercises */
+  userName: string;
+  catalogue: Exercise[];
+  /** Open straight on the new-exercise form with this name */
+  newExerciseName?: string | null;
+  /** Called with an exercise the coach just added */
+  onCreated?: (exercise: Exercise) => void;
+}
+
+export default function ExerciseLibraryModal(props: ExerciseLibraryModalProps) {
+  return (
+    <Modal
+      open={props.open}
+      onClose={props.onClose}
+      title="Exercise library"
+      description="Built-in exercises plus the ones you add. Drill names are matched to these by name or alias."
+      size="lg"
+    >
+      {/* Remount on open so a new-exercise request starts from a fresh form */}
+      {props.open && <LibraryContent {...props} />}
+    </Modal>
+  );
+}
+
+function LibraryContent({ userName, catalogue, newExerciseName, onCreated, onClose }: ExerciseLibraryModalProps) {
+  const [adding, setAdding] = useState(newExerciseName != null);
+  const [search, setSearch] = useState("");
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+  const [deleteError, setDeleteError] = useState<string | null>(null);
+
+  if (adding) {
+    return (
+      <CustomExerciseForm
+        userName={userName}
+        catalogue={catalogue}
+        defaultName={newExerciseName ?? search}
+        onCancel={() => (newExerciseName != null ? onClose() : setAdding(false))}
+        onSaved={(exercise) => {
+          onCreated?.(exercise);
+          if (newExerciseName != null) onClose();
+          else setAdding(false);
+        }}
+      />
+    );
+  }
+
+  const visible = search.trim() ? searchExercises(search, catalogue, catalogue.length) : catalogue;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex gap-2">
+        <Input
+          id="exercise-search"
+          name="exercise-search"
+          type="search"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search by name or alias"
+          aria-label="Search exercises"
+        />
+        <Button type="button" variant="secondary" onClick={() => setAdding(true)} className="shrink-0">
+          New exercise
+        </Button>
+      </div>
+
+      {deleteError && <p className="text-sm text-rose-600 dark:text-rose-400">{deleteError}</p>}
+
+      {visible.length === 0 && (
+        <p className="py-4 text-center text-sm text-gray-600 dark:text-gray-400">No exercises match “{search}”.</p>
+      )}
+
+      <ul className="max-h-[50vh] space-y-2 overflow-y-auto pr-1">
+        {visible.map((exercise) => (
+          <li
+            key={exercise.id}
+            className="rounded-xl border border-gray-200 dark:border-white/10 bg-white dark:bg-gray-900/60 p-3"
+          >
+            <div className="flex flex-wrap items-start justify-between gap-2">
+              <div className="min-w-0">
+                <p className="font-semibold text-gray-900 dark:text-gray-100 break-words">
+                  {exercise.name}
+                  {exercise.custom && (
+                    <Badge variant="brand" size="sm" className="ml-2 align-middle">
+                      Custom
+                    </Badge>
+                  )}
+                </p>
+                {exercise.aliases.length > 0 && (
+                  <p className="text-xs text-gray-500 dark:text-gray-400">Also: {exercise.aliases.join(", ")}</p>
+                )}
+              </div>
+              {exercise.custom &&
+                (confirmDeleteId === exercise.id ? (
+                  <div className="flex gap-2">
+                    <Button
+                      type="button"
+                      variant="danger"
+                      size="sm"
+                      onClick={() => {
+                        try {
+                          deleteCustomExercise(userName, exercise.id);
+                          setDeleteError(null);
+                        } catch (err) {
+                          setDeleteError(err instanceof Error ? err.message : "Failed to delete the exercise");
+                        }
+                        setConfirmDeleteId(null);
+                      }}
+                    >
+                      Confirm delete
+                    </Button>
+                    <Button type="button" variant="ghost" size="sm" onClick={() => setConfirmDeleteId(null)}>
+                      Keep
+                    </Button>
+                  </div>
+                ) : (
+                  <Button type="button" variant="ghost" size="sm" onClick={() => setConfirmDeleteId(exercise.id)}>
+                    Delete
+                  </Button>
+                ))}
+            </div>
+            <div className="mt-2 flex flex-wrap gap-1.5">
+              {exercise.muscleGroups.map((group) => (
+                <Badge key={group} variant="info" size="sm">
+                  {muscleGroupLabel(group)}
+                </Badge>
+              ))}
+              <Badge variant="neutral" size="sm">
+                {EQUIPMENT.find((item) => item.value === exercise.equipment)?.label ?? exercise.equipment}
+              </Badge>
+            </div>
+            {exercise.cues && <p className="mt-2 text-sm text-gray-600 dark:text-gray-400">{exercise.cues}</p>}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+interface CustomExerciseFormProps {
+  userName: string;
+  catalogue: Exercise[];
+  defaultName: string;
+  onCancel: () => void;
+  onSaved: (exercise: Exercise) => void;
+}
+
+function CustomExerciseForm({ userName, catalogue, defaultName, onCancel, onSaved }: CustomExerciseFormProps) {
+  const [name, setName] = useState(defaultName);
+  const [aliases, setAliases] = useState("");
+  const [muscleGroups, setMuscleGroups] = useState<MuscleGroup[]>([]);
+  const [equipment, setEquipment] = useState<Equipment>("bodyweight");
+  const [cues, setCues] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  const toggleGroup = (group: MuscleGroup) =>
+    setMuscleGroups(
+      muscleGroups.includes(group) ? muscleGroups.filter((other) => other !== group) : [...muscleGroups, group]
+    );
+
+  const handleSave = () => {
+    if (!name.trim()) {
+      setError("Exercise name is required");
+      return;
+    }
+    // Names and aliases must stay unambiguous, or drills would match the wrong exercise
+    const taken = [name, ...parseTags(aliases)].map((value) => findExercise(value, catalogue)).find(Boolean);
+    if (taken) {
+      setError(`Already in the library as ${taken.name}`);
+      return;
+    }
+    setError(null);
+    let saved: Exercise;
+    try {
+      saved = saveCustomExercise(userName, { name, aliases: parseTags(aliases), muscleGroups, equipment, cues });
+    } catch (err) {
+      setSaveError(err instanceof Error ? err.message : "Failed to save the exercise");
+      return;
+    }
+    onSaved(saved);
+  };
+
+  return (
+    <div className="space-y-4">
+      <Input
+        label="Exercise Name"
+        required
+        id="exercise-name"
+        name="exercise-name"
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        placeholder="e.g., Sled Push"
+        error={error ?? undefined}
+      />
+      <Input
+        label="Aliases"
+        id="exercise-aliases"
+        name="exercise-aliases"
+        value={aliases}
+        onChange={(e) => setAliases(e.target.value)}
+        placeholder="e.g., prowler, sled drive"
+        helperText="Other names you or your athletes use, comma-separated"
+      />
+      <fieldset>
+        <legend className="mb-1.5 block text-sm font-medium text-gray-800 dark:text-gray-200">Muscle Groups</legend>
+        <div className="flex flex-wrap gap-2">
+          {MUSCLE_GROUPS.map((group) => {
+            const selected = muscleGroups.includes(group.value);
+            return (
+              <button
+                key={group.value}
+                type="button"
+                aria-pressed={selected}
+                onClick={() => toggleGroup(group.value)}
+                className={cn(
+                  "rounded-full border px-3 py-1 text-xs font-medium transition-colors",
+                  selected
+                    ? "border-purple-500 bg-purple-500/10 text-purple-700 dark:text-purple-300"
+                    : "border-gray-300 dark:border-white/10 text-gray-600 dark:text-gray-400 hover:border-gray-400"
+                )}
+              >
+                {group.label}
+              </button>
+            );
+          })}
+        </div>
+      </fieldset>
+      <Select
+        label="Equipment"
+        id="exercise-equipment"
+        name="exercise-equipment"
+        value={equipment}
+        onChange={(e) => setEquipment(e.target.value as Equipment)}
+        options={EQUIPMENT}
+      />
+      <Textarea
+        label="Cues"
+        id="exercise-cues"
+        name="exercise-cues"
+        value={cues}
+        onChange={(e) => setCues(e.target.value)}
+        rows={2}
+        placeholder="Optional coaching points shown with the drill"
+      />
+      {saveError && <p className="text-sm text-rose-600 dark:text-rose-400">{saveError}</p>}
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="ghost" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button type="button" variant="primary" onClick={handleSave}>
+          Add exercise
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,167 @@
+/**
+ * ExerciseNameInput Component
+ * Drill name field that suggests exercises from the library as the coach types
+ */
+
+"use client";
+
+import { useState } from "react";
+import {
+  EQUIPMENT,
+  findExercise,
+  muscleGroupLabel,
+  searchExercises,
+  type Exercise,
+} from "../../lib/exercise-library";
+import { Input, cn } from "./ui";
+
+interface ExerciseNameInputProps {
+  id: string;
+  value: string;
+  exerciseId: string;
+  catalogue: Exercise[];
+  /** Called with the typed name and the exercise it matches ("" when none) */
+  onChange: (name: string, exerciseId: string) => void;
+  /** Offered when what's typed matches no exercise */
+  onCreateCustom?: (name: string) => void;
+  error?: string;
+}
+
+function describe(exercise: Exercise): string {
+  const equipment = EQUIPMENT.find((item) => item.value === exercise.equipment)?.label ?? exercise.equipment;
+  return [exercise.muscleGroups.map(muscleGroupLabel).join(", "), equipment].filter(Boolean).join(" · ");
+}
+
+export default function ExerciseNameInput({
+  id,
+  value,
+  exerciseId,
+  catalogue,
+  onChange,
+  onCreateCustom,
+  error,
+}: ExerciseNameInputProps) {
+  const [open, setOpen] = useState(false);
+  const [active, setActive] = useState(0);
+
+  const matched = exerciseId ? catalogue.find((item) => item.id === exerciseId) : undefined;
+  const suggestions = matched && matched.name === value ? [] : searchExercises(value, catalogue);
+  const canCreate = !!onCreateCustom && value.trim() !== "" && !findExercise(value, catalogue);
+  // The "add custom" row sits after the suggestions
+  const optionCount = suggestions.length + (canCreate ? 1 : 0);
+  const expanded = open && optionCount > 0;
+  const listId = `${id}-suggestions`;
+
+  const change = (name: string) => {
+    onChange(name, findExercise(name, catalogue)?.id ?? "");
+    setActive(0);
+    setOpen(true);
+  };
+
+  const choose = (index: number) => {
+    if (index < suggestions.length) {
+      onChange(suggestions[index].name, suggestions[index].id);
+    } else if (canCreate) {
+      onCreateCustom?.(value.trim());
+    }
+    setOpen(false);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!expanded) {
+      if (e.key === "ArrowDown" && optionCount > 0) setOpen(true);
+      return;
+    }
+    if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+      e.preventDefault();
+      setActive((current) => (current + (e.key === "ArrowDown" ? 1 : optionCount - 1)) % optionCount);
+    } else if (e.key === "Enter") {
+      // Pick the suggestion instead of submitting the form
+      e.preventDefault();
+      choose(active);
+    } else if (e.key === "Escape") {
+      e.stopPropagation();
+      setOpen(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <Input
+        label="Drill Name"
+        required
+        id={id}
+        name={id}
+        type="text"
+        value={value}
+        onChange={(e) => change(e.target.value)}
+        onFocus={() => setOpen(true)}
+        onBlur={() => setOpen(false)}
+        onKeyDown={handleKeyDown}
+        placeholder="Start typing: squat, RDL, plank…"
+        autoComplete="off"
+        role="combobox"
+        aria-autocomplete="list"
+        aria-expanded={expanded}
+        aria-controls={listId}
+        aria-activedescendant={expanded ? `${listId}-${active}` : undefined}
+        helperText={
+          matched
+            ? matched.name === value.trim()
+              ? describe(matched)
+              : `Saved as ${matched.name} · ${describe(matched)}`
+            : undefined
+        }
+        error={error}
+      />
+      {expanded && (
+        <ul
+          id={listId}
+          role="listbox"
+          className="absolute left-0 right-0 top-full z-20 mt-1 max-h-72 overflow-y-auto rounded-xl border border-gray-200 dark:border-white/10 bg-white dark:bg-gray-900 py-1 shadow-lg"
+        >
+          {suggestions.map((exercise, index) => (
+            <li
+              key={exercise.id}
+              id={`${listId}-${index}`}
+              role="option"
+              aria-selected={index === active}
+              // Keep focus in the input so blur doesn't close the list before the click lands
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => choose(index)}
+              onMouseEnter={() => setActive(index)}
+              className={cn(
+                "cursor-pointer px-3 py-2",
+                index === active && "bg-purple-50 dark:bg-purple-500/10"
+              )}
+            >
+              <p className="text-sm font-medium text-gray-900 dark:text-gray-100">
+                {exercise.name}
+                {exercise.custom && (
+                  <span className="ml-1.5 text-xs font-normal text-purple-600 dark:text-purple-300">custom</span>
+                )}
+              </p>
+              <p className="text-xs text-gray-500 dark:text-gray-400">{describe(exercise)}</p>
+            </li>
+          ))}
+          {canCreate && (
+            <li
+              id={`${listId}-${suggestions.length}`}
+              role="option"
+              aria-selected={active === suggestions.length}
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => choose(suggestions.length)}
+              onMouseEnter={() => setActive(suggestions.length)}
+              className={cn(
+                "cursor-pointer px-3 py-2 text-sm text-purple-700 dark:text-purple-300",
+                active === suggestions.length && "bg-purple-50 dark:bg-purple-500/10"
+              )}
+            >
+              Add “{value.trim()}” as a custom exercise…
+            </li>
+          )}
+        </ul>
+      )}
+    </div>
+  );
+}
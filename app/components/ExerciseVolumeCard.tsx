@@ -0,0 +1,73 @@
+/**
+ * ExerciseVolumeCard Component
+ * Sets, reps and load per exercise across a list of strength workouts
+ */
+
+"use client";
+
+import { useMemo } from "react";
+import type { StrengthWorkout } from "../../lib/domain";
+import { exerciseVolume, type Exercise } from "../../lib/exercise-library";
+import { formatSeconds } from "../../lib/strength-workout";
+import { Card, SectionHeading } from "./ui";
+
+/** Exercises listed before the rest are only counted */
+const MAX_ROWS = 8;
+
+interface ExerciseVolumeCardProps {
+  workouts: StrengthWorkout[];
+  catalogue: Exercise[];
+}
+
+export default function ExerciseVolumeCard({ workouts, catalogue }: ExerciseVolumeCardProps) {
+  const volume = useMemo(() => exerciseVolume(workouts, catalogue), [workouts, catalogue]);
+  if (volume.length === 0) return null;
+
+  const rows = volume.slice(0, MAX_ROWS);
+  const hidden = volume.length - rows.length;
+
+  return (
+    <Card padding="md" className="mb-6">
+      <SectionHeading
+        as="h3"
+        title="Volume by exercise"
+        description={`Across the ${workouts.length} strength workout${workouts.length === 1 ? "" : "s"} shown. Names are matched to the exercise library, so variants count together.`}
+      />
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs uppercase tracking-wider text-gray-500 dark:text-gray-400">
+              <th className="py-2 pr-3 font-semibold">Exercise</th>
+              <th className="py-2 px-3 font-semibold text-right">Workouts</th>
+              <th className="py-2 px-3 font-semibold text-right">Sets</th>
+              <th className="py-2 px-3 font-semibold text-right">Reps / time</th>
+              <th className="py-2 pl-3 font-semibold text-right">Tonnage (kg)</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200/70 dark:divide-white/10">
+            {rows.map((row) => (
+              <tr key={row.key} className="text-gray-700 dark:text-gray-300">
+                <td className="py-2 pr-3 font-medium text-gray-900 dark:text-gray-100">{row.name}</td>
+                <td className="py-2 px-3 text-right tabular-nums">{row.workouts}</td>
+                <td className="py-2 px-3 text-right tabular-nums">{row.sets}</td>
+                <td className="py-2 px-3 text-right tabular-nums">
+                  {[row.reps > 0 ? `${row.reps} reps` : "", row.holdSeconds > 0 ? formatSeconds(row.holdSeconds) : ""]
+                    .filter(Boolean)
+                    .join(" + ") || "—"}
+                </td>
+                <td className="py-2 pl-3 text-right tabular-nums">
+                  {row.tonnageKg > 0 ? Math.round(row.tonnageKg).toLocaleString() : "—"}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      {hidden > 0 && (
+        <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+          +{hidden} more exercise{hidden === 1 ? "" : "s"}
+        </p>
+      )}
+    </Card>
+  );
+}
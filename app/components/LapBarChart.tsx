@@ -15,16 +15,10 @@
 import { useId, useState } from "react";
 import { motion, useReducedMotion } from "framer-motion";
 import { cn } from "./ui/cn";
-
-interface Lap {
-  lapDistanceInKilometers: number;
-  lapDurationInSeconds: number;
-  lapPaceInMinKm: number;
-  avgHeartRate: number;
-}
+import type { WorkoutLap } from "../../lib/domain";
 
 interface LapBarChartProps {
-  laps: Lap[];
+  laps: WorkoutLap[];
   className?: string;
   selectedLapIndex?: number | null;
   onLapClick?: (index: number | null) => void;
@@ -0,0 +1,50 @@
+/**
+ * OfflineNotice Component
+ * Shown in place of a page's data when a request failed because the device is offline.
+ * Calls onRetry automatically when the browser reports the connection is back.
+ */
+
+"use client";
+
+import { useEffect, useRef } from "react";
+import { Button, Card } from "./ui";
+
+interface OfflineNoticeProps {
+  onRetry: () => void;
+  className?: string;
+}
+
+export default function OfflineNotice({ onRetry, className }: OfflineNoticeProps) {
+  // Ref so callers can pass an inline callback without re-subscribing each render
+  const onRetryRef = useRef(onRetry);
+  useEffect(() => {
+    onRetryRef.current = onRetry;
+  }, [onRetry]);
+
+  useEffect(() => {
+    const handleOnline = () => onRetryRef.current();
+    window.addEventListener("online", handleOnline);
+    return () => window.removeEventListener("online", handleOnline);
+  }, []);
+
+  return (
+    <Card variant="glass" padding="lg" className={className ?? "mb-6 text-center"}>
+      <div className="mx-auto mb-4 flex h-14 w-14 items-center justify-center rounded-full bg-amber-500/10 text-amber-500">
+        <svg className="h-7 w-7" fill="none" viewBox="0 0 24 24" stroke="currentColor" aria-hidden>
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 3l18 18M8.53 16.11a5 5 0 016.95 0M5.1 12.68a10 10 0 012.9-1.9m3.7-.7a10 10 0 017.2 2.6M1.7 9.26a15 15 0 013.4-2.3m5.5-1.4A15 15 0 0122.3 9.26M12 20h.01" />
+        </svg>
+      </div>
+      <h2 className="display-heading text-xl font-bold text-gray-900 dark:text-gray-50">
+        You&apos;re offline
+      </h2>
+      <p className="mt-2 text-sm text-gray-600 dark:text-gray-400">
+        We couldn&apos;t reach GooseNet. We&apos;ll try again as soon as your connection is back.
+      </p>
+      <div className="mt-6">
+        <Button variant="primary" onClick={onRetry}>
+          Try again
+        </Button>
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,190 @@
+/**
+ * PaceZonesModal Component
+ * Sets an athlete's pace zones from a threshold pace or a race result
+ */
+
+"use client";
+
+import { useState } from "react";
+import {
+  formatRaceTime,
+  PACE_ZONES,
+  parseRaceTime,
+  RACE_DISTANCES,
+  resolvePaceZone,
+  savePaceProfile,
+  thresholdFromRace,
+  type PaceProfile,
+} from "../../lib/pace-zones";
+import { minutesToPaceString, paceStringToMinutes } from "../../lib/running-workout";
+import { Button, Input, Modal, Select } from "./ui";
+
+interface PaceZonesModalProps {
+  open: boolean;
+  onClose: () => void;
+  /** Owner of the profile */
+  coachName: string;
+  athleteName: string;
+  /** Existing profile to edit, if any */
+  profile: PaceProfile | null;
+  onSaved?: (profile: PaceProfile) => void;
+}
+
+export default function PaceZonesModal(props: PaceZonesModalProps) {
+  return (
+    <Modal
+      open={props.open}
+      onClose={props.onClose}
+      title="Pace zones"
+      description={`Training paces for ${props.athleteName}. Steps targeting a zone use these when sent.`}
+      size="md"
+    >
+      {/* Remount on open so the fields pick up the saved profile */}
+      {props.open && <PaceZonesForm {...props} />}
+    </Modal>
+  );
+}
+
+/**
+ * Zone table for a profile, fastest zone last
+ */
+export function PaceZoneTable({ profile }: { profile: Pick<PaceProfile, "thresholdPace"> }) {
+  return (
+    <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1.5 text-sm">
+      {PACE_ZONES.map((zone) => {
+        const range = resolvePaceZone(profile, zone.id);
+        return (
+          <div key={zone.id} className="contents">
+            <dt className="font-semibold text-gray-700 dark:text-gray-300">
+              {zone.label} <span className="text-gray-400 dark:text-gray-500">({zone.short})</span>
+            </dt>
+            <dd className="tabular-nums text-gray-600 dark:text-gray-400">
+              {range ? `${minutesToPaceString(range.high)} – ${minutesToPaceString(range.low)} /km` : "—"}
+            </dd>
+          </div>
+        );
+      })}
+    </dl>
+  );
+}
+
+function PaceZonesForm({ onClose, coachName, athleteName, profile, onSaved }: PaceZonesModalProps) {
+  const raceSource = profile?.source.kind === "race" ? profile.source : null;
+  const [method, setMethod] = useState<"threshold" | "race">(raceSource ? "race" : "threshold");
+  const [threshold, setThreshold] = useState(
+    profile && !raceSource ? minutesToPaceString(profile.thresholdPace) : ""
+  );
+  const [raceKm, setRaceKm] = useState(String(raceSource?.distanceKm ?? RACE_DISTANCES[0].km));
+  const [raceTime, setRaceTime] = useState(raceSource ? formatRaceTime(raceSource.timeSeconds) : "");
+  const [error, setError] = useState<string | null>(null);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  const raceSeconds = parseRaceTime(raceTime);
+  const thresholdPace =
+    method === "threshold"
+      ? paceStringToMinutes(threshold)
+      : raceSeconds
+        ? thresholdFromRace(parseFloat(raceKm), raceSeconds)
+        : null;
+  const draft: Omit<PaceProfile, "updatedAt"> | null =
+    thresholdPace && thresholdPace > 0
+      ? {
+          athleteName,
+          thresholdPace,
+          source:
+            method === "race" && raceSeconds
+              ? { kind: "race", distanceKm: parseFloat(raceKm), timeSeconds: raceSeconds }
+              : { kind: "threshold" },
+        }
+      : null;
+
+  const handleSave = () => {
+    if (!draft) {
+      setError(method === "threshold" ? "Enter a threshold pace as mm:ss" : "Enter the race time as mm:ss or h:mm:ss");
+      return;
+    }
+    let saved: PaceProfile;
+    try {
+      saved = savePaceProfile(coachName, draft)[athleteName];
+    } catch (err) {
+      // Builders read zones from storage when sending, so unsaved zones must not look saved
+      setSaveError(err instanceof Error ? err.message : "Failed to save the pace zones");
+      return;
+    }
+    onSaved?.(saved);
+    onClose();
+  };
+
+  return (
+    <div className="space-y-4">
+      <Select
+        label="Based on"
+        id="pace-zones-method"
+        name="pace-zones-method"
+        value={method}
+        onChange={(e) => {
+          setMethod(e.target.value as "threshold" | "race");
+          setError(null);
+        }}
+        options={[
+          { label: "Threshold pace", value: "threshold" },
+          { label: "Recent race result", value: "race" },
+        ]}
+      />
+
+      {method === "threshold" ? (
+        <Input
+          label="Threshold Pace (min/km)"
+          id="pace-zones-threshold"
+          name="pace-zones-threshold"
+          value={threshold}
+          onChange={(e) => setThreshold(e.target.value)}
+          placeholder="e.g., 4:15"
+          helperText="Pace the athlete could hold for about an hour"
+          error={error ?? undefined}
+        />
+      ) : (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          <Select
+            label="Distance"
+            id="pace-zones-race-distance"
+            name="pace-zones-race-distance"
+            value={raceKm}
+            onChange={(e) => setRaceKm(e.target.value)}
+            options={RACE_DISTANCES.map((race) => ({ label: race.label, value: String(race.km) }))}
+          />
+          <Input
+            label="Time"
+            id="pace-zones-race-time"
+            name="pace-zones-race-time"
+            value={raceTime}
+            onChange={(e) => setRaceTime(e.target.value)}
+            placeholder="e.g., 20:30"
+            helperText="mm:ss or h:mm:ss"
+            error={error ?? undefined}
+          />
+        </div>
+      )}
+
+      {draft && (
+        <div className="rounded-xl border border-gray-200 dark:border-white/10 bg-gray-50/70 dark:bg-white/[0.02] p-4">
+          <p className="mb-3 text-xs font-semibold uppercase tracking-wider text-gray-500 dark:text-gray-400">
+            Threshold {minutesToPaceString(draft.thresholdPace)} /km
+          </p>
+          <PaceZoneTable profile={draft} />
+        </div>
+      )}
+
+      {saveError && <p className="text-sm text-rose-600 dark:text-rose-400">{saveError}</p>}
+
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="ghost" onClick={onClose}>
+          Cancel
+        </Button>
+        <Button type="button" variant="primary" onClick={handleSave}>
+          Save zones
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,262 @@
+/**
+ * PlannedWorkoutActions Component
+ * Edit, reschedule, duplicate and delete actions for a planned running or strength workout
+ */
+
+"use client";
+
+import Link from "next/link";
+import { useState } from "react";
+import { apiService, type PlannedWorkoutRequest } from "../services/api";
+import { fromWorkoutDate, parseLocalDate, sendScheduled, toWorkoutDate } from "../../lib/schedule";
+import { formatScheduleDate } from "./ScheduleDatesField";
+import { Button, Input, Modal } from "./ui";
+
+type WorkoutKind = "running" | "strength";
+type ActionMode = "reschedule" | "duplicate" | "delete";
+
+interface PlannedWorkoutActionsProps {
+  kind: WorkoutKind;
+  workoutId: string;
+  workoutName: string;
+  /** Stored date, "M/d/yyyy" */
+  date: string;
+  athleteNames: string[];
+  /**
+   * The serialized workout to send for a date (already in the API's format);
+   * strength workouts carry their date in the body
+   */
+  jsonBodyFor: (date: string) => string;
+  /** Called with the new stored date ("M/d/yyyy") */
+  onRescheduled: (date: string) => void;
+  onDeleted: () => void;
+}
+
+const MODAL_TITLE: Record<ActionMode, string> = {
+  reschedule: "Reschedule workout",
+  duplicate: "Duplicate workout",
+  delete: "Delete workout",
+};
+
+/**
+ * Date as each add/update endpoint expects it (running: yyyy-MM-dd, strength: MM/dd/yyyy)
+ */
+function requestDate(kind: WorkoutKind, value: string): string {
+  if (kind === "running") return value;
+  const [year, month, day] = value.split("-");
+  return `${month}/${day}/${year}`;
+}
+
+export default function PlannedWorkoutActions(props: PlannedWorkoutActionsProps) {
+  const [open, setOpen] = useState(false);
+  // Kept after closing so the title doesn't change while the modal animates out
+  const [mode, setMode] = useState<ActionMode>("reschedule");
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const openAction = (action: ActionMode) => {
+    setMode(action);
+    setOpen(true);
+  };
+  const close = () => setOpen(false);
+
+  const editHref = `/workouts/new/${props.kind}?edit=${encodeURIComponent(props.workoutId)}`;
+
+  return (
+    <>
+      <Link href={editHref}>
+        <Button variant="secondary" size="sm">
+          Edit
+        </Button>
+      </Link>
+      <Button variant="secondary" size="sm" onClick={() => openAction("reschedule")}>
+        Reschedule
+      </Button>
+      {/* A copy is sent per athlete, so without any there's nothing to send */}
+      <Button
+        variant="secondary"
+        size="sm"
+        onClick={() => openAction("duplicate")}
+        disabled={props.athleteNames.length === 0}
+        title={props.athleteNames.length === 0 ? "No athletes to send a copy to" : undefined}
+      >
+        Duplicate
+      </Button>
+      <Button variant="danger" size="sm" onClick={() => openAction("delete")}>
+        Delete
+      </Button>
+      {notice && (
+        <span role="status" className="text-xs font-semibold text-teal-600 dark:text-teal-300">
+          {notice}
+        </span>
+      )}
+
+      <Modal
+        open={open}
+        onClose={close}
+        title={MODAL_TITLE[mode]}
+        description={props.workoutName}
+        size="sm"
+      >
+        {/* Remount per action so each starts from the workout's current state */}
+        {open && mode === "delete" && <DeleteForm {...props} onClose={close} />}
+        {open && mode !== "delete" && (
+          <DateForm
+            key={mode}
+            {...props}
+            mode={mode}
+            onClose={close}
+            onDuplicated={(date) => setNotice(`Copy planned for ${formatScheduleDate(date)}`)}
+          />
+        )}
+      </Modal>
+    </>
+  );
+}
+
+interface FormProps extends PlannedWorkoutActionsProps {
+  onClose: () => void;
+}
+
+function DateForm({
+  kind,
+  workoutId,
+  date,
+  athleteNames,
+  jsonBodyFor,
+  onRescheduled,
+  mode,
+  onClose,
+  onDuplicated,
+}: FormProps & { mode: "reschedule" | "duplicate"; onDuplicated: (date: string) => void }) {
+  const [value, setValue] = useState(() => fromWorkoutDate(date));
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  // Copies that didn't go through, so a retry doesn't duplicate the rest again
+  const [failed, setFailed] = useState<PlannedWorkoutRequest[] | null>(null);
+
+  const reschedule = async () => {
+    const update = { jsonBody: jsonBodyFor(requestDate(kind, value)), date: requestDate(kind, value) };
+    const response =
+      kind === "running"
+        ? await apiService.updateWorkout(workoutId, update)
+        : await apiService.updateStrengthWorkout(workoutId, update);
+    if (response.status !== 200) {
+      throw new Error(`Failed to reschedule: ${response.message || "Unknown error"}`);
+    }
+    onRescheduled(toWorkoutDate(value));
+    onClose();
+  };
+
+  const duplicate = async () => {
+    // The copy goes to each athlete; the original's flock isn't known here
+    const requests =
+      failed ??
+      athleteNames.map((athlete) => ({
+        targetName: athlete,
+        isFlock: false,
+        jsonBody: jsonBodyFor(requestDate(kind, value)),
+        date: requestDate(kind, value),
+      }));
+    const [result] = await sendScheduled([{ date: value, requests }], (request) =>
+      kind === "running" ? apiService.addWorkout(request) : apiService.addStrengthWorkout(request)
+    );
+    if (!result.ok) {
+      setFailed(result.failed);
+      throw new Error(
+        `Not sent to ${result.failed.map((request) => request.targetName).join(", ")}: ${result.error}`
+      );
+    }
+    onDuplicated(value);
+    onClose();
+  };
+
+  const handleSubmit = async () => {
+    if (!parseLocalDate(value)) {
+      setError("Pick a date");
+      return;
+    }
+    setSaving(true);
+    setError(null);
+    try {
+      await (mode === "reschedule" ? reschedule() : duplicate());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Something went wrong. Please try again.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <Input
+        label={mode === "reschedule" ? "New date" : "Date of the copy"}
+        id={`planned-workout-${mode}-date`}
+        name={`planned-workout-${mode}-date`}
+        type="date"
+        value={value}
+        onChange={(e) => setValue(e.target.value)}
+        // A partly sent copy is retried for the same date
+        disabled={saving || !!failed}
+        helperText={
+          mode === "duplicate"
+            ? athleteNames.length > 1
+              ? `Each of ${athleteNames.join(", ")} gets their own copy. Copies of a flock workout aren't sent to the flock, so they're edited and deleted per athlete.`
+              : `A copy is planned for ${athleteNames[0]}.`
+            : "Moves the workout for every athlete it was sent to."
+        }
+        error={error ?? undefined}
+      />
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="ghost" onClick={onClose} disabled={saving}>
+          Cancel
+        </Button>
+        <Button type="button" variant="primary" onClick={handleSubmit} loading={saving}>
+          {failed ? "Retry" : mode === "reschedule" ? "Reschedule" : "Duplicate"}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+function DeleteForm({ kind, workoutId, athleteNames, onDeleted, onClose }: FormProps) {
+  const [error, setError] = useState<string | null>(null);
+  const [deleting, setDeleting] = useState(false);
+
+  const handleDelete = async () => {
+    setDeleting(true);
+    setError(null);
+    try {
+      const response =
+        kind === "running"
+          ? await apiService.deleteWorkout(workoutId)
+          : await apiService.deleteStrengthWorkout(workoutId);
+      if (response.status !== 200) {
+        throw new Error(`Failed to delete: ${response.message || "Unknown error"}`);
+      }
+      onClose();
+      onDeleted();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete. Please try again.");
+      setDeleting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-600 dark:text-gray-400">
+        This removes the workout for{" "}
+        {athleteNames.length === 1 ? athleteNames[0] : `all ${athleteNames.length} athletes it was sent to`}. It
+        can&apos;t be undone.
+      </p>
+      {error && <p className="text-sm text-rose-600 dark:text-rose-400">{error}</p>}
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="ghost" onClick={onClose} disabled={deleting}>
+          Cancel
+        </Button>
+        <Button type="button" variant="danger" onClick={handleDelete} loading={deleting}>
+          Delete workout
+        </Button>
+      </div>
+    </div>
+  );
+}
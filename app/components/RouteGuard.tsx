@@ -0,0 +1,25 @@
+/**
+ * RouteGuard Component
+ * Enforces the role rules in ROUTE_ACCESS for every page
+ *
+ * Runs on the client: the session token lives in localStorage, so
+ * middleware never sees it and cannot make this decision. Signed-out
+ * visitors are left to the page's own login redirect (useRequireAuth).
+ */
+
+"use client";
+
+import { usePathname } from "next/navigation";
+import { useAuth } from "../../context/AuthContext";
+import { checkRoleAccess, findRouteRule } from "../../lib/access";
+import AccessDenied from "./AccessDenied";
+
+export default function RouteGuard({ children }: { children: React.ReactNode }) {
+  const pathname = usePathname();
+  const { user, loading } = useAuth();
+
+  const rule = pathname ? findRouteRule(pathname) : null;
+  const denial = rule?.roles && !loading && user ? checkRoleAccess(user.role, rule.roles) : null;
+
+  return denial ? <AccessDenied denial={denial} /> : <>{children}</>;
+}
@@ -0,0 +1,151 @@
+/**
+ * RunningTemplateLibrary Component
+ * Lists a coach's saved running workout templates with search, load, duplicate and delete
+ */
+
+"use client";
+
+import { useState } from "react";
+import {
+  deleteTemplate,
+  duplicateTemplate,
+  listTemplates,
+  searchTemplates,
+  type RunningWorkoutTemplate,
+} from "../../lib/workout-templates";
+import { countSteps } from "../../lib/running-workout";
+import { Badge, Button, Input, Modal } from "./ui";
+
+interface RunningTemplateLibraryProps {
+  open: boolean;
+  onClose: () => void;
+  /** Owner of the templates */
+  userName: string;
+  /** Called with the chosen template; the library closes afterwards */
+  onLoad: (template: RunningWorkoutTemplate) => void;
+}
+
+function summarize(template: RunningWorkoutTemplate): string {
+  const items = template.blocks.length;
+  return `${items} item${items === 1 ? "" : "s"} · ${countSteps(template.blocks)} steps`;
+}
+
+export default function RunningTemplateLibrary({ open, onClose, userName, onLoad }: RunningTemplateLibraryProps) {
+  return (
+    <Modal
+      open={open}
+      onClose={onClose}
+      title="Workout templates"
+      description="Load a saved structure into the builder."
+      size="lg"
+    >
+      {/* Remount on open so the list reflects templates saved since last time */}
+      {open && (
+        <TemplateList
+          userName={userName}
+          onLoad={(template) => {
+            onLoad(template);
+            onClose();
+          }}
+        />
+      )}
+    </Modal>
+  );
+}
+
+function TemplateList({ userName, onLoad }: Pick<RunningTemplateLibraryProps, "userName" | "onLoad">) {
+  const [templates, setTemplates] = useState(() => listTemplates(userName));
+  const [search, setSearch] = useState("");
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+
+  const visible = searchTemplates(templates, search);
+
+  if (templates.length === 0) {
+    return (
+      <p className="py-6 text-center text-sm text-gray-600 dark:text-gray-400">
+        No templates yet. Build a workout and choose “Save as template” to reuse it.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <Input
+        id="template-search"
+        name="template-search"
+        type="search"
+        value={search}
+        onChange={(e) => setSearch(e.target.value)}
+        placeholder="Search by name or tag"
+        aria-label="Search templates"
+      />
+
+      {visible.length === 0 && (
+        <p className="py-4 text-center text-sm text-gray-600 dark:text-gray-400">No templates match “{search}”.</p>
+      )}
+
+      <ul className="max-h-[50vh] space-y-3 overflow-y-auto pr-1">
+        {visible.map((template) => (
+          <li
+            key={template.id}
+            className="rounded-xl border border-gray-200 dark:border-white/10 bg-white dark:bg-gray-900/60 p-3 sm:p-4"
+          >
+            <div className="flex flex-wrap items-start justify-between gap-2">
+              <div className="min-w-0">
+                <p className="font-semibold text-gray-900 dark:text-gray-100 break-words">{template.name}</p>
+                <p className="text-xs text-gray-500 dark:text-gray-400">{summarize(template)}</p>
+              </div>
+              <Button type="button" variant="primary" size="sm" onClick={() => onLoad(template)}>
+                Load
+              </Button>
+            </div>
+            {template.description && (
+              <p className="mt-2 text-sm text-gray-600 dark:text-gray-400 break-words">{template.description}</p>
+            )}
+            {template.tags.length > 0 && (
+              <div className="mt-2 flex flex-wrap gap-1.5">
+                {template.tags.map((tag) => (
+                  <Badge key={tag} variant="info" size="sm">
+                    {tag}
+                  </Badge>
+                ))}
+              </div>
+            )}
+            <div className="mt-3 flex items-center gap-2">
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => setTemplates(duplicateTemplate(userName, template.id))}
+              >
+                Duplicate
+              </Button>
+              {confirmDeleteId === template.id ? (
+                <>
+                  <Button
+                    type="button"
+                    variant="danger"
+                    size="sm"
+                    onClick={() => {
+                      setTemplates(deleteTemplate(userName, template.id));
+                      setConfirmDeleteId(null);
+                    }}
+                  >
+                    Confirm delete
+                  </Button>
+                  <Button type="button" variant="ghost" size="sm" onClick={() => setConfirmDeleteId(null)}>
+                    Keep
+                  </Button>
+                </>
+              ) : (
+                <Button type="button" variant="ghost" size="sm" onClick={() => setConfirmDeleteId(template.id)}>
+                  Delete
+                </Button>
+              )}
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,132 @@
+/**
+ * RunningWorkoutPreview Component
+ * Live estimate of a workout being built: totals, time per intensity and a pace profile
+ */
+
+"use client";
+
+import { useMemo } from "react";
+import LapBarChart from "./LapBarChart";
+import { convertIntervalsToLaps, summarizeIntervals } from "../../lib/domain";
+import { getPaceProfile, resolvePaceZone } from "../../lib/pace-zones";
+import {
+  buildGarminJson,
+  STEP_TYPES,
+  stepTypeForIntensity,
+  type StepType,
+  type WorkoutItem,
+} from "../../lib/running-workout";
+import { Card, SectionHeading, StatTile } from "./ui";
+
+interface RunningWorkoutPreviewProps {
+  blocks: WorkoutItem[];
+  /** With a single receiving athlete, pace-zone steps are estimated at their zones */
+  coachName?: string;
+  athleteName?: string;
+}
+
+/** Matches the intensity colours on the planned workout page */
+const INTENSITY_COLOR: Record<StepType, string> = {
+  warmup: "bg-blue-500",
+  run: "bg-purple-500",
+  recovery: "bg-teal-500",
+  rest: "bg-teal-400",
+  cooldown: "bg-gray-400",
+};
+
+function formatSeconds(total: number): string {
+  if (!total || total <= 0) return "0:00";
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = Math.round(total % 60);
+  if (h > 0) return `${h}:${m.toString().padStart(2, "0")}:${s.toString().padStart(2, "0")}`;
+  return `${m}:${s.toString().padStart(2, "0")}`;
+}
+
+export default function RunningWorkoutPreview({ blocks, coachName, athleteName }: RunningWorkoutPreviewProps) {
+  const { laps, summary, intensities } = useMemo(() => {
+    // Only rendered once there are blocks, i.e. client-side, so storage is available
+    const profile = coachName && athleteName ? getPaceProfile(coachName, athleteName) : null;
+    // Estimate from the JSON the athlete's watch will get, as the planned workout pages do
+    const intervals = buildGarminJson(
+      blocks,
+      "",
+      "",
+      profile ? (zone) => resolvePaceZone(profile, zone) : undefined
+    ).steps;
+    const summary = summarizeIntervals(intervals);
+    const byType = new Map<StepType, number>();
+    Object.entries(summary.secondsByIntensity).forEach(([intensity, seconds]) => {
+      const type = stepTypeForIntensity(intensity);
+      byType.set(type, (byType.get(type) ?? 0) + seconds);
+    });
+    return {
+      laps: convertIntervalsToLaps(intervals),
+      summary,
+      intensities: STEP_TYPES.filter((option) => byType.has(option.value)).map((option) => ({
+        ...option,
+        seconds: byType.get(option.value) ?? 0,
+      })),
+    };
+  }, [blocks, coachName, athleteName]);
+
+  if (summary.steps === 0) return null;
+
+  return (
+    <Card padding="md" className="space-y-5">
+      <SectionHeading
+        as="h3"
+        title="Preview"
+        description="Estimated from step lengths and pace targets; distance is only known for steps with a pace or a set distance."
+      />
+
+      <div className="grid grid-cols-3 gap-3 sm:gap-4">
+        <StatTile label="Est. Duration" value={formatSeconds(Math.round(summary.durationSeconds))} accent="purple" compact />
+        <StatTile
+          label="Est. Distance"
+          value={summary.distanceKm.toFixed(summary.distanceKm >= 10 ? 1 : 2)}
+          unit="km"
+          accent="brand"
+          compact
+        />
+        <StatTile label="Steps" value={String(summary.steps)} accent="teal" compact />
+      </div>
+
+      {summary.untimedSteps > 0 && (
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          {summary.untimedSteps} step{summary.untimedSteps === 1 ? "" : "s"} (lap button, or a distance without a
+          pace) not included in the duration.
+        </p>
+      )}
+
+      {summary.durationSeconds > 0 && (
+        <div>
+          <div className="flex h-3 w-full overflow-hidden rounded-full bg-gray-100 dark:bg-white/5">
+            {intensities.map((intensity) => (
+              <div
+                key={intensity.value}
+                className={INTENSITY_COLOR[intensity.value]}
+                style={{ width: `${(intensity.seconds / summary.durationSeconds) * 100}%` }}
+              />
+            ))}
+          </div>
+          <ul className="mt-3 flex flex-wrap gap-x-5 gap-y-2 text-sm">
+            {intensities.map((intensity) => (
+              <li key={intensity.value} className="flex items-center gap-2 text-gray-700 dark:text-gray-300">
+                <span className={`h-2.5 w-2.5 rounded-full ${INTENSITY_COLOR[intensity.value]}`} />
+                {intensity.label}
+                <span className="tabular-nums text-gray-500 dark:text-gray-400">{formatSeconds(Math.round(intensity.seconds))}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {laps.length > 0 && (
+        <div className="w-full max-w-full overflow-hidden">
+          <LapBarChart laps={laps} className="border-0 shadow-none p-0" />
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,94 @@
+/**
+ * SaveTemplateModal Component
+ * Saves the running builder's current blocks as a named, tagged template
+ */
+
+"use client";
+
+import { useState } from "react";
+import type { WorkoutItem } from "../../lib/running-workout";
+import { parseTags, saveTemplate } from "../../lib/workout-templates";
+import { Button, Input, Modal, Textarea } from "./ui";
+
+interface SaveTemplateModalProps {
+  open: boolean;
+  onClose: () => void;
+  /** Owner of the template */
+  userName: string;
+  blocks: WorkoutItem[];
+  /** Prefills (usually the workout's name and description) */
+  defaultName: string;
+  defaultDescription: string;
+  onSaved?: () => void;
+}
+
+export default function SaveTemplateModal(props: SaveTemplateModalProps) {
+  return (
+    <Modal
+      open={props.open}
+      onClose={props.onClose}
+      title="Save as template"
+      description="Reuse this structure for future workouts."
+      size="md"
+    >
+      {/* Remount on open so the fields pick up the current workout */}
+      {props.open && <SaveTemplateForm {...props} />}
+    </Modal>
+  );
+}
+
+function SaveTemplateForm({ onClose, userName, blocks, defaultName, defaultDescription, onSaved }: SaveTemplateModalProps) {
+  const [name, setName] = useState(defaultName);
+  const [tags, setTags] = useState("");
+  const [description, setDescription] = useState(defaultDescription);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSave = () => {
+    if (!name.trim()) {
+      setError("Template name is required");
+      return;
+    }
+    saveTemplate(userName, { name, tags: parseTags(tags), description, blocks });
+    onSaved?.();
+    onClose();
+  };
+
+  return (
+    <div className="space-y-4">
+      <Input
+        label="Template Name"
+        id="template-name"
+        name="template-name"
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        placeholder="e.g., 6x800m @ 3:30"
+        error={error ?? undefined}
+      />
+      <Input
+        label="Tags"
+        id="template-tags"
+        name="template-tags"
+        value={tags}
+        onChange={(e) => setTags(e.target.value)}
+        placeholder="e.g., track, vo2max"
+        helperText="Comma-separated"
+      />
+      <Textarea
+        label="Description"
+        id="template-description"
+        name="template-description"
+        value={description}
+        onChange={(e) => setDescription(e.target.value)}
+        rows={2}
+      />
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="ghost" onClick={onClose}>
+          Cancel
+        </Button>
+        <Button type="button" variant="primary" onClick={handleSave}>
+          Save template
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,294 @@
+/**
+ * ScheduleDatesField Component
+ * Picks the date(s) a workout is sent for: one date, a weekly pattern or a hand-picked list,
+ * with a calendar preview of the result. Also exports ScheduleResults for per-date outcomes.
+ */
+
+"use client";
+
+import { useMemo, useState } from "react";
+import {
+  MAX_SCHEDULE_DATES,
+  parseLocalDate,
+  resolveScheduleDates,
+  WEEKDAY_LABELS,
+  type ScheduleMode,
+  type ScheduleResult,
+  type WorkoutSchedule,
+} from "../../lib/schedule";
+import { Badge, Button, Input, Tabs, cn } from "./ui";
+
+interface ScheduleDatesFieldProps {
+  schedule: WorkoutSchedule;
+  onChange: (schedule: WorkoutSchedule) => void;
+  error?: string;
+  /** Offer just the one date, e.g. when rescheduling an existing workout */
+  singleOnly?: boolean;
+}
+
+const MODE_TABS: { value: ScheduleMode; label: string }[] = [
+  { value: "single", label: "One date" },
+  { value: "weekly", label: "Weekly" },
+  { value: "dates", label: "Pick dates" },
+];
+
+/**
+ * "Tue, Oct 20, 2026" style label for a "yyyy-MM-dd" date
+ */
+export function formatScheduleDate(value: string): string {
+  const date = parseLocalDate(value);
+  if (!date) return value;
+  return date.toLocaleDateString(undefined, { weekday: "short", month: "short", day: "numeric", year: "numeric" });
+}
+
+export default function ScheduleDatesField({ schedule, onChange, error, singleOnly }: ScheduleDatesFieldProps) {
+  const [pickedDate, setPickedDate] = useState("");
+  const dates = useMemo(() => resolveScheduleDates(schedule), [schedule]);
+
+  const update = (changes: Partial<WorkoutSchedule>) => onChange({ ...schedule, ...changes });
+
+  const toggleWeekday = (day: number) =>
+    update({
+      weekdays: schedule.weekdays.includes(day)
+        ? schedule.weekdays.filter((d) => d !== day)
+        : [...schedule.weekdays, day].sort(),
+    });
+
+  const addPickedDate = () => {
+    if (!parseLocalDate(pickedDate)) return;
+    if (!schedule.dates.includes(pickedDate)) update({ dates: [...schedule.dates, pickedDate].sort() });
+    setPickedDate("");
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <span className="text-sm font-medium text-gray-700 dark:text-gray-300">
+          Workout Date{schedule.mode === "single" ? "" : "s"}
+        </span>
+        {!singleOnly && (
+          <Tabs
+            items={MODE_TABS}
+            value={schedule.mode}
+            onChange={(mode) => update({ mode })}
+            variant="pills"
+            size="sm"
+            ariaLabel="Schedule type"
+          />
+        )}
+      </div>
+
+      {schedule.mode === "single" && (
+        <Input
+          id="workoutDate"
+          name="workoutDate"
+          type="date"
+          aria-label="Workout date"
+          value={schedule.date}
+          onChange={(e) => update({ date: e.target.value })}
+          error={error}
+        />
+      )}
+
+      {schedule.mode === "weekly" && (
+        <div className="space-y-3">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <Input
+              label="Starting"
+              id="scheduleStart"
+              name="scheduleStart"
+              type="date"
+              value={schedule.date}
+              onChange={(e) => update({ date: e.target.value })}
+            />
+            <Input
+              label="For (weeks)"
+              id="scheduleWeeks"
+              name="scheduleWeeks"
+              type="number"
+              min={1}
+              value={schedule.weeks || ""}
+              onChange={(e) => update({ weeks: parseInt(e.target.value, 10) || 0 })}
+            />
+          </div>
+          <div className="flex flex-wrap gap-1.5" role="group" aria-label="Days of the week">
+            {WEEKDAY_LABELS.map((label, day) => {
+              const active = schedule.weekdays.includes(day);
+              return (
+                <button
+                  key={label}
+                  type="button"
+                  aria-pressed={active}
+                  onClick={() => toggleWeekday(day)}
+                  className={cn(
+                    "h-9 min-w-12 rounded-lg px-3 text-xs font-semibold transition-colors",
+                    active
+                      ? "bg-blue-600 text-white dark:bg-blue-500"
+                      : "bg-gray-100 text-gray-600 hover:bg-gray-200 dark:bg-white/5 dark:text-gray-300 dark:hover:bg-white/10"
+                  )}
+                >
+                  {label}
+                </button>
+              );
+            })}
+          </div>
+          {error && <p className="text-xs text-rose-600 dark:text-rose-400">{error}</p>}
+        </div>
+      )}
+
+      {schedule.mode === "dates" && (
+        <div className="space-y-3">
+          <div className="flex items-start gap-2">
+            <Input
+              id="schedulePick"
+              name="schedulePick"
+              type="date"
+              aria-label="Date to add"
+              value={pickedDate}
+              onChange={(e) => setPickedDate(e.target.value)}
+              className="flex-1"
+            />
+            <Button type="button" variant="secondary" onClick={addPickedDate} disabled={!parseLocalDate(pickedDate)}>
+              Add
+            </Button>
+          </div>
+          {schedule.dates.length > 0 && (
+            <div className="flex flex-wrap gap-1.5">
+              {schedule.dates.map((date) => (
+                <span
+                  key={date}
+                  className="inline-flex items-center gap-1 rounded-full bg-blue-50 py-1 pl-3 pr-1 text-xs font-medium text-blue-700 dark:bg-blue-400/10 dark:text-blue-300"
+                >
+                  {formatScheduleDate(date)}
+                  <button
+                    type="button"
+                    onClick={() => update({ dates: schedule.dates.filter((d) => d !== date) })}
+                    className="rounded-full p-0.5 hover:bg-blue-100 dark:hover:bg-blue-400/20"
+                    aria-label={`Remove ${formatScheduleDate(date)}`}
+                  >
+                    <svg className="h-3.5 w-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                      <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+                    </svg>
+                  </button>
+                </span>
+              ))}
+            </div>
+          )}
+          {error && <p className="text-xs text-rose-600 dark:text-rose-400">{error}</p>}
+        </div>
+      )}
+
+      {schedule.mode !== "single" && dates.length > 0 && dates.length <= MAX_SCHEDULE_DATES && (
+        <ScheduleCalendar dates={dates} />
+      )}
+    </div>
+  );
+}
+
+/**
+ * Month grids from the first to the last scheduled date, scheduled days highlighted
+ */
+function ScheduleCalendar({ dates }: { dates: string[] }) {
+  const selected = new Set(dates);
+  const first = parseLocalDate(dates[0]);
+  const last = parseLocalDate(dates[dates.length - 1]);
+  if (!first || !last) return null;
+
+  const months: Date[] = [];
+  for (
+    let month = new Date(first.getFullYear(), first.getMonth(), 1);
+    month <= last;
+    month = new Date(month.getFullYear(), month.getMonth() + 1, 1)
+  ) {
+    months.push(month);
+  }
+
+  return (
+    <div className="rounded-xl border border-gray-200 dark:border-white/10 bg-gray-50/70 dark:bg-white/[0.02] p-4">
+      <p className="mb-3 text-xs font-semibold uppercase tracking-wider text-gray-500 dark:text-gray-400">
+        {dates.length} date{dates.length === 1 ? "" : "s"}
+      </p>
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+        {months.map((month) => {
+          const daysInMonth = new Date(month.getFullYear(), month.getMonth() + 1, 0).getDate();
+          const cells: (number | null)[] = [
+            ...Array.from({ length: month.getDay() }, () => null),
+            ...Array.from({ length: daysInMonth }, (_, i) => i + 1),
+          ];
+          return (
+            <div key={month.toISOString()}>
+              <p className="mb-1.5 text-xs font-semibold text-gray-700 dark:text-gray-300">
+                {month.toLocaleDateString(undefined, { month: "long", year: "numeric" })}
+              </p>
+              <div className="grid grid-cols-7 gap-0.5 text-center text-[11px] tabular-nums">
+                {WEEKDAY_LABELS.map((label) => (
+                  <span key={label} className="text-gray-400 dark:text-gray-500">
+                    {label.charAt(0)}
+                  </span>
+                ))}
+                {cells.map((day, i) => {
+                  if (day === null) return <span key={`blank-${i}`} />;
+                  const key = `${month.getFullYear()}-${String(month.getMonth() + 1).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+                  return (
+                    <span
+                      key={key}
+                      className={cn(
+                        "rounded py-0.5",
+                        selected.has(key)
+                          ? "bg-blue-600 font-semibold text-white dark:bg-blue-500"
+                          : "text-gray-500 dark:text-gray-400"
+                      )}
+                    >
+                      {day}
+                    </span>
+                  );
+                })}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+interface ScheduleResultsProps<T> {
+  results: ScheduleResult<T>[];
+  onRetry: () => void;
+  onDismiss: () => void;
+  retrying?: boolean;
+}
+
+/**
+ * Per-date outcome of sending a scheduled workout, with a retry for the dates that failed
+ */
+export function ScheduleResults<T>({ results, onRetry, onDismiss, retrying }: ScheduleResultsProps<T>) {
+  const failed = results.filter((result) => !result.ok).length;
+
+  return (
+    <div className="rounded-xl border border-rose-200 dark:border-rose-500/30 bg-rose-50/40 dark:bg-rose-500/5 p-4 space-y-3">
+      <p className="text-sm font-semibold text-gray-900 dark:text-white">
+        {failed} of {results.length} date{results.length === 1 ? "" : "s"} failed
+      </p>
+      <ul className="space-y-1.5">
+        {results.map((result) => (
+          <li key={result.date} className="flex flex-wrap items-center gap-2 text-sm">
+            <Badge variant={result.ok ? "success" : "danger"} size="sm" dot>
+              {result.ok ? "Sent" : "Failed"}
+            </Badge>
+            <span className="font-medium text-gray-700 dark:text-gray-300">{formatScheduleDate(result.date)}</span>
+            {result.error && <span className="text-xs text-rose-600 dark:text-rose-400">{result.error}</span>}
+          </li>
+        ))}
+      </ul>
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="ghost" size="sm" onClick={onDismiss} disabled={retrying}>
+          Dismiss
+        </Button>
+        <Button type="button" variant="primary" size="sm" onClick={onRetry} loading={retrying}>
+          Retry failed
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+/**
+ * SessionExpiryPrompt Component
+ * Asks the user to sign in again when the session could not be refreshed silently.
+ * Signing in again keeps the current page (and any unsaved builder state) for after login.
+ */
+
+"use client";
+
+import { useEffect, useState } from "react";
+import { useAuth } from "../../context/AuthContext";
+import { Button, Modal } from "./ui";
+
+function formatRemaining(ms: number): string {
+  const totalSeconds = Math.max(0, Math.round(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return minutes > 0 ? `${minutes}m ${seconds.toString().padStart(2, "0")}s` : `${seconds}s`;
+}
+
+export default function SessionExpiryPrompt() {
+  const { reauthRequired, sessionExpiresAt, extendSession, endSession } = useAuth();
+  // Expiry of the session the prompt was dismissed for, so a new session prompts again
+  const [dismissedFor, setDismissedFor] = useState<number | null>(null);
+  const [retrying, setRetrying] = useState(false);
+  const [now, setNow] = useState(() => Date.now());
+
+  const open = reauthRequired && dismissedFor !== sessionExpiresAt;
+
+  // Tick the countdown while the prompt is visible
+  useEffect(() => {
+    if (!open) return;
+    const tick = () => setNow(Date.now());
+    const first = setTimeout(tick, 0);
+    const timer = setInterval(tick, 1000);
+    return () => {
+      clearTimeout(first);
+      clearInterval(timer);
+    };
+  }, [open]);
+
+  const handleRetry = async () => {
+    setRetrying(true);
+    await extendSession();
+    setRetrying(false);
+  };
+
+  const remaining = sessionExpiresAt !== null ? sessionExpiresAt - now : null;
+
+  return (
+    <Modal
+      open={open}
+      onClose={() => setDismissedFor(sessionExpiresAt)}
+      title="Your session is about to expire"
+      description={
+        remaining !== null
+          ? `You'll be signed out in ${formatRemaining(remaining)}. Sign in again to keep working — we'll bring you back to this page.`
+          : "Sign in again to keep working — we'll bring you back to this page."
+      }
+      size="sm"
+      footer={
+        <>
+          <Button variant="ghost" onClick={handleRetry} disabled={retrying}>
+            {retrying ? "Retrying…" : "Try again"}
+          </Button>
+          <Button variant="primary" onClick={endSession}>
+            Sign in again
+          </Button>
+        </>
+      }
+    />
+  );
+}
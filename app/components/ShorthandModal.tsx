@@ -0,0 +1,97 @@
+/**
+ * ShorthandModal Component
+ * Edits the running builder's structure as text shorthand, e.g. "15' WU; 5x(1k @ 3:40, 2' jog); 10' CD"
+ */
+
+"use client";
+
+import { useMemo, useState } from "react";
+import type { WorkoutItem } from "../../lib/running-workout";
+import { parseShorthand, ShorthandError, toShorthand } from "../../lib/workout-shorthand";
+import { Button, Modal, Textarea } from "./ui";
+
+interface ShorthandModalProps {
+  open: boolean;
+  onClose: () => void;
+  /** Current builder items, written out as the starting text */
+  blocks: WorkoutItem[];
+  /** Called with the parsed items; the modal closes afterwards */
+  onApply: (items: WorkoutItem[]) => void;
+}
+
+export default function ShorthandModal(props: ShorthandModalProps) {
+  return (
+    <Modal
+      open={props.open}
+      onClose={props.onClose}
+      title="Shorthand"
+      description="Type or paste a plan. Applying it replaces the current structure."
+      size="lg"
+    >
+      {/* Remount on open so the text reflects the current structure */}
+      {props.open && <ShorthandForm {...props} />}
+    </Modal>
+  );
+}
+
+function ShorthandForm({ onClose, blocks, onApply }: ShorthandModalProps) {
+  const [text, setText] = useState(() => toShorthand(blocks));
+
+  const result = useMemo(() => {
+    if (!text.trim()) return { items: [] as WorkoutItem[], error: null };
+    try {
+      return { items: parseShorthand(text), error: null };
+    } catch (error) {
+      if (error instanceof ShorthandError) return { items: [] as WorkoutItem[], error };
+      throw error;
+    }
+  }, [text]);
+
+  const handleApply = () => {
+    if (result.error || result.items.length === 0) return;
+    onApply(result.items);
+    onClose();
+  };
+
+  return (
+    <div className="space-y-4">
+      <Textarea
+        label="Workout"
+        id="workout-shorthand"
+        name="workout-shorthand"
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        rows={4}
+        spellCheck={false}
+        className="font-mono"
+        placeholder="15' WU; 5x(1k @ 3:40-3:45, 2' jog); 10' CD"
+        error={result.error?.message}
+        helperText={`Lengths: 15', 90", 1'30", 400m, 1.5k, lap. Types: WU, CD, jog, rest (run by default). Targets: @ 3:40, @ 3:40-3:45, @ E/M/T/I/R (athlete pace zones), @ Z3, @ 140-155bpm, @ 250W, @ 180spm. Repeats: 5x(…), one level of nesting.`}
+      />
+
+      {result.error && (
+        <pre className="whitespace-pre-wrap break-words rounded-xl border border-rose-200 dark:border-rose-500/30 bg-rose-50/60 dark:bg-rose-500/5 px-3 py-2 font-mono text-sm text-gray-700 dark:text-gray-300">
+          {text.slice(0, result.error.start)}
+          <mark className="rounded bg-rose-200 px-0.5 text-rose-900 dark:bg-rose-500/40 dark:text-rose-50">
+            {text.slice(result.error.start, result.error.end) || " "}
+          </mark>
+          {text.slice(result.error.end)}
+        </pre>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="ghost" onClick={onClose}>
+          Cancel
+        </Button>
+        <Button
+          type="button"
+          variant="primary"
+          onClick={handleApply}
+          disabled={!!result.error || result.items.length === 0}
+        >
+          Apply
+        </Button>
+      </div>
+    </div>
+  );
+}
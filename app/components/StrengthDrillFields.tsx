@@ -0,0 +1,187 @@
+/**
+ * StrengthDrillFields Component
+ * A strength drill's prescription in the builder: sets and reps (or a timed
+ * hold), rep scheme, load, RPE, tempo, rest and superset/circuit group
+ */
+
+"use client";
+
+import {
+  DEFAULT_HOLD_SECONDS,
+  DRILL_GROUPS,
+  LOAD_UNITS,
+  type StrengthDrill,
+} from "../../lib/strength-workout";
+import type { DrillLoadUnit } from "../../lib/domain";
+import { Input, Select } from "./ui";
+
+interface StrengthDrillFieldsProps {
+  drill: StrengthDrill;
+  onChange: (updates: Partial<StrengthDrill>) => void;
+  /** Validation errors keyed by `drill-<id>-…` */
+  errors: Record<string, string>;
+}
+
+/**
+ * Blank for no value
+ */
+function parseOptionalNumber(value: string): number | null {
+  if (value.trim() === "") return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+export default function StrengthDrillFields({ drill, onChange, errors }: StrengthDrillFieldsProps) {
+  const prefix = `drill-${drill.id}`;
+  const timed = drill.drillHoldSeconds > 0;
+  const hasScheme = !timed && drill.drillRepScheme.trim() !== "";
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        <Select
+          label="Counted In"
+          id={`${prefix}-mode`}
+          name={`${prefix}-mode`}
+          value={timed ? "hold" : "reps"}
+          onChange={(e) => onChange({ drillHoldSeconds: e.target.value === "hold" ? DEFAULT_HOLD_SECONDS : 0 })}
+          options={[
+            { value: "reps", label: "Reps" },
+            { value: "hold", label: "Timed hold" },
+          ]}
+        />
+        <Input
+          label="Number of Sets"
+          required
+          id={`${prefix}-sets`}
+          name={`${prefix}-sets`}
+          type="number"
+          min="1"
+          value={drill.drillSets || ""}
+          onChange={(e) => onChange({ drillSets: parseInt(e.target.value) || 1 })}
+          placeholder="3"
+          disabled={hasScheme}
+          helperText={hasScheme ? "Set by the rep scheme" : undefined}
+          error={errors[`${prefix}-sets`]}
+        />
+        {timed ? (
+          <Input
+            label="Hold (seconds)"
+            required
+            id={`${prefix}-hold`}
+            name={`${prefix}-hold`}
+            type="number"
+            min="1"
+            value={drill.drillHoldSeconds || ""}
+            onChange={(e) => onChange({ drillHoldSeconds: parseInt(e.target.value) || 1 })}
+            placeholder="30"
+            error={errors[`${prefix}-hold`]}
+          />
+        ) : (
+          <Input
+            label="Reps Per Set"
+            required
+            id={`${prefix}-reps`}
+            name={`${prefix}-reps`}
+            type="number"
+            min="1"
+            value={drill.drillReps || ""}
+            onChange={(e) => onChange({ drillReps: parseInt(e.target.value) || 1 })}
+            placeholder="10"
+            disabled={hasScheme}
+            error={errors[`${prefix}-reps`]}
+          />
+        )}
+      </div>
+
+      {!timed && (
+        <Input
+          label="Rep Scheme"
+          id={`${prefix}-scheme`}
+          name={`${prefix}-scheme`}
+          type="text"
+          value={drill.drillRepScheme}
+          onChange={(e) => onChange({ drillRepScheme: e.target.value })}
+          placeholder="e.g. 5/3/1"
+          helperText="Optional. Reps for each set when they differ; replaces sets × reps."
+          error={errors[`${prefix}-scheme`]}
+        />
+      )}
+
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+        <Input
+          label="Load"
+          id={`${prefix}-load`}
+          name={`${prefix}-load`}
+          type="number"
+          min="0"
+          step="0.5"
+          value={drill.drillLoad ?? ""}
+          onChange={(e) => onChange({ drillLoad: parseOptionalNumber(e.target.value) })}
+          placeholder="—"
+          error={errors[`${prefix}-load`]}
+        />
+        <Select
+          label="Load Unit"
+          id={`${prefix}-load-unit`}
+          name={`${prefix}-load-unit`}
+          value={drill.drillLoadUnit}
+          onChange={(e) => onChange({ drillLoadUnit: e.target.value as DrillLoadUnit })}
+          options={LOAD_UNITS}
+        />
+        <Input
+          label="RPE"
+          id={`${prefix}-rpe`}
+          name={`${prefix}-rpe`}
+          type="number"
+          min="1"
+          max="10"
+          step="0.5"
+          value={drill.drillRpe ?? ""}
+          onChange={(e) => onChange({ drillRpe: parseOptionalNumber(e.target.value) })}
+          placeholder="—"
+          error={errors[`${prefix}-rpe`]}
+        />
+        <Input
+          label="Rest (seconds)"
+          id={`${prefix}-rest`}
+          name={`${prefix}-rest`}
+          type="number"
+          min="0"
+          step="15"
+          value={drill.drillRestSeconds ?? ""}
+          onChange={(e) => onChange({ drillRestSeconds: parseOptionalNumber(e.target.value) })}
+          placeholder="90"
+          error={errors[`${prefix}-rest`]}
+        />
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <Input
+          label="Tempo"
+          id={`${prefix}-tempo`}
+          name={`${prefix}-tempo`}
+          type="text"
+          value={drill.drillTempo}
+          onChange={(e) => onChange({ drillTempo: e.target.value })}
+          placeholder="3-1-1-0"
+          helperText="Seconds lowering, pause, lifting, pause (X = explosive)"
+          error={errors[`${prefix}-tempo`]}
+        />
+        <Select
+          label="Superset / Circuit"
+          id={`${prefix}-group`}
+          name={`${prefix}-group`}
+          value={drill.drillGroup}
+          onChange={(e) => onChange({ drillGroup: e.target.value })}
+          options={[
+            { value: "", label: "None" },
+            ...DRILL_GROUPS.map((group) => ({ value: group, label: `Group ${group}` })),
+          ]}
+          helperText="Drills in the same group are done back to back"
+          error={errors[`${prefix}-group`]}
+        />
+      </div>
+    </div>
+  );
+}
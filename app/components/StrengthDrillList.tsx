@@ -0,0 +1,152 @@
+/**
+ * StrengthDrillList Component
+ * A strength workout's drills with their full prescription, supersets and
+ * circuits framed together
+ */
+
+"use client";
+
+import { motion, useReducedMotion } from "framer-motion";
+import type { WorkoutDrill } from "../../lib/domain";
+import { exerciseForDrill, type Exercise } from "../../lib/exercise-library";
+import {
+  formatLoad,
+  formatSeconds,
+  formatVolume,
+  groupDrills,
+  prescriptionDetails,
+  setReps,
+} from "../../lib/strength-workout";
+import { Badge, Card, fadeUp, inViewOnce, stagger } from "./ui";
+
+/** Set chips shown before collapsing into "+N more" */
+const MAX_SET_CHIPS = 20;
+
+const GROUP_TITLE = { superset: "Superset", circuit: "Circuit" } as const;
+
+interface StrengthDrillListProps {
+  drills: WorkoutDrill[];
+  /** Exercise library, for each drill's cues */
+  catalogue: Exercise[];
+}
+
+export default function StrengthDrillList({ drills, catalogue }: StrengthDrillListProps) {
+  const reduce = useReducedMotion();
+  const groups = groupDrills(drills.map((drill, index) => ({ ...drill, number: index + 1 })));
+
+  return (
+    <motion.div
+      variants={reduce ? undefined : stagger}
+      initial={reduce ? undefined : "hidden"}
+      whileInView={reduce ? undefined : "show"}
+      viewport={inViewOnce}
+      className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-3"
+    >
+      {groups.map((group) =>
+        group.kind === "single" ? (
+          <motion.div key={group.drills[0].number} variants={reduce ? undefined : fadeUp}>
+            <DrillCard
+              drill={group.drills[0]}
+              number={group.drills[0].number}
+              cues={exerciseForDrill(group.drills[0], catalogue)?.cues}
+            />
+          </motion.div>
+        ) : (
+          <motion.div
+            key={group.drills[0].number}
+            variants={reduce ? undefined : fadeUp}
+            className="col-span-full rounded-2xl border border-dashed border-purple-300/70 dark:border-purple-400/30 p-3 sm:p-4"
+          >
+            <div className="mb-3 flex flex-wrap items-center gap-2">
+              <Badge variant="brand" dot>
+                {GROUP_TITLE[group.kind]} {group.label}
+              </Badge>
+              <span className="text-xs text-gray-500 dark:text-gray-400">
+                {group.drills.length} drills back to back, then rest
+              </span>
+            </div>
+            <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-3">
+              {group.drills.map((drill, position) => (
+                <DrillCard
+                  key={drill.number}
+                  drill={drill}
+                  number={drill.number}
+                  label={`${group.label}${position + 1}`}
+                  cues={exerciseForDrill(drill, catalogue)?.cues}
+                />
+              ))}
+            </div>
+          </motion.div>
+        )
+      )}
+    </motion.div>
+  );
+}
+
+interface DrillCardProps {
+  drill: WorkoutDrill;
+  number: number;
+  /** Position in a superset/circuit, e.g. "A2" */
+  label?: string;
+  cues?: string;
+}
+
+function DrillCard({ drill, number, label, cues }: DrillCardProps) {
+  const timed = drill.drillHoldSeconds > 0;
+  const reps = setReps(drill);
+  const load = formatLoad(drill);
+  const details = prescriptionDetails(drill);
+  const chips = timed
+    ? Array.from({ length: drill.drillSets }, () => formatSeconds(drill.drillHoldSeconds))
+    : reps.map(String);
+
+  return (
+    <Card padding="md" interactive className="min-w-0 h-full">
+      <div className="flex items-start gap-3">
+        <div className="flex h-10 w-10 flex-shrink-0 items-center justify-center rounded-xl bg-gradient-to-br from-purple-500/20 to-fuchsia-500/20 text-purple-600 dark:text-purple-300 font-semibold">
+          {label ?? number}
+        </div>
+        <div className="flex-1 min-w-0">
+          <h3 className="text-base font-semibold text-gray-900 dark:text-gray-100 break-words">{drill.drillName}</h3>
+          <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+            <span className="font-semibold text-gray-900 dark:text-gray-100">{formatVolume(drill)}</span>
+            {!timed && drill.drillRepScheme.length === 0 && " reps"}
+            {load && (
+              <>
+                <span className="mx-1.5 text-gray-400">@</span>
+                <span className="font-semibold text-gray-900 dark:text-gray-100">{load}</span>
+              </>
+            )}
+          </p>
+          {cues && <p className="mt-1 text-xs italic text-gray-500 dark:text-gray-400">{cues}</p>}
+          {details.length > 0 && (
+            <div className="mt-2 flex flex-wrap gap-1.5">
+              {details.map((detail) => (
+                <Badge key={detail} variant="neutral" size="sm">
+                  {detail}
+                </Badge>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Per-set grid — reps (or hold time) for each set */}
+      <div className="mt-4 flex flex-wrap gap-1.5 min-w-0">
+        {chips.slice(0, MAX_SET_CHIPS).map((chip, setIdx) => (
+          <span
+            key={setIdx}
+            className="inline-flex items-center justify-center h-7 min-w-[2rem] px-2 rounded-lg text-[11px] font-semibold text-gray-700 dark:text-gray-300 bg-white/70 dark:bg-white/5 border border-gray-200 dark:border-white/10"
+          >
+            {setIdx + 1}×{chip}
+          </span>
+        ))}
+        {chips.length > MAX_SET_CHIPS && (
+          <span className="inline-flex items-center justify-center h-7 px-2 rounded-lg text-[11px] font-medium text-gray-500 dark:text-gray-400">
+            +{chips.length - MAX_SET_CHIPS} more
+          </span>
+        )}
+      </div>
+    </Card>
+  );
+}
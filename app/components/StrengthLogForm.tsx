@@ -0,0 +1,175 @@
+/**
+ * StrengthLogForm Component
+ * An athlete's log of a strength workout: reps (or hold time), load and RPE
+ * for each set, next to what was prescribed
+ */
+
+"use client";
+
+import type { LoggedSet, WorkoutDrill } from "../../lib/domain";
+import {
+  asPrescribed,
+  blankSet,
+  drillGroupLabels,
+  formatDrillPrescription,
+  setTargets,
+} from "../../lib/strength-workout";
+import { Button, Input, cn } from "./ui";
+
+interface StrengthLogFormProps {
+  drills: WorkoutDrill[];
+  /** Sets for each drill, see createDrillLogs */
+  logs: LoggedSet[][];
+  onChange: (logs: LoggedSet[][]) => void;
+}
+
+/**
+ * Blank for no value
+ */
+function parseOptionalNumber(value: string): number | null {
+  if (value.trim() === "") return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+export default function StrengthLogForm({ drills, logs, onChange }: StrengthLogFormProps) {
+  const labels = drillGroupLabels(drills);
+
+  const setDrillLog = (drillIndex: number, sets: LoggedSet[]) =>
+    onChange(logs.map((current, index) => (index === drillIndex ? sets : current)));
+
+  return (
+    <div className="space-y-4">
+      {drills.map((drill, drillIndex) => {
+        const sets = logs[drillIndex] ?? [];
+        const targets = setTargets(drill);
+        const timed = drill.drillHoldSeconds > 0;
+        const updateSet = (setIndex: number, updates: Partial<LoggedSet>) =>
+          setDrillLog(
+            drillIndex,
+            sets.map((set, index) => (index === setIndex ? { ...set, ...updates } : set))
+          );
+
+        return (
+          <div
+            key={drillIndex}
+            className="rounded-xl border border-gray-200 dark:border-white/10 bg-white/60 dark:bg-white/[0.02] p-3 sm:p-4"
+          >
+            <div className="mb-3 flex flex-wrap items-start justify-between gap-2">
+              <div className="min-w-0">
+                <p className="font-semibold text-gray-900 dark:text-gray-100 break-words">
+                  <span className="mr-1.5 text-purple-600 dark:text-purple-300">{labels[drillIndex] || drillIndex + 1}</span>
+                  {drill.drillName}
+                </p>
+                <p className="text-xs text-gray-500 dark:text-gray-400">Prescribed: {formatDrillPrescription(drill)}</p>
+              </div>
+              <Button type="button" variant="ghost" size="sm" onClick={() => setDrillLog(drillIndex, asPrescribed(drill))}>
+                As prescribed
+              </Button>
+            </div>
+
+            <div className="space-y-2">
+              <div
+                aria-hidden
+                className="grid grid-cols-[2rem_1fr_1fr_1fr_5rem] gap-2 text-[10px] font-semibold uppercase tracking-wider text-gray-500 dark:text-gray-400"
+              >
+                <span>Set</span>
+                <span>{timed ? "Seconds" : "Reps"}</span>
+                <span>Load (kg)</span>
+                <span>RPE</span>
+                <span />
+              </div>
+              {sets.map((set, setIndex) => {
+                const prefix = `log-${drillIndex}-${setIndex}`;
+                const target = targets[setIndex];
+                return (
+                  <div key={setIndex} className="grid grid-cols-[2rem_1fr_1fr_1fr_5rem] items-center gap-2">
+                    <span
+                      className={cn(
+                        "text-xs font-semibold",
+                        target === undefined ? "text-purple-600 dark:text-purple-300" : "text-gray-500 dark:text-gray-400"
+                      )}
+                    >
+                      {target === undefined ? "+" : ""}
+                      {setIndex + 1}
+                    </span>
+                    <Input
+                      id={`${prefix}-reps`}
+                      name={`${prefix}-reps`}
+                      type="number"
+                      min="0"
+                      inputSize="sm"
+                      value={set.reps ?? ""}
+                      onChange={(e) => updateSet(setIndex, { reps: parseOptionalNumber(e.target.value) })}
+                      placeholder={target === undefined ? (timed ? "sec" : "reps") : `${target}${timed ? "s" : ""}`}
+                      aria-label={`${drill.drillName} set ${setIndex + 1} ${timed ? "seconds held" : "reps"}`}
+                      disabled={set.skipped}
+                    />
+                    <Input
+                      id={`${prefix}-load`}
+                      name={`${prefix}-load`}
+                      type="number"
+                      min="0"
+                      step="0.5"
+                      inputSize="sm"
+                      value={set.load ?? ""}
+                      onChange={(e) => updateSet(setIndex, { load: parseOptionalNumber(e.target.value) })}
+                      placeholder={drill.drillLoadUnit === "kg" && drill.drillLoad !== null ? `${drill.drillLoad} kg` : "kg"}
+                      aria-label={`${drill.drillName} set ${setIndex + 1} load in kg`}
+                      disabled={set.skipped}
+                    />
+                    <Input
+                      id={`${prefix}-rpe`}
+                      name={`${prefix}-rpe`}
+                      type="number"
+                      min="1"
+                      max="10"
+                      step="0.5"
+                      inputSize="sm"
+                      value={set.rpe ?? ""}
+                      onChange={(e) => updateSet(setIndex, { rpe: parseOptionalNumber(e.target.value) })}
+                      placeholder={drill.drillRpe !== null ? `RPE ${drill.drillRpe}` : "RPE"}
+                      aria-label={`${drill.drillName} set ${setIndex + 1} RPE`}
+                      disabled={set.skipped}
+                    />
+                    {target === undefined ? (
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setDrillLog(drillIndex, sets.filter((_, index) => index !== setIndex))}
+                        aria-label={`Remove extra set ${setIndex + 1}`}
+                      >
+                        Remove
+                      </Button>
+                    ) : (
+                      <label className="inline-flex items-center gap-1.5 text-xs text-gray-600 dark:text-gray-400">
+                        <input
+                          type="checkbox"
+                          checked={set.skipped}
+                          onChange={(e) =>
+                            updateSet(setIndex, e.target.checked ? { ...blankSet(), skipped: true } : { skipped: false })
+                          }
+                          className="h-4 w-4 rounded accent-purple-600"
+                        />
+                        Skipped
+                      </label>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+
+            <button
+              type="button"
+              onClick={() => setDrillLog(drillIndex, [...sets, blankSet()])}
+              className="mt-2 text-xs font-medium text-purple-600 dark:text-purple-300 hover:underline"
+            >
+              + Add a set
+            </button>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
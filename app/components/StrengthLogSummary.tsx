@@ -0,0 +1,123 @@
+/**
+ * StrengthLogSummary Component
+ * What an athlete logged for a strength workout, set by set against the
+ * prescription, with overall compliance
+ */
+
+"use client";
+
+import type { DrillLog, WorkoutDrill } from "../../lib/domain";
+import {
+  compareSets,
+  drillGroupLabels,
+  formatDrillPrescription,
+  isSetLogged,
+  matchDrillLogs,
+  workoutCompliance,
+  type Compliance,
+  type SetComparison,
+  type SetOutcome,
+} from "../../lib/strength-workout";
+import { Badge, cn, type BadgeVariant } from "./ui";
+
+const OUTCOME_STYLE: Record<SetOutcome, string> = {
+  done: "text-teal-700 dark:text-teal-300 bg-teal-50 dark:bg-teal-400/10 border-teal-200 dark:border-teal-400/30",
+  short: "text-amber-800 dark:text-amber-300 bg-amber-50 dark:bg-amber-400/10 border-amber-200 dark:border-amber-400/30",
+  skipped: "text-rose-700 dark:text-rose-300 bg-rose-50 dark:bg-rose-400/10 border-rose-200 dark:border-rose-400/30 line-through",
+  missing: "text-gray-500 dark:text-gray-400 bg-white/70 dark:bg-white/5 border-dashed border-gray-300 dark:border-white/15",
+  extra: "text-purple-700 dark:text-purple-300 bg-purple-50 dark:bg-purple-400/10 border-purple-200 dark:border-purple-400/30",
+};
+
+/**
+ * Badge tone for a compliance percentage
+ */
+function complianceVariant(percent: number): BadgeVariant {
+  if (percent >= 90) return "success";
+  if (percent >= 60) return "warning";
+  return "danger";
+}
+
+export function ComplianceBadge({ compliance }: { compliance: Compliance }) {
+  return (
+    <Badge variant={complianceVariant(compliance.percent)} size="sm">
+      {compliance.percent}% done · {compliance.completedSets}/{compliance.prescribedSets} sets
+    </Badge>
+  );
+}
+
+interface StrengthLogSummaryProps {
+  drills: WorkoutDrill[];
+  logs: DrillLog[];
+}
+
+export default function StrengthLogSummary({ drills, logs }: StrengthLogSummaryProps) {
+  const labels = drillGroupLabels(drills);
+  const { sets, unmatched } = matchDrillLogs(drills, logs);
+  const compliance = workoutCompliance(drills, sets);
+  // Logged against drills the coach has since removed or renamed
+  const orphaned = unmatched.filter((log) => log.sets.some(isSetLogged));
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2 text-xs text-gray-600 dark:text-gray-400">
+        <ComplianceBadge compliance={compliance} />
+        {compliance.skippedSets > 0 && (
+          <span>
+            {compliance.skippedSets} set{compliance.skippedSets === 1 ? "" : "s"} skipped
+          </span>
+        )}
+      </div>
+      <ul className="divide-y divide-gray-200/70 dark:divide-white/10">
+        {drills.map((drill, index) => (
+          <li key={index} className="py-2.5">
+            <p className="text-sm font-medium text-gray-900 dark:text-gray-100 break-words">
+              <span className="mr-1.5 text-purple-600 dark:text-purple-300">{labels[index] || index + 1}</span>
+              {drill.drillName}
+              <span className="ml-2 text-xs font-normal text-gray-500 dark:text-gray-400">
+                {formatDrillPrescription(drill)}
+              </span>
+            </p>
+            <div className="mt-1.5 flex flex-wrap gap-1.5">
+              {compareSets(drill, sets[index]).map((comparison, setIndex) => (
+                <SetChip key={setIndex} comparison={comparison} timed={drill.drillHoldSeconds > 0} />
+              ))}
+            </div>
+          </li>
+        ))}
+      </ul>
+      {orphaned.length > 0 && (
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          Also logged for drills no longer in this workout:{" "}
+          {orphaned
+            .map((log) => `${log.drillName || "unnamed drill"} (${log.sets.filter(isSetLogged).length} sets)`)
+            .join(", ")}
+          . They don&apos;t count towards compliance.
+        </p>
+      )}
+    </div>
+  );
+}
+
+function SetChip({ comparison, timed }: { comparison: SetComparison; timed: boolean }) {
+  const { target, set, outcome } = comparison;
+  const unit = timed ? "s" : "";
+  let text = `${target}${unit}`;
+  if (outcome === "missing") text = `${target}${unit} · not logged`;
+  else if (outcome === "skipped") text = `${target}${unit} skipped`;
+  else if (set) {
+    text = target === null ? `+${set.reps}${unit}` : `${set.reps}/${target}${unit}`;
+    if (set.load !== null) text += ` @ ${set.load} kg`;
+    if (set.rpe !== null) text += ` · RPE ${set.rpe}`;
+  }
+
+  return (
+    <span
+      className={cn(
+        "inline-flex items-center h-7 px-2 rounded-lg border text-[11px] font-semibold tabular-nums",
+        OUTCOME_STYLE[outcome]
+      )}
+    >
+      {text}
+    </span>
+  );
+}
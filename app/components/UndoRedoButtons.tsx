@@ -0,0 +1,52 @@
+/**
+ * UndoRedoButtons Component
+ * Toolbar buttons for a builder's undo/redo history (see useUndoableState)
+ */
+
+"use client";
+
+import { Button } from "./ui";
+
+interface UndoRedoButtonsProps {
+  onUndo: () => void;
+  onRedo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+}
+
+export default function UndoRedoButtons({ onUndo, onRedo, canUndo, canRedo }: UndoRedoButtonsProps) {
+  return (
+    <div className="flex gap-1" role="group" aria-label="History">
+      <Button
+        type="button"
+        variant="ghost"
+        size="sm"
+        onClick={onUndo}
+        disabled={!canUndo}
+        title="Undo (Ctrl+Z)"
+        iconLeft={
+          <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2.2}>
+            <path strokeLinecap="round" strokeLinejoin="round" d="M9 14L4 9l5-5M4 9h10.5a5.5 5.5 0 010 11H11" />
+          </svg>
+        }
+      >
+        Undo
+      </Button>
+      <Button
+        type="button"
+        variant="ghost"
+        size="sm"
+        onClick={onRedo}
+        disabled={!canRedo}
+        title="Redo (Ctrl+Shift+Z)"
+        iconLeft={
+          <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2.2}>
+            <path strokeLinecap="round" strokeLinejoin="round" d="M15 14l5-5-5-5m5 5H9.5a5.5 5.5 0 000 11H13" />
+          </svg>
+        }
+      >
+        Redo
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,100 @@
+/**
+ * WorkoutDraftList Component
+ * A coach's unsent builder drafts, to reopen or discard. Also exports the
+ * builders' "resume draft" banner.
+ */
+
+"use client";
+
+import Link from "next/link";
+import { useWorkoutDrafts } from "../../hooks/useWorkoutDraft";
+import { deleteDraft, type WorkoutDraft } from "../../lib/workout-drafts";
+import { Badge, Button, Card, SectionHeading } from "./ui";
+
+function formatSavedAt(updatedAt: number): string {
+  return new Date(updatedAt).toLocaleString(undefined, {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+interface WorkoutDraftListProps {
+  ownerName: string | undefined;
+}
+
+export default function WorkoutDraftList({ ownerName }: WorkoutDraftListProps) {
+  const drafts = useWorkoutDrafts(ownerName);
+  if (!ownerName || drafts.length === 0) return null;
+
+  return (
+    <section className="mt-10">
+      <SectionHeading
+        as="h3"
+        title="Drafts"
+        description="Workouts you started but haven't sent yet. They're kept on this device."
+      />
+      <Card padding="none" className="divide-y divide-gray-200/70 dark:divide-white/10">
+        {drafts.map((draft) => (
+          <div key={draft.key} className="flex flex-wrap items-center gap-3 px-4 py-3 sm:px-5">
+            <Badge variant={draft.kind === "running" ? "brand" : "info"} size="sm">
+              {draft.kind === "running" ? "Running" : "Strength"}
+            </Badge>
+            <div className="min-w-0 flex-1">
+              <p className="truncate text-sm font-semibold text-gray-900 dark:text-white">
+                {draft.workoutName.trim() || "Untitled workout"}
+              </p>
+              <p className="truncate text-xs text-gray-500 dark:text-gray-400">
+                {draft.targetLabel} · saved {formatSavedAt(draft.updatedAt)}
+              </p>
+            </div>
+            <div className="flex shrink-0 items-center gap-2">
+              <Button variant="ghost" size="sm" onClick={() => deleteDraft(ownerName, draft.key)}>
+                Discard
+              </Button>
+              <Link href={draft.href}>
+                <Button variant="secondary" size="sm">
+                  Continue
+                </Button>
+              </Link>
+            </div>
+          </div>
+        ))}
+      </Card>
+    </section>
+  );
+}
+
+interface DraftResumeBannerProps {
+  draft: WorkoutDraft;
+  onResume: () => void;
+  onDiscard: () => void;
+}
+
+/**
+ * Offer to pick up an unsent draft when a builder opens
+ */
+export function DraftResumeBanner({ draft, onResume, onDiscard }: DraftResumeBannerProps) {
+  return (
+    <Card
+      padding="md"
+      className="flex flex-wrap items-center gap-3 border-blue-200 dark:border-blue-400/30 bg-blue-50/60 dark:bg-blue-500/5"
+    >
+      <div className="min-w-0 flex-1">
+        <p className="text-sm font-semibold text-gray-900 dark:text-white">You have an unsent draft</p>
+        <p className="text-xs text-gray-600 dark:text-gray-400">
+          {draft.workoutName.trim() || "Untitled workout"} · saved {formatSavedAt(draft.updatedAt)}
+        </p>
+      </div>
+      <div className="flex shrink-0 items-center gap-2">
+        <Button type="button" variant="ghost" size="sm" onClick={onDiscard}>
+          Discard
+        </Button>
+        <Button type="button" variant="primary" size="sm" onClick={onResume}>
+          Resume draft
+        </Button>
+      </div>
+    </Card>
+  );
+}
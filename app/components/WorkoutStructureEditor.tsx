@@ -0,0 +1,663 @@
+/**
+ * WorkoutStructureEditor Component
+ * Edits the running builder's steps and (nested) repeat groups, with drag-and-drop reordering
+ */
+
+"use client";
+
+import { AnimatePresence, Reorder, useDragControls, useReducedMotion } from "framer-motion";
+import { useRef } from "react";
+import type { SetOptions } from "../../hooks/useUndoableState";
+import {
+  CLEARED_TARGET,
+  cloneBlocks,
+  createRepeatBlock,
+  createStep,
+  defaultTargetKind,
+  HEART_RATE_ZONES,
+  isRepeatBlock,
+  MAX_REPEAT_DEPTH,
+  minutesToPaceString,
+  paceStringToMinutes,
+  STEP_TYPES,
+  stepAllowsTarget,
+  stepTargetKind,
+  stepTypeLabel,
+  TARGET_KINDS,
+  type DurationType,
+  type DurationUnit,
+  type IntervalBlock,
+  type PaceMode,
+  type Step,
+  type StepType,
+  type TargetKind,
+  type WorkoutItem,
+} from "../../lib/running-workout";
+import { PACE_ZONES, type PaceZoneId } from "../../lib/pace-zones";
+import { Badge, Input, Label, Select, type BadgeVariant } from "./ui";
+
+interface WorkoutStructureEditorProps {
+  items: WorkoutItem[];
+  /** Options mark typing in one field, or one drag, as a single undo step */
+  onChange: (items: WorkoutItem[], options?: SetOptions) => void;
+  /** Validation errors keyed by `step-<id>-…` and `interval-<id>-…` */
+  errors: Record<string, string>;
+}
+
+/**
+ * Error key prefix for a step or repeat group
+ */
+export function itemErrorPrefix(item: WorkoutItem): string {
+  return isRepeatBlock(item) ? `interval-${item.id}` : `step-${item.id}`;
+}
+
+export default function WorkoutStructureEditor({ items, onChange, errors }: WorkoutStructureEditorProps) {
+  return <ItemList items={items} onChange={onChange} errors={errors} depth={0} />;
+}
+
+interface ItemListProps extends WorkoutStructureEditorProps {
+  /** 0 for the top level, 1 inside a repeat group, … */
+  depth: number;
+}
+
+/**
+ * Undo key for a change to one or more fields of an item
+ */
+function fieldKey(id: string, fields: string[]): SetOptions {
+  return { coalesce: `field:${id}:${fields.join(",")}` };
+}
+
+function ItemList({ items, onChange, errors, depth }: ItemListProps) {
+  // Every drag gets its own key, so the positions it passes through undo together
+  const dragKey = useRef("");
+  const dragCount = useRef(0);
+
+  const move = (index: number, delta: number) => {
+    const target = index + delta;
+    if (target < 0 || target >= items.length) return;
+    const next = [...items];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  // The copy (with fresh ids throughout) goes right after the original
+  const duplicate = (index: number) => {
+    const next = [...items];
+    next.splice(index + 1, 0, cloneBlocks([items[index]])[0]);
+    onChange(next);
+  };
+
+  return (
+    <Reorder.Group
+      as="div"
+      axis="y"
+      values={items}
+      onReorder={(next) => onChange(next, { coalesce: dragKey.current })}
+      className="space-y-3"
+    >
+      <AnimatePresence initial={false}>
+        {items.map((item, index) => (
+          <ItemRow
+            key={item.id}
+            item={item}
+            index={index}
+            count={items.length}
+            depth={depth}
+            errors={errors}
+            onChange={(next, options) =>
+              onChange(
+                items.map((other) => (other.id === item.id ? next : other)),
+                options
+              )
+            }
+            onRemove={() => onChange(items.filter((other) => other.id !== item.id))}
+            onMove={(delta) => move(index, delta)}
+            onDuplicate={() => duplicate(index)}
+            onDragStart={() => {
+              dragCount.current += 1;
+              dragKey.current = `drag:${item.id}:${dragCount.current}`;
+            }}
+          />
+        ))}
+      </AnimatePresence>
+    </Reorder.Group>
+  );
+}
+
+interface ItemRowProps {
+  item: WorkoutItem;
+  index: number;
+  /** Number of siblings, including this item */
+  count: number;
+  depth: number;
+  errors: Record<string, string>;
+  onChange: (item: WorkoutItem, options?: SetOptions) => void;
+  onRemove: () => void;
+  onMove: (delta: number) => void;
+  onDuplicate: () => void;
+  onDragStart: () => void;
+}
+
+const ICON_BUTTON =
+  "p-1.5 rounded-lg text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-100 hover:bg-white dark:hover:bg-white/5 disabled:opacity-40 disabled:cursor-not-allowed transition-colors";
+
+function ItemRow({
+  item,
+  index,
+  count,
+  depth,
+  errors,
+  onChange,
+  onRemove,
+  onMove,
+  onDuplicate,
+  onDragStart,
+}: ItemRowProps) {
+  const reduce = useReducedMotion();
+  const dragControls = useDragControls();
+  const repeat = isRepeatBlock(item);
+  const prefix = itemErrorPrefix(item);
+  const noun = repeat ? "repeat" : "step";
+  // A repeat group needs at least one item; top-level items can always go
+  const canRemove = depth === 0 || count > 1;
+
+  return (
+    <Reorder.Item
+      as="div"
+      value={item}
+      dragListener={false}
+      dragControls={dragControls}
+      initial={reduce ? undefined : { opacity: 0, y: 8 }}
+      animate={reduce ? undefined : { opacity: 1, y: 0 }}
+      exit={reduce ? undefined : { opacity: 0, y: -4 }}
+      transition={{ duration: 0.2 }}
+      className={
+        repeat
+          ? "relative rounded-2xl border border-gray-200 dark:border-white/10 bg-gray-50/70 dark:bg-gray-900/80 p-4 sm:p-5"
+          : "rounded-xl bg-white dark:bg-gray-900/60 border border-gray-200 dark:border-white/10 p-3 sm:p-4"
+      }
+    >
+      <div className="flex items-center justify-between gap-3 mb-3">
+        <div className="flex items-center gap-2 min-w-0">
+          <button
+            type="button"
+            onPointerDown={(e) => {
+              onDragStart();
+              dragControls.start(e);
+            }}
+            aria-label={`Drag to reorder ${noun}`}
+            className="p-1 -ml-1 rounded-lg text-gray-400 dark:text-gray-500 hover:text-gray-700 dark:hover:text-gray-300 cursor-grab active:cursor-grabbing touch-none"
+          >
+            <svg className="h-4 w-4" fill="currentColor" viewBox="0 0 24 24">
+              <circle cx="9" cy="6" r="1.5" />
+              <circle cx="15" cy="6" r="1.5" />
+              <circle cx="9" cy="12" r="1.5" />
+              <circle cx="15" cy="12" r="1.5" />
+              <circle cx="9" cy="18" r="1.5" />
+              <circle cx="15" cy="18" r="1.5" />
+            </svg>
+          </button>
+          {repeat ? (
+            <>
+              <Badge variant="brand" dot>
+                Repeat
+              </Badge>
+              <span className="text-sm text-gray-600 dark:text-gray-400 truncate">{item.repeatCount}×</span>
+            </>
+          ) : (
+            <>
+              <Badge variant={STEP_BADGE_VARIANT[item.type] ?? "brand"} size="sm" dot>
+                Step {index + 1}
+              </Badge>
+              <span className="text-xs text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                {stepTypeLabel(item.type)}
+              </span>
+            </>
+          )}
+        </div>
+        <div className="flex items-center gap-1">
+          <button
+            type="button"
+            onClick={() => onMove(-1)}
+            disabled={index === 0}
+            aria-label={`Move ${noun} up`}
+            className={ICON_BUTTON}
+          >
+            <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 15l7-7 7 7" />
+            </svg>
+          </button>
+          <button
+            type="button"
+            onClick={() => onMove(1)}
+            disabled={index === count - 1}
+            aria-label={`Move ${noun} down`}
+            className={ICON_BUTTON}
+          >
+            <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+            </svg>
+          </button>
+          <button type="button" onClick={onDuplicate} aria-label={`Duplicate ${noun}`} className={ICON_BUTTON}>
+            <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z"
+              />
+            </svg>
+          </button>
+          {canRemove && (
+            <button
+              type="button"
+              onClick={onRemove}
+              aria-label={`Remove ${noun}`}
+              className="p-1.5 rounded-lg text-rose-600 dark:text-rose-400 hover:bg-rose-50 dark:hover:bg-rose-500/10 transition-colors"
+            >
+              <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          )}
+        </div>
+      </div>
+
+      {repeat ? (
+        <RepeatEditor block={item} depth={depth} errors={errors} onChange={onChange} />
+      ) : (
+        <StepEditor
+          step={item}
+          onUpdate={(updates) => onChange({ ...item, ...updates }, fieldKey(item.id, Object.keys(updates)))}
+          errors={errors}
+          prefix={prefix}
+        />
+      )}
+    </Reorder.Item>
+  );
+}
+
+interface RepeatEditorProps {
+  block: IntervalBlock;
+  depth: number;
+  errors: Record<string, string>;
+  onChange: (block: IntervalBlock, options?: SetOptions) => void;
+}
+
+function RepeatEditor({ block, depth, errors, onChange }: RepeatEditorProps) {
+  const prefix = `interval-${block.id}`;
+  const canNest = depth + 1 < MAX_REPEAT_DEPTH;
+
+  return (
+    <>
+      <div className="flex flex-wrap items-center gap-3 mb-4">
+        <Label htmlFor={`repeat-${block.id}`} className="text-sm">
+          Repeat:
+        </Label>
+        <input
+          id={`repeat-${block.id}`}
+          name={`repeat-${block.id}`}
+          type="number"
+          min="1"
+          value={block.repeatCount}
+          onChange={(e) =>
+            onChange({ ...block, repeatCount: parseInt(e.target.value) || 1 }, fieldKey(block.id, ["repeatCount"]))
+          }
+          className="w-24 h-10 rounded-xl border border-gray-300 dark:border-white/10 bg-white dark:bg-gray-900/60 px-3 text-sm text-gray-900 dark:text-gray-100 focus:outline-none focus:border-blue-500 focus:ring-2 focus:ring-blue-500/30"
+        />
+        {errors[`${prefix}-repeat`] && (
+          <p className="text-sm text-rose-600 dark:text-rose-400">{errors[`${prefix}-repeat`]}</p>
+        )}
+      </div>
+
+      {errors[`${prefix}-steps`] && (
+        <p className="mb-3 text-sm text-rose-600 dark:text-rose-400">{errors[`${prefix}-steps`]}</p>
+      )}
+
+      <div className="space-y-3 pl-4 border-l-2 border-purple-300/60 dark:border-purple-400/40">
+        <ItemList
+          items={block.steps}
+          onChange={(steps, options) => onChange({ ...block, steps }, options)}
+          errors={errors}
+          depth={depth + 1}
+        />
+        <div className={canNest ? "grid grid-cols-2 gap-2" : undefined}>
+          <button
+            type="button"
+            onClick={() => onChange({ ...block, steps: [...block.steps, createStep()] })}
+            className="w-full h-10 px-3 rounded-xl text-sm font-semibold text-purple-600 dark:text-purple-300 border border-dashed border-purple-300/70 dark:border-purple-400/40 hover:bg-purple-50 dark:hover:bg-purple-500/10 transition-colors"
+          >
+            + Add Step
+          </button>
+          {canNest && (
+            <button
+              type="button"
+              onClick={() => onChange({ ...block, steps: [...block.steps, createRepeatBlock()] })}
+              className="w-full h-10 px-3 rounded-xl text-sm font-semibold text-purple-600 dark:text-purple-300 border border-dashed border-purple-300/70 dark:border-purple-400/40 hover:bg-purple-50 dark:hover:bg-purple-500/10 transition-colors"
+            >
+              + Add Nested Repeat
+            </button>
+          )}
+        </div>
+      </div>
+    </>
+  );
+}
+
+const STEP_BADGE_VARIANT: Record<StepType, BadgeVariant> = {
+  warmup: "info",
+  run: "brand",
+  recovery: "success",
+  rest: "success",
+  cooldown: "neutral",
+};
+
+const TARGET_UNITS: Partial<Record<TargetKind, string>> = {
+  hrRange: "bpm",
+  power: "W",
+  cadence: "spm",
+};
+
+interface StepEditorProps {
+  step: Step;
+  onUpdate: (updates: Partial<Step>) => void;
+  errors: Record<string, string>;
+  prefix: string;
+}
+
+function StepEditor({ step, onUpdate, errors, prefix }: StepEditorProps) {
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+      <Select
+        label="Type"
+        id={`${prefix}-type`}
+        name={`${prefix}-type`}
+        value={step.type}
+        onChange={(e) => {
+          const newType = e.target.value as StepType;
+          if (!stepAllowsTarget(newType)) {
+            onUpdate({ type: newType, ...CLEARED_TARGET, targetKind: "none" });
+          } else if (stepTargetKind(step) === "none") {
+            const targetKind = defaultTargetKind(newType);
+            onUpdate({
+              type: newType,
+              targetKind,
+              paceMode: targetKind === "pace" ? "specific" : undefined,
+            });
+          } else {
+            onUpdate({ type: newType });
+          }
+        }}
+        options={STEP_TYPES}
+      />
+
+      <Select
+        label="Duration Type"
+        id={`${prefix}-durationType`}
+        name={`${prefix}-durationType`}
+        value={step.durationType}
+        onChange={(e) => {
+          const newType = e.target.value as DurationType;
+          onUpdate({
+            durationType: newType,
+            durationUnit: newType === "open" ? undefined : newType === "time" ? "seconds" : "meters",
+            durationValue: 0,
+          });
+        }}
+        options={[
+          { label: "Time", value: "time" },
+          { label: "Distance", value: "distance" },
+          { label: "Open (lap button)", value: "open" },
+        ]}
+      />
+
+      {step.durationType === "open" ? (
+        <p className="sm:col-span-2 self-center text-sm text-gray-500 dark:text-gray-400">
+          The step ends when the athlete presses the lap button.
+        </p>
+      ) : (
+        <>
+          <Select
+            label="Duration Unit"
+            required
+            id={`${prefix}-durationUnit`}
+            name={`${prefix}-durationUnit`}
+            value={step.durationUnit || (step.durationType === "time" ? "seconds" : "meters")}
+            onChange={(e) => {
+              const newUnit = e.target.value as DurationUnit;
+              onUpdate({
+                durationUnit: newUnit,
+                durationValue: 0,
+              });
+            }}
+            options={
+              step.durationType === "time"
+                ? [
+                    { label: "Seconds", value: "seconds" },
+                    { label: "Minutes", value: "minutes" },
+                  ]
+                : [
+                    { label: "Meters", value: "meters" },
+                    { label: "Kilometers", value: "kilometers" },
+                  ]
+            }
+          />
+
+          <Input
+            label="Duration Value"
+            required
+            id={`${prefix}-duration`}
+            name={`${prefix}-duration`}
+            type="number"
+            min="0"
+            step="0.1"
+            value={step.durationValue || ""}
+            onChange={(e) => onUpdate({ durationValue: parseFloat(e.target.value) || 0 })}
+            placeholder={
+              step.durationType === "time"
+                ? step.durationUnit === "seconds"
+                  ? "e.g., 300"
+                  : "e.g., 5"
+                : step.durationUnit === "meters"
+                  ? "e.g., 1000"
+                  : "e.g., 1"
+            }
+            error={errors[`${prefix}-duration`]}
+          />
+        </>
+      )}
+
+      {stepAllowsTarget(step.type) && (
+        <Select
+          label="Target"
+          id={`${prefix}-targetKind`}
+          name={`${prefix}-targetKind`}
+          value={stepTargetKind(step)}
+          onChange={(e) => {
+            const targetKind = e.target.value as TargetKind;
+            onUpdate({
+              ...CLEARED_TARGET,
+              targetKind,
+              paceMode: targetKind === "pace" ? "specific" : undefined,
+            });
+          }}
+          options={TARGET_KINDS}
+          className="sm:col-span-2"
+        />
+      )}
+
+      {stepTargetKind(step) === "paceZone" && (
+        <Select
+          label="Pace Zone"
+          required
+          id={`${prefix}-targetPaceZone`}
+          name={`${prefix}-targetPaceZone`}
+          value={step.targetPaceZone ?? ""}
+          onChange={(e) => onUpdate({ targetPaceZone: (e.target.value || undefined) as PaceZoneId | undefined })}
+          options={[
+            { label: "Select a zone", value: "" },
+            ...PACE_ZONES.map((zone) => ({ label: `${zone.label} (${zone.short})`, value: zone.id })),
+          ]}
+          helperText="Resolved to each athlete's own paces when the workout is sent"
+          error={errors[`${prefix}-targetPaceZone`]}
+          className="sm:col-span-2"
+        />
+      )}
+
+      {stepTargetKind(step) === "hrZone" && (
+        <Select
+          label="Heart-Rate Zone"
+          required
+          id={`${prefix}-targetZone`}
+          name={`${prefix}-targetZone`}
+          value={step.targetZone ? String(step.targetZone) : ""}
+          onChange={(e) => onUpdate({ targetZone: parseInt(e.target.value, 10) || undefined })}
+          options={[
+            { label: "Select a zone", value: "" },
+            ...HEART_RATE_ZONES.map((zone) => ({ label: `Zone ${zone}`, value: String(zone) })),
+          ]}
+          helperText="Uses the zones set on the athlete's watch"
+          error={errors[`${prefix}-targetZone`]}
+          className="sm:col-span-2"
+        />
+      )}
+
+      {(stepTargetKind(step) === "hrRange" || stepTargetKind(step) === "power" || stepTargetKind(step) === "cadence") && (
+        <>
+          <Input
+            label={`Low (${TARGET_UNITS[stepTargetKind(step)]})`}
+            required
+            id={`${prefix}-targetLow`}
+            name={`${prefix}-targetLow`}
+            type="number"
+            min="0"
+            step="1"
+            value={step.targetLow ?? ""}
+            onChange={(e) => onUpdate({ targetLow: parseFloat(e.target.value) || undefined })}
+            error={errors[`${prefix}-targetLow`]}
+          />
+          <Input
+            label={`High (${TARGET_UNITS[stepTargetKind(step)]})`}
+            required
+            id={`${prefix}-targetHigh`}
+            name={`${prefix}-targetHigh`}
+            type="number"
+            min="0"
+            step="1"
+            value={step.targetHigh ?? ""}
+            onChange={(e) => onUpdate({ targetHigh: parseFloat(e.target.value) || undefined })}
+            error={errors[`${prefix}-targetHigh`]}
+          />
+        </>
+      )}
+
+      {stepTargetKind(step) === "pace" && (
+        <>
+          <Select
+            label="Pace Target Mode"
+            required
+            id={`${prefix}-paceMode`}
+            name={`${prefix}-paceMode`}
+            value={step.paceMode || "specific"}
+            onChange={(e) => {
+              const newMode = e.target.value as PaceMode;
+              if (newMode === "specific") {
+                onUpdate({
+                  paceMode: newMode,
+                  paceMinPerKmLow: undefined,
+                  paceMinPerKmHigh: undefined,
+                  paceMinPerKm: undefined,
+                  paceStringLow: undefined,
+                  paceStringHigh: undefined,
+                  paceString: undefined,
+                });
+              } else {
+                onUpdate({
+                  paceMode: newMode,
+                  paceMinPerKm: undefined,
+                  paceString: undefined,
+                });
+              }
+            }}
+            options={[
+              { label: "Specific Pace", value: "specific" },
+              { label: "Pace Range", value: "range" },
+            ]}
+            error={errors[`${prefix}-paceMode`]}
+            className="sm:col-span-2"
+          />
+
+          {step.paceMode === "specific" && (
+            <div className="sm:col-span-2">
+              <Input
+                label="Target Pace (min/km)"
+                required
+                id={`${prefix}-pace`}
+                name={`${prefix}-pace`}
+                type="text"
+                value={step.paceString || (step.paceMinPerKm ? minutesToPaceString(step.paceMinPerKm) : "")}
+                onChange={(e) => {
+                  const inputValue = e.target.value;
+                  const minutes = paceStringToMinutes(inputValue);
+                  onUpdate({
+                    paceString: inputValue,
+                    paceMinPerKm: minutes !== null ? minutes : undefined,
+                  });
+                }}
+                placeholder="e.g., 4:30"
+                pattern="[0-9]+:[0-5][0-9]"
+                helperText="Format mm:ss"
+                error={errors[`${prefix}-pace`]}
+              />
+            </div>
+          )}
+
+          {step.paceMode === "range" && (
+            <>
+              <Input
+                label="Pace Low (min/km)"
+                required
+                id={`${prefix}-paceLow`}
+                name={`${prefix}-paceLow`}
+                type="text"
+                value={step.paceStringLow || (step.paceMinPerKmLow ? minutesToPaceString(step.paceMinPerKmLow) : "")}
+                onChange={(e) => {
+                  const inputValue = e.target.value;
+                  const minutes = paceStringToMinutes(inputValue);
+                  onUpdate({
+                    paceStringLow: inputValue,
+                    paceMinPerKmLow: minutes !== null ? minutes : undefined,
+                  });
+                }}
+                placeholder="e.g., 4:00"
+                pattern="[0-9]+:[0-5][0-9]"
+                helperText="Format mm:ss"
+                error={errors[`${prefix}-paceLow`]}
+              />
+              <Input
+                label="Pace High (min/km)"
+                required
+                id={`${prefix}-paceHigh`}
+                name={`${prefix}-paceHigh`}
+                type="text"
+                value={step.paceStringHigh || (step.paceMinPerKmHigh ? minutesToPaceString(step.paceMinPerKmHigh) : "")}
+                onChange={(e) => {
+                  const inputValue = e.target.value;
+                  const minutes = paceStringToMinutes(inputValue);
+                  onUpdate({
+                    paceStringHigh: inputValue,
+                    paceMinPerKmHigh: minutes !== null ? minutes : undefined,
+                  });
+                }}
+                placeholder="e.g., 5:00"
+                pattern="[0-9]+:[0-5][0-9]"
+                helperText="Format mm:ss"
+                error={errors[`${prefix}-paceHigh`] || errors[`${prefix}-paceRange`]}
+              />
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -6,12 +6,11 @@
 "use client";
 
 import { useState, useEffect } from "react";
-import { useRouter } from "next/navigation";
 import Link from "next/link";
 import { motion, AnimatePresence, useReducedMotion } from "framer-motion";
 import { useAuth } from "../../context/AuthContext";
 import { useRequireAuth } from "../../hooks/useRequireAuth";
-import { apiFetch } from "../../lib/api";
+import { apiService } from "../services/api";
 import { getProfilePicSrc } from "../../lib/profile-pic-utils";
 import {
   AppShell,
@@ -147,7 +146,6 @@ function AvatarLink({
 
 export default function ConnectAthletePage() {
   const { user, loading } = useAuth();
-  const router = useRouter();
   const [coachCode, setCoachCode] = useState<string | null>(null);
   const [isLoadingCode, setIsLoadingCode] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -156,25 +154,17 @@ export default function ConnectAthletePage() {
 
   useRequireAuth();
 
-  useEffect(() => {
-    if (!loading && user && user.role?.toLowerCase() !== "coach") {
-      router.push("/dashboard");
-    }
-  }, [user, loading, router]);
-
   useEffect(() => {
     const fetchCoachCode = async () => {
-      if (!user || user.role?.toLowerCase() !== "coach") {
+      if (!user) {
         return;
       }
 
       try {
         setIsLoadingCode(true);
         setError(null);
-        const coachName = user.userName;
-        const url = `/api/CoachConnection/getCoachId${coachName ? `?coachName=${encodeURIComponent(coachName)}` : ''}`;
-        const response = await apiFetch<CoachIdResponse>(url);
-        setCoachCode(response.coachId);
+        const response = await apiService.getCoachId<CoachIdResponse>(user.userName);
+        setCoachCode(response.data.coachId);
       } catch (err) {
         console.error("Failed to fetch coach code:", err);
         setError(err instanceof Error ? err.message : "Failed to load coach code");
@@ -250,7 +240,7 @@ export default function ConnectAthletePage() {
     );
   }
 
-  if (!user || user.role?.toLowerCase() !== "coach") {
+  if (!user) {
     return null;
   }
 
@@ -11,9 +11,8 @@ import Link from "next/link";
 import { motion, useReducedMotion } from "framer-motion";
 import { useAuth } from "../../../context/AuthContext";
 import { useRequireAuth } from "../../../hooks/useRequireAuth";
-import { apiFetch } from "../../../lib/api";
-import { getToken } from "../../../lib/auth";
-import { API_BASE_URL } from "../../../lib/api-config";
+import { apiService } from "../../services/api";
+import { isApiError } from "../../../lib/api-error";
 import { getProfilePicSrc } from "../../../lib/profile-pic-utils";
 import {
   AppShell,
@@ -185,12 +184,6 @@ function ConnectCoachConfirmPageContent() {
 
   useRequireAuth();
 
-  useEffect(() => {
-    if (!loading && user && user.role?.toLowerCase() === "coach") {
-      router.push("/dashboard");
-    }
-  }, [user, loading, router]);
-
   useEffect(() => {
     const fetchCoachInfo = async () => {
       const code = searchParams.get("coachCode");
@@ -206,17 +199,13 @@ function ConnectCoachConfirmPageContent() {
         setIsLoading(true);
         setError(null);
 
-        const coachNameResponse = await apiFetch<CoachNameResponse>(
-          `/api/coachConnection/getCoachName?coachId=${encodeURIComponent(code)}`
-        );
-        const fetchedCoachName = coachNameResponse.coachUsername;
+        const coachNameResponse = await apiService.getCoachName<CoachNameResponse>(code);
+        const fetchedCoachName = coachNameResponse.data.coachUsername;
         setCoachName(fetchedCoachName);
 
         try {
-          const profilePicResponse = await apiFetch<string>(
-            `/api/ProfilePIc?userName=${encodeURIComponent(fetchedCoachName)}`
-          );
-          setCoachProfilePic(profilePicResponse);
+          const profilePicResponse = await apiService.getProfilePic(fetchedCoachName);
+          setCoachProfilePic(profilePicResponse.data);
         } catch (picErr) {
           console.warn("Failed to fetch profile picture:", picErr);
         }
@@ -245,32 +234,7 @@ function ConnectCoachConfirmPageContent() {
       setError(null);
       setSuccess(false);
 
-      const token = getToken();
-      const response = await fetch(
-        `${API_BASE_URL}/api/coachConnection/connect`,
-        {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            ...(token && { Authorization: `Bearer ${token}` }),
-          },
-          body: JSON.stringify({
-            apiKey: user.apiKey,
-            coachId: coachCode,
-          }),
-        }
-      );
-
-      if (response.status === 401) {
-        setError("You cannot connect with the same coach twice.");
-        setIsConnecting(false);
-        return;
-      }
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        throw new Error(errorData.message || "Failed to connect with coach");
-      }
+      await apiService.connectToCoach(coachCode);
 
       setSuccess(true);
       setIsConnecting(false);
@@ -280,6 +244,11 @@ function ConnectCoachConfirmPageContent() {
       }, 2000);
     } catch (err) {
       console.error("Failed to connect with coach:", err);
+      if (isApiError(err, 401)) {
+        setError("You cannot connect with the same coach twice.");
+        setIsConnecting(false);
+        return;
+      }
       setError(err instanceof Error ? err.message : "Failed to connect with coach. Please try again.");
       setIsConnecting(false);
     }
@@ -302,7 +271,7 @@ function ConnectCoachConfirmPageContent() {
     );
   }
 
-  if (!user || user.role?.toLowerCase() === "coach") {
+  if (!user) {
     return null;
   }
 
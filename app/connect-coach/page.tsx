@@ -93,12 +93,6 @@ function ConnectCoachPageContent() {
 
   useRequireAuth();
 
-  useEffect(() => {
-    if (!loading && user && user.role?.toLowerCase() === "coach") {
-      router.push("/dashboard");
-    }
-  }, [user, loading, router]);
-
   useEffect(() => {
     const codeFromUrl = searchParams.get("coachCode");
     if (codeFromUrl) {
@@ -127,7 +121,7 @@ function ConnectCoachPageContent() {
     );
   }
 
-  if (!user || user.role?.toLowerCase() === "coach") {
+  if (!user) {
     return null;
   }
 
@@ -163,7 +163,7 @@ export default function DashboardPage() {
         throw new Error("API key not found. Please log in again.");
       }
 
-      const connectionResponse = await apiService.validateGarminConnection<{ isConnected: boolean }>(user.apiKey);
+      const connectionResponse = await apiService.validateGarminConnection<{ isConnected: boolean }>();
 
       // Validate response structure
       if (!connectionResponse.data || typeof connectionResponse.data !== "object") {
@@ -186,12 +186,12 @@ export default function DashboardPage() {
         console.warn("Unexpected connection status:", isConnected);
       }
 
-      // Request OAuth token - always pass apiKey as query string
+      // Request OAuth token (legacy route - the API client sends apiKey in the query string)
       const tokenResponse = await apiService.requestGarminToken<{
         stateToken: string;
         oauth_token: string;
         oauth_token_secret: string;
-      }>(user.apiKey);
+      }>();
 
       if (!tokenResponse.data?.oauth_token || !tokenResponse.data?.stateToken) {
         throw new Error("Failed to get OAuth token or state token");
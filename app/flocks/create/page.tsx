@@ -56,7 +56,7 @@ export default function CreateFlockPage() {
       return;
     }
 
-    if (!user || user.role?.toLowerCase() !== "coach" || !user.apiKey) {
+    if (!user || !user.apiKey) {
       setError("You must be a coach to create a flock");
       return;
     }
@@ -66,7 +66,7 @@ export default function CreateFlockPage() {
     setSuccess(false);
 
     try {
-      const response = await apiService.createFlock(user.apiKey, flockName.trim());
+      const response = await apiService.createFlock(flockName.trim());
 
       if (response.status === 200) {
         setSuccess(true);
@@ -113,24 +113,6 @@ export default function CreateFlockPage() {
     );
   }
 
-  if (user && user.role?.toLowerCase() !== "coach") {
-    return (
-      <AppShell title="Create Flock" maxWidth="md">
-        <Card padding="lg" className="text-center">
-          <p className="text-gray-700 dark:text-gray-300">
-            Access denied. This page is for coaches only.
-          </p>
-          <Link
-            href="/dashboard"
-            className="mt-4 inline-block text-sm font-semibold text-blue-600 dark:text-blue-400 hover:underline"
-          >
-            Return to Dashboard
-          </Link>
-        </Card>
-      </AppShell>
-    );
-  }
-
   const previewName = flockName.trim() || "Your flock name";
   const previewDescription = flockDescription.trim() || "Describe what this flock is for — training block, squad, camp, etc.";
   const firstChar = (flockName.trim() || "F").charAt(0).toUpperCase();
@@ -12,6 +12,7 @@ import { motion } from "framer-motion";
 import { useAuth } from "../../../../context/AuthContext";
 import { useRequireAuth } from "../../../../hooks/useRequireAuth";
 import { getProfilePicSrc } from "../../../../lib/profile-pic-utils";
+import type { AthleteCard } from "../../../../lib/domain";
 import { apiService } from "../../../services/api";
 import {
   AppShell,
@@ -34,11 +35,6 @@ interface FlockAthlete {
   imageLoading?: boolean;
 }
 
-interface AllAthlete {
-  athleteName: string;
-  imageData: string;
-}
-
 type ManageTab = "members" | "settings";
 
 const IconUsers = (
@@ -77,7 +73,7 @@ export default function FlockManagementPage() {
   const params = useParams();
   const flockName = params?.flockName as string;
   const [athletes, setAthletes] = useState<FlockAthlete[]>([]);
-  const [allAthletes, setAllAthletes] = useState<AllAthlete[]>([]);
+  const [allAthletes, setAthleteCards] = useState<AthleteCard[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [failedImages, setFailedImages] = useState<Set<number>>(new Set());
@@ -89,9 +85,26 @@ export default function FlockManagementPage() {
   // Require authentication
   useRequireAuth();
 
+  // Build flock member cards, fetching each athlete's profile picture
+  const loadFlockMembers = async (athleteNames: string[]): Promise<FlockAthlete[]> => {
+    return Promise.all(
+      athleteNames.map(async (athleteName): Promise<FlockAthlete> => {
+        try {
+          const picResponse = await apiService.getProfilePic(athleteName);
+          if (picResponse.data && typeof picResponse.data === 'string') {
+            return { athleteName, imageData: picResponse.data, imageLoading: false };
+          }
+        } catch (err) {
+          console.error(`Failed to fetch profile pic for ${athleteName}:`, err);
+        }
+        return { athleteName, imageData: undefined, imageLoading: false };
+      })
+    );
+  };
+
   useEffect(() => {
     const fetchData = async () => {
-      if (!user || user.role?.toLowerCase() !== "coach" || !user.apiKey || !flockName) {
+      if (!user || !user.apiKey || !flockName) {
         setLoading(false);
         return;
       }
@@ -102,90 +115,19 @@ export default function FlockManagementPage() {
 
         // Fetch flock athletes and all athletes in parallel
         const [flockResponse, allAthletesResponse] = await Promise.all([
-          apiService.getFlockAthletes<{ athletes: FlockAthlete[] } | FlockAthlete[] | string[]>(user.apiKey, decodeURIComponent(flockName)),
-          apiService.getAthletes<{ athletesData: AllAthlete[] } | AllAthlete[]>(user.apiKey)
+          apiService.getFlockAthletes(decodeURIComponent(flockName)),
+          apiService.getAthletes()
         ]);
 
-        console.log("Flock athletes API response:", flockResponse);
-        console.log("All athletes API response:", allAthletesResponse);
-        console.log("All athletes response.data:", allAthletesResponse.data);
-        console.log("Type of response.data:", typeof allAthletesResponse.data);
-
-        // Extract flock athletes array from response
-        // Response structure: ["YotamBlumenkranz", ...] - just an array of strings
-        let athletesData: FlockAthlete[] = [];
-        if (Array.isArray(flockResponse.data)) {
-          // Response is an array of athlete names (strings) or FlockAthlete objects
-          athletesData = flockResponse.data.map((item: string | FlockAthlete) =>
-            typeof item === 'string'
-              ? { athleteName: item, imageData: undefined, imageLoading: true }
-              : { ...item, imageLoading: true }
-          );
-        } else if (flockResponse.data && typeof flockResponse.data === 'object') {
-          const data = flockResponse.data as any;
-          if (Array.isArray(data.athletes)) {
-            // If it's an array of strings, map them
-            athletesData = data.athletes.map((item: string | FlockAthlete) =>
-              typeof item === 'string'
-                ? { athleteName: item, imageData: undefined, imageLoading: true }
-                : { ...item, imageLoading: true }
-            );
-          } else if (Array.isArray(data.athletesData)) {
-            athletesData = data.athletesData.map((item: string | FlockAthlete) =>
-              typeof item === 'string'
-                ? { athleteName: item, imageData: undefined, imageLoading: true }
-                : { ...item, imageLoading: true }
-            );
-          }
-        }
-
-        // Fetch profile pics for each athlete
-        if (athletesData.length > 0 && user?.apiKey) {
-          const profilePicPromises = athletesData.map(async (athlete, index) => {
-            try {
-              const picResponse = await apiService.getProfilePic(athlete.athleteName);
-              if (picResponse.data && typeof picResponse.data === 'string') {
-                athletesData[index].imageData = picResponse.data;
-              }
-            } catch (err) {
-              console.error(`Failed to fetch profile pic for ${athlete.athleteName}:`, err);
-            } finally {
-              athletesData[index].imageLoading = false;
-            }
-          });
-          await Promise.all(profilePicPromises);
-        }
-
-        // Extract all athletes array from response
-        // Response structure: { athletesData: [...] }
-        let allAthletesData: AllAthlete[] = [];
-        if (allAthletesResponse.data) {
-          const data = allAthletesResponse.data as any;
-          console.log("Checking data.athletesData:", data.athletesData);
-          console.log("Is array?", Array.isArray(data.athletesData));
-
-          // Check for athletesData first (the correct structure)
-          if (data.athletesData && Array.isArray(data.athletesData)) {
-            allAthletesData = data.athletesData;
-          } else if (data.athletes && Array.isArray(data.athletes)) {
-            allAthletesData = data.athletes;
-          } else if (Array.isArray(data)) {
-            allAthletesData = data;
-          }
-        } else if (Array.isArray(allAthletesResponse.data)) {
-          allAthletesData = allAthletesResponse.data;
-        }
-
-        console.log("Parsed all athletes:", allAthletesData);
-        console.log("Number of athletes:", allAthletesData.length);
+        const athletesData = await loadFlockMembers(flockResponse.data);
 
         setAthletes(athletesData);
-        setAllAthletes(allAthletesData);
+        setAthleteCards(allAthletesResponse.data);
       } catch (err) {
         console.error("Failed to fetch data:", err);
         setError(err instanceof Error ? err.message : "Failed to load data");
         setAthletes([]);
-        setAllAthletes([]);
+        setAthleteCards([]);
       } finally {
         setLoading(false);
       }
@@ -203,7 +145,7 @@ export default function FlockManagementPage() {
   };
 
   // Get athletes not in the flock
-  const getAvailableAthletes = (): AllAthlete[] => {
+  const getAvailableAthletes = (): AthleteCard[] => {
     const flockAthleteNames = new Set(athletes.map(a => a.athleteName.toLowerCase()));
     const available = allAthletes.filter(athlete =>
       !flockAthleteNames.has(athlete.athleteName.toLowerCase())
@@ -221,44 +163,16 @@ export default function FlockManagementPage() {
     setAddingAthlete(athleteUserName);
     try {
       const response = await apiService.addToFlock(
-        user.apiKey,
         athleteUserName,
         decodeURIComponent(flockName)
       );
 
       if (response.status === 200) {
         // Refresh the flock athletes list
-        const flockResponse = await apiService.getFlockAthletes<string[]>(
-          user.apiKey,
+        const flockResponse = await apiService.getFlockAthletes(
           decodeURIComponent(flockName)
         );
-
-        let athletesData: FlockAthlete[] = [];
-        if (Array.isArray(flockResponse.data)) {
-          // Response is an array of athlete names (strings)
-          athletesData = flockResponse.data.map((name: string) => ({
-            athleteName: name,
-            imageData: undefined,
-            imageLoading: true,
-          }));
-        }
-
-        // Fetch profile pics for each athlete
-        if (athletesData.length > 0) {
-          const profilePicPromises = athletesData.map(async (athlete, index) => {
-            try {
-              const picResponse = await apiService.getProfilePic(athlete.athleteName);
-              if (picResponse.data && typeof picResponse.data === 'string') {
-                athletesData[index].imageData = picResponse.data;
-              }
-            } catch (err) {
-              console.error(`Failed to fetch profile pic for ${athlete.athleteName}:`, err);
-            } finally {
-              athletesData[index].imageLoading = false;
-            }
-          });
-          await Promise.all(profilePicPromises);
-        }
+        const athletesData = await loadFlockMembers(flockResponse.data);
 
         setAthletes(athletesData);
         setShowAddModal(false);
@@ -287,44 +201,16 @@ export default function FlockManagementPage() {
     setRemovingAthlete(athleteName);
     try {
       const response = await apiService.removeAthleteFromFlock(
-        user.apiKey,
         decodeURIComponent(flockName),
         athleteName
       );
 
       if (response.status === 200) {
         // Refresh the flock athletes list
-        const flockResponse = await apiService.getFlockAthletes<string[]>(
-          user.apiKey,
+        const flockResponse = await apiService.getFlockAthletes(
           decodeURIComponent(flockName)
         );
-
-        let athletesData: FlockAthlete[] = [];
-        if (Array.isArray(flockResponse.data)) {
-          // Response is an array of athlete names (strings)
-          athletesData = flockResponse.data.map((name: string) => ({
-            athleteName: name,
-            imageData: undefined,
-            imageLoading: true,
-          }));
-        }
-
-        // Fetch profile pics for each athlete
-        if (athletesData.length > 0) {
-          const profilePicPromises = athletesData.map(async (athlete, index) => {
-            try {
-              const picResponse = await apiService.getProfilePic(athlete.athleteName);
-              if (picResponse.data && typeof picResponse.data === 'string') {
-                athletesData[index].imageData = picResponse.data;
-              }
-            } catch (err) {
-              console.error(`Failed to fetch profile pic for ${athlete.athleteName}:`, err);
-            } finally {
-              athletesData[index].imageLoading = false;
-            }
-          });
-          await Promise.all(profilePicPromises);
-        }
+        const athletesData = await loadFlockMembers(flockResponse.data);
 
         setAthletes(athletesData);
       } else {
@@ -360,24 +246,6 @@ export default function FlockManagementPage() {
     );
   }
 
-  if (user && user.role?.toLowerCase() !== "coach") {
-    return (
-      <AppShell title="Flock" maxWidth="md">
-        <Card padding="lg" className="text-center">
-          <p className="text-gray-700 dark:text-gray-300">
-            Access denied. This page is for coaches only.
-          </p>
-          <Link
-            href="/dashboard"
-            className="mt-4 inline-block text-sm font-semibold text-blue-600 dark:text-blue-400 hover:underline"
-          >
-            Return to Dashboard
-          </Link>
-        </Card>
-      </AppShell>
-    );
-  }
-
   const memberCount = Array.isArray(athletes) ? athletes.length : 0;
   const availableCount = getAvailableAthletes().length;
 
@@ -47,7 +47,7 @@ export default function FlocksPage() {
 
   useEffect(() => {
     const fetchFlocks = async () => {
-      if (!user || user.role?.toLowerCase() !== "coach" || !user.apiKey) {
+      if (!user || !user.apiKey) {
         setLoading(false);
         return;
       }
@@ -55,26 +55,8 @@ export default function FlocksPage() {
       try {
         setLoading(true);
         setError(null);
-        const response = await apiService.getFlocks<{ flocks: string[] }>(user.apiKey);
-        console.log("Flocks API response:", response);
-
-        // Extract flocks array from response
-        // Response structure: { flocks: [...] }
-        let flocksData: string[] = [];
-        if (response.data && typeof response.data === 'object') {
-          const data = response.data as any;
-          if (Array.isArray(data.flocks)) {
-            flocksData = data.flocks;
-          } else if (Array.isArray(data)) {
-            // Fallback: if data itself is an array
-            flocksData = data;
-          }
-        } else if (Array.isArray(response.data)) {
-          // Direct array response
-          flocksData = response.data;
-        }
-
-        setFlocks(flocksData);
+        const response = await apiService.getFlocks();
+        setFlocks(response.data);
       } catch (err) {
         console.error("Failed to fetch flocks:", err);
         setError(err instanceof Error ? err.message : "Failed to load flocks");
@@ -115,24 +97,6 @@ export default function FlocksPage() {
     );
   }
 
-  if (user && user.role?.toLowerCase() !== "coach") {
-    return (
-      <AppShell title="Flocks" maxWidth="md">
-        <Card padding="lg" className="text-center">
-          <p className="text-gray-700 dark:text-gray-300">
-            Access denied. This page is for coaches only.
-          </p>
-          <Link
-            href="/dashboard"
-            className="mt-4 inline-block text-sm font-semibold text-blue-600 dark:text-blue-400 hover:underline"
-          >
-            Return to Dashboard
-          </Link>
-        </Card>
-      </AppShell>
-    );
-  }
-
   const flocksArray = Array.isArray(flocks) ? flocks : [];
 
   return (
@@ -16,6 +16,7 @@ import {
 } from "framer-motion";
 import { useAuth } from "../../../../context/AuthContext";
 import { setToken } from "../../../../lib/auth";
+import { clearReturnPath, peekReturnPath } from "../../../../lib/session-restore";
 import ThemeToggle from "../../../components/ThemeToggle";
 import {
   Button,
@@ -37,6 +38,11 @@ function GoogleSuccessContent() {
   const searchParams = useSearchParams();
   const router = useRouter();
   const { refreshUser, user, loading } = useAuth();
+
+  // Page the user was on when their session expired (read once, then forgotten)
+  const [returnPath] = useState(() => peekReturnPath() ?? "/dashboard");
+  useEffect(() => clearReturnPath(), []);
+
   const reduce = useReducedMotion();
   const [error, setError] = useState<string | null>(null);
   const [isProcessing, setIsProcessing] = useState(true);
@@ -65,12 +71,11 @@ function GoogleSuccessContent() {
     const handleLogin = async () => {
       try {
         setToken(jwt);
-        console.log("✅ JWT Token received from query string and saved");
 
         await refreshUser();
 
         setTimeout(() => {
-          router.push("/dashboard");
+          router.push(returnPath);
         }, 1200);
       } catch (err) {
         console.error("❌ Failed to process Google login:", err);
@@ -80,13 +85,13 @@ function GoogleSuccessContent() {
     };
 
     handleLogin();
-  }, [searchParams, refreshUser, router]);
+  }, [searchParams, refreshUser, router, returnPath]);
 
   useEffect(() => {
     if (!loading && user) {
-      router.push("/dashboard");
+      router.push(returnPath);
     }
-  }, [user, loading, router]);
+  }, [user, loading, router, returnPath]);
 
   // Generate particle positions on mount (side effect — avoids hydration mismatch).
   useEffect(() => {
@@ -19,6 +19,7 @@ import { useAuth } from "../../context/AuthContext";
 import Footer from "../components/Footer";
 import ThemeToggle from "../components/ThemeToggle";
 import { API_BASE_URL } from "../../lib/api-config";
+import { isSafeReturnPath, takeReturnPath } from "../../lib/session-restore";
 import {
   Button,
   Card,
@@ -48,11 +49,9 @@ function LoginPageContent() {
   useEffect(() => {
     if (!loading && user) {
       const returnUrl = searchParams.get("returnUrl");
-      if (returnUrl) {
-        router.push(returnUrl);
-      } else {
-        router.push("/dashboard");
-      }
+      // Always forget the remembered path, so it can't redirect a later login
+      const remembered = takeReturnPath();
+      router.push(isSafeReturnPath(returnUrl) ? returnUrl : (remembered ?? "/dashboard"));
     }
   }, [user, loading, router, searchParams]);
 
@@ -0,0 +1,29 @@
+/**
+ * Mock API Route
+ * Serves the local mock backend at /mock-api/* for development, demos and e2e tests
+ *
+ * Point the app at it with NEXT_PUBLIC_API_BASE_URL=http://localhost:3000/mock-api.
+ * Disabled in production builds unless ENABLE_MOCK_API=true.
+ */
+
+import { handleMockRequest } from "../../../lib/mock-api/router";
+
+const MOUNT_PATH = "/mock-api";
+
+// The store is in-memory, so every request must hit this server instance
+export const dynamic = "force-dynamic";
+
+function isEnabled(): boolean {
+  return process.env.NODE_ENV !== "production" || process.env.ENABLE_MOCK_API === "true";
+}
+
+async function handle(request: Request): Promise<Response> {
+  if (!isEnabled()) {
+    return new Response("Not Found", { status: 404 });
+  }
+  const path = new URL(request.url).pathname.slice(MOUNT_PATH.length) || "/";
+  return handleMockRequest(request, path);
+}
+
+export const GET = handle;
+export const POST = handle;
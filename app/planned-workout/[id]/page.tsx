@@ -7,11 +7,20 @@
 
 import Link from "next/link";
 import { useState, useEffect, useMemo } from "react";
-import { useParams } from "next/navigation";
+import { useParams, useRouter } from "next/navigation";
 import { motion, useReducedMotion } from "framer-motion";
 import { useAuth } from "../../../context/AuthContext";
 import { apiService } from "../../services/api";
 import LapBarChart from "../../components/LapBarChart";
+import PlannedWorkoutActions from "../../components/PlannedWorkoutActions";
+import {
+  convertIntervalsToLaps,
+  hasSpeedTarget,
+  summarizeIntervals,
+  type PlannedWorkoutDetail,
+  type WorkoutInterval,
+  type WorkoutLap,
+} from "../../../lib/domain";
 import {
   AppShell,
   Badge,
@@ -22,40 +31,6 @@ import {
   Skeleton,
 } from "../../components/ui";
 
-interface WorkoutInterval {
-  stepOrder: number;
-  repeatValue: number;
-  type: string;
-  steps: WorkoutInterval[] | null;
-  description: string;
-  durationType: string | null;
-  durationValue: number;
-  intensity: string;
-  targetValueLow: number;
-  targetValueHigh: number;
-  repeatType: string | null;
-}
-
-interface PlannedWorkoutResponse {
-  worokutObject: {
-    date: string;
-    workoutName: string;
-    description: string;
-    intervals: WorkoutInterval[];
-    coachName: string;
-    athleteNames: string[];
-    workoutId: string | null;
-  };
-  plannedWorkoutJson: string;
-}
-
-interface Lap {
-  lapDistanceInKilometers: number;
-  lapDurationInSeconds: number;
-  lapPaceInMinKm: number;
-  avgHeartRate: number;
-}
-
 type IntensityZone = "warmup" | "work" | "recovery" | "cooldown" | "rest" | "other";
 
 interface FlatIntervalRow {
@@ -64,7 +39,7 @@ interface FlatIntervalRow {
   description: string;
   zone: IntensityZone;
   durationLabel: string;
-  paceLabel: string | null;
+  targetLabel: string | null;
   repeatIndex?: number;
   repeatCount?: number;
   depth: number;
@@ -120,7 +95,7 @@ function classifyIntensity(step: WorkoutInterval): IntensityZone {
   const d = (step.description || "").toLowerCase();
   if (i.includes("WARM") || d.includes("warm")) return "warmup";
   if (i.includes("COOL") || d.includes("cool")) return "cooldown";
-  if (i.includes("RECOV")) return "recovery";
+  if (i.includes("RECOV") || d.includes("recov")) return "recovery";
   if (i === "REST" || d === "rest") return "rest";
   return "work";
 }
@@ -151,30 +126,56 @@ function formatPace(minPerKm: number): string {
   return `${m}:${s.toString().padStart(2, "0")} /km`;
 }
 
-function describeStep(step: WorkoutInterval): { durationLabel: string; paceLabel: string | null } {
+/** Units for targets sent as a plain low/high range */
+const TARGET_RANGE_UNIT: Record<string, string> = {
+  HEART_RATE: "bpm",
+  POWER: "W",
+  CADENCE: "spm",
+};
+
+function formatTargetRange(low: number, high: number, unit: string): string | null {
+  if (!low && !high) return null;
+  const lo = Math.round(Math.min(low || high, high || low));
+  const hi = Math.round(Math.max(low, high));
+  return lo === hi ? `${lo} ${unit}` : `${lo}–${hi} ${unit}`;
+}
+
+function describeStep(step: WorkoutInterval): { durationLabel: string; targetLabel: string | null } {
   const dt = (step.durationType || "").toUpperCase();
   let durationLabel = "—";
   if (dt === "TIME" && step.durationValue) {
     durationLabel = formatSeconds(step.durationValue);
   } else if (dt === "DISTANCE" && step.durationValue) {
     durationLabel = formatDistance(step.durationValue / 1000);
+  } else if (dt === "OPEN" || dt === "LAP_BUTTON") {
+    durationLabel = "Lap button";
   }
 
   const isRest = step.intensity === "REST" || step.intensity?.toLowerCase() === "rest";
-  if (isRest) return { durationLabel, paceLabel: null };
+  if (isRest) return { durationLabel, targetLabel: null };
+
+  const targetType = (step.targetType || "PACE").toUpperCase();
+  if (targetType === "HEART_RATE" && step.targetValue) {
+    return { durationLabel, targetLabel: `HR zone ${step.targetValue}` };
+  }
+  const rangeUnit = TARGET_RANGE_UNIT[targetType];
+  if (rangeUnit) {
+    return { durationLabel, targetLabel: formatTargetRange(step.targetValueLow, step.targetValueHigh, rangeUnit) };
+  }
+  if (!hasSpeedTarget(step)) return { durationLabel, targetLabel: null };
 
   const low = step.targetValueLow;
   const high = step.targetValueHigh;
   if (low && high && low > 0 && high > 0) {
     if (Math.abs(low - high) < 1e-6) {
-      return { durationLabel, paceLabel: formatPace(mpsToMinPerKm(low)) };
+      return { durationLabel, targetLabel: formatPace(mpsToMinPerKm(low)) };
     }
     return {
       durationLabel,
-      paceLabel: `${formatPace(mpsToMinPerKm(Math.max(low, high)))} – ${formatPace(mpsToMinPerKm(Math.min(low, high)))}`.replace(/ \/km – /, " – ").replace(/$/, " /km"),
+      targetLabel: `${formatPace(mpsToMinPerKm(Math.max(low, high)))} – ${formatPace(mpsToMinPerKm(Math.min(low, high)))}`.replace(/ \/km – /, " – ").replace(/$/, " /km"),
     };
   }
-  return { durationLabel, paceLabel: null };
+  return { durationLabel, targetLabel: null };
 }
 
 /** Cap expanded repeat blocks so pathological plans cannot freeze the main thread. */
@@ -210,7 +211,7 @@ function flattenIntervals(
             flattenIntervals([step], `${skey}-`, depth + 1, rows, truncatedRef);
           } else {
             const zone = classifyIntensity(step);
-            const { durationLabel, paceLabel } = describeStep(step);
+            const { durationLabel, targetLabel } = describeStep(step);
             push({
               key: skey,
               label: ZONE_STYLE[zone].label,
@@ -220,7 +221,7 @@ function flattenIntervals(
                   : ZONE_STYLE[zone].label,
               zone,
               durationLabel,
-              paceLabel,
+              targetLabel,
               repeatIndex: repeatCount > 1 ? r + 1 : undefined,
               repeatCount: repeatCount > 1 ? repeatCount : undefined,
               depth,
@@ -230,7 +231,7 @@ function flattenIntervals(
       }
     } else {
       const zone = classifyIntensity(interval);
-      const { durationLabel, paceLabel } = describeStep(interval);
+      const { durationLabel, targetLabel } = describeStep(interval);
       push({
         key,
         label: ZONE_STYLE[zone].label,
@@ -240,7 +241,7 @@ function flattenIntervals(
             : ZONE_STYLE[zone].label,
         zone,
         durationLabel,
-        paceLabel,
+        targetLabel,
         depth,
       });
     }
@@ -249,78 +250,6 @@ function flattenIntervals(
   return { rows, truncated: truncatedRef.current };
 }
 
-const MAX_LAPS_FOR_CHART = 500;
-
-function convertIntervalsToLaps(intervals: WorkoutInterval[]): Lap[] {
-  const laps: Lap[] = [];
-
-  const processStep = (step: WorkoutInterval) => {
-    if (laps.length >= MAX_LAPS_FOR_CHART) return;
-    const isRest = step.intensity === "REST" || step.intensity === "rest";
-    let lapDistance = 0;
-    let lapDuration = 0;
-    let lapPace = 0;
-
-    if (isRest) {
-      lapPace = 10;
-      if (step.durationType === "DISTANCE" || step.durationType === "distance") {
-        const kmForDuration = step.durationValue / 1000;
-        lapDuration = kmForDuration * lapPace * 60;
-      } else if (step.durationType === "TIME" || step.durationType === "time") {
-        lapDuration = step.durationValue;
-      } else {
-        return;
-      }
-    } else {
-      if (!step.targetValueLow && !step.targetValueHigh) return;
-      const avgSpeedMps = (step.targetValueLow + step.targetValueHigh) / 2;
-      if (!avgSpeedMps || avgSpeedMps <= 0) return;
-      lapPace = 1000 / (avgSpeedMps * 60);
-      if (step.durationType === "DISTANCE" || step.durationType === "distance") {
-        lapDistance = step.durationValue / 1000;
-        lapDuration = lapDistance * lapPace * 60;
-      } else if (step.durationType === "TIME" || step.durationType === "time") {
-        lapDuration = step.durationValue;
-        lapDistance = lapDuration / (lapPace * 60);
-      } else {
-        return;
-      }
-    }
-
-    if (lapDuration > 0 && lapPace > 0 && (isRest || lapDistance > 0)) {
-      laps.push({
-        lapDistanceInKilometers: isRest ? 0 : lapDistance,
-        lapDurationInSeconds: lapDuration,
-        lapPaceInMinKm: lapPace,
-        avgHeartRate: 0,
-      });
-    }
-  };
-
-  const processInterval = (interval: WorkoutInterval) => {
-    if (laps.length >= MAX_LAPS_FOR_CHART) return;
-    if (interval.steps && interval.steps.length > 0) {
-      const repeatCount = interval.repeatValue || 1;
-      for (let i = 0; i < repeatCount; i++) {
-        if (laps.length >= MAX_LAPS_FOR_CHART) return;
-        interval.steps.forEach((step) => {
-          if (laps.length >= MAX_LAPS_FOR_CHART) return;
-          if (step.steps && step.steps.length > 0) {
-            processInterval(step);
-          } else {
-            processStep(step);
-          }
-        });
-      }
-    } else {
-      processStep(interval);
-    }
-  };
-
-  intervals.forEach((interval) => processInterval(interval));
-  return laps;
-}
-
 /** Larger type for short plans; scales down so long Garmin strings stay comfortable. */
 function workoutPlanReadableClass(charLength: number): string {
   const mono = "font-mono tabular-nums break-words whitespace-pre-wrap text-gray-900 dark:text-gray-50";
@@ -339,10 +268,11 @@ function workoutPlanReadableClass(charLength: number): string {
 export default function PlannedWorkoutDetailPage() {
   const { user, loading: authLoading } = useAuth();
   const params = useParams();
+  const router = useRouter();
   const workoutId = params?.id as string;
   const reduce = useReducedMotion();
 
-  const [workoutData, setWorkoutData] = useState<PlannedWorkoutResponse | null>(null);
+  const [workoutData, setWorkoutData] = useState<PlannedWorkoutDetail | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -358,7 +288,7 @@ export default function PlannedWorkoutDetailPage() {
         setLoading(true);
         setError(null);
 
-        const response = await apiService.getPlannedWorkoutById<PlannedWorkoutResponse>(workoutId);
+        const response = await apiService.getPlannedWorkoutById(workoutId);
 
         if (response.data) {
           setWorkoutData(response.data);
@@ -377,8 +307,8 @@ export default function PlannedWorkoutDetailPage() {
   }, [workoutId]);
 
   const backUrl = user
-    ? user.role?.toLowerCase() === "coach" && workoutData?.worokutObject.athleteNames?.[0]
-      ? `/planned-workouts?athlete=${encodeURIComponent(workoutData.worokutObject.athleteNames[0])}`
+    ? user.role?.toLowerCase() === "coach" && workoutData?.workout.athleteNames?.[0]
+      ? `/planned-workouts?athlete=${encodeURIComponent(workoutData.workout.athleteNames[0])}`
       : "/planned-workouts"
     : "/";
 
@@ -387,23 +317,21 @@ export default function PlannedWorkoutDetailPage() {
       return {
         flatRows: [] as FlatIntervalRow[],
         structureTruncated: false,
-        laps: [] as Lap[],
+        laps: [] as WorkoutLap[],
         totals: { distance: 0, duration: 0, intervals: 0 },
       };
     }
-    const intervals = workoutData.worokutObject.intervals || [];
+    const intervals = workoutData.workout.intervals || [];
     const { rows, truncated: structureTruncated } = flattenIntervals(intervals);
-    const ls = convertIntervalsToLaps(intervals);
-    const totalDistance = ls.reduce((acc, l) => acc + l.lapDistanceInKilometers, 0);
-    const totalDuration = ls.reduce((acc, l) => acc + l.lapDurationInSeconds, 0);
+    const summary = summarizeIntervals(intervals);
     return {
       flatRows: rows,
       structureTruncated,
-      laps: ls,
+      laps: convertIntervalsToLaps(intervals),
       totals: {
-        distance: totalDistance,
-        duration: totalDuration,
-        intervals: rows.length,
+        distance: summary.distanceKm,
+        duration: summary.durationSeconds,
+        intervals: summary.steps,
       },
     };
   }, [workoutData]);
@@ -445,9 +373,10 @@ export default function PlannedWorkoutDetailPage() {
     );
   }
 
-  const workout = workoutData.worokutObject;
+  const workout = workoutData.workout;
   const planJsonTrimmed = workoutData.plannedWorkoutJson?.trim() ?? "";
   const planBodyClass = workoutPlanReadableClass(planJsonTrimmed.length);
+  const canManage = user?.role?.toLowerCase() === "coach" && !!workout.coachName && workout.coachName === user.userName;
 
   return (
     <AppShell
@@ -465,6 +394,18 @@ export default function PlannedWorkoutDetailPage() {
               </span>
             </Button>
           </Link>
+          {canManage && (
+            <PlannedWorkoutActions
+              kind="running"
+              workoutId={workoutId}
+              workoutName={workout.workoutName}
+              date={workout.date}
+              athleteNames={workout.athleteNames}
+              jsonBodyFor={() => workoutData.plannedWorkoutJson}
+              onRescheduled={(date) => setWorkoutData({ ...workoutData, workout: { ...workout, date } })}
+              onDeleted={() => router.push(backUrl)}
+            />
+          )}
         </div>
       }
       maxWidth="lg"
@@ -612,9 +553,9 @@ export default function PlannedWorkoutDetailPage() {
                           <span className="font-semibold text-gray-900 dark:text-gray-100 tabular-nums">
                             {row.durationLabel}
                           </span>
-                          {row.paceLabel && (
+                          {row.targetLabel && (
                             <span className="text-gray-600 dark:text-gray-400 tabular-nums">
-                              {row.paceLabel}
+                              {row.targetLabel}
                             </span>
                           )}
                         </div>
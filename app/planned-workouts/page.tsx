@@ -11,8 +11,17 @@ import { useSearchParams } from "next/navigation";
 import { motion, useReducedMotion } from "framer-motion";
 import { useAuth } from "../../context/AuthContext";
 import { useRequireAuth } from "../../hooks/useRequireAuth";
+import { useAthleteAccess } from "../../hooks/useAthleteAccess";
 import { apiService } from "../services/api";
 import LapBarChart from "../components/LapBarChart";
+import AccessDenied from "../components/AccessDenied";
+import {
+  convertIntervalsToLaps,
+  type PlannedRunningWorkout,
+  type StrengthWorkout,
+  type WorkoutLap,
+} from "../../lib/domain";
+import { drillGroupLabels, formatDrillPrescription } from "../../lib/strength-workout";
 import {
   AppShell,
   Badge,
@@ -24,66 +33,6 @@ import {
   Tabs,
 } from "../components/ui";
 
-interface WorkoutInterval {
-  stepOrder: number;
-  repeatValue: number;
-  type: string;
-  steps: WorkoutInterval[] | null;
-  description: string;
-  durationType: string | null;
-  durationValue: number;
-  intensity: string;
-  targetValueLow: number;
-  targetValueHigh: number;
-  repeatType: string | null;
-}
-
-interface PlannedRunningWorkout {
-  date: string;
-  workoutName: string;
-  description: string;
-  intervals: WorkoutInterval[];
-  coachName: string;
-  athleteNames: string[];
-  workoutId: string;
-}
-
-interface WorkoutDrill {
-  drillName: string;
-  drillSets: number;
-  drillReps: number;
-}
-
-interface PlannedStrengthWorkout {
-  coachName: string;
-  workoutName: string;
-  workoutDescription: string;
-  workoutDate: string;
-  workoutDrills: WorkoutDrill[];
-  athleteNames: string[];
-  workoutReviews: Record<string, { athleteName: string; reviewContent: string; difficultyLevel: number }> | null;
-  workoutId: string | null;
-}
-
-interface PlannedWorkoutFeedResponse {
-  runningWorkouts: PlannedRunningWorkout[];
-  strengthWorkouts: PlannedStrengthWorkout[];
-  runningNextCursor: string | null;
-  strengthNextCursor: string | null;
-}
-
-interface PlannedWorkoutByDateResponse {
-  runningWorkouts: PlannedRunningWorkout[];
-  strengthWorkouts: PlannedStrengthWorkout[];
-}
-
-interface Lap {
-  lapDistanceInKilometers: number;
-  lapDurationInSeconds: number;
-  lapPaceInMinKm: number;
-  avgHeartRate: number;
-}
-
 type FilterKey = "all" | "running" | "strength";
 type GroupKey = "today" | "tomorrow" | "thisWeek" | "later" | "past";
 
@@ -102,9 +51,8 @@ function PlannedWorkoutsPageContent() {
   const [viewMode, setViewMode] = useState<"feed" | "date">("feed");
   const [selectedDate, setSelectedDate] = useState<string>("");
   const [dateInputValue, setDateInputValue] = useState<string>("");
-  const [athleteName, setAthleteName] = useState<string>("");
   const [runningWorkouts, setRunningWorkouts] = useState<PlannedRunningWorkout[]>([]);
-  const [strengthWorkouts, setStrengthWorkouts] = useState<PlannedStrengthWorkout[]>([]);
+  const [strengthWorkouts, setStrengthWorkouts] = useState<StrengthWorkout[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [runningCursor, setRunningCursor] = useState<string | null>(null);
@@ -134,14 +82,7 @@ function PlannedWorkoutsPageContent() {
 
   useRequireAuth();
 
-  useEffect(() => {
-    const athleteParam = searchParams.get("athlete");
-    if (athleteParam) {
-      setAthleteName(athleteParam);
-    } else if (user) {
-      setAthleteName(user.userName);
-    }
-  }, [searchParams, user]);
+  const { athleteName, denial } = useAthleteAccess(searchParams.get("athlete"));
 
   const formatDate = (date: Date): string => {
     const month = (date.getMonth() + 1).toString();
@@ -176,22 +117,13 @@ function PlannedWorkoutsPageContent() {
     try {
       setLoading(true);
       setError(null);
-      const response = await apiService.getPlannedWorkoutsByDate<PlannedWorkoutByDateResponse>(
-        user.apiKey,
+      const response = await apiService.getPlannedWorkoutsByDate(
         athleteName,
         date
       );
 
-      if (response.data) {
-        const running = Array.isArray(response.data.runningWorkouts)
-          ? response.data.runningWorkouts
-          : [];
-        const strength = Array.isArray(response.data.strengthWorkouts)
-          ? response.data.strengthWorkouts
-          : [];
-        setRunningWorkouts(running);
-        setStrengthWorkouts(strength);
-      }
+      setRunningWorkouts(response.data.runningWorkouts);
+      setStrengthWorkouts(response.data.strengthWorkouts);
     } catch (err) {
       console.error("Failed to fetch planned workouts by date:", err);
       setError(err instanceof Error ? err.message : "Failed to load planned workouts");
@@ -216,20 +148,15 @@ function PlannedWorkoutsPageContent() {
       setLoading(true);
       setError(null);
 
-      const response = await apiService.getPlannedWorkoutFeed<PlannedWorkoutFeedResponse>(
-        user.apiKey,
+      const response = await apiService.getPlannedWorkoutFeed(
         athleteName,
         loadMore ? runningCursorRef.current : null,
         loadMore ? strengthCursorRef.current : null
       );
 
       if (response.data) {
-        const running = Array.isArray(response.data.runningWorkouts)
-          ? response.data.runningWorkouts
-          : [];
-        const strength = Array.isArray(response.data.strengthWorkouts)
-          ? response.data.strengthWorkouts
-          : [];
+        const running = response.data.runningWorkouts;
+        const strength = response.data.strengthWorkouts;
 
         if (loadMore) {
           setRunningWorkouts((prev) => [...prev, ...running]);
@@ -257,88 +184,6 @@ function PlannedWorkoutsPageContent() {
     }
   }, [user?.apiKey, athleteName]);
 
-  const metersPerSecondToMinPerKm = (mps: number): number => {
-    if (!mps || mps <= 0) return 10;
-    const kmPerHour = mps * 3.6;
-    const minPerKm = 60 / kmPerHour;
-    return minPerKm;
-  };
-
-  const convertIntervalsToLaps = (intervals: WorkoutInterval[]): Lap[] => {
-    const laps: Lap[] = [];
-
-    const processStep = (step: WorkoutInterval) => {
-      const isRest = step.intensity === "REST" || step.intensity === "rest";
-
-      let lapDistance = 0;
-      let lapDuration = 0;
-      let lapPace = 0;
-
-      if (isRest) {
-        lapPace = 10;
-
-        if (step.durationType === "DISTANCE" || step.durationType === "distance") {
-          const kmForDuration = step.durationValue / 1000;
-          lapDuration = kmForDuration * lapPace * 60;
-        } else if (step.durationType === "TIME" || step.durationType === "time") {
-          lapDuration = step.durationValue;
-        } else {
-          return;
-        }
-      } else {
-        if (!step.targetValueLow && !step.targetValueHigh) {
-          return;
-        }
-
-        const avgSpeedMps = (step.targetValueLow + step.targetValueHigh) / 2;
-        if (!avgSpeedMps || avgSpeedMps <= 0) {
-          return;
-        }
-        lapPace = metersPerSecondToMinPerKm(avgSpeedMps);
-
-        if (step.durationType === "DISTANCE" || step.durationType === "distance") {
-          lapDistance = step.durationValue / 1000;
-          lapDuration = lapDistance * lapPace * 60;
-        } else if (step.durationType === "TIME" || step.durationType === "time") {
-          lapDuration = step.durationValue;
-          lapDistance = lapDuration / (lapPace * 60);
-        } else {
-          return;
-        }
-      }
-
-      if (lapDuration > 0 && lapPace > 0 && (isRest || lapDistance > 0)) {
-        laps.push({
-          lapDistanceInKilometers: isRest ? 0 : lapDistance,
-          lapDurationInSeconds: lapDuration,
-          lapPaceInMinKm: lapPace,
-          avgHeartRate: 0,
-        });
-      }
-    };
-
-    const processInterval = (interval: WorkoutInterval) => {
-      if (interval.steps && interval.steps.length > 0) {
-        const repeatCount = interval.repeatValue || 1;
-        for (let i = 0; i < repeatCount; i++) {
-          interval.steps.forEach((step) => {
-            if (step.steps && step.steps.length > 0) {
-              processInterval(step);
-            } else {
-              processStep(step);
-            }
-          });
-        }
-      } else {
-        processStep(interval);
-      }
-    };
-
-    intervals.forEach((interval) => processInterval(interval));
-
-    return laps;
-  };
-
   const handleDateSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (selectedDate) {
@@ -391,7 +236,7 @@ function PlannedWorkoutsPageContent() {
   // Group workouts by temporal bucket (today / tomorrow / this week / later / past)
   type WorkoutItem =
     | { type: "running"; workout: PlannedRunningWorkout; date: Date; id: string }
-    | { type: "strength"; workout: PlannedStrengthWorkout; date: Date; id: string };
+    | { type: "strength"; workout: StrengthWorkout; date: Date; id: string };
 
   const groupedWorkouts = useMemo(() => {
     const filtered: WorkoutItem[] = [];
@@ -472,25 +317,8 @@ function PlannedWorkoutsPageContent() {
     );
   }
 
-  const athleteParam = searchParams.get("athlete");
-  if (user && user.role?.toLowerCase() === "coach" && !athleteParam) {
-    return (
-      <AppShell title="No Access" subtitle="Select an athlete to view their planned workouts." maxWidth="md">
-        <Card padding="lg" className="text-center">
-          <div className="mx-auto mb-4 inline-flex h-16 w-16 items-center justify-center rounded-2xl bg-amber-500/10 text-amber-600 dark:text-amber-300">
-            <svg className="h-8 w-8" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
-              <path strokeLinecap="round" strokeLinejoin="round" d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" />
-            </svg>
-          </div>
-          <p className="text-gray-700 dark:text-gray-300 mb-6">
-            Please choose an athlete from your dashboard to see their plan.
-          </p>
-          <Link href="/dashboard">
-            <Button variant="gradient">Return to Dashboard</Button>
-          </Link>
-        </Card>
-      </AppShell>
-    );
+  if (denial) {
+    return <AccessDenied denial={denial} subject="planned workouts" />;
   }
 
   const renderSkeletonList = () => (
@@ -511,7 +339,7 @@ function PlannedWorkoutsPageContent() {
     </div>
   );
 
-  const renderRunningCard = (workout: PlannedRunningWorkout, laps: Lap[], workoutIdStr: string | null) => (
+  const renderRunningCard = (workout: PlannedRunningWorkout, laps: WorkoutLap[], workoutIdStr: string | null) => (
     <Card padding="md" interactive={!!workoutIdStr} className={!workoutIdStr ? "opacity-60" : ""}>
       <div className="flex items-start gap-3 mb-4">
         <div className="flex h-12 w-12 items-center justify-center rounded-xl bg-gradient-to-br from-blue-500/20 to-indigo-500/20 dark:from-blue-500/30 dark:to-indigo-500/30 text-blue-600 dark:text-blue-300 flex-shrink-0">
@@ -547,11 +375,12 @@ function PlannedWorkoutsPageContent() {
     </Card>
   );
 
-  const renderStrengthCard = (workout: PlannedStrengthWorkout) => {
+  const renderStrengthCard = (workout: StrengthWorkout) => {
     const review = workout.workoutReviews && workout.athleteNames && workout.athleteNames.length > 0
       ? workout.workoutReviews[workout.athleteNames[0]]
       : null;
     const workoutIdStr = workout.workoutId ? String(workout.workoutId) : null;
+    const groupLabels = drillGroupLabels(workout.workoutDrills ?? []);
 
     return (
       <Card padding="md" interactive={!!workoutIdStr} className={!workoutIdStr ? "opacity-60" : ""}>
@@ -592,7 +421,10 @@ function PlannedWorkoutsPageContent() {
               <div key={di} className="text-xs text-gray-600 dark:text-gray-400 flex items-center gap-2">
                 <span className="h-1.5 w-1.5 rounded-full bg-purple-500/70" aria-hidden />
                 <span className="truncate">
-                  {drill.drillName} · {drill.drillSets} × {drill.drillReps}
+                  {groupLabels[di] && (
+                    <span className="font-semibold text-purple-600 dark:text-purple-300">{groupLabels[di]} </span>
+                  )}
+                  {drill.drillName} · {formatDrillPrescription(drill)}
                 </span>
               </div>
             ))}
@@ -1,6 +1,6 @@
 /**
  * Theme Providers Component
- * Client component that wraps the app with next-themes ThemeProvider and AuthProvider
+ * Client component that wraps the app with next-themes ThemeProvider, AuthProvider and RouteGuard
  */
 
 "use client";
@@ -8,6 +8,9 @@
 import { ThemeProvider, useTheme } from "next-themes";
 import { useEffect } from "react";
 import { AuthProvider } from "../context/AuthContext";
+import DebugLogPanel from "./components/DebugLogPanel";
+import RouteGuard from "./components/RouteGuard";
+import SessionExpiryPrompt from "./components/SessionExpiryPrompt";
 import { THEME_STORAGE_KEY } from "../lib/theme-storage";
 
 /**
@@ -52,8 +55,10 @@ export function Providers({ children }: { children: React.ReactNode }) {
     >
       <ThemeDefaultSync />
       <AuthProvider>
-        {children}
+        <RouteGuard>{children}</RouteGuard>
+        <SessionExpiryPrompt />
       </AuthProvider>
+      {process.env.NODE_ENV === "development" && <DebugLogPanel />}
     </ThemeProvider>
   );
 }
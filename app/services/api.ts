@@ -4,25 +4,184 @@
  */
 
 import { API_BASE_URL } from "../../lib/api-config";
+import { ApiError, NetworkError } from "../../lib/api-error";
+import { setToken, clearToken } from "../../lib/auth";
+import {
+  sessionCredentials,
+  apiKeyPlacement,
+  API_KEY_HEADER,
+  API_KEY_QUERY_PARAM,
+  type CredentialProvider,
+} from "../../lib/credentials";
+import { hashPassword } from "../../lib/crypto-utils";
+import { createLogger } from "../../lib/logger";
+import { notifySessionEnding } from "../../lib/session-restore";
+import { broadcastSessionEvent } from "../../lib/session-sync";
+import type { Schema } from "../../lib/schema";
+import { queryCache, queryKey, SHORT_LIVED, STANDARD, LONG_LIVED, type CachePolicy } from "../../lib/query-cache";
+import {
+  validateResponse,
+  athleteList,
+  flockList,
+  flockMemberNames,
+  workoutsByDate,
+  workoutFeed,
+  plannedWorkoutFeed,
+  plannedWorkoutsByDate,
+  sleepFeed,
+  type WorkoutsByDate,
+  type WorkoutFeed,
+  type PlannedWorkoutFeed,
+  type PlannedWorkoutsByDate,
+  type SleepFeed,
+} from "../../lib/api-schema";
+import {
+  mapWorkoutSummary,
+  mapWorkoutData,
+  mapStrengthWorkout,
+  mapPlannedWorkoutDetail,
+  mapSleepDataItem,
+  mapTrainingSummary,
+  type AthleteCard,
+  type WorkoutSummary,
+  type WorkoutData,
+  type StrengthWorkout,
+  type WorkoutReview,
+  type PlannedWorkoutDetail,
+  type SleepDataItem,
+  type TrainingSummary,
+} from "../../lib/domain";
 
 type RequestMethod = "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
 
-interface RequestOptions {
+interface RequestOptions<T = unknown> {
   method?: RequestMethod;
   headers?: Record<string, string>;
   body?: unknown;
   requiresAuth?: boolean;
+  /** Send the signed-in user's API key (X-Api-Key header, or ?apiKey= on legacy routes) */
+  withApiKey?: boolean;
+  /**
+   * Clear the session and redirect to /login on 401 (default: true)
+   * Disable for endpoints where 401 means "no access" rather than "session expired"
+   */
+  redirectOnUnauthorized?: boolean;
+  /** Validate and normalize the response body; throws ApiSchemaError on mismatch */
+  schema?: Schema<T>;
+  /** GET only: serve from the query cache with this freshness policy */
+  cache?: CachePolicy;
+  /** Non-GET only: endpoint path prefixes whose cached queries are dropped on success */
+  invalidates?: string[];
+  /** Abort the request (rejects with an AbortError, see isAbortError) */
+  signal?: AbortSignal;
+  /** Per-attempt timeout in ms (default: 15s); rejects with NetworkError "timeout" */
+  timeoutMs?: number;
+  /** Extra attempts on network failures and 408/429/502/503/504 (default: 2 for GET, 0 otherwise) */
+  retries?: number;
 }
 
-interface ApiResponse<T = unknown> {
+/**
+ * Per-call overrides accepted by the typed endpoint methods
+ */
+export type CallOptions = Pick<RequestOptions, "signal" | "timeoutMs" | "retries">;
+
+export interface ApiResponse<T = unknown> {
   data: T;
   status: number;
   message?: string;
 }
 
+/**
+ * Body of /api/addWorkout and /api/strength/addWorkout
+ * jsonBody is the serialized workout; targetName is an athlete or flock name
+ */
+export interface PlannedWorkoutRequest {
+  targetName: string;
+  isFlock: boolean;
+  jsonBody: string;
+  date: string;
+}
+
+/**
+ * Body of the planned workout update endpoints
+ * Replaces the serialized workout and its date; the assigned athletes stay the same
+ */
+export type PlannedWorkoutUpdate = Pick<PlannedWorkoutRequest, "jsonBody" | "date">;
+
+const log = createLogger("api");
+
+const DEFAULT_TIMEOUT_MS = 15_000;
+const DEFAULT_GET_RETRIES = 2;
+const RETRY_BASE_DELAY_MS = 500;
+const RETRY_MAX_DELAY_MS = 8_000;
+
+/** Statuses worth retrying: the server may answer differently a moment later */
+const RETRYABLE_STATUSES = new Set([408, 429, 502, 503, 504]);
+
+function isOffline(): boolean {
+  return typeof navigator !== "undefined" && navigator.onLine === false;
+}
+
+function abortError(): DOMException {
+  return new DOMException("Request aborted", "AbortError");
+}
+
+/**
+ * Timeouts and dropped connections are retried; being offline is not,
+ * since the page should show its offline state right away
+ */
+function isRetryable(error: unknown): boolean {
+  if (error instanceof NetworkError) return error.reason !== "offline";
+  return error instanceof ApiError && RETRYABLE_STATUSES.has(error.status);
+}
+
+/**
+ * Exponential backoff with jitter: ~0.5s, ~1s, ~2s, ... capped at 8s
+ */
+function retryDelay(attempt: number): number {
+  const base = Math.min(RETRY_BASE_DELAY_MS * 2 ** attempt, RETRY_MAX_DELAY_MS);
+  return base / 2 + Math.random() * (base / 2);
+}
+
+/**
+ * Wait between retries; rejects early if the caller aborts
+ */
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Let one caller stop waiting on a shared (cached) request without
+ * cancelling it for the other callers
+ */
+function withSignal<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(abortError());
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(abortError());
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener("abort", onAbort));
+  });
+}
+
 class ApiService {
   private baseUrl: string;
   private defaultHeaders: Record<string, string>;
+  private credentials: CredentialProvider = sessionCredentials;
 
   constructor() {
     this.baseUrl = API_BASE_URL;
@@ -32,64 +191,80 @@ class ApiService {
   }
 
   /**
-   * Hash password using SHA-256
-   * Matches the exact implementation: encoder -> digest -> array -> hex string
+   * Replace where the client reads the JWT and API key from
+   * @param provider - Credential source (defaults to the signed-in session)
    */
-  private async hashPassword(password: string): Promise<string> {
-    // Debug: Log password details to verify it's not modified
-    console.log("🔐 API Service - Password to hash length:", password.length, "first char:", password.charCodeAt(0));
-    const encoder = new TextEncoder();
-    const data = encoder.encode(password);
-    const hashBuffer = await crypto.subtle.digest("SHA-256", data);
-    const hashArray = Array.from(new Uint8Array(hashBuffer));
-    const hashHex = hashArray.map((b) => b.toString(16).padStart(2, "0")).join("");
-    
-    // Debug: Verify hash for "test"
-    if (password === "test") {
-      const expectedHash = "9f86d081884c7d659a2feaa0c55ad015a3bf4f1b2b0b822cd15d6c15b0f00a08";
-      if (hashHex !== expectedHash) {
-        console.error("❌ API Service - Hash mismatch for 'test':", hashHex, "expected:", expectedHash);
-      } else {
-        console.log("✅ API Service - Hash verified for 'test'");
-      }
-    }
-    console.log("🔐 API Service - Generated hash:", hashHex);
-    return hashHex;
+  setCredentialProvider(provider: CredentialProvider): void {
+    this.credentials = provider;
+    queryCache.clear();
   }
 
   /**
-   * Get authentication token from storage
+   * Get authentication token from the credential provider
    */
   getAuthToken(): string | null {
-    if (typeof window === "undefined") return null;
-    return localStorage.getItem("authToken");
+    return this.credentials.getToken();
   }
 
   /**
    * Set authentication token in storage
    */
   setAuthToken(token: string): void {
-    if (typeof window === "undefined") return;
-    localStorage.setItem("authToken", token);
+    setToken(token);
+    queryCache.clear();
   }
 
   /**
    * Remove authentication token from storage
    */
   clearAuthToken(): void {
-    if (typeof window === "undefined") return;
-    localStorage.removeItem("authToken");
+    clearToken();
+    queryCache.clear();
+  }
+
+  /**
+   * Drop cached queries whose endpoint path starts with any of the prefixes
+   * @param pathPrefixes - Endpoint paths, e.g. "/api/planned"
+   */
+  invalidateQueries(...pathPrefixes: string[]): void {
+    queryCache.invalidate(...pathPrefixes);
+  }
+
+  /**
+   * Get the API key for a request that needs one
+   * Throws a 401 ApiError when no user is signed in
+   */
+  private requireApiKey(endpoint: string): string {
+    const apiKey = this.credentials.getApiKey();
+    if (!apiKey) {
+      throw new ApiError("API key is required. Please log in again.", 401, undefined, endpoint);
+    }
+    return apiKey;
+  }
+
+  /**
+   * Build the full URL, adding the API key for legacy query-string routes
+   */
+  private buildUrl(endpoint: string, apiKey: string | null): string {
+    const url = endpoint.startsWith("http") ? endpoint : `${this.baseUrl}${endpoint}`;
+    if (!apiKey || apiKeyPlacement(endpoint) !== "query") return url;
+    const separator = url.includes("?") ? "&" : "?";
+    return `${url}${separator}${API_KEY_QUERY_PARAM}=${encodeURIComponent(apiKey)}`;
   }
 
   /**
    * Build headers for request
    */
-  private buildHeaders(options: RequestOptions): HeadersInit {
+  private buildHeaders(options: RequestOptions<unknown>, endpoint: string, apiKey: string | null): HeadersInit {
     const headers: Record<string, string> = {
       ...this.defaultHeaders,
       ...options.headers,
     };
 
+    if (apiKey && apiKeyPlacement(endpoint) === "header") {
+      headers[API_KEY_HEADER] = apiKey;
+    }
+
     // Add authentication token if required
     if (options.requiresAuth !== false) {
       const token = this.getAuthToken();
@@ -101,18 +276,35 @@ class ApiService {
     return headers;
   }
 
+  /**
+   * Clear the session and send the user to the login page
+   * The current page is remembered so login can return to it
+   */
+  private handleUnauthorized(): void {
+    notifySessionEnding();
+    this.clearAuthToken();
+    broadcastSessionEvent({ type: "logout", reason: "expired" });
+    if (typeof window !== "undefined" && window.location.pathname !== "/login") {
+      window.location.href = "/login";
+    }
+  }
+
   /**
    * Handle API response
    */
-  private async handleResponse<T>(response: Response): Promise<ApiResponse<T>> {
+  private async handleResponse<T>(
+    response: Response,
+    endpoint: string,
+    schema?: Schema<T>
+  ): Promise<ApiResponse<T>> {
     const contentType = response.headers.get("content-type");
     const isJson = contentType?.includes("application/json");
 
     let data: T;
     try {
       data = isJson ? await response.json() : ((await response.text()) as unknown as T);
-    } catch (error) {
-      throw new Error("Failed to parse response");
+    } catch {
+      throw new ApiError("Failed to parse response", response.status, undefined, endpoint);
     }
 
     if (!response.ok) {
@@ -120,13 +312,11 @@ class ApiService {
         typeof data === "object" && data !== null && "message" in data
           ? (data as { message: string }).message
           : `API Error: ${response.status} ${response.statusText}`;
-      const error = new Error(errorMessage) as Error & { status?: number };
-      error.status = response.status;
-      throw error;
+      throw new ApiError(errorMessage, response.status, data, endpoint);
     }
 
     return {
-      data,
+      data: schema ? validateResponse(schema, data, endpoint, response.status) : data,
       status: response.status,
       message: typeof data === "object" && data !== null && "message" in data ? (data as { message: string }).message : undefined,
     };
@@ -134,298 +324,462 @@ class ApiService {
 
   /**
    * Make HTTP request
+   * GETs are retried with exponential backoff on network failures and
+   * transient statuses; other methods run once unless options.retries is set
    */
   private async request<T = unknown>(
     endpoint: string,
-    options: RequestOptions = {}
+    options: RequestOptions<T> = {}
   ): Promise<ApiResponse<T>> {
-    const { method = "GET", body, requiresAuth = true } = options;
+    const { method = "GET", signal } = options;
+    const retries = options.retries ?? (method === "GET" ? DEFAULT_GET_RETRIES : 0);
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.send<T>(endpoint, options);
+      } catch (error) {
+        if (attempt >= retries || !isRetryable(error) || signal?.aborted) {
+          throw error;
+        }
+        await delay(retryDelay(attempt), signal);
+      }
+    }
+  }
 
-    const url = endpoint.startsWith("http") ? endpoint : `${this.baseUrl}${endpoint}`;
-    const headers = this.buildHeaders({ ...options, requiresAuth });
+  /**
+   * Send a single HTTP request (one attempt, bounded by the timeout)
+   */
+  private async send<T>(endpoint: string, options: RequestOptions<T>): Promise<ApiResponse<T>> {
+    const {
+      method = "GET",
+      body,
+      requiresAuth = true,
+      withApiKey = false,
+      redirectOnUnauthorized = true,
+      schema,
+      invalidates,
+      signal,
+      timeoutMs = DEFAULT_TIMEOUT_MS,
+    } = options;
+
+    const apiKey = withApiKey ? this.requireApiKey(endpoint) : null;
+    const url = this.buildUrl(endpoint, apiKey);
+    const headers = this.buildHeaders({ ...options, requiresAuth }, endpoint, apiKey);
+
+    if (signal?.aborted) {
+      throw abortError();
+    }
+    if (isOffline()) {
+      throw new NetworkError("You appear to be offline. Check your connection and try again.", "offline", endpoint);
+    }
+
+    // One controller per attempt: fires on timeout or when the caller aborts
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+    const forwardAbort = () => controller.abort();
+    signal?.addEventListener("abort", forwardAbort, { once: true });
 
     const config: RequestInit = {
       method,
       headers,
+      signal: controller.signal,
     };
 
     if (body && method !== "GET") {
       config.body = JSON.stringify(body);
     }
 
-    // Log request
-    console.log("🚀 API Request:", {
-      method,
-      url,
-      headers: Object.fromEntries(Object.entries(headers).map(([key, value]) => [key, key === "Authorization" ? "Bearer ***" : value])),
-      body: body ? JSON.stringify(body, null, 2) : undefined,
-      timestamp: new Date().toISOString(),
-    });
+    log.debug(`→ ${method} ${url}`, { headers, body });
 
     try {
       const response = await fetch(url, config);
-      
-      // Log response status
-      console.log("📥 API Response:", {
-        method,
-        url,
-        status: response.status,
-        statusText: response.statusText,
-        headers: Object.fromEntries(response.headers.entries()),
-        timestamp: new Date().toISOString(),
-      });
-
-      const result = await this.handleResponse<T>(response);
-      
-      // Log response data
-      console.log("✅ API Response Data:", {
-        method,
-        url,
-        status: result.status,
-        data: result.data,
-        message: result.message,
-        timestamp: new Date().toISOString(),
-      });
+      log.debug(`← ${response.status} ${method} ${url}`);
+
+      // Session expired or token rejected - same behaviour on every page
+      if (response.status === 401 && requiresAuth && redirectOnUnauthorized) {
+        this.handleUnauthorized();
+        const body = await response.text().catch(() => undefined);
+        throw new ApiError("Unauthorized. Please log in again.", 401, body, endpoint);
+      }
 
+      const result = await this.handleResponse<T>(response, endpoint, schema);
+
+      if (method !== "GET" && invalidates?.length) {
+        queryCache.invalidate(...invalidates);
+      }
+
+      log.debug(`${method} ${url} data`, result.data);
       return result;
     } catch (error) {
-      // Log error
-      console.error("❌ API Error:", {
-        method,
-        url,
-        error: error instanceof Error ? error.message : "Unknown error",
-        timestamp: new Date().toISOString(),
-      });
-
-      if (error instanceof Error) {
+      log.warn(`${method} ${url} failed`, error);
+
+      // Checked before ApiError: an abort mid-body surfaces as a parse failure
+      if (signal?.aborted) {
+        throw abortError();
+      }
+      if (timedOut) {
+        throw new NetworkError(`Request timed out after ${Math.round(timeoutMs / 1000)}s`, "timeout", endpoint);
+      }
+      if (error instanceof ApiError) {
         throw error;
       }
-      throw new Error("Network error occurred");
+      if (isOffline()) {
+        throw new NetworkError("You appear to be offline. Check your connection and try again.", "offline", endpoint);
+      }
+      throw new NetworkError("Network error occurred", "network", endpoint);
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", forwardAbort);
     }
   }
 
   /**
    * GET request
+   * Goes through the query cache when options.cache is set
    */
-  async get<T = unknown>(endpoint: string, options?: Omit<RequestOptions, "method" | "body">): Promise<ApiResponse<T>> {
+  async get<T = unknown>(endpoint: string, options?: Omit<RequestOptions<T>, "method" | "body" | "invalidates">): Promise<ApiResponse<T>> {
+    if (options?.cache) {
+      const { signal, ...shared } = options;
+      return withSignal(
+        queryCache.fetch(
+          queryKey(endpoint),
+          () => this.request<T>(endpoint, { ...shared, method: "GET" }),
+          options.cache
+        ),
+        signal
+      );
+    }
     return this.request<T>(endpoint, { ...options, method: "GET" });
   }
 
   /**
    * POST request
    */
-  async post<T = unknown>(endpoint: string, body?: unknown, options?: Omit<RequestOptions, "method">): Promise<ApiResponse<T>> {
+  async post<T = unknown>(endpoint: string, body?: unknown, options?: Omit<RequestOptions<T>, "method">): Promise<ApiResponse<T>> {
     return this.request<T>(endpoint, { ...options, method: "POST", body });
   }
 
   /**
    * PUT request
    */
-  async put<T = unknown>(endpoint: string, body?: unknown, options?: Omit<RequestOptions, "method">): Promise<ApiResponse<T>> {
+  async put<T = unknown>(endpoint: string, body?: unknown, options?: Omit<RequestOptions<T>, "method">): Promise<ApiResponse<T>> {
     return this.request<T>(endpoint, { ...options, method: "PUT", body });
   }
 
   /**
    * PATCH request
    */
-  async patch<T = unknown>(endpoint: string, body?: unknown, options?: Omit<RequestOptions, "method">): Promise<ApiResponse<T>> {
+  async patch<T = unknown>(endpoint: string, body?: unknown, options?: Omit<RequestOptions<T>, "method">): Promise<ApiResponse<T>> {
     return this.request<T>(endpoint, { ...options, method: "PATCH", body });
   }
 
   /**
    * DELETE request
    */
-  async delete<T = unknown>(endpoint: string, options?: Omit<RequestOptions, "method" | "body">): Promise<ApiResponse<T>> {
+  async delete<T = unknown>(endpoint: string, options?: Omit<RequestOptions<T>, "method" | "body">): Promise<ApiResponse<T>> {
     return this.request<T>(endpoint, { ...options, method: "DELETE" });
   }
 
   // ==================== Authentication Methods ====================
 
+  /**
+   * Read the JWT from an auth response
+   * Checks the token field names the auth endpoints have used
+   * Throws if the response carries no token
+   */
+  private readTokenFromResponse(data: unknown): string {
+    const record = data && typeof data === "object" ? (data as Record<string, unknown>) : {};
+    const token =
+      record.token ||
+      record.accessToken ||
+      record.access_token ||
+      record.authToken ||
+      record.auth_token ||
+      record.jwt ||
+      record.jwtToken;
+
+    if (!token || typeof token !== "string") {
+      throw new Error("No token received from server");
+    }
+    return token;
+  }
+
+  /**
+   * Store the JWT from an auth response (starts a new session)
+   */
+  private storeTokenFromResponse(data: unknown): void {
+    this.setAuthToken(this.readTokenFromResponse(data));
+  }
+
   /**
    * Login user with username and password
    * Sends SHA-256 hashed password to match what backend expects for login
    * Throws specific error for 401 (invalid credentials)
    */
   async login(username: string, password: string): Promise<ApiResponse<unknown>> {
-    const hashedPassword = await this.hashPassword(password);
+    const hashedPassword = await hashPassword(password);
     
     try {
-      const response = await this.request<unknown>(
-        `${this.baseUrl}/api/userAuth`,
+      const response = await this.post<unknown>(
+        "/api/userAuth",
         {
-          method: "POST",
-          body: {
-            userName: username,
-            hashedPassword: hashedPassword, // Send SHA-256 hashed password
-          },
-          requiresAuth: false,
-        }
+          userName: username,
+          hashedPassword: hashedPassword, // Send SHA-256 hashed password
+        },
+        { requiresAuth: false }
       );
-
-      // Store token from response - check multiple possible field names
-      if (response.data && typeof response.data === "object") {
-        const data = response.data as Record<string, unknown>;
-        
-        // Check for token in various possible fields
-        const token = 
-          (data.token as string) || 
-          (data.accessToken as string) || 
-          (data.access_token as string) ||
-          (data.authToken as string) ||
-          (data.auth_token as string) ||
-          (data.jwt as string) ||
-          (data.jwtToken as string);
-        
-        if (token && typeof token === "string") {
-          console.log("✅ Token found and stored:", token.substring(0, 20) + "...");
-          this.setAuthToken(token);
-        } else {
-          console.warn("⚠️ No token found in response. Full response:", JSON.stringify(response.data, null, 2));
-          // Even if no token, consider login successful if we got a 200 response
-          // Some APIs might use session cookies instead
-          console.log("⚠️ Login successful but no token field found. API may use session-based auth.");
-        }
-      } else {
-        console.warn("⚠️ Response data is not an object:", response.data);
-      }
-
+      this.storeTokenFromResponse(response.data);
       return response;
     } catch (error) {
       // Re-throw with specific message for 401 errors
-      if (error instanceof Error && (error as Error & { status?: number }).status === 401) {
+      if (error instanceof ApiError && error.status === 401) {
         throw new Error("Invalid username or password. Please check your credentials and try again.");
       }
       throw error;
     }
   }
 
+  /**
+   * Login (or sign up) with a Google OAuth credential
+   * @param credential - Google ID token credential
+   * @param role - Optional role for first-time Google sign up
+   */
+  async loginWithGoogle(credential: string, role?: string): Promise<ApiResponse<unknown>> {
+    try {
+      const response = await this.post<unknown>(
+        "/api/userAuth/google",
+        {
+          credential,
+          role: role?.toLowerCase(),
+        },
+        { requiresAuth: false }
+      );
+      this.storeTokenFromResponse(response.data);
+      return response;
+    } catch (error) {
+      if (error instanceof ApiError && error.status === 401) {
+        throw new Error("Google authentication failed. Please try again.");
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Register a new user
+   * @param registration - Registration data (password must already be SHA-256 hashed)
+   */
+  async register<T = unknown>(registration: {
+    UserName: string;
+    FullName: string;
+    Role: string;
+    Email: string;
+    Password: string;
+  }): Promise<ApiResponse<T>> {
+    return this.post<T>("/api/registration", registration, { requiresAuth: false });
+  }
+
   /**
    * Logout user
    */
   async logout(): Promise<void> {
     try {
-      await this.post("/auth/logout", {}, { requiresAuth: true });
+      await this.post("/auth/logout", {}, { requiresAuth: true, redirectOnUnauthorized: false });
     } catch (error) {
       // Continue with logout even if API call fails
-      console.error("Logout API call failed:", error);
+      log.warn("Logout API call failed", error);
     } finally {
       this.clearAuthToken();
     }
   }
 
+  /**
+   * Exchange the current JWT for a fresh one before it expires
+   * Keeps cached queries, since the user stays the same
+   * Throws (without redirecting) when the session can no longer be refreshed
+   */
+  async refreshSession(): Promise<void> {
+    const response = await this.post<unknown>("/api/userAuth/refresh", undefined, {
+      redirectOnUnauthorized: false,
+    });
+    setToken(this.readTokenFromResponse(response.data));
+  }
+
   /**
    * Get current user
    */
   async getCurrentUser<T = unknown>(): Promise<ApiResponse<T>> {
-    return this.get<T>("/auth/me");
+    return this.get<T>("/api/userAuth/me");
   }
 
+  // ==================== Coach Connection Methods ====================
+
+  /**
+   * Get the connection code of a coach
+   * @param coachName - The coach's username
+   */
+  async getCoachId<T = { coachId: string }>(coachName: string): Promise<ApiResponse<T>> {
+    const params = new URLSearchParams({
+      coachName: coachName,
+    });
+    return this.get<T>(`/api/CoachConnection/getCoachId?${params.toString()}`);
+  }
+
+  /**
+   * Get the coach username for a connection code
+   * @param coachId - The coach's connection code
+   */
+  async getCoachName<T = { coachUsername: string }>(coachId: string): Promise<ApiResponse<T>> {
+    const params = new URLSearchParams({
+      coachId: coachId,
+    });
+    return this.get<T>(`/api/coachConnection/getCoachName?${params.toString()}`);
+  }
+
+  /**
+   * Connect the signed-in athlete with a coach
+   * Returns 401 when the athlete is already connected to this coach
+   * @param coachId - The coach's connection code
+   */
+  async connectToCoach<T = unknown>(coachId: string): Promise<ApiResponse<T>> {
+    return this.post<T>(
+      "/api/coachConnection/connect",
+      {
+        // This endpoint reads the key from the body rather than the header
+        apiKey: this.requireApiKey("/api/coachConnection/connect"),
+        coachId: coachId,
+      },
+      { redirectOnUnauthorized: false, invalidates: ["/api/athletes"] }
+    );
+  }
+
+
   // ==================== Example API Methods (Legacy) ====================
   // Note: These are example methods. Use workoutSummary endpoints instead.
 
   // ==================== Coach Methods ====================
 
   /**
-   * Get all athletes for a coach
-   * @param apiKey - The coach's API key
+   * Get all athletes of the signed-in coach
+   * @param options - Optional abort signal, timeout and retry overrides
    */
-  async getAthletes<T = unknown>(apiKey: string): Promise<ApiResponse<T>> {
-    return this.get<T>(`/api/athletes?apiKey=${encodeURIComponent(apiKey)}`);
+  async getAthletes(options?: CallOptions): Promise<ApiResponse<AthleteCard[]>> {
+    return this.get("/api/athletes", {
+      ...options,
+      withApiKey: true,
+      schema: athleteList,
+      cache: STANDARD,
+    });
   }
 
+
   /**
-   * Get all flocks for a coach
-   * @param apiKey - The coach's API key
+   * Get all flocks of the signed-in coach
+   * @param options - Optional abort signal, timeout and retry overrides
    */
-  async getFlocks<T = unknown>(apiKey: string): Promise<ApiResponse<T>> {
-    return this.get<T>(`/api/flocks/getFlocks?apiKey=${encodeURIComponent(apiKey)}`);
+  async getFlocks(options?: CallOptions): Promise<ApiResponse<string[]>> {
+    return this.get("/api/flocks/getFlocks", {
+      ...options,
+      withApiKey: true,
+      schema: flockList,
+      cache: STANDARD,
+    });
   }
 
+
   /**
-   * Create a new flock for a coach
-   * @param apiKey - The coach's API key
+   * Create a new flock for the signed-in coach
    * @param flockName - The name of the flock to create
    */
-  async createFlock<T = unknown>(apiKey: string, flockName: string): Promise<ApiResponse<T>> {
+  async createFlock<T = unknown>(flockName: string): Promise<ApiResponse<T>> {
     const params = new URLSearchParams({
-      apiKey: apiKey,
       flockName: flockName,
     });
     return this.post<T>(
       `/api/flocks/createFlock?${params.toString()}`,
-      undefined
+      undefined,
+      { withApiKey: true, invalidates: ["/api/flocks/getFlocks"] }
     );
   }
 
+
   /**
    * Get all athletes in a specific flock
-   * @param apiKey - The coach's API key
    * @param flockName - The name of the flock
+   * @param options - Optional abort signal, timeout and retry overrides
    */
-  async getFlockAthletes<T = unknown>(apiKey: string, flockName: string): Promise<ApiResponse<T>> {
-    return this.get<T>(`/api/flocks/flockAthletes?apiKey=${encodeURIComponent(apiKey)}&flockName=${encodeURIComponent(flockName)}`);
+  async getFlockAthletes(flockName: string, options?: CallOptions): Promise<ApiResponse<string[]>> {
+    const params = new URLSearchParams({
+      flockName: flockName,
+    });
+    return this.get(`/api/flocks/flockAthletes?${params.toString()}`, {
+      ...options,
+      withApiKey: true,
+      schema: flockMemberNames,
+      cache: STANDARD,
+    });
   }
 
+
   /**
    * Add an athlete to a flock
-   * @param apiKey - The coach's API key
    * @param athleteUserName - The username of the athlete to add
    * @param flockName - The name of the flock
    */
-  async addToFlock<T = unknown>(apiKey: string, athleteUserName: string, flockName: string): Promise<ApiResponse<T>> {
-    const params = new URLSearchParams({
-      apiKey: apiKey,
-    });
+  async addToFlock<T = unknown>(athleteUserName: string, flockName: string): Promise<ApiResponse<T>> {
     return this.post<T>(
-      `/api/flocks/addToFlock?${params.toString()}`,
+      "/api/flocks/addToFlock",
       {
         athleteUserName: athleteUserName,
         flockName: flockName,
-      }
+      },
+      { withApiKey: true, invalidates: ["/api/flocks/flockAthletes"] }
     );
   }
 
+
   /**
    * Remove an athlete from a flock
-   * @param apiKey - The coach's API key
    * @param flockName - The name of the flock
    * @param athleteName - The name of the athlete to remove
    */
-  async removeAthleteFromFlock<T = unknown>(apiKey: string, flockName: string, athleteName: string): Promise<ApiResponse<T>> {
-    const params = new URLSearchParams({
-      apiKey: apiKey,
-    });
+  async removeAthleteFromFlock<T = unknown>(flockName: string, athleteName: string): Promise<ApiResponse<T>> {
     return this.post<T>(
-      `/api/flocks/removeAthlete?${params.toString()}`,
+      "/api/flocks/removeAthlete",
       {
         FlockName: flockName,
         AthleteName: athleteName,
-      }
+      },
+      { withApiKey: true, invalidates: ["/api/flocks/flockAthletes"] }
     );
   }
 
+
   // ==================== Garmin OAuth Methods ====================
 
   /**
-   * Validate if athlete is already connected to Garmin
-   * @param apiKey - The user's API key
+   * Validate if the signed-in athlete is already connected to Garmin
    * @returns Response with isConnected boolean
    */
-  async validateGarminConnection<T = { isConnected: boolean }>(apiKey: string): Promise<ApiResponse<T>> {
-    return this.get<T>(`/api/ValidateGarminConnection?apiKey=${encodeURIComponent(apiKey)}`);
+  async validateGarminConnection<T = { isConnected: boolean }>(): Promise<ApiResponse<T>> {
+    return this.get<T>("/api/ValidateGarminConnection", { withApiKey: true });
   }
 
+
   /**
-   * Request OAuth token from Garmin
-   * @param apiKey - API key (required) - always passed as query string
+   * Request OAuth token from Garmin for the signed-in athlete
    * @returns Response with: { stateToken: string, oauth_token: string, oauth_token_secret: string }
    */
-  async requestGarminToken<T = { stateToken: string; oauth_token: string; oauth_token_secret: string }>(
-    apiKey: string
-  ): Promise<ApiResponse<T>> {
-    return this.get<T>(`/api/request-token?apiKey=${encodeURIComponent(apiKey)}`);
+  async requestGarminToken<
+    T = { stateToken: string; oauth_token: string; oauth_token_secret: string }
+  >(): Promise<ApiResponse<T>> {
+    return this.get<T>("/api/request-token", { withApiKey: true });
   }
 
+
   /**
    * Get JWT token from state token
    * @param stateToken - State token from OAuth flow
@@ -517,42 +871,41 @@ class ApiService {
   /**
    * Get workout summary for a specific date
    * @param athleteName - Name of the athlete
-   * @param apiKey - API key for authorization
    * @param date - Date in format "MM/dd/yyyy" or "M/d/yyyy"
+   * @param options - Optional abort signal, timeout and retry overrides
    */
-  async getWorkoutSummary<T = { runningWorkouts: unknown[]; strengthWorkouts: unknown[] }>(
+  async getWorkoutSummary(
     athleteName: string,
-    apiKey: string,
-    date: string
-  ): Promise<ApiResponse<T>> {
+    date: string,
+    options?: CallOptions
+  ): Promise<ApiResponse<WorkoutsByDate>> {
     const params = new URLSearchParams({
       athleteName: athleteName,
-      apiKey: apiKey,
       date: date,
     });
-    return this.get<T>(`/api/workoutSummary?${params.toString()}`);
+    return this.get(`/api/workoutSummary?${params.toString()}`, {
+      ...options,
+      withApiKey: true,
+      schema: workoutsByDate,
+      cache: SHORT_LIVED,
+    });
   }
 
+
   /**
    * Get workout feed with pagination
-   * @param apiKey - API key for authorization
    * @param athleteName - Name of the athlete
    * @param runningCursor - Optional cursor for running workouts pagination (MM/dd/yyyy)
    * @param strengthCursor - Optional cursor for strength workouts pagination (MM/dd/yyyy)
+   * @param options - Optional abort signal, timeout and retry overrides
    */
-  async getWorkoutFeed<T = {
-    runningWorkouts: unknown[];
-    strengthWorkouts: unknown[];
-    runningNextCursor: string | null;
-    strengthNextCursor: string | null;
-  }>(
-    apiKey: string,
+  async getWorkoutFeed(
     athleteName: string,
     runningCursor?: string | null,
-    strengthCursor?: string | null
-  ): Promise<ApiResponse<T>> {
+    strengthCursor?: string | null,
+    options?: CallOptions
+  ): Promise<ApiResponse<WorkoutFeed>> {
     const params = new URLSearchParams({
-      apiKey: apiKey,
       athleteName: athleteName,
     });
     if (runningCursor) {
@@ -561,21 +914,31 @@ class ApiService {
     if (strengthCursor) {
       params.append("strengthCursor", strengthCursor);
     }
-    return this.get<T>(`/api/workoutSummary/feed?${params.toString()}`);
+    return this.get(`/api/workoutSummary/feed?${params.toString()}`, {
+      ...options,
+      withApiKey: true,
+      schema: workoutFeed,
+      cache: SHORT_LIVED,
+    });
   }
 
+
   /**
    * Get detailed workout by ID
    * @param userName - Username of the athlete
    * @param id - Workout ID
+   * @param options - Optional abort signal, timeout and retry overrides
    */
-  async getWorkout<T = unknown>(userName: string, id: string): Promise<ApiResponse<T>> {
+  async getWorkout(userName: string, id: string, options?: CallOptions): Promise<ApiResponse<WorkoutSummary>> {
     const params = new URLSearchParams({
       userName: userName,
       id: id,
     });
-    return this.get<T>(`/api/workoutSummary/getWorkout?${params.toString()}`, {
+    return this.get(`/api/workoutSummary/getWorkout?${params.toString()}`, {
+      ...options,
       requiresAuth: false,
+      schema: mapWorkoutSummary,
+      cache: LONG_LIVED,
     });
   }
 
@@ -583,87 +946,94 @@ class ApiService {
    * Get workout data (samples and laps)
    * @param workoutId - Workout ID
    * @param userName - Username of the athlete
+   * @param options - Optional abort signal, timeout and retry overrides
    */
-  async getWorkoutData<T = { dataSamples: unknown[]; workoutLaps: unknown[] }>(
+  async getWorkoutData(
     workoutId: string,
-    userName: string
-  ): Promise<ApiResponse<T>> {
+    userName: string,
+    options?: CallOptions
+  ): Promise<ApiResponse<WorkoutData>> {
     const params = new URLSearchParams({
       userName: userName,
       workoutId: workoutId,
     });
-    return this.get<T>(`/api/workoutSummary/data?${params.toString()}`, {
+    return this.get(`/api/workoutSummary/data?${params.toString()}`, {
+      ...options,
       requiresAuth: false,
+      schema: mapWorkoutData,
+      cache: LONG_LIVED,
     });
   }
 
   /**
    * Get profile picture for a user
    * @param userName - Username of the user
+   * @param options - Optional abort signal, timeout and retry overrides
    * @returns Response with profile picture data (text/string)
    */
-  async getProfilePic(userName: string): Promise<ApiResponse<string>> {
+  async getProfilePic(userName: string, options?: CallOptions): Promise<ApiResponse<string>> {
     const params = new URLSearchParams({
       userName: userName,
     });
     return this.get<string>(`/api/profilePic?${params.toString()}`, {
+      ...options,
       requiresAuth: false,
+      cache: LONG_LIVED,
     });
   }
 
   /**
    * Get strength workout details by ID
    * @param workoutId - Strength workout ID
+   * @param options - Optional abort signal, timeout and retry overrides
    */
-  async getStrengthWorkout<T = unknown>(workoutId: string): Promise<ApiResponse<T>> {
+  async getStrengthWorkout(workoutId: string, options?: CallOptions): Promise<ApiResponse<StrengthWorkout>> {
     const params = new URLSearchParams({
       id: workoutId,
     });
-    return this.get<T>(`/api/strength/workout?${params.toString()}`, {
+    return this.get(`/api/strength/workout?${params.toString()}`, {
+      ...options,
       requiresAuth: false,
+      schema: mapStrengthWorkout,
+      cache: STANDARD,
     });
   }
 
   /**
    * Submit strength workout review
-   * @param apiKey - API key for authorization
    * @param workoutId - Strength workout ID
-   * @param review - Review data
+   * @param review - Review data, with the sets the athlete logged for each drill
    */
   async submitStrengthWorkoutReview<T = unknown>(
-    apiKey: string,
     workoutId: string,
-    review: { athleteName: string; reviewContent: string; difficultyLevel: number }
+    review: WorkoutReview
   ): Promise<ApiResponse<T>> {
     const params = new URLSearchParams({
-      apiKey: apiKey,
       workoutId: workoutId,
     });
-    return this.post<T>(`/api/strength/reviews?${params.toString()}`, review);
+    return this.post<T>(`/api/strength/reviews?${params.toString()}`, review, {
+      withApiKey: true,
+      invalidates: ["/api/strength/workout", "/api/workoutSummary", "/api/planned"],
+    });
   }
 
+
   // ==================== Planned Workout Methods ====================
 
   /**
    * Get planned workout feed with pagination
-   * @param apiKey - API key for authorization
    * @param athleteName - Name of the athlete
    * @param runningCursor - Optional cursor for running workouts pagination
    * @param strengthCursor - Optional cursor for strength workouts pagination
+   * @param options - Optional abort signal, timeout and retry overrides
    */
-  async getPlannedWorkoutFeed<T = {
-    runningWorkouts: unknown[];
-    strengthWorkouts: unknown[];
-    runningNextCursor: string | null;
-    strengthNextCursor: string | null;
-  }>(
-    apiKey: string,
+  async getPlannedWorkoutFeed(
     athleteName: string,
     runningCursor?: string | null,
-    strengthCursor?: string | null
-  ): Promise<ApiResponse<T>> {
+    strengthCursor?: string | null,
+    options?: CallOptions
+  ): Promise<ApiResponse<PlannedWorkoutFeed>> {
     const params = new URLSearchParams({
-      apiKey: apiKey,
       athleteName: athleteName,
     });
     if (runningCursor) {
@@ -672,154 +1042,259 @@ class ApiService {
     if (strengthCursor) {
       params.append("strengthCursor", strengthCursor);
     }
-    return this.get<T>(`/api/planned/feed?${params.toString()}`);
+    return this.get(`/api/planned/feed?${params.toString()}`, {
+      ...options,
+      withApiKey: true,
+      schema: plannedWorkoutFeed,
+      cache: SHORT_LIVED,
+    });
   }
 
+
   /**
    * Get planned workouts by date
-   * @param apiKey - API key for authorization
    * @param athleteName - Name of the athlete
    * @param date - Date in format "MM/dd/yyyy" or "M/d/yyyy"
+   * @param options - Optional abort signal, timeout and retry overrides
    */
-  async getPlannedWorkoutsByDate<T = {
-    runningWorkouts: unknown[];
-    strengthWorkouts: unknown[];
-  }>(
-    apiKey: string,
+  async getPlannedWorkoutsByDate(
     athleteName: string,
-    date: string
-  ): Promise<ApiResponse<T>> {
+    date: string,
+    options?: CallOptions
+  ): Promise<ApiResponse<PlannedWorkoutsByDate>> {
     const params = new URLSearchParams({
-      apiKey: apiKey,
       athleteName: athleteName,
       date: date,
     });
-    return this.get<T>(`/api/plannedWorkout/byDate?${params.toString()}`);
+    return this.get(`/api/plannedWorkout/byDate?${params.toString()}`, {
+      ...options,
+      withApiKey: true,
+      schema: plannedWorkoutsByDate,
+      cache: SHORT_LIVED,
+    });
   }
 
+
   /**
    * Get planned workout by ID
    * @param id - Planned workout ID
+   * @param options - Optional abort signal, timeout and retry overrides
    */
-  async getPlannedWorkoutById<T = unknown>(
-    id: string
-  ): Promise<ApiResponse<T>> {
+  async getPlannedWorkoutById(
+    id: string,
+    options?: CallOptions
+  ): Promise<ApiResponse<PlannedWorkoutDetail>> {
     const params = new URLSearchParams({
       id: id,
     });
-    return this.get<T>(`/api/plannedWorkout/byId?${params.toString()}`, {
+    return this.get(`/api/plannedWorkout/byId?${params.toString()}`, {
+      ...options,
       requiresAuth: false,
+      schema: mapPlannedWorkoutDetail,
+      cache: STANDARD,
     });
   }
 
+  /**
+   * Schedule a running workout for an athlete or a flock
+   * @param workout - Target, date (yyyy-MM-dd) and Garmin workout JSON
+   */
+  async addWorkout<T = unknown>(workout: PlannedWorkoutRequest): Promise<ApiResponse<T>> {
+    return this.post<T>("/api/addWorkout", workout, {
+      withApiKey: true,
+      invalidates: ["/api/planned"],
+    });
+  }
+
+
+  /**
+   * Replace a planned running workout's plan and date
+   * @param id - Planned workout ID
+   * @param update - Date (yyyy-MM-dd) and Garmin workout JSON
+   */
+  async updateWorkout<T = unknown>(id: string, update: PlannedWorkoutUpdate): Promise<ApiResponse<T>> {
+    const params = new URLSearchParams({
+      id: id,
+    });
+    return this.post<T>(`/api/plannedWorkout/update?${params.toString()}`, update, {
+      withApiKey: true,
+      invalidates: ["/api/planned"],
+    });
+  }
+
+
+  /**
+   * Delete a planned running workout for every athlete it was sent to
+   * @param id - Planned workout ID
+   */
+  async deleteWorkout<T = unknown>(id: string): Promise<ApiResponse<T>> {
+    const params = new URLSearchParams({
+      id: id,
+    });
+    return this.post<T>(`/api/plannedWorkout/delete?${params.toString()}`, undefined, {
+      withApiKey: true,
+      invalidates: ["/api/planned"],
+    });
+  }
+
+
+  /**
+   * Schedule a strength workout for an athlete or a flock
+   * @param workout - Target, date (MM/dd/yyyy) and strength workout JSON
+   */
+  async addStrengthWorkout<T = unknown>(workout: PlannedWorkoutRequest): Promise<ApiResponse<T>> {
+    return this.post<T>("/api/strength/addWorkout", workout, {
+      withApiKey: true,
+      invalidates: ["/api/planned"],
+    });
+  }
+
+
+  /**
+   * Replace a strength workout's drills and date
+   * @param id - Strength workout ID
+   * @param update - Date (MM/dd/yyyy) and strength workout JSON
+   */
+  async updateStrengthWorkout<T = unknown>(id: string, update: PlannedWorkoutUpdate): Promise<ApiResponse<T>> {
+    const params = new URLSearchParams({
+      id: id,
+    });
+    return this.post<T>(`/api/strength/updateWorkout?${params.toString()}`, update, {
+      withApiKey: true,
+      invalidates: ["/api/planned", "/api/strength/workout"],
+    });
+  }
+
+
+  /**
+   * Delete a strength workout for every athlete it was sent to
+   * @param id - Strength workout ID
+   */
+  async deleteStrengthWorkout<T = unknown>(id: string): Promise<ApiResponse<T>> {
+    const params = new URLSearchParams({
+      id: id,
+    });
+    return this.post<T>(`/api/strength/deleteWorkout?${params.toString()}`, undefined, {
+      withApiKey: true,
+      invalidates: ["/api/planned", "/api/strength/workout"],
+    });
+  }
+
+
   // ==================== Sleep Data Methods ====================
 
   /**
    * Get sleep data feed with pagination
-   * @param apiKey - API key for authorization
    * @param athleteName - Name of the athlete
    * @param cursor - Optional cursor for pagination
+   * @param options - Optional abort signal, timeout and retry overrides
    */
-  async getSleepFeed<T = {
-    items: unknown[];
-    nextCursor: string | null;
-  }>(
-    apiKey: string,
+  async getSleepFeed(
     athleteName: string,
-    cursor?: string | null
-  ): Promise<ApiResponse<T>> {
+    cursor?: string | null,
+    options?: CallOptions
+  ): Promise<ApiResponse<SleepFeed>> {
     const params = new URLSearchParams({
-      apiKey: apiKey,
       athleteName: athleteName,
     });
     if (cursor) {
       params.append("cursor", cursor);
     }
-    return this.get<T>(`/api/sleep/feed?${params.toString()}`);
+    return this.get(`/api/sleep/feed?${params.toString()}`, {
+      ...options,
+      withApiKey: true,
+      schema: sleepFeed,
+      cache: SHORT_LIVED,
+    });
   }
 
+
   /**
    * Get sleep data by date
-   * @param apiKey - API key for authorization
    * @param athleteName - Name of the athlete
    * @param date - Date in format "YYYY-MM-DD" with leading zeroes
+   * @param options - Optional abort signal, timeout and retry overrides
    */
-  async getSleepByDate<T = unknown>(
-    apiKey: string,
+  async getSleepByDate(
     athleteName: string,
-    date: string
-  ): Promise<ApiResponse<T>> {
+    date: string,
+    options?: CallOptions
+  ): Promise<ApiResponse<SleepDataItem>> {
     const params = new URLSearchParams({
-      apiKey: apiKey,
       athleteName: athleteName,
       date: date,
     });
-    return this.get<T>(`/api/sleep/byDate?${params.toString()}`);
+    return this.get(`/api/sleep/byDate?${params.toString()}`, {
+      ...options,
+      withApiKey: true,
+      schema: mapSleepDataItem,
+      cache: LONG_LIVED,
+    });
   }
 
+
   // ==================== Training Summary Methods ====================
 
   /**
    * Get training summary for a date range
-   * @param apiKey - API key for authorization
    * @param athleteName - Name of the athlete
    * @param startDate - Start date in format "MM/dd/yyyy" or "M/d/yyyy"
    * @param endDate - End date in format "MM/dd/yyyy" or "M/d/yyyy"
+   * @param options - Optional abort signal, timeout and retry overrides
    */
-  async getTrainingSummary<T = unknown>(
-    apiKey: string,
+  async getTrainingSummary(
     athleteName: string,
     startDate: string,
-    endDate: string
-  ): Promise<ApiResponse<T>> {
+    endDate: string,
+    options?: CallOptions
+  ): Promise<ApiResponse<TrainingSummary>> {
     const params = new URLSearchParams({
-      apiKey: apiKey,
       athleteName: athleteName,
       startDate: startDate,
       endDate: endDate,
     });
-    return this.get<T>(`/api/trainingSummary?${params.toString()}`);
+    // 401 here means the requester may not view this athlete's summary
+    return this.get(`/api/trainingSummary?${params.toString()}`, {
+      ...options,
+      withApiKey: true,
+      redirectOnUnauthorized: false,
+      schema: mapTrainingSummary,
+      cache: STANDARD,
+    });
   }
 
+
   // ==================== Profile Edit Methods ====================
 
   /**
-   * Change user password
-   * @param apiKey - API key for authorization
+   * Change the signed-in user's password
    * @param newPassword - New password (will be hashed with SHA-256)
    */
-  async changePassword<T = unknown>(
-    apiKey: string,
-    newPassword: string
-  ): Promise<ApiResponse<T>> {
-    const hashedPassword = await this.hashPassword(newPassword);
-    const params = new URLSearchParams({
-      apiKey: apiKey,
-    });
+  async changePassword<T = unknown>(newPassword: string): Promise<ApiResponse<T>> {
+    const hashedPassword = await hashPassword(newPassword);
     return this.post<T>(
-      `/api/editProfile/changePassword?${params.toString()}`,
+      "/api/editProfile/changePassword",
       {
         NewPassword: hashedPassword,
       },
       {
         requiresAuth: false,
+        withApiKey: true,
       }
     );
   }
 
+
   /**
-   * Change user profile picture
-   * @param apiKey - API key for authorization
+   * Change the signed-in user's profile picture
    * @param picString - Base64 string of the picture (empty string for revert)
    * @param isRevert - Whether to revert to default profile picture
    */
   async changeProfilePicture<T = unknown>(
-    apiKey: string,
     picString: string,
     isRevert: boolean
   ): Promise<ApiResponse<T>> {
     const params = new URLSearchParams({
-      apiKey: apiKey,
       isRevert: isRevert.toString(),
     });
     return this.post<T>(
@@ -829,9 +1304,12 @@ class ApiService {
       },
       {
         requiresAuth: false,
+        withApiKey: true,
+        invalidates: ["/api/profilePic", "/api/athletes", "/api/workoutSummary"],
       }
     );
   }
+
 }
 
 // Export singleton instance
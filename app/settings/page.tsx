@@ -88,7 +88,7 @@ export default function SettingsPage() {
     setIsChangingPassword(true);
 
     try {
-      await apiService.changePassword(user.apiKey, newPassword);
+      await apiService.changePassword(newPassword);
 
       setPasswordSuccess("Password changed successfully!");
       setNewPassword("");
@@ -186,7 +186,7 @@ export default function SettingsPage() {
     try {
       const base64String = await fileToBase64(selectedImage);
 
-      await apiService.changeProfilePicture(user.apiKey, base64String, false);
+      await apiService.changeProfilePicture(base64String, false);
 
       setImageSuccess("Profile picture updated successfully!");
       setSelectedImage(null);
@@ -232,7 +232,7 @@ export default function SettingsPage() {
     }
 
     try {
-      await apiService.changeProfilePicture(user.apiKey, "", true);
+      await apiService.changeProfilePicture("", true);
 
       setImageSuccess("Profile picture reverted to default successfully!");
 
@@ -20,6 +20,8 @@ import Footer from "../components/Footer";
 import ThemeToggle from "../components/ThemeToggle";
 import { hashPassword } from "../../lib/crypto-utils";
 import { API_BASE_URL } from "../../lib/api-config";
+import { isApiError } from "../../lib/api-error";
+import { apiService } from "../services/api";
 import {
   Button,
   Card,
@@ -112,10 +114,6 @@ export default function SignUpPage() {
 
     try {
       const hashedPassword = await hashPassword(password);
-      console.log(
-        "🔐 Registration - Password hashed with SHA-256:",
-        hashedPassword.substring(0, 20) + "..."
-      );
 
       const registrationBody = {
         UserName: username,
@@ -124,35 +122,15 @@ export default function SignUpPage() {
         Email: email,
         Password: hashedPassword,
       };
-      console.log("📤 Registration request body:", {
-        ...registrationBody,
-        Password: "***",
-      });
-
-      const response = await fetch(`${API_BASE_URL}/api/registration`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify(registrationBody),
-      });
 
-      if (response.status === 400) {
-        setResult({
-          type: "error",
-          message:
-            "This username or email is already taken. Please choose a different one.",
-        });
-        setErrorNonce((n) => n + 1);
-        setIsLoading(false);
-        return;
-      }
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        const errorMessage =
-          errorData.message ||
-          `Registration failed: ${response.status} ${response.statusText}`;
+      try {
+        await apiService.register(registrationBody);
+      } catch (registrationError) {
+        const errorMessage = isApiError(registrationError, 400)
+          ? "This username or email is already taken. Please choose a different one."
+          : registrationError instanceof Error
+            ? registrationError.message
+            : "Registration failed";
         setResult({
           type: "error",
           message: errorMessage,
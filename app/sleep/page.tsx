@@ -12,7 +12,12 @@ import { motion, useReducedMotion } from "framer-motion";
 import { apiService } from "../services/api";
 import { useAuth } from "../../context/AuthContext";
 import { useRequireAuth } from "../../hooks/useRequireAuth";
+import { useAthleteAccess } from "../../hooks/useAthleteAccess";
 import SleepPieChart from "../components/SleepPieChart";
+import OfflineNotice from "../components/OfflineNotice";
+import AccessDenied from "../components/AccessDenied";
+import { isNetworkError } from "../../lib/api-error";
+import type { SleepDataItem } from "../../lib/domain";
 import {
   AppShell,
   Button,
@@ -30,36 +35,6 @@ import {
   stagger,
 } from "../components/ui";
 
-interface SleepScore {
-  key: string;
-  value: {
-    qualifierKey: string;
-    value: string | null;
-  };
-}
-
-interface SleepDataItem {
-  summaryID: string;
-  sleepDurationInSeconds: number;
-  sleepStartTimeInSeconds: number;
-  sleepTimeOffsetInSeconds: number;
-  sleepDate: string;
-  deepSleepDurationInSeconds: number;
-  lightSleepDurationInSeconds: number;
-  remSleepInSeconds: number;
-  awakeDurationInSeconds: number;
-  sleepScores: SleepScore[];
-  overallSleepScore: {
-    qualifierKey: string;
-    value: string;
-  };
-}
-
-interface SleepFeedResponse {
-  items: SleepDataItem[];
-  nextCursor: string | null;
-}
-
 type ViewMode = "feed" | "date";
 
 function SleepDataPageContent() {
@@ -81,6 +56,7 @@ function SleepDataPageContent() {
   const [selectedDate, setSelectedDate] = useState<string>("");
   const [loadingDate, setLoadingDate] = useState(false);
   const [noAccess, setNoAccess] = useState(false);
+  const [offline, setOffline] = useState(false);
 
   // Refs so the intersection-observer callback always sees fresh values
   // without forcing us to re-subscribe on every render.
@@ -95,23 +71,14 @@ function SleepDataPageContent() {
 
   // Get athlete name from query params (for coaches) or use current user (for athletes)
   const athleteNameParam = searchParams?.get("athlete");
-  const athleteName = athleteNameParam || user?.userName || "";
+  const { athleteName, denial } = useAthleteAccess(athleteNameParam);
 
   // Determine back URL
   const backUrl = athleteNameParam ? `/athlete/${encodeURIComponent(athleteNameParam)}` : "/dashboard";
 
-  // Check if coach is trying to access without athlete parameter
-  useEffect(() => {
-    if (user && user.role?.toLowerCase() === "coach" && !athleteNameParam) {
-      setNoAccess(true);
-      setLoading(false);
-      return;
-    }
-  }, [user, athleteNameParam]);
-
   useEffect(() => {
-    if (!user?.apiKey || !athleteName || noAccess) {
-      if (!noAccess) {
+    if (!user?.apiKey || !athleteName || denial) {
+      if (!denial) {
         setError("Missing required information");
         setLoading(false);
       }
@@ -144,13 +111,13 @@ function SleepDataPageContent() {
       if (!cursor) {
         setLoading(true);
         setError(null);
+        setOffline(false);
       } else {
         loadingMoreRef.current = true;
         setLoadingMore(true);
       }
 
-      const response = await apiService.getSleepFeed<SleepFeedResponse>(
-        user.apiKey,
+      const response = await apiService.getSleepFeed(
         athleteName,
         cursor
       );
@@ -189,6 +156,11 @@ function SleepDataPageContent() {
       console.error("Failed to fetch sleep feed:", err);
       const errorMessage = err instanceof Error ? err.message : "Failed to load sleep data";
 
+      if (isNetworkError(err, "offline")) {
+        setOffline(true);
+        return;
+      }
+
       // Check if error indicates no access (invalid API key or user)
       if (errorMessage.toLowerCase().includes("no user with this apikey") ||
           errorMessage.toLowerCase().includes("there is no user with this apikey") ||
@@ -210,6 +182,7 @@ function SleepDataPageContent() {
     try {
       setLoadingDate(true);
       setError(null);
+      setOffline(false);
 
       // Ensure date is in YYYY-MM-DD format with leading zeroes
       // HTML date input provides this format, but we'll validate it
@@ -220,8 +193,7 @@ function SleepDataPageContent() {
         const day = dateParts[2].padStart(2, "0");
         const formattedDate = `${year}-${month}-${day}`;
 
-        const response = await apiService.getSleepByDate<SleepDataItem>(
-          user.apiKey,
+        const response = await apiService.getSleepByDate(
           athleteName,
           formattedDate
         );
@@ -248,6 +220,11 @@ function SleepDataPageContent() {
       console.error("Failed to fetch sleep by date:", err);
       const errorMessage = err instanceof Error ? err.message : "Failed to load sleep data";
 
+      if (isNetworkError(err, "offline")) {
+        setOffline(true);
+        return;
+      }
+
       // Check if error indicates no access (invalid API key or user)
       if (errorMessage.toLowerCase().includes("no user with this apikey") ||
           errorMessage.toLowerCase().includes("there is no user with this apikey") ||
@@ -419,31 +396,10 @@ function SleepDataPageContent() {
   }, [sleepData, viewMode]);
 
   // -- No access ----------------------------------------------------------
-  if (noAccess) {
-    return (
-      <AppShell hidePageHeader maxWidth="md">
-        <Card variant="glass" padding="lg" className="mt-12 text-center">
-          <div className="mx-auto mb-4 flex h-14 w-14 items-center justify-center rounded-full bg-rose-500/10 text-rose-500">
-            <svg className="h-7 w-7" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" />
-            </svg>
-          </div>
-          <h2 className="display-heading text-2xl font-bold text-gray-900 dark:text-gray-50">
-            No Access
-          </h2>
-          <p className="mt-2 text-gray-600 dark:text-gray-400">
-            {user?.role?.toLowerCase() === "coach"
-              ? "Please select an athlete to view their sleep data."
-              : "You do not have access to view this sleep data."}
-          </p>
-          <div className="mt-6">
-            <Link href={backUrl}>
-              <Button variant="primary">Return to Dashboard</Button>
-            </Link>
-          </div>
-        </Card>
-      </AppShell>
-    );
+  // The API rejected the athlete (e.g. not coached by this user)
+  const accessDenial = denial ?? (noAccess ? ({ reason: "not-own-data" } as const) : null);
+  if (accessDenial) {
+    return <AccessDenied denial={accessDenial} subject="sleep data" backHref={backUrl} />;
   }
 
   // -- Render a per-night card (feed mode) --------------------------------
@@ -727,8 +683,15 @@ function SleepDataPageContent() {
         )}
       </div>
 
+      {/* Offline */}
+      {offline && (
+        <OfflineNotice
+          onRetry={() => (viewMode === "date" && selectedDate ? fetchSleepByDate(selectedDate) : fetchSleepFeed())}
+        />
+      )}
+
       {/* Error */}
-      {error && (
+      {error && !offline && (
         <Card variant="default" padding="md" className="mb-6 border-rose-200 dark:border-rose-500/30">
           <p className="text-sm text-rose-700 dark:text-rose-300">{error}</p>
         </Card>
@@ -750,7 +713,7 @@ function SleepDataPageContent() {
       )}
 
       {/* Feed / Date content */}
-      {!loading && viewMode === "feed" && !error && (
+      {!loading && viewMode === "feed" && !error && !offline && (
         <>
           {sleepData.length > 0 ? (
             <div className="space-y-8">
@@ -811,7 +774,7 @@ function SleepDataPageContent() {
         </>
       )}
 
-      {!loading && viewMode === "date" && !error && (
+      {!loading && viewMode === "date" && !error && !offline && (
         <>
           {loadingDate ? null : singleSleepData ? (
             <div className="space-y-8">
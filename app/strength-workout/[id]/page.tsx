@@ -1,16 +1,32 @@
 /**
  * Strength Workout Detail Page
- * Displays detailed analysis of a strength workout with reviews
+ * Displays detailed analysis of a strength workout with athlete logs and reviews
  */
 
 "use client";
 
 import Link from "next/link";
 import { useState, useEffect, Suspense, useMemo } from "react";
-import { useParams } from "next/navigation";
-import { motion, AnimatePresence, useReducedMotion } from "framer-motion";
+import { useParams, useRouter } from "next/navigation";
+import { motion, AnimatePresence } from "framer-motion";
 import { apiService } from "../../services/api";
 import { useAuth } from "../../../context/AuthContext";
+import { useExerciseCatalogue } from "../../../hooks/useExerciseCatalogue";
+import PlannedWorkoutActions from "../../components/PlannedWorkoutActions";
+import StrengthDrillList from "../../components/StrengthDrillList";
+import StrengthLogForm from "../../components/StrengthLogForm";
+import StrengthLogSummary, { ComplianceBadge } from "../../components/StrengthLogSummary";
+import type { LoggedSet, StrengthWorkout } from "../../../lib/domain";
+import {
+  buildStrengthJson,
+  countReps,
+  createDrillLogs,
+  hasLoggedSets,
+  loggedSetProblem,
+  matchDrillLogs,
+  toDrillLogs,
+  workoutCompliance,
+} from "../../../lib/strength-workout";
 import {
   AppShell,
   Badge,
@@ -22,46 +38,21 @@ import {
   Spinner,
   StatTile,
   Textarea,
-  fadeUp,
-  stagger,
-  inViewOnce,
 } from "../../components/ui";
 
-interface WorkoutDrill {
-  drillName: string;
-  drillSets: number;
-  drillReps: number;
-}
-
-interface WorkoutReview {
-  athleteName: string;
-  reviewContent: string;
-  difficultyLevel: number;
-}
-
-interface StrengthWorkoutData {
-  coachName: string;
-  workoutName: string;
-  workoutDescription: string;
-  workoutDate: string;
-  workoutDrills: WorkoutDrill[];
-  athleteNames: string[];
-  workoutReviews: Record<string, WorkoutReview>;
-  workoutId: string | null;
-}
-
 function StrengthWorkoutDetailPageContent() {
   const { user } = useAuth();
+  const { catalogue } = useExerciseCatalogue(user?.userName);
   const params = useParams();
+  const router = useRouter();
   const workoutId = params?.id as string;
-  const reduce = useReducedMotion();
 
   const isCoach = user?.role?.toLowerCase() === "coach";
   const isAthlete = user?.role?.toLowerCase() === "athlete";
 
   const backUrl = "/dashboard";
 
-  const [workoutData, setWorkoutData] = useState<StrengthWorkoutData | null>(null);
+  const [workoutData, setWorkoutData] = useState<StrengthWorkout | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [isSubmittingReview, setIsSubmittingReview] = useState(false);
@@ -69,6 +60,7 @@ function StrengthWorkoutDetailPageContent() {
 
   const [reviewContent, setReviewContent] = useState("");
   const [difficultyLevel, setDifficultyLevel] = useState(5);
+  const [drillLogs, setDrillLogs] = useState<LoggedSet[][]>([]);
   const [isEditingReview, setIsEditingReview] = useState(false);
   const [hasExistingReview, setHasExistingReview] = useState(false);
 
@@ -84,13 +76,14 @@ function StrengthWorkoutDetailPageContent() {
         setLoading(true);
         setError(null);
 
-        const response = await apiService.getStrengthWorkout<StrengthWorkoutData>(workoutId);
+        const response = await apiService.getStrengthWorkout(workoutId);
 
         if (response.data) {
           setWorkoutData(response.data);
 
           if (isAthlete && user?.userName && response.data.workoutReviews) {
             const existingReview = response.data.workoutReviews[user.userName];
+            setDrillLogs(createDrillLogs(response.data.workoutDrills, existingReview?.drillLogs));
             if (existingReview) {
               setReviewContent(existingReview.reviewContent);
               setDifficultyLevel(existingReview.difficultyLevel);
@@ -112,13 +105,20 @@ function StrengthWorkoutDetailPageContent() {
   }, [workoutId, isAthlete, user?.userName]);
 
   const handleSubmitReview = async () => {
-    if (!user?.apiKey || !workoutId || !user?.userName) {
+    if (!user?.apiKey || !workoutId || !user?.userName || !workoutData) {
       setError("Missing required information");
       return;
     }
 
-    if (!reviewContent.trim()) {
-      setError("Review content is required");
+    const logged = hasLoggedSets(drillLogs);
+    if (!reviewContent.trim() && !logged) {
+      setError("Log your sets or write a review");
+      return;
+    }
+
+    const problem = drillLogs.flat().map(loggedSetProblem).find(Boolean);
+    if (problem) {
+      setError(problem);
       return;
     }
 
@@ -130,10 +130,10 @@ function StrengthWorkoutDetailPageContent() {
         athleteName: user.userName,
         reviewContent: reviewContent.trim(),
         difficultyLevel: difficultyLevel,
+        drillLogs: logged ? toDrillLogs(workoutData.workoutDrills, drillLogs) : [],
       };
 
       const response = await apiService.submitStrengthWorkoutReview(
-        user.apiKey,
         workoutId,
         review
       );
@@ -143,7 +143,7 @@ function StrengthWorkoutDetailPageContent() {
         setIsEditingReview(false);
         setHasExistingReview(true);
 
-        const refreshResponse = await apiService.getStrengthWorkout<StrengthWorkoutData>(workoutId);
+        const refreshResponse = await apiService.getStrengthWorkout(workoutId);
         if (refreshResponse.data) {
           setWorkoutData(refreshResponse.data);
         }
@@ -170,7 +170,7 @@ function StrengthWorkoutDetailPageContent() {
     if (!workoutData?.workoutDrills) return { drills: 0, sets: 0, reps: 0 };
     const drills = workoutData.workoutDrills.length;
     const sets = workoutData.workoutDrills.reduce((s, d) => s + (d.drillSets || 0), 0);
-    const reps = workoutData.workoutDrills.reduce((s, d) => s + (d.drillSets || 0) * (d.drillReps || 0), 0);
+    const reps = countReps(workoutData.workoutDrills);
     return { drills, sets, reps };
   }, [workoutData]);
 
@@ -216,6 +216,17 @@ function StrengthWorkoutDetailPageContent() {
 
   const reviews = workoutData.workoutReviews || {};
   const reviewEntries = Object.entries(reviews);
+  const loggedDrills = (athleteName: string) => {
+    const logs = reviews[athleteName]?.drillLogs ?? [];
+    return hasLoggedSets(logs.map((log) => log.sets)) ? logs : null;
+  };
+  const canManage = isCoach && !!workoutData.coachName && workoutData.coachName === user?.userName;
+
+  // Same body as the strength builder sends; the date lives in the body too
+  const strengthJsonFor = (date: string) =>
+    JSON.stringify(
+      buildStrengthJson(workoutData.workoutName, workoutData.workoutDescription, date, workoutData.workoutDrills)
+    );
 
   return (
     <AppShell
@@ -223,16 +234,30 @@ function StrengthWorkoutDetailPageContent() {
       title={workoutData.workoutName || "Strength Workout"}
       subtitle={workoutData.workoutDescription || undefined}
       actions={
-        <Link href={backUrl}>
-          <Button variant="ghost" size="sm">
-            <span className="inline-flex items-center gap-1.5">
-              <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2.2}>
-                <path strokeLinecap="round" strokeLinejoin="round" d="M15 19l-7-7 7-7" />
-              </svg>
-              Back to Dashboard
-            </span>
-          </Button>
-        </Link>
+        <div className="flex flex-wrap items-center gap-2">
+          <Link href={backUrl}>
+            <Button variant="ghost" size="sm">
+              <span className="inline-flex items-center gap-1.5">
+                <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2.2}>
+                  <path strokeLinecap="round" strokeLinejoin="round" d="M15 19l-7-7 7-7" />
+                </svg>
+                Back to Dashboard
+              </span>
+            </Button>
+          </Link>
+          {canManage && (
+            <PlannedWorkoutActions
+              kind="strength"
+              workoutId={workoutId}
+              workoutName={workoutData.workoutName}
+              date={workoutData.workoutDate}
+              athleteNames={workoutData.athleteNames}
+              jsonBodyFor={strengthJsonFor}
+              onRescheduled={(date) => setWorkoutData({ ...workoutData, workoutDate: date })}
+              onDeleted={() => router.push(backUrl)}
+            />
+          )}
+        </div>
       }
       maxWidth="lg"
     >
@@ -280,54 +305,9 @@ function StrengthWorkoutDetailPageContent() {
 
       {/* Drills */}
       <section className="mb-10">
-        <SectionHeading title="Exercises" description="Each drill with its set × rep prescription" />
+        <SectionHeading title="Exercises" description="Each drill with its sets, reps, load and rest" />
         {workoutData.workoutDrills && workoutData.workoutDrills.length > 0 ? (
-          <motion.div
-            variants={reduce ? undefined : stagger}
-            initial={reduce ? undefined : "hidden"}
-            whileInView={reduce ? undefined : "show"}
-            viewport={inViewOnce}
-            className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-3"
-          >
-            {workoutData.workoutDrills.map((drill, idx) => (
-              <motion.div key={idx} variants={reduce ? undefined : fadeUp}>
-                <Card padding="md" interactive className="min-w-0">
-                  <div className="flex items-start gap-3">
-                    <div className="flex h-10 w-10 flex-shrink-0 items-center justify-center rounded-xl bg-gradient-to-br from-purple-500/20 to-fuchsia-500/20 text-purple-600 dark:text-purple-300 font-semibold">
-                      {idx + 1}
-                    </div>
-                    <div className="flex-1 min-w-0">
-                      <h3 className="text-base font-semibold text-gray-900 dark:text-gray-100 break-words">
-                        {drill.drillName}
-                      </h3>
-                      <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
-                        <span className="font-semibold text-gray-900 dark:text-gray-100">{drill.drillSets}</span> sets
-                        <span className="mx-1.5 text-gray-400">×</span>
-                        <span className="font-semibold text-gray-900 dark:text-gray-100">{drill.drillReps}</span> reps
-                      </p>
-                    </div>
-                  </div>
-
-                  {/* Per-set grid — visual completion tracker (display-only, no logic changes) */}
-                  <div className="mt-4 flex flex-wrap gap-1.5 min-w-0">
-                    {Array.from({ length: Math.min(drill.drillSets, 20) }).map((_, setIdx) => (
-                      <span
-                        key={setIdx}
-                        className="inline-flex items-center justify-center h-7 min-w-[2rem] px-2 rounded-lg text-[11px] font-semibold text-gray-700 dark:text-gray-300 bg-white/70 dark:bg-white/5 border border-gray-200 dark:border-white/10"
-                      >
-                        {setIdx + 1}×{drill.drillReps}
-                      </span>
-                    ))}
-                    {drill.drillSets > 20 && (
-                      <span className="inline-flex items-center justify-center h-7 px-2 rounded-lg text-[11px] font-medium text-gray-500 dark:text-gray-400">
-                        +{drill.drillSets - 20} more
-                      </span>
-                    )}
-                  </div>
-                </Card>
-              </motion.div>
-            ))}
-          </motion.div>
+          <StrengthDrillList drills={workoutData.workoutDrills} catalogue={catalogue} />
         ) : (
           <Card padding="md">
             <p className="text-sm text-gray-500 dark:text-gray-400">No drills available.</p>
@@ -338,14 +318,31 @@ function StrengthWorkoutDetailPageContent() {
       {/* Athletes (coach) */}
       {isCoach && workoutData.athleteNames && workoutData.athleteNames.length > 0 && (
         <section className="mb-10">
-          <SectionHeading title="Athletes" description="Assigned to this session" />
+          <SectionHeading title="Athletes" description="Assigned to this session, with how much of it they logged" />
           <Card padding="md">
-            <div className="flex flex-wrap gap-2">
-              {workoutData.athleteNames.map((athlete, index) => (
-                <Badge key={index} variant="brand" size="md" dot>
-                  {athlete}
-                </Badge>
-              ))}
+            <div className="flex flex-wrap gap-3">
+              {workoutData.athleteNames.map((athlete, index) => {
+                const logs = loggedDrills(athlete);
+                return (
+                  <div key={index} className="flex items-center gap-1.5">
+                    <Badge variant="brand" size="md" dot>
+                      {athlete}
+                    </Badge>
+                    {logs ? (
+                      <ComplianceBadge
+                        compliance={workoutCompliance(
+                          workoutData.workoutDrills,
+                          matchDrillLogs(workoutData.workoutDrills, logs).sets
+                        )}
+                      />
+                    ) : (
+                      <Badge variant="outline" size="sm">
+                        Not logged
+                      </Badge>
+                    )}
+                  </div>
+                );
+              })}
             </div>
           </Card>
         </section>
@@ -353,22 +350,43 @@ function StrengthWorkoutDetailPageContent() {
 
       {/* Reviews */}
       <section>
-        <SectionHeading title="Reviews" description={isAthlete ? "Share how this session felt." : "Feedback from athletes."} />
+        <SectionHeading
+          title="Reviews"
+          description={
+            isAthlete
+              ? "Log what you actually lifted and share how this session felt."
+              : "What athletes lifted against the prescription, and their feedback."
+          }
+        />
 
         {isCoach ? (
           <div className="space-y-3">
             {reviewEntries.length > 0 ? (
-              reviewEntries.map(([athleteName, review]) => (
-                <Card key={athleteName} padding="md">
-                  <div className="flex flex-col gap-2 mb-2 sm:flex-row sm:items-center sm:justify-between">
-                    <h3 className="min-w-0 font-semibold text-gray-900 dark:text-gray-100 break-words">{athleteName}</h3>
-                    <Badge variant="outline" size="sm">
-                      Difficulty: {review.difficultyLevel}/10
-                    </Badge>
-                  </div>
-                  <p className="text-sm text-gray-700 dark:text-gray-300 leading-relaxed break-words">{review.reviewContent}</p>
-                </Card>
-              ))
+              reviewEntries.map(([athleteName, review]) => {
+                const logs = loggedDrills(athleteName);
+                return (
+                  <Card key={athleteName} padding="md">
+                    <div className="flex flex-col gap-2 mb-2 sm:flex-row sm:items-center sm:justify-between">
+                      <h3 className="min-w-0 font-semibold text-gray-900 dark:text-gray-100 break-words">{athleteName}</h3>
+                      <Badge variant="outline" size="sm">
+                        Difficulty: {review.difficultyLevel}/10
+                      </Badge>
+                    </div>
+                    {review.reviewContent && (
+                      <p className="text-sm text-gray-700 dark:text-gray-300 leading-relaxed break-words">
+                        {review.reviewContent}
+                      </p>
+                    )}
+                    {logs ? (
+                      <div className="mt-3">
+                        <StrengthLogSummary drills={workoutData.workoutDrills} logs={logs} />
+                      </div>
+                    ) : (
+                      <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">No sets logged.</p>
+                    )}
+                  </Card>
+                );
+              })
             ) : (
               <Card padding="lg" className="text-center">
                 <div className="mx-auto mb-3 inline-flex h-12 w-12 items-center justify-center rounded-2xl bg-gray-500/10 text-gray-500">
@@ -395,7 +413,17 @@ function StrengthWorkoutDetailPageContent() {
                     </Button>
                   </div>
                 </div>
-                <p className="text-sm text-gray-700 dark:text-gray-300 leading-relaxed break-words">{reviewContent}</p>
+                {reviewContent && (
+                  <p className="text-sm text-gray-700 dark:text-gray-300 leading-relaxed break-words">{reviewContent}</p>
+                )}
+                {hasLoggedSets(drillLogs) && (
+                  <div className="mt-3">
+                    <StrengthLogSummary
+                      drills={workoutData.workoutDrills}
+                      logs={toDrillLogs(workoutData.workoutDrills, drillLogs)}
+                    />
+                  </div>
+                )}
               </Card>
             ) : (
               <Card padding="md" className="space-y-5">
@@ -403,6 +431,16 @@ function StrengthWorkoutDetailPageContent() {
                   {hasExistingReview ? "Edit Your Review" : "Write a Review"}
                 </h3>
 
+                {workoutData.workoutDrills.length > 0 && (
+                  <div>
+                    <h4 className="mb-1 text-sm font-medium text-gray-800 dark:text-gray-200">Your Sets</h4>
+                    <p className="mb-3 text-xs text-gray-500 dark:text-gray-400">
+                      Fill in what you actually did; blanks show the prescription. Load is in kg.
+                    </p>
+                    <StrengthLogForm drills={workoutData.workoutDrills} logs={drillLogs} onChange={setDrillLogs} />
+                  </div>
+                )}
+
                 <div>
                   <Label htmlFor="difficulty-range" className="mb-2 block">
                     Difficulty Level:{" "}
@@ -431,6 +469,7 @@ function StrengthWorkoutDetailPageContent() {
                   onChange={(e) => setReviewContent(e.target.value)}
                   rows={4}
                   placeholder="Share your thoughts about this workout..."
+                  helperText="Optional when you've logged your sets"
                 />
 
                 <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-end">
@@ -447,7 +486,7 @@ function StrengthWorkoutDetailPageContent() {
                   <Button
                     variant="gradient"
                     onClick={handleSubmitReview}
-                    disabled={isSubmittingReview || !reviewContent.trim()}
+                    disabled={isSubmittingReview || (!reviewContent.trim() && !hasLoggedSets(drillLogs))}
                     loading={isSubmittingReview}
                     className="w-full sm:w-auto"
                   >
@@ -11,8 +11,12 @@ import { useSearchParams } from "next/navigation";
 import { motion, useReducedMotion } from "framer-motion";
 import { useAuth } from "../../context/AuthContext";
 import { useRequireAuth } from "../../hooks/useRequireAuth";
+import { useAthleteAccess } from "../../hooks/useAthleteAccess";
 import { apiService } from "../services/api";
+import { isApiError } from "../../lib/api-error";
 import WorkoutMap from "../components/WorkoutMap";
+import AccessDenied from "../components/AccessDenied";
+import { mapTrainingSummary, type TrainingSummary } from "../../lib/domain";
 import {
   AppShell,
   Button,
@@ -30,50 +34,10 @@ import {
   cn,
 } from "../components/ui";
 
-interface WorkoutLap {
-  lapDistanceInKilometers: number;
-  lapDurationInSeconds: number;
-  lapPaceInMinKm: number;
-  avgHeartRate: number;
-}
-
-interface Workout {
-  workoutId: number;
-  wokroutName: string;
-  workoutDurationInSeconds: number;
-  workoutDistanceInMeters: number;
-  workoutAvgHR: number;
-  workoutAvgPaceInMinKm: number;
-  workoutLaps: WorkoutLap[];
-  workoutCoordsJsonStr: string;
-  workoutMapCenterJsonStr: string;
-  workoutMapZoom: number;
-  workoutDeviceName: string;
-  userAccessToken: string;
-  dataSamples: Array<{
-    timerDurationInSeconds: number;
-    heartRate: number;
-    speedMetersPerSecond: number;
-    elevationInMeters: number;
-  }>;
-  workoutDate: string;
-}
-
-interface TrainingSummary {
-  startDate: string;
-  endDate: string;
-  distanceInKilometers: number;
-  averageDailyInKilometers: number;
-  timeInSeconds: number;
-  averageDailyInSeconds: number;
-  allWorkouts: Workout[];
-}
-
 function TrainingSummaryPageContent() {
   const { user, loading: authLoading } = useAuth();
   const searchParams = useSearchParams();
   const reduce = useReducedMotion();
-  const [athleteName, setAthleteName] = useState<string>("");
   const [startDate, setStartDate] = useState<string>("");
   const [endDate, setEndDate] = useState<string>("");
   const [summary, setSummary] = useState<TrainingSummary | null>(null);
@@ -90,6 +54,9 @@ function TrainingSummaryPageContent() {
   // Require authentication
   useRequireAuth();
 
+  // Athlete from URL params (coaches) or the current user (athletes)
+  const { athleteName, denial } = useAthleteAccess(searchParams.get("athlete"));
+
   // Get storage key for this athlete
   const getStorageKey = (key: string) => {
     if (!athleteName) return `trainingSummary_${key}`;
@@ -108,26 +75,13 @@ function TrainingSummaryPageContent() {
     if (savedEndDate) setEndDate(savedEndDate);
     if (savedSummary) {
       try {
-        const parsed = JSON.parse(savedSummary);
-        setSummary(parsed);
+        setSummary(mapTrainingSummary(JSON.parse(savedSummary)));
       } catch (e) {
         console.error("Failed to parse saved summary:", e);
       }
     }
   }, [athleteName]);
 
-  // Get athlete name from URL params or use current user
-  useEffect(() => {
-    const athleteParam = searchParams.get("athlete");
-    if (athleteParam) {
-      setAthleteName(decodeURIComponent(athleteParam));
-    } else if (user && user.role?.toLowerCase() === "athlete") {
-      setAthleteName(user.userName);
-    } else if (user && user.role?.toLowerCase() === "coach" && !athleteParam) {
-      setNoAccess(true);
-    }
-  }, [searchParams, user]);
-
   // Format date to M/d/yyyy (no leading zeros)
   const formatDate = (date: Date): string => {
     const month = (date.getMonth() + 1).toString();
@@ -183,8 +137,7 @@ function TrainingSummaryPageContent() {
         return;
       }
 
-      const response = await apiService.getTrainingSummary<TrainingSummary>(
-        user.apiKey,
+      const response = await apiService.getTrainingSummary(
         athleteName,
         startDateFormatted,
         endDateFormatted
@@ -240,7 +193,7 @@ function TrainingSummaryPageContent() {
       }
     } catch (err) {
       console.error("Failed to fetch training summary:", err);
-      if (err instanceof Error && (err as any).status === 401) {
+      if (isApiError(err, 401)) {
         setNoAccess(true);
       } else {
         setError(err instanceof Error ? err.message : "Failed to load training summary");
@@ -417,31 +370,10 @@ function TrainingSummaryPageContent() {
     );
   }
 
-  if (noAccess) {
-    return (
-      <AppShell hidePageHeader maxWidth="md">
-        <Card variant="glass" padding="lg" className="mt-12 text-center">
-          <div className="mx-auto mb-4 flex h-14 w-14 items-center justify-center rounded-full bg-rose-500/10 text-rose-500">
-            <svg className="h-7 w-7" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" />
-            </svg>
-          </div>
-          <h2 className="display-heading text-2xl font-bold text-gray-900 dark:text-gray-50">
-            No Access
-          </h2>
-          <p className="mt-2 text-gray-600 dark:text-gray-400">
-            {user?.role?.toLowerCase() === "coach"
-              ? "Please select an athlete to view their training summary."
-              : "You do not have access to view this training summary."}
-          </p>
-          <div className="mt-6">
-            <Link href="/dashboard">
-              <Button variant="primary">Return to Dashboard</Button>
-            </Link>
-          </div>
-        </Card>
-      </AppShell>
-    );
+  // The API rejected the athlete (e.g. not coached by this user)
+  const accessDenial = denial ?? (noAccess ? ({ reason: "not-own-data" } as const) : null);
+  if (accessDenial) {
+    return <AccessDenied denial={accessDenial} subject="training summary" />;
   }
 
   // -- Render -------------------------------------------------------------
@@ -954,7 +886,7 @@ function TrainingSummaryPageContent() {
                                 </div>
                                 <div className="min-w-0 flex-1">
                                   <h3 className="display-heading truncate text-lg font-semibold tracking-tight text-gray-900 dark:text-gray-50">
-                                    {workout.wokroutName || "Running"}
+                                    {workout.workoutName}
                                   </h3>
                                   <p className="mt-0.5 text-xs font-medium uppercase tracking-[0.12em] text-gray-500 dark:text-gray-400">
                                     {workout.workoutDate}
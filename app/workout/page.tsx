@@ -19,6 +19,7 @@ import { useAuth } from "../../context/AuthContext";
 import ZoomableWorkoutMap from "../components/ZoomableWorkoutMap";
 import WorkoutChart from "../components/WorkoutChart";
 import LapBarChart from "../components/LapBarChart";
+import type { WorkoutData, WorkoutSummary } from "../../lib/domain";
 import {
   AppShell,
   Button,
@@ -33,38 +34,6 @@ import {
   stagger,
 } from "../components/ui";
 
-interface WorkoutLap {
-  lapDistanceInKilometers: number;
-  lapDurationInSeconds: number;
-  lapPaceInMinKm: number;
-  avgHeartRate: number;
-}
-
-interface DataSample {
-  timerDurationInSeconds: number;
-  heartRate: number;
-  speedMetersPerSecond: number;
-  elevationInMeters: number;
-}
-
-interface WorkoutDataResponse {
-  workoutLaps: WorkoutLap[];
-  dataSamples: DataSample[];
-}
-
-interface WorkoutSummary {
-  workoutName: string;
-  workoutId: number;
-  workoutDurationInSeconds: number;
-  workoutDistanceInMeters: number;
-  workoutAvgHR: number;
-  workoutAvgPaceInMinKm: number;
-  workoutCoordsJsonStr: string;
-  workoutDate: string;
-  profilePicData: string;
-  athleteName: string;
-}
-
 type DetailTab = "overview" | "splits" | "map" | "analysis";
 
 function formatDuration(seconds: number | null | undefined): string {
@@ -114,7 +83,7 @@ function WorkoutDetailPageContent() {
     ? `/activities?athlete=${encodeURIComponent(userName)}`
     : "/activities";
 
-  const [workoutData, setWorkoutData] = useState<WorkoutDataResponse | null>(null);
+  const [workoutData, setWorkoutData] = useState<WorkoutData | null>(null);
   const [workoutSummary, setWorkoutSummary] = useState<WorkoutSummary | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -148,56 +117,38 @@ function WorkoutDetailPageContent() {
         setLoading(true);
         setError(null);
 
-        const dataResponse = await apiService.getWorkoutData<WorkoutDataResponse>(
+        const dataResponse = await apiService.getWorkoutData(
           workoutId,
           userName
         );
-
-        if (dataResponse.data) {
-          setWorkoutData(dataResponse.data);
-        }
+        setWorkoutData(dataResponse.data);
 
         let summaryProfilePic = "";
         try {
-          const summaryResponse = await apiService.getWorkout<WorkoutSummary>(
+          const summaryResponse = await apiService.getWorkout(
             userName,
             workoutId
           );
+          const summary = {
+            ...summaryResponse.data,
+            athleteName: summaryResponse.data.athleteName || userName,
+          };
+          summaryProfilePic = summary.profilePicData;
+          setWorkoutSummary(summary);
+
+          if (summaryProfilePic) {
+            setProfilePicData(summaryProfilePic);
+          }
 
-          if (summaryResponse.data) {
-            const summary = summaryResponse.data as any;
-            summaryProfilePic = summary.profilePicData || summary.ProfilePicData || summary.profilePicString || summary.ProfilePicString || "";
-
-            setWorkoutSummary({
-              workoutName: summary.workoutName || summary.WorkoutName || "Running",
-              workoutId: typeof (summary.workoutId || summary.WorkoutId) === "string"
-                ? parseInt(summary.workoutId || summary.WorkoutId, 10)
-                : (Number(summary.workoutId || summary.WorkoutId) || 0),
-              workoutDurationInSeconds: Number(summary.workoutDurationInSeconds || summary.WorkoutDurationInSeconds) || 0,
-              workoutDistanceInMeters: Number(summary.workoutDistanceInMeters || summary.WorkoutDistanceInMeters) || 0,
-              workoutAvgHR: Number(summary.workoutAvgHR || summary.WorkoutAvgHR) || 0,
-              workoutAvgPaceInMinKm: Number(summary.workoutAvgPaceInMinKm || summary.WorkoutAvgPaceInMinKm) || 0,
-              workoutCoordsJsonStr: summary.workoutCoordsJsonStr || summary.WorkoutCoordsJsonStr || "",
-              workoutDate: summary.workoutDate || summary.WorkoutDate || "",
-              profilePicData: summaryProfilePic,
-              athleteName: summary.athleteName || summary.AthleteName || userName || "",
-            });
-
-            if (summaryProfilePic) {
-              setProfilePicData(summaryProfilePic);
-            }
-
-            try {
-              if (summary.workoutCoordsJsonStr || summary.WorkoutCoordsJsonStr) {
-                const coordsStr = summary.workoutCoordsJsonStr || summary.WorkoutCoordsJsonStr;
-                const parsed = JSON.parse(coordsStr);
-                if (Array.isArray(parsed) && parsed.length > 0) {
-                  setCoords(parsed);
-                }
+          try {
+            if (summary.workoutCoordsJsonStr) {
+              const parsed = JSON.parse(summary.workoutCoordsJsonStr);
+              if (Array.isArray(parsed) && parsed.length > 0) {
+                setCoords(parsed);
               }
-            } catch (e) {
-              console.error("Failed to parse coordinates:", e);
             }
+          } catch (e) {
+            console.error("Failed to parse coordinates:", e);
           }
         } catch (summaryErr) {
           console.warn("Failed to fetch workout summary, using data from samples only:", summaryErr);
@@ -9,6 +9,8 @@ import { useRouter, useSearchParams } from "next/navigation";
 import { Suspense } from "react";
 import Link from "next/link";
 import { motion, useReducedMotion } from "framer-motion";
+import { useAuth } from "../../../context/AuthContext";
+import WorkoutDraftList from "../../components/WorkoutDraftList";
 import {
   AppShell,
   Card,
@@ -21,6 +23,7 @@ import {
 function WorkoutTypeSelectionPageContent() {
   const router = useRouter();
   const searchParams = useSearchParams();
+  const { user } = useAuth();
   const flockName = searchParams?.get("flock") || "";
   const athleteName = searchParams?.get("athlete") || "";
   const athleteImage = searchParams?.get("image") || "";
@@ -164,6 +167,8 @@ function WorkoutTypeSelectionPageContent() {
           </Card>
         </motion.div>
       </motion.div>
+
+      <WorkoutDraftList ownerName={user?.userName} />
     </AppShell>
   );
 }
@@ -5,12 +5,45 @@
 
 "use client";
 
-import { useState, Suspense } from "react";
+import { useEffect, useRef, useState, Suspense } from "react";
 import { useRouter, useSearchParams } from "next/navigation";
 import Link from "next/link";
 import { motion, AnimatePresence, useReducedMotion } from "framer-motion";
-import { apiService } from "../../../services/api";
+import { apiService, type PlannedWorkoutRequest } from "../../../services/api";
 import { useAuth } from "../../../../context/AuthContext";
+import { usePreserveAcrossLogin } from "../../../../hooks/usePreserveAcrossLogin";
+import { useWorkoutDraft } from "../../../../hooks/useWorkoutDraft";
+import { useUndoableState, useUndoShortcuts } from "../../../../hooks/useUndoableState";
+import { useExerciseCatalogue } from "../../../../hooks/useExerciseCatalogue";
+import { draftKey, draftTargetLabel } from "../../../../lib/workout-drafts";
+import { DraftResumeBanner } from "../../../components/WorkoutDraftList";
+import ScheduleDatesField, { ScheduleResults } from "../../../components/ScheduleDatesField";
+import StrengthDrillFields from "../../../components/StrengthDrillFields";
+import ExerciseNameInput from "../../../components/ExerciseNameInput";
+import ExerciseLibraryModal from "../../../components/ExerciseLibraryModal";
+import UndoRedoButtons from "../../../components/UndoRedoButtons";
+import {
+  createSchedule,
+  fromWorkoutDate,
+  parseLocalDate,
+  resolveScheduleDates,
+  retryScheduled,
+  scheduleError,
+  sendScheduled,
+  type ScheduleResult,
+} from "../../../../lib/schedule";
+import {
+  buildStrengthJson,
+  createDrill,
+  isValidTempo,
+  parseRepScheme,
+  splitGroupLabel,
+  toStrengthDrill,
+  toWorkoutDrill,
+  type StrengthDrill,
+} from "../../../../lib/strength-workout";
+import { normalizeDrill } from "../../../../lib/exercise-library";
+import { generateId } from "../../../../lib/running-workout";
 import {
   AppShell,
   Badge,
@@ -25,46 +58,104 @@ import {
   inViewOnce,
 } from "../../../components/ui";
 
-interface Drill {
-  id: string;
-  drillName: string;
-  drillSets: number;
-  drillReps: number;
-}
-
 function StrengthWorkoutFormPageContent() {
   const router = useRouter();
   const searchParams = useSearchParams();
   const { user } = useAuth();
   const reduce = useReducedMotion();
+  // Editing a planned workout reopens the builder on it and saves in place
+  const editId = searchParams?.get("edit") || "";
   const [workoutName, setWorkoutName] = useState("");
-  const [workoutDate, setWorkoutDate] = useState("");
+  const [schedule, setSchedule] = useState(createSchedule);
   const [workoutDescription, setWorkoutDescription] = useState("");
-  const [drills, setDrills] = useState<Drill[]>([]);
+  // Drill changes can be undone; the text fields keep the browser's own undo
+  const drillHistory = useUndoableState<StrengthDrill[]>([]);
+  const { value: drills, set: setDrills, reset: resetDrills } = drillHistory;
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [showSuccess, setShowSuccess] = useState(false);
+  const [scheduleResults, setScheduleResults] = useState<ScheduleResult<PlannedWorkoutRequest>[] | null>(null);
+  const [editLoading, setEditLoading] = useState(!!editId);
+  const [libraryOpen, setLibraryOpen] = useState(false);
+  // Drill whose typed name is being added as a custom exercise
+  const [newExercise, setNewExercise] = useState<{ drillId: string; name: string } | null>(null);
+  const { catalogue } = useExerciseCatalogue(user?.userName);
+  const restoredRef = useRef(false);
+
+  const builderState = { workoutName, schedule, workoutDescription, drills };
+  const restoreBuilderState = (snapshot: typeof builderState) => {
+    setWorkoutName(snapshot.workoutName);
+    setSchedule(snapshot.schedule);
+    setWorkoutDescription(snapshot.workoutDescription);
+    // Drafts from before drills had a full prescription lack its fields
+    resetDrills(snapshot.drills.map((drill) => ({ ...createDrill(), ...drill })));
+  };
 
-  const generateId = () => Math.random().toString(36).substring(2, 9);
+  // Keep the half-built workout if the session expires before it is saved
+  usePreserveAcrossLogin(`strength-builder?${searchParams.toString()}`, builderState, (snapshot) => {
+    restoredRef.current = true;
+    restoreBuilderState(snapshot);
+  });
+
+  useUndoShortcuts(drillHistory);
+
+  // ...and as a draft on this device, in case the tab reloads or is closed
+  const draft = useWorkoutDraft({
+    ownerName: user?.userName,
+    key: draftKey("strength", searchParams),
+    kind: "strength",
+    targetLabel: draftTargetLabel(searchParams),
+    href: `/workouts/new/strength?${searchParams.toString()}`,
+    workoutName,
+    state: builderState,
+    isEmpty: !workoutName.trim() && !workoutDescription.trim() && drills.length === 0,
+    disabled: !!editId,
+    restore: restoreBuilderState,
+  });
+
+  useEffect(() => {
+    if (!editId) return;
+    let cancelled = false;
+
+    const loadWorkout = async () => {
+      try {
+        const response = await apiService.getStrengthWorkout(editId);
+        // Work restored after a re-login is newer than what was saved
+        if (cancelled || restoredRef.current) return;
+        const workout = response.data;
+        setWorkoutName(workout.workoutName);
+        setWorkoutDescription(workout.workoutDescription);
+        setSchedule({ ...createSchedule(), date: fromWorkoutDate(workout.workoutDate) });
+        resetDrills(workout.workoutDrills.map(toStrengthDrill));
+      } catch (error) {
+        if (cancelled) return;
+        console.error("Failed to load strength workout:", error);
+        setErrors({ submit: error instanceof Error ? error.message : "Failed to load the workout" });
+      } finally {
+        if (!cancelled) setEditLoading(false);
+      }
+    };
 
-  const addDrill = () => {
-    const newDrill: Drill = {
-      id: generateId(),
-      drillName: "",
-      drillSets: 1,
-      drillReps: 1,
+    loadWorkout();
+    return () => {
+      cancelled = true;
     };
-    setDrills([...drills, newDrill]);
+  }, [editId, resetDrills]);
+
+  const addDrill = () => {
+    setDrills([...drills, createDrill()]);
   };
 
-  const updateDrill = (drillId: string, updates: Partial<Drill>) => {
+  const updateDrill = (drillId: string, updates: Partial<StrengthDrill>) => {
     setDrills(
       drills.map((drill) => {
         if (drill.id === drillId) {
           return { ...drill, ...updates };
         }
         return drill;
-      })
+      }),
+      // Typing in one field of a drill undoes in one step
+      { coalesce: `field:${drillId}:${Object.keys(updates).join(",")}` }
     );
   };
 
@@ -72,6 +163,14 @@ function StrengthWorkoutFormPageContent() {
     setDrills(drills.filter((drill) => drill.id !== drillId));
   };
 
+  const duplicateDrill = (drillId: string) => {
+    const index = drills.findIndex((drill) => drill.id === drillId);
+    if (index === -1) return;
+    const next = [...drills];
+    next.splice(index + 1, 0, { ...drills[index], id: generateId() });
+    setDrills(next);
+  };
+
   const validate = (): boolean => {
     const newErrors: Record<string, string> = {};
 
@@ -79,8 +178,9 @@ function StrengthWorkoutFormPageContent() {
       newErrors.workoutName = "Workout name is required";
     }
 
-    if (!workoutDate) {
-      newErrors.workoutDate = "Workout date is required";
+    const dateError = scheduleError(schedule);
+    if (dateError) {
+      newErrors.workoutDate = dateError;
     }
 
     if (drills.length === 0) {
@@ -88,42 +188,120 @@ function StrengthWorkoutFormPageContent() {
     }
 
     drills.forEach((drill) => {
+      const prefix = `drill-${drill.id}`;
+      const timed = drill.drillHoldSeconds > 0;
       if (!drill.drillName.trim()) {
-        newErrors[`drill-${drill.id}-name`] = "Drill name is required";
+        newErrors[`${prefix}-name`] = "Drill name is required";
       }
       if (drill.drillSets < 1) {
-        newErrors[`drill-${drill.id}-sets`] = "Number of sets must be at least 1";
+        newErrors[`${prefix}-sets`] = "Number of sets must be at least 1";
+      }
+      if (!timed && drill.drillReps < 1) {
+        newErrors[`${prefix}-reps`] = "Reps per set must be at least 1";
+      }
+      if (!timed && parseRepScheme(drill.drillRepScheme) === null) {
+        newErrors[`${prefix}-scheme`] = "Enter reps per set as whole numbers, e.g. 5/3/1";
+      }
+      if (drill.drillLoad !== null && drill.drillLoad <= 0) {
+        newErrors[`${prefix}-load`] = "Load must be more than 0";
+      } else if (drill.drillLoad !== null && drill.drillLoadUnit === "percent1rm" && drill.drillLoad > 120) {
+        newErrors[`${prefix}-load`] = "At most 120% of 1RM";
       }
-      if (drill.drillReps < 1) {
-        newErrors[`drill-${drill.id}-reps`] = "Reps per set must be at least 1";
+      if (drill.drillRpe !== null && (drill.drillRpe < 1 || drill.drillRpe > 10)) {
+        newErrors[`${prefix}-rpe`] = "RPE is 1-10";
+      }
+      if (drill.drillTempo.trim() && !isValidTempo(drill.drillTempo)) {
+        newErrors[`${prefix}-tempo`] = "Four phases, e.g. 3-1-1-0";
+      }
+      if (drill.drillRestSeconds !== null && drill.drillRestSeconds < 0) {
+        newErrors[`${prefix}-rest`] = "Rest can't be negative";
       }
     });
 
+    const splitGroup = splitGroupLabel(drills);
+    if (splitGroup) {
+      newErrors.drills = `Drills in group ${splitGroup} must be next to each other`;
+    }
+
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
 
-  const buildStrengthJson = () => {
-    return {
-      WorkoutName: workoutName,
-      WorkoutDescription: workoutDescription || "",
-      WorkoutDate: formatDate(workoutDate),
-      WorkoutDrills: drills.map((drill) => ({
-        DrillName: drill.drillName,
-        DrillSets: drill.drillSets,
-        DrillReps: drill.drillReps,
-      })),
-    };
-  };
+  const strengthJsonFor = (workoutDate: string) =>
+    buildStrengthJson(
+      workoutName,
+      workoutDescription,
+      formatDate(workoutDate),
+      // Library exercises are sent under their library name, so "rdl" and "RDL" count as one exercise
+      drills.map((drill) => toWorkoutDrill(normalizeDrill(drill, catalogue)))
+    );
 
   const formatDate = (dateString: string): string => {
-    const date = new Date(dateString);
+    const date = parseLocalDate(dateString) ?? new Date(dateString);
     const month = String(date.getMonth() + 1).padStart(2, "0");
     const day = String(date.getDate()).padStart(2, "0");
     const year = date.getFullYear();
     return `${month}/${day}/${year}`;
   };
 
+  const goToTarget = () => {
+    const athleteName = searchParams?.get("athlete") || "";
+    const athleteImage = searchParams?.get("image") || "";
+    const flockName = searchParams?.get("flock") || "";
+
+    if (flockName) {
+      router.push(`/flocks/manage/${encodeURIComponent(flockName)}`);
+    } else {
+      const athleteUrl = athleteImage
+        ? `/athlete/${encodeURIComponent(athleteName)}?image=${encodeURIComponent(athleteImage)}`
+        : `/athlete/${encodeURIComponent(athleteName)}`;
+      router.push(athleteUrl);
+    }
+  };
+
+  /** Redirect once every date went through; otherwise list the dates that didn't */
+  const finishSchedule = (results: ScheduleResult<PlannedWorkoutRequest>[]) => {
+    const failed = results.filter((result) => !result.ok);
+    if (failed.length === 0) {
+      draft.clearDraft();
+      setScheduleResults(null);
+      setShowSuccess(true);
+      setTimeout(goToTarget, 2000);
+      return;
+    }
+    setScheduleResults(results);
+    setErrors({
+      submit:
+        results.length === 1
+          ? `Failed to create workout: ${failed[0].error || "Unknown error"}`
+          : `${failed.length} of ${results.length} dates failed`,
+    });
+  };
+
+  const handleRetry = async () => {
+    if (!scheduleResults) return;
+    setIsSubmitting(true);
+    setErrors({});
+    try {
+      finishSchedule(await retryScheduled(scheduleResults, (request) => apiService.addStrengthWorkout(request)));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  /** Save an edited workout in place; its athletes stay the same */
+  const saveEdit = async () => {
+    const response = await apiService.updateStrengthWorkout(editId, {
+      jsonBody: JSON.stringify(strengthJsonFor(schedule.date)),
+      date: formatDate(schedule.date),
+    });
+    if (response.status !== 200) {
+      throw new Error(`Failed to save workout: ${response.message || "Unknown error"}`);
+    }
+    setShowSuccess(true);
+    setTimeout(() => router.push(`/strength-workout/${encodeURIComponent(editId)}`), 2000);
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!validate()) {
@@ -134,8 +312,12 @@ function StrengthWorkoutFormPageContent() {
     setShowSuccess(false);
 
     try {
+      if (editId) {
+        await saveEdit();
+        return;
+      }
+
       const athleteName = searchParams?.get("athlete") || "";
-      const athleteImage = searchParams?.get("image") || "";
       const flockName = searchParams?.get("flock") || "";
 
       const isFlock = !!flockName;
@@ -145,40 +327,20 @@ function StrengthWorkoutFormPageContent() {
         throw new Error(isFlock ? "Flock name is required" : "Athlete name is required");
       }
 
-      const strengthJson = buildStrengthJson();
-      const jsonBody = JSON.stringify(strengthJson);
-      const formattedDate = formatDate(workoutDate);
-
-      const requestBody = {
-        targetName: targetName,
-        isFlock: isFlock,
-        jsonBody: jsonBody,
-        date: formattedDate,
-      };
-
-      const apiKey = user?.apiKey || "";
-      if (!apiKey) {
-        throw new Error("API key is required. Please log in again.");
-      }
-
-      const endpoint = `/api/strength/addWorkout?apiKey=${encodeURIComponent(apiKey)}`;
-      const response = await apiService.post(endpoint, requestBody);
-
-      if (response.status === 200) {
-        setShowSuccess(true);
-        setTimeout(() => {
-          if (isFlock) {
-            router.push(`/flocks/manage/${encodeURIComponent(flockName)}`);
-          } else {
-            const athleteUrl = athleteImage
-              ? `/athlete/${encodeURIComponent(athleteName)}?image=${encodeURIComponent(athleteImage)}`
-              : `/athlete/${encodeURIComponent(athleteName)}`;
-            router.push(athleteUrl);
-          }
-        }, 2000);
-      } else {
-        throw new Error(`Failed to create workout: ${response.message || "Unknown error"}`);
-      }
+      // The body carries its own date, so each scheduled day gets its own copy
+      const batches = resolveScheduleDates(schedule).map((date) => ({
+        date,
+        requests: [
+          {
+            targetName: targetName,
+            isFlock: isFlock,
+            jsonBody: JSON.stringify(strengthJsonFor(date)),
+            date: formatDate(date),
+          },
+        ],
+      }));
+
+      finishSchedule(await sendScheduled(batches, (request) => apiService.addStrengthWorkout(request)));
     } catch (error) {
       console.error("Failed to create workout:", error);
       setErrors({
@@ -189,12 +351,24 @@ function StrengthWorkoutFormPageContent() {
     }
   };
 
-  const totalSets = drills.reduce((s, d) => s + (d.drillSets || 0), 0);
+  const totalSets = drills.map(toWorkoutDrill).reduce((s, d) => s + (d.drillSets || 0), 0);
+  const scheduledCount = resolveScheduleDates(schedule).length;
+  const backHref = editId ? `/strength-workout/${encodeURIComponent(editId)}` : "/workouts/new";
+
+  if (editLoading) {
+    return (
+      <AppShell eyebrow="Edit Workout" title="Edit Strength Workout" maxWidth="lg" hideFooter>
+        <div className="flex justify-center py-16">
+          <Spinner size="lg" />
+        </div>
+      </AppShell>
+    );
+  }
 
   return (
     <AppShell
-      eyebrow="New Workout"
-      title="Create Strength Workout"
+      eyebrow={editId ? "Edit Workout" : "New Workout"}
+      title={editId ? "Edit Strength Workout" : "Create Strength Workout"}
       subtitle="Stack drills with sets and reps."
       gradientTitle
       maxWidth="lg"
@@ -202,17 +376,25 @@ function StrengthWorkoutFormPageContent() {
     >
       <div className="mb-6">
         <Link
-          href="/workouts/new"
+          href={backHref}
           className="inline-flex items-center gap-2 text-sm font-semibold text-gray-700 dark:text-gray-300 hover:text-blue-600 dark:hover:text-blue-400 transition-colors"
         >
           <svg className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
           </svg>
-          Back to Workout Types
+          {editId ? "Back to Workout" : "Back to Workout Types"}
         </Link>
       </div>
 
       <form onSubmit={handleSubmit} className="space-y-6 pb-32">
+        {draft.pendingDraft && (
+          <DraftResumeBanner
+            draft={draft.pendingDraft}
+            onResume={draft.resumeDraft}
+            onDiscard={draft.discardDraft}
+          />
+        )}
+
         {/* Top-level fields */}
         <Card padding="md" className="space-y-5">
           <Input
@@ -237,15 +419,11 @@ function StrengthWorkoutFormPageContent() {
             placeholder="Short explanation of the workout"
           />
 
-          <Input
-            label="Workout Date"
-            id="workoutDate"
-            name="workoutDate"
-            type="date"
-            required
-            value={workoutDate}
-            onChange={(e) => setWorkoutDate(e.target.value)}
+          <ScheduleDatesField
+            schedule={schedule}
+            onChange={setSchedule}
             error={errors.workoutDate}
+            singleOnly={!!editId}
           />
         </Card>
 
@@ -254,21 +432,34 @@ function StrengthWorkoutFormPageContent() {
           <SectionHeading
             as="h3"
             title="Drills"
-            description="Add exercises with sets and reps."
+            description="Add exercises with sets and reps, plus optional load, effort, tempo and rest. Give drills the same group to run them as a superset or circuit."
             actions={
-              <Button
-                type="button"
-                variant="gradient"
-                size="sm"
-                onClick={addDrill}
-                iconLeft={
-                  <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2.4}>
-                    <path strokeLinecap="round" strokeLinejoin="round" d="M12 4v16m8-8H4" />
-                  </svg>
-                }
-              >
-                Add Drill
-              </Button>
+              <div className="flex flex-wrap gap-2">
+                <UndoRedoButtons
+                  onUndo={drillHistory.undo}
+                  onRedo={drillHistory.redo}
+                  canUndo={drillHistory.canUndo}
+                  canRedo={drillHistory.canRedo}
+                />
+                {user && (
+                  <Button type="button" variant="outline" size="sm" onClick={() => setLibraryOpen(true)}>
+                    Exercises
+                  </Button>
+                )}
+                <Button
+                  type="button"
+                  variant="gradient"
+                  size="sm"
+                  onClick={addDrill}
+                  iconLeft={
+                    <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2.4}>
+                      <path strokeLinecap="round" strokeLinejoin="round" d="M12 4v16m8-8H4" />
+                    </svg>
+                  }
+                >
+                  Add Drill
+                </Button>
+              </div>
             }
           />
 
@@ -300,58 +491,52 @@ function StrengthWorkoutFormPageContent() {
                       <Badge variant="info" dot>
                         Drill {idx + 1}
                       </Badge>
+                      {drill.drillGroup && (
+                        <Badge variant="brand" size="sm">
+                          Group {drill.drillGroup}
+                        </Badge>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-1">
+                      <button
+                        type="button"
+                        onClick={() => duplicateDrill(drill.id)}
+                        aria-label="Duplicate drill"
+                        className="p-1.5 rounded-lg text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-100 hover:bg-white dark:hover:bg-white/5 transition-colors"
+                      >
+                        <svg className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
+                        </svg>
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => removeDrill(drill.id)}
+                        aria-label="Remove drill"
+                        className="p-1.5 rounded-lg text-rose-600 dark:text-rose-400 hover:bg-rose-50 dark:hover:bg-rose-500/10 transition-colors"
+                      >
+                        <svg className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                        </svg>
+                      </button>
                     </div>
-                    <button
-                      type="button"
-                      onClick={() => removeDrill(drill.id)}
-                      aria-label="Remove drill"
-                      className="p-1.5 rounded-lg text-rose-600 dark:text-rose-400 hover:bg-rose-50 dark:hover:bg-rose-500/10 transition-colors"
-                    >
-                      <svg className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
-                      </svg>
-                    </button>
                   </div>
 
                   <div className="space-y-4">
-                    <Input
-                      label="Drill Name"
-                      required
+                    <ExerciseNameInput
                       id={`drill-${drill.id}-name`}
-                      name={`drill-${drill.id}-name`}
-                      type="text"
                       value={drill.drillName}
-                      onChange={(e) => updateDrill(drill.id, { drillName: e.target.value })}
-                      placeholder="Bench Press, Squats, etc"
+                      exerciseId={drill.drillExerciseId}
+                      catalogue={catalogue}
+                      onChange={(drillName, drillExerciseId) => updateDrill(drill.id, { drillName, drillExerciseId })}
+                      onCreateCustom={user ? (name) => setNewExercise({ drillId: drill.id, name }) : undefined}
                       error={errors[`drill-${drill.id}-name`]}
                     />
 
-                    <div className="grid grid-cols-2 gap-4">
-                      <Input
-                        label="Number of Sets"
-                        required
-                        id={`drill-${drill.id}-sets`}
-                        name={`drill-${drill.id}-sets`}
-                        type="number"
-                        min="1"
-                        value={drill.drillSets || ""}
-                        onChange={(e) => updateDrill(drill.id, { drillSets: parseInt(e.target.value) || 1 })}
-                        placeholder="3"
-                        error={errors[`drill-${drill.id}-sets`]}
-                      />
-                      <Input
-                        label="Reps Per Set"
-                        required
-                        id={`drill-${drill.id}-reps`}
-                        name={`drill-${drill.id}-reps`}
-                        type="number"
-                        min="1"
-                        value={drill.drillReps || ""}
-                        onChange={(e) => updateDrill(drill.id, { drillReps: parseInt(e.target.value) || 1 })}
-                        placeholder="10"
-                        error={errors[`drill-${drill.id}-reps`]}
-                      />
-                    </div>
+                    <StrengthDrillFields
+                      drill={drill}
+                      onChange={(updates) => updateDrill(drill.id, updates)}
+                      errors={errors}
+                    />
                   </div>
                 </motion.div>
               ))}
@@ -372,6 +557,18 @@ function StrengthWorkoutFormPageContent() {
           </motion.div>
         </Card>
 
+        {scheduleResults && (
+          <ScheduleResults
+            results={scheduleResults}
+            onRetry={handleRetry}
+            onDismiss={() => {
+              setScheduleResults(null);
+              setErrors({});
+            }}
+            retrying={isSubmitting}
+          />
+        )}
+
         {/* Sticky save bar */}
         <div className="fixed inset-x-0 bottom-0 z-30 border-t border-gray-200/60 dark:border-white/10 bg-white/80 dark:bg-[#0b0f17]/85 backdrop-blur-xl">
           <div className="mx-auto flex max-w-5xl items-center justify-between gap-3 px-4 sm:px-6 lg:px-8 py-3">
@@ -393,7 +590,13 @@ function StrengthWorkoutFormPageContent() {
                     >
                       <path strokeLinecap="round" strokeLinejoin="round" d="M5 13l4 4L19 7" />
                     </svg>
-                    <span className="text-sm font-semibold">Workout planned!</span>
+                    <span className="text-sm font-semibold">
+                      {editId
+                        ? "Workout updated!"
+                        : scheduledCount > 1
+                          ? `${scheduledCount} workouts planned!`
+                          : "Workout planned!"}
+                    </span>
                   </motion.div>
                 )}
               </AnimatePresence>
@@ -408,7 +611,7 @@ function StrengthWorkoutFormPageContent() {
               )}
             </div>
             <div className="flex items-center gap-2 shrink-0">
-              <Link href="/workouts/new" className="shrink-0">
+              <Link href={backHref} className="shrink-0">
                 <Button variant="ghost" type="button" size="sm" className="sm:h-10 sm:text-sm sm:px-4">
                   Cancel
                 </Button>
@@ -418,15 +621,39 @@ function StrengthWorkoutFormPageContent() {
                 variant="gradient"
                 size="sm"
                 className="sm:h-10 sm:text-sm sm:px-4 shrink-0"
-                disabled={isSubmitting || showSuccess}
+                disabled={isSubmitting || showSuccess || !!scheduleResults}
                 loading={isSubmitting}
               >
-                {showSuccess ? "Saved" : "Create Workout"}
+                {showSuccess
+                  ? "Saved"
+                  : editId
+                    ? "Save Changes"
+                    : scheduledCount > 1
+                      ? `Create ${scheduledCount} Workouts`
+                      : "Create Workout"}
               </Button>
             </div>
           </div>
         </div>
       </form>
+
+      {user && (
+        <ExerciseLibraryModal
+          open={libraryOpen || !!newExercise}
+          onClose={() => {
+            setLibraryOpen(false);
+            setNewExercise(null);
+          }}
+          userName={user.userName}
+          catalogue={catalogue}
+          newExerciseName={newExercise?.name ?? null}
+          onCreated={(exercise) => {
+            if (newExercise) {
+              updateDrill(newExercise.drillId, { drillName: exercise.name, drillExerciseId: exercise.id });
+            }
+          }}
+        />
+      )}
     </AppShell>
   );
 }
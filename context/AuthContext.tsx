@@ -5,12 +5,21 @@
 
 "use client";
 
-import { createContext, useContext, useEffect, useState, ReactNode } from "react";
+import { createContext, useCallback, useContext, useEffect, useRef, useState, ReactNode } from "react";
 import { useRouter } from "next/navigation";
-import { setToken, getToken, clearToken } from "../lib/auth";
-import { apiFetch } from "../lib/api";
-import { API_BASE_URL } from "../lib/api-config";
-import { hashPassword } from "../lib/crypto-utils";
+import { getToken, clearToken, setApiKey, getTokenExpiry, isTokenExpired } from "../lib/auth";
+import { apiService } from "../app/services/api";
+import { createLogger } from "../lib/logger";
+import { notifySessionEnding, rememberReturnPath } from "../lib/session-restore";
+import { broadcastSessionEvent, subscribeToSessionEvents } from "../lib/session-sync";
+
+const log = createLogger("auth");
+
+/** Try to refresh the JWT this long before it expires */
+const REFRESH_LEAD_MS = 2 * 60 * 1000;
+
+/** setTimeout overflows past ~24.8 days; longer sessions are re-checked then */
+const MAX_TIMER_MS = 2_147_483_647;
 
 interface User {
   userName: string;
@@ -27,6 +36,14 @@ interface AuthContextType {
   loginWithGoogle: (credential: string, role?: string) => Promise<void>;
   logout: () => Promise<void>;
   refreshUser: () => Promise<void>;
+  /** When the current JWT expires (ms since epoch), or null if unknown / signed out */
+  sessionExpiresAt: number | null;
+  /** True when a silent refresh failed and the user should sign in again */
+  reauthRequired: boolean;
+  /** Try to refresh the JWT now; resolves false if the session cannot be extended */
+  extendSession: () => Promise<boolean>;
+  /** End the session, keeping the current page to return to after login */
+  endSession: () => void;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -34,31 +51,48 @@ const AuthContext = createContext<AuthContextType | undefined>(undefined);
 export function AuthProvider({ children }: { children: ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
   const [loading, setLoading] = useState(true);
+  const [sessionExpiresAt, setSessionExpiresAt] = useState<number | null>(null);
+  const [reauthRequired, setReauthRequired] = useState(false);
   const router = useRouter();
 
+  // Read by the cross-tab listener, which is subscribed once
+  const signedInRef = useRef(false);
+  useEffect(() => {
+    signedInRef.current = user !== null;
+  }, [user]);
 
   /**
    * Fetch current user from /me endpoint
+   * Expired tokens are dropped without calling the API
    */
   const fetchUser = async (): Promise<void> => {
     const token = getToken();
-    if (!token) {
-      console.log("ℹ️ No token found, user not authenticated");
+    if (!token || isTokenExpired(token)) {
+      log.debug(token ? "Stored token has expired" : "No token found, user not authenticated");
+      if (token) {
+        // Came back to a page after the session lapsed - return here after login
+        clearToken();
+        rememberReturnPath();
+      }
       setUser(null);
+      setSessionExpiresAt(null);
       setLoading(false);
       return;
     }
 
     try {
-      console.log("📡 Fetching user data from /api/userAuth/me with JWT token");
-      const userData = await apiFetch<User>("/api/userAuth/me");
-      console.log("✅ User data fetched successfully:", userData);
+      const { data: userData } = await apiService.getCurrentUser<User>();
+      setApiKey(userData.apiKey || null);
+      log.debug("User data fetched", { userName: userData.userName, role: userData.role });
       setUser(userData);
+      setSessionExpiresAt(getTokenExpiry(token));
+      setReauthRequired(false);
     } catch (error) {
-      console.error("❌ Failed to fetch user:", error);
+      log.error("Failed to fetch user", error);
       // If /me fails, clear token and user
       clearToken();
       setUser(null);
+      setSessionExpiresAt(null);
     } finally {
       setLoading(false);
     }
@@ -66,116 +100,82 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
   /**
    * Login user
+   * Password is SHA-256 hashed by the API client before sending
    */
   const login = async (userName: string, password: string): Promise<void> => {
-    // Hash password with SHA-256 before sending (backend expects hashed password for login)
-    // Debug: Log the original password length and first char to verify it's not modified
-    console.log("🔐 Login - Original password length:", password.length, "first char code:", password.charCodeAt(0));
-    const hashedPassword = await hashPassword(password);
-    console.log("🔐 Login - Password hashed:", hashedPassword);
-    console.log("🔐 Login - Full hash length:", hashedPassword.length, "(should be 64 for SHA-256)");
-
-    // Call login endpoint (without auth header since we're logging in)
-    const loginBody = {
-      userName,
-      hashedPassword, // Send SHA-256 hashed password
-    };
-    console.log("📤 Login request body:", { ...loginBody, hashedPassword: "***" });
-    
-    const response = await fetch(`${API_BASE_URL}/api/userAuth`, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify(loginBody),
-    });
-
-    // Handle 401 Unauthorized
-    if (response.status === 401) {
-      throw new Error("Invalid username or password. Please check your credentials and try again.");
-    }
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      const errorMessage =
-        errorData.message || `API Error: ${response.status} ${response.statusText}`;
-      throw new Error(errorMessage);
-    }
-
-    const data = await response.json();
-
-    // Store token
-    if (data.token) {
-      console.log("✅ JWT Token received and saved:", data.token.substring(0, 20) + "...");
-      setToken(data.token);
-      console.log("✅ Token stored in localStorage");
-    } else {
-      throw new Error("No token received from server");
-    }
+    await apiService.login(userName, password);
 
     // Fetch user data using the token
     await fetchUser();
+    broadcastSessionEvent({ type: "login" });
   };
 
   /**
    * Logout user
-   * Client-side only - clears token and user state
+   * Client-side only - clears token, cached queries and user state
    */
   const logout = async (): Promise<void> => {
     // Clear token and user state
-    clearToken();
+    apiService.clearAuthToken();
     setUser(null);
+    setSessionExpiresAt(null);
+    setReauthRequired(false);
+    broadcastSessionEvent({ type: "logout", reason: "user" });
     router.push("/login");
   };
 
   /**
-   * Login with Google OAuth
+   * End an expired session
+   * Pages snapshot their state and the current path is kept for after login
+   * @param broadcast - Also end the session in other tabs (false when reacting to one)
    */
-  const loginWithGoogle = async (credential: string, role?: string): Promise<void> => {
-    // Call Google OAuth endpoint
-    const response = await fetch(`${API_BASE_URL}/api/userAuth/google`, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        credential,
-        role: role?.toLowerCase(),
-      }),
-    });
-
-    // Handle 401 Unauthorized
-    if (response.status === 401) {
-      throw new Error("Google authentication failed. Please try again.");
-    }
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      const errorMessage =
-        errorData.message || `API Error: ${response.status} ${response.statusText}`;
-      throw new Error(errorMessage);
+  const expireSession = useCallback((broadcast: boolean): void => {
+    notifySessionEnding();
+    apiService.clearAuthToken();
+    setUser(null);
+    setSessionExpiresAt(null);
+    setReauthRequired(false);
+    if (broadcast) {
+      broadcastSessionEvent({ type: "logout", reason: "expired" });
     }
+    router.push("/login");
+  }, [router]);
 
-    const data = await response.json();
+  const endSession = useCallback(() => expireSession(true), [expireSession]);
 
-    // Store token
-    if (data.token) {
-      console.log("✅ JWT Token received from Google auth and saved:", data.token.substring(0, 20) + "...");
-      setToken(data.token);
-      console.log("✅ Token stored in localStorage");
-    } else {
-      throw new Error("No token received from server");
+  /**
+   * Silently exchange the JWT for a fresh one
+   */
+  const extendSession = useCallback(async (): Promise<boolean> => {
+    try {
+      await apiService.refreshSession();
+      setSessionExpiresAt(getTokenExpiry());
+      setReauthRequired(false);
+      broadcastSessionEvent({ type: "token-refresh" });
+      return true;
+    } catch (error) {
+      log.warn("Session refresh failed", error);
+      return false;
     }
+  }, []);
+
+  /**
+   * Login with Google OAuth
+   */
+  const loginWithGoogle = async (credential: string, role?: string): Promise<void> => {
+    await apiService.loginWithGoogle(credential, role);
 
     // Fetch user data using the token
     await fetchUser();
+    broadcastSessionEvent({ type: "login" });
   };
 
   /**
-   * Refresh user data
+   * Refresh user data (other tabs refetch too)
    */
   const refreshUser = async (): Promise<void> => {
     await fetchUser();
+    broadcastSessionEvent({ type: "user-refresh" });
   };
 
   // On mount, fetch user if token exists
@@ -183,6 +183,54 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     fetchUser();
   }, []);
 
+  // Follow logins, logouts and refreshes made in other tabs.
+  // The token itself is shared through localStorage; only in-memory state needs updating.
+  useEffect(() => {
+    return subscribeToSessionEvents((event) => {
+      log.debug("Session event from another tab", event);
+      switch (event.type) {
+        case "login":
+        case "user-refresh":
+          fetchUser();
+          break;
+        case "token-refresh":
+          setSessionExpiresAt(getTokenExpiry());
+          setReauthRequired(false);
+          break;
+        case "logout":
+          if (event.reason === "expired" && signedInRef.current) {
+            expireSession(false);
+          } else {
+            // Protected pages redirect to /login via useRequireAuth
+            apiService.clearAuthToken();
+            setUser(null);
+            setSessionExpiresAt(null);
+            setReauthRequired(false);
+          }
+          break;
+      }
+    });
+  }, [expireSession]);
+
+  // Refresh shortly before the token expires; end the session when it does
+  useEffect(() => {
+    if (sessionExpiresAt === null) return;
+
+    const untilExpiry = sessionExpiresAt - Date.now();
+    const refreshTimer = setTimeout(async () => {
+      if (!(await extendSession())) {
+        setReauthRequired(true);
+      }
+    }, Math.min(Math.max(untilExpiry - REFRESH_LEAD_MS, 0), MAX_TIMER_MS));
+    const expiryTimer =
+      untilExpiry <= MAX_TIMER_MS ? setTimeout(endSession, Math.max(untilExpiry, 0)) : undefined;
+
+    return () => {
+      clearTimeout(refreshTimer);
+      clearTimeout(expiryTimer);
+    };
+  }, [sessionExpiresAt, extendSession, endSession]);
+
   const value: AuthContextType = {
     user,
     loading,
@@ -190,6 +238,10 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     loginWithGoogle,
     logout,
     refreshUser,
+    sessionExpiresAt,
+    reauthRequired,
+    extendSession,
+    endSession,
   };
 
   return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
@@ -0,0 +1,28 @@
+/**
+ * Athlete Access Hook
+ * Resolves whose data an athlete-scoped page (?athlete=<name>) shows
+ */
+
+"use client";
+
+import { useAuth } from "../context/AuthContext";
+import { checkAthleteAccess, type AccessDenial } from "../lib/access";
+
+interface AthleteAccess {
+  /** Athlete whose data to load (the param, or the signed-in athlete) */
+  athleteName: string;
+  /** Why the viewer may not see it, or null when allowed */
+  denial: AccessDenial | null;
+}
+
+/**
+ * Hook that applies the coach-viewing-athlete rules to a page
+ * @param athleteParam - Value of the ?athlete= query param
+ */
+export function useAthleteAccess(athleteParam: string | null | undefined): AthleteAccess {
+  const { user } = useAuth();
+
+  if (!user) return { athleteName: "", denial: null };
+  const denial = checkAthleteAccess(user, athleteParam);
+  return { athleteName: denial ? "" : athleteParam || user.userName, denial };
+}
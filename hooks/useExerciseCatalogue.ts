@@ -0,0 +1,22 @@
+/**
+ * Exercise Catalogue Hook
+ * Built-in exercises plus the signed-in coach's own, kept in sync with storage
+ */
+
+"use client";
+
+import { useMemo } from "react";
+import { customExercisesStore, exerciseCatalogue, parseCustomExercises, type Exercise } from "../lib/exercise-library";
+import { useLocalStoreSnapshot } from "./useLocalStore";
+
+/**
+ * @param userName - Coach whose custom exercises to include, if any
+ * @returns The full catalogue (built-in exercises only until hydrated) and the custom ones
+ */
+export function useExerciseCatalogue(userName: string | undefined): { catalogue: Exercise[]; custom: Exercise[] } {
+  const raw = useLocalStoreSnapshot(customExercisesStore, userName);
+  return useMemo(() => {
+    const custom = parseCustomExercises(raw);
+    return { catalogue: exerciseCatalogue(custom), custom };
+  }, [raw]);
+}
@@ -0,0 +1,21 @@
+/**
+ * Local Store Hook
+ * A user's raw value in a local store, kept in sync with storage
+ */
+
+"use client";
+
+import { useSyncExternalStore } from "react";
+import type { LocalStore } from "../lib/local-store";
+
+/**
+ * @param userName - Owner of the value, if signed in
+ * @returns The raw stored value (null until hydrated), for the store's own parser
+ */
+export function useLocalStoreSnapshot(store: LocalStore, userName: string | undefined): string | null {
+  return useSyncExternalStore(
+    store.subscribe,
+    () => (userName ? store.readSnapshot(userName) : null),
+    () => null
+  );
+}
@@ -0,0 +1,36 @@
+/**
+ * Preserve Across Login Hook
+ * Keeps a page's unsaved state when the session expires and the user signs in again
+ */
+
+"use client";
+
+import { useEffect, useRef } from "react";
+import { SESSION_ENDING_EVENT, savePageSnapshot, takePageSnapshot } from "../lib/session-restore";
+
+/**
+ * Snapshot state when the session ends and hand it back after re-login
+ * @param key - Page-specific key (include anything that identifies the form, e.g. the target athlete)
+ * @param state - Current JSON-serializable state
+ * @param restore - Called once on mount with the saved snapshot, if there is one
+ */
+export function usePreserveAcrossLogin<T>(key: string, state: T, restore: (snapshot: T) => void): void {
+  const stateRef = useRef(state);
+  const restoreRef = useRef(restore);
+
+  useEffect(() => {
+    stateRef.current = state;
+    restoreRef.current = restore;
+  });
+
+  useEffect(() => {
+    const snapshot = takePageSnapshot(key);
+    if (snapshot !== undefined) {
+      restoreRef.current(snapshot as T);
+    }
+
+    const handleSessionEnding = () => savePageSnapshot(key, stateRef.current);
+    window.addEventListener(SESSION_ENDING_EVENT, handleSessionEnding);
+    return () => window.removeEventListener(SESSION_ENDING_EVENT, handleSessionEnding);
+  }, [key]);
+}
@@ -0,0 +1,126 @@
+/**
+ * Undoable State Hook
+ * useState with an undo/redo history, for the workout builders' structure
+ */
+
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+
+/** Oldest entries are dropped past this many undo steps */
+const MAX_HISTORY = 100;
+
+interface History<T> {
+  past: T[];
+  present: T;
+  future: T[];
+}
+
+export interface SetOptions {
+  /**
+   * Edit this change belongs to, e.g. "field:<id>:drillName" or "drag:<session>"
+   * Consecutive changes with the same key undo in one step, so typing a pace or
+   * dragging an item through several positions undoes in one go. Changes
+   * without a key (add, remove, duplicate) always get their own step.
+   */
+  coalesce?: string;
+}
+
+export interface UndoableState<T> {
+  value: T;
+  /** Replace the value, recording the previous one for undo */
+  set: (next: T, options?: SetOptions) => void;
+  /** Replace the value and forget the history (e.g. after loading a saved workout) */
+  reset: (next: T) => void;
+  undo: () => void;
+  redo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+}
+
+export function useUndoableState<T>(initial: T): UndoableState<T> {
+  const [history, setHistory] = useState<History<T>>({ past: [], present: initial, future: [] });
+  // Key of the edit the latest step belongs to; null when the next change starts a new step
+  const lastKeyRef = useRef<string | null>(null);
+
+  const set = useCallback((next: T, options?: SetOptions) => {
+    const key = options?.coalesce ?? null;
+    const coalesce = key !== null && key === lastKeyRef.current;
+    lastKeyRef.current = key;
+    setHistory((current) => {
+      if (Object.is(next, current.present)) return current;
+      // Merging keeps the entry from before the edit started
+      const past = coalesce && current.past.length > 0 ? current.past : [...current.past, current.present];
+      return { past: past.slice(-MAX_HISTORY), present: next, future: [] };
+    });
+  }, []);
+
+  const reset = useCallback((next: T) => {
+    lastKeyRef.current = null;
+    setHistory({ past: [], present: next, future: [] });
+  }, []);
+
+  const undo = useCallback(() => {
+    lastKeyRef.current = null;
+    setHistory((current) =>
+      current.past.length === 0
+        ? current
+        : {
+            past: current.past.slice(0, -1),
+            present: current.past[current.past.length - 1],
+            future: [current.present, ...current.future],
+          }
+    );
+  }, []);
+
+  const redo = useCallback(() => {
+    lastKeyRef.current = null;
+    setHistory((current) =>
+      current.future.length === 0
+        ? current
+        : {
+            past: [...current.past, current.present],
+            present: current.future[0],
+            future: current.future.slice(1),
+          }
+    );
+  }, []);
+
+  return {
+    value: history.present,
+    set,
+    reset,
+    undo,
+    redo,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+  };
+}
+
+function isEditableTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName);
+}
+
+/**
+ * Ctrl/⌘+Z to undo, Ctrl/⌘+Shift+Z or Ctrl+Y to redo
+ * Ignored while typing in a field (the browser's own undo applies there) and while a dialog is open.
+ */
+export function useUndoShortcuts({ undo, redo }: Pick<UndoableState<unknown>, "undo" | "redo">): void {
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey) return;
+      if (isEditableTarget(event.target) || document.querySelector('[role="dialog"]')) return;
+      const key = event.key.toLowerCase();
+      if (key === "z" && !event.shiftKey) {
+        event.preventDefault();
+        undo();
+      } else if ((key === "z" && event.shiftKey) || key === "y") {
+        event.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [undo, redo]);
+}
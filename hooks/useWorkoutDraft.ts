@@ -0,0 +1,122 @@
+/**
+ * Workout Draft Hooks
+ * Autosave a builder's state as a draft and offer to resume it when the builder reopens
+ */
+
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import {
+  deleteDraft,
+  draftsStore,
+  parseDrafts,
+  saveDraft,
+  type DraftKind,
+  type WorkoutDraft,
+} from "../lib/workout-drafts";
+import { useLocalStoreSnapshot } from "./useLocalStore";
+
+/** Quiet period before a change is written */
+const AUTOSAVE_DELAY_MS = 800;
+
+/**
+ * A coach's drafts, kept in sync with storage (empty until hydrated)
+ * @param ownerName - Signed-in coach, if any
+ */
+export function useWorkoutDrafts(ownerName: string | undefined): WorkoutDraft[] {
+  const raw = useLocalStoreSnapshot(draftsStore, ownerName);
+  return useMemo(() => parseDrafts(raw), [raw]);
+}
+
+interface WorkoutDraftOptions<T> {
+  /** Signed-in coach; nothing is saved without one */
+  ownerName: string | undefined;
+  /** See draftKey */
+  key: string;
+  kind: DraftKind;
+  targetLabel: string;
+  href: string;
+  workoutName: string;
+  /** Current JSON-serializable builder state */
+  state: T;
+  /** Nothing worth keeping yet (an empty draft is removed rather than saved) */
+  isEmpty: boolean;
+  /** Turn drafts off, e.g. while editing a workout that was already sent */
+  disabled?: boolean;
+  /** Called with the draft's state when the user resumes it */
+  restore: (state: T) => void;
+}
+
+interface WorkoutDraftControls<T> {
+  /** Draft found when the builder opened, until the user resumes or discards it */
+  pendingDraft: WorkoutDraft<T> | null;
+  resumeDraft: () => void;
+  discardDraft: () => void;
+  /** Drop the draft once the workout is sent */
+  clearDraft: () => void;
+}
+
+/**
+ * Autosave builder state as a draft
+ * While an earlier draft is waiting to be resumed or discarded nothing is
+ * saved, so starting to type doesn't overwrite it.
+ */
+export function useWorkoutDraft<T>({
+  ownerName,
+  key,
+  kind,
+  targetLabel,
+  href,
+  workoutName,
+  state,
+  isEmpty,
+  disabled,
+  restore,
+}: WorkoutDraftOptions<T>): WorkoutDraftControls<T> {
+  const drafts = useWorkoutDrafts(disabled ? undefined : ownerName);
+  // "pending" until an earlier draft is resumed or discarded, "done" once the workout is sent
+  const [status, setStatus] = useState<"pending" | "saving" | "done">("pending");
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const stored = drafts.find((draft) => draft.key === key) as WorkoutDraft<T> | undefined;
+  const pendingDraft = status === "pending" && stored ? stored : null;
+  const serialized = JSON.stringify(state);
+
+  useEffect(() => {
+    if (disabled || !ownerName || pendingDraft || status === "done") return;
+    timerRef.current = setTimeout(() => {
+      timerRef.current = null;
+      if (isEmpty) {
+        deleteDraft(ownerName, key);
+      } else {
+        saveDraft(ownerName, { key, kind, targetLabel, href, workoutName, state: JSON.parse(serialized) as T });
+      }
+      // From here on the stored draft is this session's own
+      setStatus("saving");
+    }, AUTOSAVE_DELAY_MS);
+    return () => {
+      if (timerRef.current) clearTimeout(timerRef.current);
+      timerRef.current = null;
+    };
+  }, [disabled, ownerName, pendingDraft, status, isEmpty, key, kind, targetLabel, href, workoutName, serialized]);
+
+  const resumeDraft = () => {
+    if (!pendingDraft) return;
+    restore(pendingDraft.state);
+    setStatus("saving");
+  };
+
+  const discardDraft = () => {
+    if (ownerName) deleteDraft(ownerName, key);
+    setStatus("saving");
+  };
+
+  const clearDraft = () => {
+    if (timerRef.current) clearTimeout(timerRef.current);
+    timerRef.current = null;
+    if (ownerName) deleteDraft(ownerName, key);
+    setStatus("done");
+  };
+
+  return { pendingDraft, resumeDraft, discardDraft, clearDraft };
+}
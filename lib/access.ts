@@ -0,0 +1,114 @@
+/**
+ * Access Rules
+ * Which role may open which route, and whose athlete data a user may view
+ *
+ * Role rules are keyed by route prefix and enforced for every page by
+ * RouteGuard. Athlete-scoped pages (?athlete=<name>) check the viewer with
+ * checkAthleteAccess via useAthleteAccess. The API still enforces the
+ * coach-athlete link; these rules decide what the UI offers and shows.
+ */
+
+export type Role = "coach" | "athlete";
+
+const ROLE_PLURALS: Record<Role, string> = {
+  coach: "coaches",
+  athlete: "athletes",
+};
+
+export type AccessDenial =
+  | { reason: "role"; allowedRoles: Role[] }
+  | { reason: "athlete-required" }
+  | { reason: "not-own-data" };
+
+export interface RouteRule {
+  /** Route prefix, e.g. "/flocks" also covers "/flocks/manage/x" */
+  path: string;
+  /** Roles allowed on the route (any signed-in user when omitted) */
+  roles?: Role[];
+}
+
+/**
+ * Route map for signed-in pages
+ * Routes not listed here only require being signed in (via useRequireAuth)
+ */
+export const ROUTE_ACCESS: RouteRule[] = [
+  { path: "/athletes", roles: ["coach"] },
+  { path: "/athlete", roles: ["coach"] },
+  { path: "/flocks", roles: ["coach"] },
+  { path: "/connect-athlete", roles: ["coach"] },
+  { path: "/workouts/new", roles: ["coach"] },
+  { path: "/connect-coach", roles: ["athlete"] },
+  { path: "/garmin/callback", roles: ["athlete"] },
+];
+
+/**
+ * Normalize a role string from the API ("Coach", "athlete", ...)
+ */
+export function normalizeRole(role: string | null | undefined): Role | null {
+  const normalized = role?.toLowerCase();
+  return normalized === "coach" || normalized === "athlete" ? normalized : null;
+}
+
+/**
+ * Find the rule for a pathname (longest matching prefix wins)
+ * @param pathname - e.g. "/flocks/manage/Sunday%20Runners"
+ */
+export function findRouteRule(pathname: string): RouteRule | null {
+  let match: RouteRule | null = null;
+  for (const rule of ROUTE_ACCESS) {
+    const matches = pathname === rule.path || pathname.startsWith(`${rule.path}/`);
+    if (matches && (!match || rule.path.length > match.path.length)) {
+      match = rule;
+    }
+  }
+  return match;
+}
+
+/**
+ * Check a role against the roles a route allows
+ * @returns null when allowed
+ */
+export function checkRoleAccess(role: string | null | undefined, allowedRoles: Role[]): AccessDenial | null {
+  const normalized = normalizeRole(role);
+  return normalized && allowedRoles.includes(normalized) ? null : { reason: "role", allowedRoles };
+}
+
+/**
+ * Check whether a user may view an athlete's data
+ * - Coaches must pick an athlete (the API rejects athletes they do not coach)
+ * - Athletes may only view their own data
+ * @param user - Signed-in user
+ * @param athleteParam - Athlete named in the URL, if any
+ * @returns null when allowed
+ */
+export function checkAthleteAccess(
+  user: { userName: string; role: string },
+  athleteParam: string | null | undefined
+): AccessDenial | null {
+  const role = normalizeRole(user.role);
+  if (role === "coach") {
+    return athleteParam ? null : { reason: "athlete-required" };
+  }
+  if (athleteParam && athleteParam.toLowerCase() !== user.userName.toLowerCase()) {
+    return { reason: "not-own-data" };
+  }
+  return null;
+}
+
+/**
+ * User-facing explanation of a denial
+ * @param denial - Why access was denied
+ * @param subject - What the page shows, e.g. "sleep data"
+ */
+export function describeDenial(denial: AccessDenial, subject = "data"): string {
+  switch (denial.reason) {
+    case "role":
+      return denial.allowedRoles.length === 1
+        ? `This page is for ${ROLE_PLURALS[denial.allowedRoles[0]]} only.`
+        : "Your account does not have access to this page.";
+    case "athlete-required":
+      return `Please select an athlete to view their ${subject}.`;
+    case "not-own-data":
+      return `You do not have access to this athlete's ${subject}.`;
+  }
+}
@@ -1,6 +1,7 @@
 /**
  * Single source of truth for the API base URL.
  * Override with NEXT_PUBLIC_API_BASE_URL in .env.local if needed (e.g. local dev).
+ * Use http://localhost:3000/mock-api for the built-in mock backend (see lib/mock-api).
  */
 
 const DEFAULT_API_BASE_URL = "https://api.goosenet.space";
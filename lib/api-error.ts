@@ -0,0 +1,68 @@
+/**
+ * API Error
+ * Error type thrown by the API client for every failed request
+ */
+
+/**
+ * Error raised for non-OK responses from the GooseNet API
+ * - status: HTTP status code of the response
+ * - body: parsed response body (JSON object or text)
+ * - endpoint: request path or URL that failed
+ */
+export class ApiError extends Error {
+  readonly status: number;
+  readonly body: unknown;
+  readonly endpoint: string;
+
+  constructor(message: string, status: number, body: unknown, endpoint: string) {
+    super(message);
+    this.name = "ApiError";
+    this.status = status;
+    this.body = body;
+    this.endpoint = endpoint;
+  }
+}
+
+/**
+ * Check if an unknown error is an ApiError (optionally with a given status)
+ */
+export function isApiError(error: unknown, status?: number): error is ApiError {
+  return error instanceof ApiError && (status === undefined || error.status === status);
+}
+
+/**
+ * Why a request never got an HTTP response
+ * - offline: the browser reports no connection
+ * - timeout: no response within the request timeout
+ * - network: fetch failed (DNS, CORS, connection reset, ...)
+ */
+export type NetworkFailure = "offline" | "timeout" | "network";
+
+/**
+ * Error raised when a request fails before any response arrives
+ * status is 0 since there is no HTTP status to report
+ */
+export class NetworkError extends ApiError {
+  readonly reason: NetworkFailure;
+
+  constructor(message: string, reason: NetworkFailure, endpoint: string) {
+    super(message, 0, undefined, endpoint);
+    this.name = "NetworkError";
+    this.reason = reason;
+  }
+}
+
+/**
+ * Check if an unknown error is a NetworkError (optionally with a given reason)
+ */
+export function isNetworkError(error: unknown, reason?: NetworkFailure): error is NetworkError {
+  return error instanceof NetworkError && (reason === undefined || error.reason === reason);
+}
+
+/**
+ * Check if an error comes from an aborted request (AbortController.abort())
+ * Callers usually ignore these, since the abort was their own doing
+ */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === "AbortError";
+}
@@ -0,0 +1,137 @@
+/**
+ * API Response Schemas
+ * Declared response shape for each GooseNet API endpoint
+ *
+ * Item schemas are the domain mappers from lib/domain; this module adds the
+ * endpoint envelopes (feeds, by-date lists, wrapped arrays) and converts a
+ * mismatch into an ApiSchemaError that names the endpoint and failing path.
+ */
+
+import { ApiError } from "./api-error";
+import { array, listOf, nullable, object, optional, SchemaError, string, type Schema } from "./schema";
+import {
+  mapAthleteCard,
+  mapPlannedRunningWorkout,
+  mapSleepDataItem,
+  mapStrengthWorkout,
+  mapWorkoutSummary,
+  type AthleteCard,
+  type PlannedRunningWorkout,
+  type SleepDataItem,
+  type StrengthWorkout,
+  type WorkoutSummary,
+} from "./domain";
+
+/**
+ * Error raised when a response does not match its declared schema
+ */
+export class ApiSchemaError extends ApiError {
+  readonly path: string;
+
+  constructor(message: string, path: string, status: number, body: unknown, endpoint: string) {
+    super(message, status, body, endpoint);
+    this.name = "ApiSchemaError";
+    this.path = path;
+  }
+}
+
+/**
+ * Validate a response body against a schema
+ * Throws ApiSchemaError with the endpoint and failing path on mismatch
+ */
+export function validateResponse<T>(
+  schema: Schema<T>,
+  body: unknown,
+  endpoint: string,
+  status: number
+): T {
+  try {
+    return schema(body, "response");
+  } catch (error) {
+    if (error instanceof SchemaError) {
+      throw new ApiSchemaError(
+        `Unexpected response from ${endpoint}: ${error.message}`,
+        error.path,
+        status,
+        body,
+        endpoint
+      );
+    }
+    throw error;
+  }
+}
+
+// ==================== Workouts ====================
+
+export interface WorkoutsByDate {
+  runningWorkouts: WorkoutSummary[];
+  strengthWorkouts: StrengthWorkout[];
+}
+
+export const workoutsByDate: Schema<WorkoutsByDate> = object({
+  runningWorkouts: optional(array(mapWorkoutSummary), []),
+  strengthWorkouts: optional(array(mapStrengthWorkout), []),
+});
+
+export interface WorkoutFeed extends WorkoutsByDate {
+  runningNextCursor: string | null;
+  strengthNextCursor: string | null;
+}
+
+export const workoutFeed: Schema<WorkoutFeed> = object({
+  runningWorkouts: optional(array(mapWorkoutSummary), []),
+  strengthWorkouts: optional(array(mapStrengthWorkout), []),
+  runningNextCursor: nullable(string),
+  strengthNextCursor: nullable(string),
+});
+
+// ==================== Planned Workouts ====================
+
+export interface PlannedWorkoutsByDate {
+  runningWorkouts: PlannedRunningWorkout[];
+  strengthWorkouts: StrengthWorkout[];
+}
+
+export const plannedWorkoutsByDate: Schema<PlannedWorkoutsByDate> = object({
+  runningWorkouts: optional(array(mapPlannedRunningWorkout), []),
+  strengthWorkouts: optional(array(mapStrengthWorkout), []),
+});
+
+export interface PlannedWorkoutFeed extends PlannedWorkoutsByDate {
+  runningNextCursor: string | null;
+  strengthNextCursor: string | null;
+}
+
+export const plannedWorkoutFeed: Schema<PlannedWorkoutFeed> = object({
+  runningWorkouts: optional(array(mapPlannedRunningWorkout), []),
+  strengthWorkouts: optional(array(mapStrengthWorkout), []),
+  runningNextCursor: nullable(string),
+  strengthNextCursor: nullable(string),
+});
+
+// ==================== Sleep ====================
+
+export interface SleepFeed {
+  items: SleepDataItem[];
+  nextCursor: string | null;
+}
+
+export const sleepFeed: Schema<SleepFeed> = object({
+  items: optional(array(mapSleepDataItem), []),
+  nextCursor: nullable(string),
+});
+
+// ==================== Coach, Athletes & Flocks ====================
+
+export const athleteList: Schema<AthleteCard[]> = listOf(mapAthleteCard, "athletesData", "athletes");
+
+export const flockList: Schema<string[]> = listOf(string, "flocks");
+
+/**
+ * Flock members come back as bare usernames or as athlete objects
+ */
+export const flockMemberNames: Schema<string[]> = listOf(
+  (value, path) => (typeof value === "string" ? value : mapAthleteCard(value, path).athleteName),
+  "athletes",
+  "athletesData"
+);
@@ -5,6 +5,9 @@
 
 const TOKEN_KEY = "goosenet_jwt";
 
+// Kept in memory only so the key never lands in storage, URLs or logs
+let sessionApiKey: string | null = null;
+
 /**
  * Set authentication token in localStorage
  */
@@ -22,13 +25,28 @@ export function getToken(): string | null {
 }
 
 /**
- * Clear authentication token from localStorage
+ * Clear authentication token from localStorage (and the in-memory API key)
  */
 export function clearToken(): void {
+  sessionApiKey = null;
   if (typeof window === "undefined") return;
   localStorage.removeItem(TOKEN_KEY);
 }
 
+/**
+ * Set the signed-in user's API key (from /api/userAuth/me)
+ */
+export function setApiKey(apiKey: string | null): void {
+  sessionApiKey = apiKey;
+}
+
+/**
+ * Get the signed-in user's API key
+ */
+export function getApiKey(): string | null {
+  return sessionApiKey;
+}
+
 /**
  * Check if user is logged in (has a token)
  */
@@ -36,19 +54,29 @@ export function isLoggedIn(): boolean {
   return getToken() !== null;
 }
 
+/**
+ * Read the expiry (ms since epoch) from a JWT's "exp" claim
+ * Returns null for tokens that are not JWTs or carry no expiry
+ * @param token - Defaults to the stored token
+ */
+export function getTokenExpiry(token: string | null = getToken()): number | null {
+  const payload = token?.split(".")[1];
+  if (!payload) return null;
+  try {
+    const base64 = payload.replace(/-/g, "+").replace(/_/g, "/");
+    const padded = base64 + "=".repeat((4 - (base64.length % 4)) % 4);
+    const claims = JSON.parse(atob(padded)) as { exp?: unknown };
+    return typeof claims.exp === "number" ? claims.exp * 1000 : null;
+  } catch {
+    return null;
+  }
+}
 
-
-
-
-
-
-
-
-
-
-
-
-
-
-
-
+/**
+ * Check if a token has expired (tokens without an expiry never do)
+ * @param token - Defaults to the stored token
+ */
+export function isTokenExpired(token: string | null = getToken()): boolean {
+  const expiresAt = getTokenExpiry(token);
+  return expiresAt !== null && expiresAt <= Date.now();
+}
@@ -0,0 +1,50 @@
+/**
+ * API Credentials
+ * Where the API client gets the JWT and API key, and how the key is sent
+ *
+ * The key goes in the X-Api-Key header. Legacy routes that only read it from
+ * the query string are listed in API_KEY_QUERY_ROUTES.
+ */
+
+import { getApiKey, getToken } from "./auth";
+
+/**
+ * Supplies credentials to the API client for every request
+ */
+export interface CredentialProvider {
+  /** JWT for the Authorization header */
+  getToken(): string | null;
+  /** API key of the signed-in user */
+  getApiKey(): string | null;
+}
+
+/**
+ * Default provider: JWT from storage, API key from the signed-in session
+ */
+export const sessionCredentials: CredentialProvider = {
+  getToken,
+  getApiKey,
+};
+
+export const API_KEY_HEADER = "X-Api-Key";
+
+export const API_KEY_QUERY_PARAM = "apiKey";
+
+/**
+ * Routes that still expect ?apiKey= (Garmin OAuth round-trip)
+ * Matched case-insensitively against the endpoint path
+ */
+const API_KEY_QUERY_ROUTES = [
+  "/api/ValidateGarminConnection",
+  "/api/request-token",
+  "/api/access-token",
+];
+
+/**
+ * How a route receives the API key
+ * @param endpoint - Request path, optionally with a query string
+ */
+export function apiKeyPlacement(endpoint: string): "header" | "query" {
+  const path = endpoint.split("?", 1)[0].toLowerCase();
+  return API_KEY_QUERY_ROUTES.some((route) => path === route.toLowerCase()) ? "query" : "header";
+}
@@ -5,6 +5,10 @@
 
 "use client";
 
+import { createLogger } from "./logger";
+
+const log = createLogger("crypto");
+
 /**
  * Hash string using SHA-256 with crypto.subtle
  */
@@ -35,19 +39,9 @@ export async function hashPassword(password: string): Promise<string> {
   }
 
   try {
-    const hash = await sha256String(password);
-    // Debug: Verify hash for "test" matches expected value
-    if (password === "test") {
-      const expectedHash = "9f86d081884c7d659a2feaa0c55ad015a3bf4f1b2b0b822cd15d6c15b0f00a08";
-      if (hash !== expectedHash) {
-        console.error("❌ Hash mismatch for 'test':", hash, "expected:", expectedHash);
-      } else {
-        console.log("✅ Hash verified for 'test'");
-      }
-    }
-    return hash;
+    return await sha256String(password);
   } catch (error) {
-    console.error("Failed to hash password with crypto.subtle:", error);
+    log.error("Failed to hash password with crypto.subtle", error);
     throw new Error(
       "Password hashing failed. crypto.subtle is required. Please use HTTPS or localhost."
     );
@@ -0,0 +1,18 @@
+/**
+ * Athlete Domain Model
+ * Athletes as listed on a coach's roster
+ */
+
+import { object, optional, string, type Schema } from "../schema";
+
+export interface AthleteCard {
+  athleteName: string;
+  imageData: string;
+}
+
+// ==================== Mappers ====================
+
+export const mapAthleteCard: Schema<AthleteCard> = object({
+  athleteName: string,
+  imageData: optional(string, ""),
+});
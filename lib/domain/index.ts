@@ -0,0 +1,10 @@
+/**
+ * GooseNet Domain Model
+ * Shared types and raw-payload mappers for workouts, laps, sleep and plans
+ */
+
+export * from "./athlete";
+export * from "./plan";
+export * from "./sleep";
+export * from "./strength";
+export * from "./workout";
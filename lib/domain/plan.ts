@@ -0,0 +1,254 @@
+/**
+ * Planned Workout Domain Model
+ * Structured running workouts (Garmin intervals) assigned by a coach
+ */
+
+import { array, id, nullable, number, object, optional, string, type Schema } from "../schema";
+import type { WorkoutLap } from "./workout";
+
+export interface WorkoutInterval {
+  stepOrder: number;
+  repeatValue: number;
+  type: string;
+  steps: WorkoutInterval[] | null;
+  description: string;
+  durationType: string | null;
+  durationValue: number;
+  intensity: string;
+  /** PACE, HEART_RATE, POWER, CADENCE or OPEN; older plans omit it and are pace-based */
+  targetType: string | null;
+  /** Zone number when a heart-rate zone is targeted instead of a range */
+  targetValue: number | null;
+  targetValueLow: number;
+  targetValueHigh: number;
+  repeatType: string | null;
+}
+
+export interface PlannedRunningWorkout {
+  date: string;
+  workoutName: string;
+  description: string;
+  intervals: WorkoutInterval[];
+  coachName: string;
+  athleteNames: string[];
+  workoutId: string | null;
+}
+
+export interface PlannedWorkoutDetail {
+  workout: PlannedRunningWorkout;
+  plannedWorkoutJson: string;
+}
+
+// ==================== Mappers ====================
+
+export const mapWorkoutInterval: Schema<WorkoutInterval> = (value, path) =>
+  object({
+    stepOrder: optional(number, 0),
+    repeatValue: optional(number, 0),
+    type: optional(string, ""),
+    steps: nullable(array(mapWorkoutInterval)),
+    description: optional(string, ""),
+    durationType: nullable(string),
+    durationValue: optional(number, 0),
+    intensity: optional(string, ""),
+    targetType: nullable(string),
+    targetValue: nullable(number),
+    targetValueLow: optional(number, 0),
+    targetValueHigh: optional(number, 0),
+    repeatType: nullable(string),
+  })(value, path);
+
+export const mapPlannedRunningWorkout: Schema<PlannedRunningWorkout> = object({
+  date: optional(string, ""),
+  workoutName: optional(string, ""),
+  description: optional(string, ""),
+  intervals: optional(array(mapWorkoutInterval), []),
+  coachName: optional(string, ""),
+  athleteNames: optional(array(string), []),
+  workoutId: nullable(id),
+});
+
+/** The backend spells the wrapper key "worokutObject". */
+export const mapPlannedWorkoutDetail: Schema<PlannedWorkoutDetail> = object(
+  {
+    workout: mapPlannedRunningWorkout,
+    plannedWorkoutJson: optional(string, ""),
+  },
+  { workout: ["worokutObject", "workoutObject"] }
+);
+
+// ==================== Derived Laps ====================
+
+/** Pace assumed for rest steps, in min/km. */
+const REST_PACE_MIN_KM = 10;
+
+/** Cap expanded repeat blocks so pathological plans cannot freeze the main thread. */
+const MAX_LAPS_FOR_CHART = 500;
+
+/**
+ * Whether a step's target values are speeds (m/s) rather than bpm, watts or spm
+ */
+export function hasSpeedTarget(step: WorkoutInterval): boolean {
+  const targetType = (step.targetType || "PACE").toUpperCase();
+  return targetType === "PACE" || targetType === "SPEED";
+}
+
+/**
+ * Estimate one step as a lap: run steps use the middle of their pace
+ * target, rest steps count as time at a walking pace with no distance
+ * @returns null when the step has no pace or no fixed length
+ */
+function estimateLap(step: WorkoutInterval): WorkoutLap | null {
+  const isRest = step.intensity === "REST" || step.intensity === "rest";
+  const durationType = (step.durationType || "").toUpperCase();
+  let lapDistance = 0;
+  let lapDuration = 0;
+  let lapPace = 0;
+
+  if (isRest) {
+    lapPace = REST_PACE_MIN_KM;
+    if (durationType === "DISTANCE") {
+      const kmForDuration = step.durationValue / 1000;
+      lapDuration = kmForDuration * lapPace * 60;
+    } else if (durationType === "TIME") {
+      lapDuration = step.durationValue;
+    } else {
+      return null;
+    }
+  } else {
+    if (!hasSpeedTarget(step)) return null;
+    if (!step.targetValueLow && !step.targetValueHigh) return null;
+    const avgSpeedMps = (step.targetValueLow + step.targetValueHigh) / 2;
+    if (!avgSpeedMps || avgSpeedMps <= 0) return null;
+    lapPace = 1000 / (avgSpeedMps * 60);
+    if (durationType === "DISTANCE") {
+      lapDistance = step.durationValue / 1000;
+      lapDuration = lapDistance * lapPace * 60;
+    } else if (durationType === "TIME") {
+      lapDuration = step.durationValue;
+      lapDistance = lapDuration / (lapPace * 60);
+    } else {
+      return null;
+    }
+  }
+
+  if (lapDuration > 0 && lapPace > 0 && (isRest || lapDistance > 0)) {
+    return {
+      lapDistanceInKilometers: isRest ? 0 : lapDistance,
+      lapDurationInSeconds: lapDuration,
+      lapPaceInMinKm: lapPace,
+      avgHeartRate: 0,
+    };
+  }
+  return null;
+}
+
+/**
+ * Convert planned intervals to estimated laps (for LapBarChart)
+ * Repeats are expanded; steps without a pace or fixed length are skipped.
+ */
+export function convertIntervalsToLaps(
+  intervals: WorkoutInterval[],
+  maxLaps: number = MAX_LAPS_FOR_CHART
+): WorkoutLap[] {
+  const laps: WorkoutLap[] = [];
+
+  const processStep = (step: WorkoutInterval) => {
+    if (laps.length >= maxLaps) return;
+    const lap = estimateLap(step);
+    if (lap) laps.push(lap);
+  };
+
+  const processInterval = (interval: WorkoutInterval) => {
+    if (laps.length >= maxLaps) return;
+    if (interval.steps && interval.steps.length > 0) {
+      const repeatCount = interval.repeatValue || 1;
+      for (let i = 0; i < repeatCount; i++) {
+        if (laps.length >= maxLaps) return;
+        interval.steps.forEach((step) => {
+          if (laps.length >= maxLaps) return;
+          if (step.steps && step.steps.length > 0) {
+            processInterval(step);
+          } else {
+            processStep(step);
+          }
+        });
+      }
+    } else {
+      processStep(interval);
+    }
+  };
+
+  intervals.forEach((interval) => processInterval(interval));
+  return laps;
+}
+
+// ==================== Totals ====================
+
+export interface PlanSummary {
+  /** Estimated duration in seconds */
+  durationSeconds: number;
+  /** Estimated distance in kilometers */
+  distanceKm: number;
+  /** Estimated seconds per Garmin intensity (WARMUP, INTERVAL, REST, …) */
+  secondsByIntensity: Record<string, number>;
+  /** Steps run, with repeats expanded */
+  steps: number;
+  /** Steps whose duration cannot be estimated (lap-button steps, distances without a pace) */
+  untimedSteps: number;
+}
+
+function emptySummary(): PlanSummary {
+  return { durationSeconds: 0, distanceKm: 0, secondsByIntensity: {}, steps: 0, untimedSteps: 0 };
+}
+
+function addSummary(into: PlanSummary, from: PlanSummary, times = 1): void {
+  into.durationSeconds += from.durationSeconds * times;
+  into.distanceKm += from.distanceKm * times;
+  into.steps += from.steps * times;
+  into.untimedSteps += from.untimedSteps * times;
+  Object.entries(from.secondsByIntensity).forEach(([intensity, seconds]) => {
+    into.secondsByIntensity[intensity] = (into.secondsByIntensity[intensity] ?? 0) + seconds * times;
+  });
+}
+
+/**
+ * Estimated totals for planned intervals, using the same per-step
+ * estimate as convertIntervalsToLaps. Timed steps without a pace still
+ * count toward duration; repeats are multiplied rather than expanded,
+ * so there is no cap.
+ */
+export function summarizeIntervals(intervals: WorkoutInterval[]): PlanSummary {
+  const summary = emptySummary();
+
+  intervals.forEach((interval) => {
+    if (interval.steps && interval.steps.length > 0) {
+      addSummary(summary, summarizeIntervals(interval.steps), interval.repeatValue || 1);
+      return;
+    }
+
+    const lap = estimateLap(interval);
+    const durationType = (interval.durationType || "").toUpperCase();
+    let seconds = 0;
+    summary.steps += 1;
+    if (lap) {
+      seconds = lap.lapDurationInSeconds;
+      summary.distanceKm += lap.lapDistanceInKilometers;
+    } else if (durationType === "TIME" && interval.durationValue > 0) {
+      seconds = interval.durationValue;
+    } else {
+      if (durationType === "DISTANCE" && interval.durationValue > 0) {
+        summary.distanceKm += interval.durationValue / 1000;
+      }
+      summary.untimedSteps += 1;
+    }
+
+    if (seconds > 0) {
+      const intensity = (interval.intensity || "INTERVAL").toUpperCase();
+      summary.durationSeconds += seconds;
+      summary.secondsByIntensity[intensity] = (summary.secondsByIntensity[intensity] ?? 0) + seconds;
+    }
+  });
+
+  return summary;
+}
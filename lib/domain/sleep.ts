@@ -0,0 +1,67 @@
+/**
+ * Sleep Domain Model
+ * Nightly sleep summaries synced from Garmin
+ */
+
+import { array, nullable, number, object, optional, string, type Schema } from "../schema";
+
+export interface SleepScore {
+  key: string;
+  value: {
+    qualifierKey: string;
+    value: string | null;
+  };
+}
+
+export interface SleepDataItem {
+  summaryID: string;
+  sleepDurationInSeconds: number;
+  sleepStartTimeInSeconds: number;
+  sleepTimeOffsetInSeconds: number;
+  sleepDate: string;
+  deepSleepDurationInSeconds: number;
+  lightSleepDurationInSeconds: number;
+  remSleepInSeconds: number;
+  awakeDurationInSeconds: number;
+  sleepScores: SleepScore[];
+  overallSleepScore: {
+    qualifierKey: string;
+    value: string;
+  };
+}
+
+// ==================== Mappers ====================
+
+export const mapSleepScore: Schema<SleepScore> = object({
+  key: optional(string, ""),
+  value: optional(
+    object({
+      qualifierKey: optional(string, ""),
+      value: nullable(string),
+    }),
+    { qualifierKey: "", value: null }
+  ),
+});
+
+export const mapSleepDataItem: Schema<SleepDataItem> = object(
+  {
+    summaryID: optional(string, ""),
+    sleepDurationInSeconds: optional(number, 0),
+    sleepStartTimeInSeconds: optional(number, 0),
+    sleepTimeOffsetInSeconds: optional(number, 0),
+    sleepDate: optional(string, ""),
+    deepSleepDurationInSeconds: optional(number, 0),
+    lightSleepDurationInSeconds: optional(number, 0),
+    remSleepInSeconds: optional(number, 0),
+    awakeDurationInSeconds: optional(number, 0),
+    sleepScores: optional(array(mapSleepScore), []),
+    overallSleepScore: optional(
+      object({
+        qualifierKey: optional(string, ""),
+        value: optional(string, ""),
+      }),
+      { qualifierKey: "", value: "" }
+    ),
+  },
+  { summaryID: ["summaryId"] }
+);
@@ -0,0 +1,120 @@
+/**
+ * Strength Workout Domain Model
+ * Strength workouts, their drills and athlete reviews with what they actually lifted
+ */
+
+import { array, boolean, id, nullable, number, object, optional, record, string, type Schema } from "../schema";
+
+/** Absolute weight, or a percentage of the athlete's one-rep max */
+export type DrillLoadUnit = "kg" | "percent1rm";
+
+export interface WorkoutDrill {
+  drillName: string;
+  /** Exercise library id (see lib/exercise-library), "" for a free-typed name */
+  drillExerciseId: string;
+  drillSets: number;
+  drillReps: number;
+  /** Reps for each set (e.g. 5/3/1); empty when every set is drillReps */
+  drillRepScheme: number[];
+  /** Seconds per set for a timed hold (plank, wall sit); 0 when the drill is counted in reps */
+  drillHoldSeconds: number;
+  drillLoad: number | null;
+  drillLoadUnit: DrillLoadUnit;
+  /** Target effort, 1-10 */
+  drillRpe: number | null;
+  /** Seconds per phase, lowering-pause-lifting-pause, e.g. "3-1-1-0" ("X" = explosive) */
+  drillTempo: string;
+  /** Rest between sets */
+  drillRestSeconds: number | null;
+  /** Consecutive drills with the same label run back to back: a superset (2) or circuit (3+) */
+  drillGroup: string;
+}
+
+/** One set as the athlete did it */
+export interface LoggedSet {
+  /** Reps done, or seconds held for a timed hold; null when not filled in */
+  reps: number | null;
+  /** Weight used, always in kg */
+  load: number | null;
+  rpe: number | null;
+  skipped: boolean;
+}
+
+/** Sets an athlete logged for one drill */
+export interface DrillLog {
+  /** Identifies the drill across edits to the workout, see drillKeys in lib/strength-workout */
+  drillKey: string;
+  /** Drill name when logged, for logs whose drill has since been removed */
+  drillName: string;
+  sets: LoggedSet[];
+}
+
+export interface WorkoutReview {
+  athleteName: string;
+  reviewContent: string;
+  difficultyLevel: number;
+  /** Empty when the athlete didn't log any sets */
+  drillLogs: DrillLog[];
+}
+
+export interface StrengthWorkout {
+  coachName: string;
+  workoutName: string;
+  workoutDescription: string;
+  workoutDate: string;
+  workoutDrills: WorkoutDrill[];
+  athleteNames: string[];
+  workoutReviews: Record<string, WorkoutReview>;
+  workoutId: string | null;
+}
+
+// ==================== Mappers ====================
+
+const mapDrillLoadUnit: Schema<DrillLoadUnit> = (value, path) =>
+  string(value, path) === "percent1rm" ? "percent1rm" : "kg";
+
+export const mapWorkoutDrill: Schema<WorkoutDrill> = object({
+  drillName: optional(string, ""),
+  drillExerciseId: optional(string, ""),
+  drillSets: optional(number, 0),
+  drillReps: optional(number, 0),
+  drillRepScheme: optional(array(number), []),
+  drillHoldSeconds: optional(number, 0),
+  drillLoad: nullable(number),
+  drillLoadUnit: optional(mapDrillLoadUnit, "kg"),
+  drillRpe: nullable(number),
+  drillTempo: optional(string, ""),
+  drillRestSeconds: nullable(number),
+  drillGroup: optional(string, ""),
+});
+
+export const mapLoggedSet: Schema<LoggedSet> = object({
+  reps: nullable(number),
+  load: nullable(number),
+  rpe: nullable(number),
+  skipped: optional(boolean, false),
+});
+
+export const mapDrillLog: Schema<DrillLog> = object({
+  drillKey: string,
+  drillName: optional(string, ""),
+  sets: optional(array(mapLoggedSet), []),
+});
+
+export const mapWorkoutReview: Schema<WorkoutReview> = object({
+  athleteName: optional(string, ""),
+  reviewContent: optional(string, ""),
+  difficultyLevel: optional(number, 0),
+  drillLogs: optional(array(mapDrillLog), []),
+});
+
+export const mapStrengthWorkout: Schema<StrengthWorkout> = object({
+  coachName: optional(string, ""),
+  workoutName: optional(string, "Strength Workout"),
+  workoutDescription: optional(string, ""),
+  workoutDate: optional(string, ""),
+  workoutDrills: optional(array(mapWorkoutDrill), []),
+  athleteNames: optional(array(string), []),
+  workoutReviews: optional(record(mapWorkoutReview), {}),
+  workoutId: nullable(id),
+});
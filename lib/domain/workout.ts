@@ -0,0 +1,133 @@
+/**
+ * Running Workout Domain Model
+ * Completed running workouts, laps, data samples and training summaries
+ */
+
+import { array, number, object, optional, string, type Schema } from "../schema";
+
+export interface WorkoutSummary {
+  workoutName: string;
+  workoutId: number;
+  workoutDurationInSeconds: number;
+  workoutDistanceInMeters: number;
+  workoutAvgHR: number;
+  workoutAvgPaceInMinKm: number;
+  workoutCoordsJsonStr: string;
+  workoutDate: string;
+  profilePicData: string;
+  athleteName: string;
+}
+
+export interface WorkoutLap {
+  lapDistanceInKilometers: number;
+  lapDurationInSeconds: number;
+  lapPaceInMinKm: number;
+  avgHeartRate: number;
+}
+
+export interface DataSample {
+  timerDurationInSeconds: number;
+  heartRate: number;
+  speedMetersPerSecond: number;
+  elevationInMeters: number;
+}
+
+export interface WorkoutData {
+  workoutLaps: WorkoutLap[];
+  dataSamples: DataSample[];
+}
+
+export interface TrainingSummaryWorkout {
+  workoutId: number;
+  workoutName: string;
+  workoutDurationInSeconds: number;
+  workoutDistanceInMeters: number;
+  workoutAvgHR: number;
+  workoutAvgPaceInMinKm: number;
+  workoutLaps: WorkoutLap[];
+  workoutCoordsJsonStr: string;
+  workoutMapCenterJsonStr: string;
+  workoutMapZoom: number;
+  workoutDeviceName: string;
+  userAccessToken: string;
+  dataSamples: DataSample[];
+  workoutDate: string;
+}
+
+export interface TrainingSummary {
+  startDate: string;
+  endDate: string;
+  distanceInKilometers: number;
+  averageDailyInKilometers: number;
+  timeInSeconds: number;
+  averageDailyInSeconds: number;
+  allWorkouts: TrainingSummaryWorkout[];
+}
+
+// ==================== Mappers ====================
+
+export const mapWorkoutSummary: Schema<WorkoutSummary> = object(
+  {
+    workoutName: optional(string, "Running"),
+    workoutId: optional(number, 0),
+    workoutDurationInSeconds: optional(number, 0),
+    workoutDistanceInMeters: optional(number, 0),
+    workoutAvgHR: optional(number, 0),
+    workoutAvgPaceInMinKm: optional(number, 0),
+    workoutCoordsJsonStr: optional(string, ""),
+    workoutDate: optional(string, ""),
+    profilePicData: optional(string, ""),
+    athleteName: optional(string, ""),
+  },
+  { profilePicData: ["profilePicString"] }
+);
+
+export const mapWorkoutLap: Schema<WorkoutLap> = object({
+  lapDistanceInKilometers: optional(number, 0),
+  lapDurationInSeconds: optional(number, 0),
+  lapPaceInMinKm: optional(number, 0),
+  avgHeartRate: optional(number, 0),
+});
+
+export const mapDataSample: Schema<DataSample> = object({
+  timerDurationInSeconds: optional(number, 0),
+  heartRate: optional(number, 0),
+  speedMetersPerSecond: optional(number, 0),
+  elevationInMeters: optional(number, 0),
+});
+
+export const mapWorkoutData: Schema<WorkoutData> = object({
+  workoutLaps: optional(array(mapWorkoutLap), []),
+  dataSamples: optional(array(mapDataSample), []),
+});
+
+/** The backend spells the name field "wokroutName". */
+export const mapTrainingSummaryWorkout: Schema<TrainingSummaryWorkout> = object(
+  {
+    workoutId: optional(number, 0),
+    workoutName: optional(string, "Running"),
+    workoutDurationInSeconds: optional(number, 0),
+    workoutDistanceInMeters: optional(number, 0),
+    workoutAvgHR: optional(number, 0),
+    workoutAvgPaceInMinKm: optional(number, 0),
+    workoutLaps: optional(array(mapWorkoutLap), []),
+    workoutCoordsJsonStr: optional(string, ""),
+    workoutMapCenterJsonStr: optional(string, ""),
+    workoutMapZoom: optional(number, 0),
+    workoutDeviceName: optional(string, ""),
+    userAccessToken: optional(string, ""),
+    dataSamples: optional(array(mapDataSample), []),
+    workoutDate: optional(string, ""),
+  },
+  { workoutName: ["wokroutName"] }
+);
+
+export const mapTrainingSummary: Schema<TrainingSummary> = object({
+  startDate: optional(string, ""),
+  endDate: optional(string, ""),
+  distanceInKilometers: optional(number, 0),
+  averageDailyInKilometers: optional(number, 0),
+  timeInSeconds: optional(number, 0),
+  averageDailyInSeconds: optional(number, 0),
+  allWorkouts: optional(array(mapTrainingSummaryWorkout), []),
+});
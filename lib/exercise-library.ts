@@ -0,0 +1,429 @@
+/**
+ * Exercise Library
+ * Built-in strength exercises plus a coach's own (localStorage, per coach)
+ *
+ * Drills reference an exercise by id, and free-typed names are matched
+ * against names and aliases, so "RDL", "Romanian deadlift" and "rdl" all
+ * count as the same exercise when volume is added up.
+ */
+
+import type { StrengthWorkout, WorkoutDrill } from "./domain";
+import { createLocalStore } from "./local-store";
+import { generateId } from "./running-workout";
+import { setReps } from "./strength-workout";
+
+/** A coach's custom exercises, for useLocalStoreSnapshot */
+export const customExercisesStore = createLocalStore("goosenet_custom_exercises:", "goosenet:exercises-changed");
+
+/** Id prefix of coach-defined exercises */
+const CUSTOM_PREFIX = "custom-";
+
+export type MuscleGroup =
+  | "quads"
+  | "hamstrings"
+  | "glutes"
+  | "calves"
+  | "hips"
+  | "core"
+  | "back"
+  | "chest"
+  | "shoulders"
+  | "arms";
+
+export type Equipment = "bodyweight" | "barbell" | "dumbbell" | "kettlebell" | "band" | "machine" | "box" | "other";
+
+export interface Exercise {
+  id: string;
+  name: string;
+  /** Other names coaches type for it ("RDL") */
+  aliases: string[];
+  muscleGroups: MuscleGroup[];
+  equipment: Equipment;
+  /** Coaching points shown with the drill */
+  cues: string;
+  /** Defined by the coach rather than built in */
+  custom?: boolean;
+}
+
+export type ExerciseInput = Omit<Exercise, "id" | "custom">;
+
+export const MUSCLE_GROUPS: { value: MuscleGroup; label: string }[] = [
+  { value: "quads", label: "Quads" },
+  { value: "hamstrings", label: "Hamstrings" },
+  { value: "glutes", label: "Glutes" },
+  { value: "calves", label: "Calves" },
+  { value: "hips", label: "Hips" },
+  { value: "core", label: "Core" },
+  { value: "back", label: "Back" },
+  { value: "chest", label: "Chest" },
+  { value: "shoulders", label: "Shoulders" },
+  { value: "arms", label: "Arms" },
+];
+
+export const EQUIPMENT: { value: Equipment; label: string }[] = [
+  { value: "bodyweight", label: "Bodyweight" },
+  { value: "barbell", label: "Barbell" },
+  { value: "dumbbell", label: "Dumbbell" },
+  { value: "kettlebell", label: "Kettlebell" },
+  { value: "band", label: "Band" },
+  { value: "machine", label: "Machine" },
+  { value: "box", label: "Box / step" },
+  { value: "other", label: "Other" },
+];
+
+function exercise(
+  id: string,
+  name: string,
+  muscleGroups: MuscleGroup[],
+  equipment: Equipment,
+  aliases: string[] = [],
+  cues = ""
+): Exercise {
+  return { id, name, aliases, muscleGroups, equipment, cues };
+}
+
+export const BUILT_IN_EXERCISES: Exercise[] = [
+  exercise(
+    "back-squat",
+    "Back Squat",
+    ["quads", "glutes"],
+    "barbell",
+    ["squat", "barbell squat"],
+    "Brace, sit between the hips, knees track over toes"
+  ),
+  exercise("front-squat", "Front Squat", ["quads", "core"], "barbell", [], "Elbows high, stay upright"),
+  exercise(
+    "goblet-squat",
+    "Goblet Squat",
+    ["quads", "glutes"],
+    "dumbbell",
+    [],
+    "Bell at the chest, elbows inside the knees"
+  ),
+  exercise("split-squat", "Split Squat", ["quads", "glutes"], "dumbbell", ["static lunge"]),
+  exercise(
+    "bulgarian-split-squat",
+    "Bulgarian Split Squat",
+    ["quads", "glutes"],
+    "dumbbell",
+    ["bss", "rear foot elevated split squat", "rfess"],
+    "Front shin stays near vertical"
+  ),
+  exercise("walking-lunge", "Walking Lunge", ["quads", "glutes"], "bodyweight", ["lunges", "lunge"]),
+  exercise("reverse-lunge", "Reverse Lunge", ["quads", "glutes"], "dumbbell"),
+  exercise(
+    "step-up",
+    "Step-Up",
+    ["quads", "glutes"],
+    "box",
+    ["step up", "box step-up"],
+    "Drive through the whole front foot, don't push off the back leg"
+  ),
+  exercise(
+    "deadlift",
+    "Deadlift",
+    ["hamstrings", "glutes", "back"],
+    "barbell",
+    ["conventional deadlift"],
+    "Bar over mid-foot, push the floor away"
+  ),
+  exercise(
+    "romanian-deadlift",
+    "Romanian Deadlift",
+    ["hamstrings", "glutes"],
+    "barbell",
+    ["rdl", "romanian dl"],
+    "Soft knees, hips back until the hamstrings stretch"
+  ),
+  exercise(
+    "single-leg-rdl",
+    "Single-Leg Romanian Deadlift",
+    ["hamstrings", "glutes", "hips"],
+    "dumbbell",
+    ["single leg rdl", "sl rdl", "slrdl"],
+    "Hips square to the floor"
+  ),
+  exercise(
+    "hip-thrust",
+    "Hip Thrust",
+    ["glutes"],
+    "barbell",
+    ["barbell hip thrust"],
+    "Chin tucked, ribs down, squeeze at the top"
+  ),
+  exercise("glute-bridge", "Glute Bridge", ["glutes", "hamstrings"], "bodyweight", ["bridge"]),
+  exercise("single-leg-glute-bridge", "Single-Leg Glute Bridge", ["glutes", "hamstrings"], "bodyweight", ["sl bridge"]),
+  exercise(
+    "nordic-curl",
+    "Nordic Hamstring Curl",
+    ["hamstrings"],
+    "bodyweight",
+    ["nordic", "nordics", "nordic curl"],
+    "Lower as slowly as you can, hips extended"
+  ),
+  exercise("hamstring-curl", "Hamstring Curl", ["hamstrings"], "machine", ["leg curl"]),
+  exercise("leg-press", "Leg Press", ["quads", "glutes"], "machine"),
+  exercise(
+    "calf-raise",
+    "Calf Raise",
+    ["calves"],
+    "bodyweight",
+    ["standing calf raise"],
+    "Full range, pause at the top"
+  ),
+  exercise(
+    "single-leg-calf-raise",
+    "Single-Leg Calf Raise",
+    ["calves"],
+    "bodyweight",
+    ["sl calf raise"],
+    "Full range, pause at the top"
+  ),
+  exercise("seated-calf-raise", "Seated Calf Raise", ["calves"], "machine", ["soleus raise"]),
+  exercise(
+    "copenhagen-plank",
+    "Copenhagen Plank",
+    ["hips", "core"],
+    "bodyweight",
+    ["copenhagen", "copenhagen adduction"]
+  ),
+  exercise("lateral-band-walk", "Lateral Band Walk", ["hips", "glutes"], "band", ["band walk", "monster walk"]),
+  exercise("clamshell", "Clamshell", ["hips", "glutes"], "band", ["clams"]),
+  exercise("plank", "Plank", ["core"], "bodyweight", ["front plank"], "Straight line from head to heels"),
+  exercise("side-plank", "Side Plank", ["core", "hips"], "bodyweight"),
+  exercise("dead-bug", "Dead Bug", ["core"], "bodyweight", ["deadbug"], "Lower back stays on the floor"),
+  exercise("bird-dog", "Bird Dog", ["core", "back"], "bodyweight"),
+  exercise("pallof-press", "Pallof Press", ["core"], "band"),
+  exercise("hanging-knee-raise", "Hanging Knee Raise", ["core"], "bodyweight", ["knee raise"]),
+  exercise("push-up", "Push-Up", ["chest", "arms", "core"], "bodyweight", ["push up", "pushup", "press-up"]),
+  exercise("bench-press", "Bench Press", ["chest", "arms"], "barbell", ["bench", "barbell bench press"]),
+  exercise(
+    "overhead-press",
+    "Overhead Press",
+    ["shoulders", "arms"],
+    "barbell",
+    ["ohp", "military press", "shoulder press"]
+  ),
+  exercise("pull-up", "Pull-Up", ["back", "arms"], "bodyweight", ["pull up", "pullup", "chin-up", "chin up"]),
+  exercise("inverted-row", "Inverted Row", ["back", "arms"], "bodyweight", ["bodyweight row"]),
+  exercise("dumbbell-row", "Dumbbell Row", ["back", "arms"], "dumbbell", ["db row", "one-arm row", "single arm row"]),
+  exercise(
+    "kettlebell-swing",
+    "Kettlebell Swing",
+    ["glutes", "hamstrings"],
+    "kettlebell",
+    ["kb swing", "swing"],
+    "Hinge, snap the hips, arms just guide the bell"
+  ),
+  exercise("farmers-carry", "Farmer's Carry", ["core", "arms"], "dumbbell", ["farmer carry", "farmers walk"]),
+  exercise("box-jump", "Box Jump", ["quads", "glutes", "calves"], "box", [], "Land softly, step down"),
+  exercise(
+    "pogo-jumps",
+    "Pogo Jumps",
+    ["calves"],
+    "bodyweight",
+    ["pogos", "pogo hops"],
+    "Stiff ankles, quick contacts"
+  ),
+  exercise("skater-jump", "Skater Jump", ["glutes", "hips"], "bodyweight", ["skaters"]),
+];
+
+function isExercise(value: unknown): value is Exercise {
+  if (typeof value !== "object" || value === null) return false;
+  const item = value as Partial<Exercise>;
+  return typeof item.id === "string" && typeof item.name === "string";
+}
+
+/**
+ * A coach's custom exercises, by name
+ * @param userName - Owner of the exercises
+ */
+export function listCustomExercises(userName: string): Exercise[] {
+  return parseCustomExercises(customExercisesStore.readSnapshot(userName));
+}
+
+/**
+ * Parse a customExercisesStore snapshot
+ */
+export function parseCustomExercises(raw: string | null): Exercise[] {
+  if (!raw) return [];
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    return Array.isArray(parsed)
+      ? parsed
+          .filter(isExercise)
+          .map((item) => ({
+            ...item,
+            aliases: Array.isArray(item.aliases) ? item.aliases : [],
+            muscleGroups: Array.isArray(item.muscleGroups) ? item.muscleGroups : [],
+            equipment: item.equipment ?? "other",
+            cues: item.cues ?? "",
+            custom: true,
+          }))
+          .sort((a, b) => a.name.localeCompare(b.name))
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Add a custom exercise
+ * @returns The new exercise
+ * @throws LocalStoreError when the browser's storage is full or unavailable
+ */
+export function saveCustomExercise(userName: string, input: ExerciseInput): Exercise {
+  const created: Exercise = {
+    ...input,
+    id: CUSTOM_PREFIX + generateId(),
+    name: input.name.trim(),
+    aliases: input.aliases.map((alias) => alias.trim()).filter(Boolean),
+    cues: input.cues.trim(),
+    custom: true,
+  };
+  const exercises = [...listCustomExercises(userName), created].sort((a, b) => a.name.localeCompare(b.name));
+  customExercisesStore.write(userName, exercises);
+  return created;
+}
+
+/**
+ * @throws LocalStoreError when the browser's storage is full or unavailable
+ */
+export function deleteCustomExercise(userName: string, id: string): void {
+  customExercisesStore.write(userName, listCustomExercises(userName).filter((item) => item.id !== id));
+}
+
+/**
+ * Built-in exercises followed by the coach's own
+ */
+export function exerciseCatalogue(custom: Exercise[] = []): Exercise[] {
+  return [...BUILT_IN_EXERCISES, ...custom];
+}
+
+/**
+ * Lowercase with punctuation and plural "s" dropped, for matching names and aliases
+ * ("Push-ups" and "push up" normalize the same)
+ */
+export function normalizeExerciseName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .split(" ")
+    .filter(Boolean)
+    .map((word) => (word.length > 2 && word.endsWith("s") && !word.endsWith("ss") ? word.slice(0, -1) : word))
+    .join(" ");
+}
+
+/**
+ * Exercise whose name or an alias matches, ignoring case and punctuation
+ */
+export function findExercise(name: string, catalogue: Exercise[]): Exercise | undefined {
+  const key = normalizeExerciseName(name);
+  if (!key) return undefined;
+  return catalogue.find(
+    (item) =>
+      normalizeExerciseName(item.name) === key ||
+      item.aliases.some((alias) => normalizeExerciseName(alias) === key)
+  );
+}
+
+/**
+ * Exercise a drill refers to: by id, else by its name
+ */
+export function exerciseForDrill(
+  drill: Pick<WorkoutDrill, "drillName" | "drillExerciseId">,
+  catalogue: Exercise[]
+): Exercise | undefined {
+  return (
+    (drill.drillExerciseId && catalogue.find((item) => item.id === drill.drillExerciseId)) ||
+    findExercise(drill.drillName, catalogue)
+  );
+}
+
+/**
+ * Drill renamed to the library name of its exercise, with the exercise id set
+ * (a drill matching nothing is left as typed)
+ */
+export function normalizeDrill<T extends Pick<WorkoutDrill, "drillName" | "drillExerciseId">>(
+  drill: T,
+  catalogue: Exercise[]
+): T {
+  const matched = exerciseForDrill(drill, catalogue);
+  if (!matched) return { ...drill, drillExerciseId: "" };
+  return { ...drill, drillName: matched.name, drillExerciseId: matched.id };
+}
+
+/**
+ * Autocomplete matches for what's been typed, best first
+ * Names starting with the query rank above a word or alias starting with it,
+ * which rank above matches anywhere.
+ */
+export function searchExercises(query: string, catalogue: Exercise[], limit = 8): Exercise[] {
+  const q = normalizeExerciseName(query);
+  if (!q) return [];
+  const rank = (item: Exercise): number => {
+    const name = normalizeExerciseName(item.name);
+    const aliases = item.aliases.map(normalizeExerciseName);
+    if (name.startsWith(q)) return 0;
+    if (aliases.some((alias) => alias.startsWith(q)) || name.split(" ").some((word) => word.startsWith(q))) return 1;
+    if (name.includes(q) || aliases.some((alias) => alias.includes(q))) return 2;
+    return -1;
+  };
+  return catalogue
+    .map((item) => ({ item, score: rank(item) }))
+    .filter(({ score }) => score >= 0)
+    .sort((a, b) => a.score - b.score || a.item.name.localeCompare(b.item.name))
+    .slice(0, limit)
+    .map(({ item }) => item);
+}
+
+export function muscleGroupLabel(group: MuscleGroup): string {
+  return MUSCLE_GROUPS.find((item) => item.value === group)?.label ?? group;
+}
+
+export interface ExerciseVolume {
+  /** Exercise id, or the normalized name of a drill that matches no exercise */
+  key: string;
+  name: string;
+  workouts: number;
+  sets: number;
+  reps: number;
+  holdSeconds: number;
+  /** Sum of reps × kg over drills loaded in kg */
+  tonnageKg: number;
+}
+
+/**
+ * Sets, reps and load per exercise across workouts, most sets first
+ * Drills are matched to the catalogue, so differently typed names of one exercise add up together.
+ */
+export function exerciseVolume(workouts: StrengthWorkout[], catalogue: Exercise[]): ExerciseVolume[] {
+  const totals = new Map<string, ExerciseVolume & { workoutIds: Set<number> }>();
+  workouts.forEach((workout, workoutIndex) => {
+    for (const drill of workout.workoutDrills) {
+      const matched = exerciseForDrill(drill, catalogue);
+      const key = matched?.id ?? normalizeExerciseName(drill.drillName);
+      if (!key) continue;
+      const entry = totals.get(key) ?? {
+        key,
+        name: matched?.name ?? drill.drillName.trim(),
+        workouts: 0,
+        sets: 0,
+        reps: 0,
+        holdSeconds: 0,
+        tonnageKg: 0,
+        workoutIds: new Set<number>(),
+      };
+      const reps = setReps(drill).reduce((sum, value) => sum + value, 0);
+      entry.workoutIds.add(workoutIndex);
+      entry.sets += drill.drillSets;
+      entry.reps += reps;
+      entry.holdSeconds += drill.drillHoldSeconds * drill.drillSets;
+      if (drill.drillLoad !== null && drill.drillLoadUnit === "kg") entry.tonnageKg += reps * drill.drillLoad;
+      totals.set(key, entry);
+    }
+  });
+  return Array.from(totals.values())
+    .map(({ workoutIds, ...entry }) => ({ ...entry, workouts: workoutIds.size }))
+    .sort((a, b) => b.sets - a.sets || a.name.localeCompare(b.name));
+}
@@ -0,0 +1,68 @@
+/**
+ * Local Store
+ * One JSON value per user in localStorage, e.g. a coach's drafts or templates
+ *
+ * A store keeps its value under "<prefix><userName>" and fires its own event
+ * on window when this tab writes ("storage" covers other tabs), so readers
+ * on useSyncExternalStore stay in sync. Writes throw when the browser's
+ * storage is full or unavailable, so callers decide what the user sees.
+ */
+
+export class LocalStoreError extends Error {
+  constructor(message = "Couldn't save to this browser's storage. It may be full or disabled.") {
+    super(message);
+    this.name = "LocalStoreError";
+  }
+}
+
+export interface LocalStore {
+  /** Raw stored value, compared by value for useSyncExternalStore */
+  readSnapshot: (userName: string) => string | null;
+  /**
+   * Store a value as JSON and notify subscribers
+   * @throws LocalStoreError when the browser's storage is full or unavailable
+   */
+  write: (userName: string, value: unknown) => void;
+  /**
+   * Listen for changes in this tab and others
+   * @returns Unsubscribe function
+   */
+  subscribe: (listener: () => void) => () => void;
+}
+
+function storage(): Storage | null {
+  if (typeof window === "undefined") return null;
+  try {
+    return window.localStorage;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * @param prefix - Key prefix, the user name is appended ("goosenet_workout_drafts:")
+ * @param changedEvent - Fired on window when this tab writes
+ */
+export function createLocalStore(prefix: string, changedEvent: string): LocalStore {
+  return {
+    readSnapshot: (userName) => storage()?.getItem(prefix + userName) ?? null,
+    write: (userName, value) => {
+      const target = storage();
+      if (!target) throw new LocalStoreError();
+      try {
+        target.setItem(prefix + userName, JSON.stringify(value));
+      } catch {
+        throw new LocalStoreError();
+      }
+      window.dispatchEvent(new Event(changedEvent));
+    },
+    subscribe: (listener) => {
+      window.addEventListener(changedEvent, listener);
+      window.addEventListener("storage", listener);
+      return () => {
+        window.removeEventListener(changedEvent, listener);
+        window.removeEventListener("storage", listener);
+      };
+    },
+  };
+}
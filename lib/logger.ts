@@ -0,0 +1,178 @@
+/**
+ * Logger
+ * Leveled, redacting logger used by the API client and auth code
+ *
+ * Silent in production by default; override with NEXT_PUBLIC_LOG_LEVEL
+ * (debug | info | warn | error | silent). Entries go to the console and to
+ * any extra sinks (e.g. the development debug panel).
+ */
+
+export type LogLevel = "debug" | "info" | "warn" | "error" | "silent";
+
+export interface LogEntry {
+  level: Exclude<LogLevel, "silent">;
+  /** Module that wrote the entry, e.g. "api" or "auth" */
+  scope: string;
+  message: string;
+  /** Extra data, already redacted */
+  context?: unknown;
+  timestamp: string;
+}
+
+export type LogSink = (entry: LogEntry) => void;
+
+export interface Logger {
+  debug(message: string, context?: unknown): void;
+  info(message: string, context?: unknown): void;
+  warn(message: string, context?: unknown): void;
+  error(message: string, context?: unknown): void;
+}
+
+const LEVEL_ORDER: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+  silent: 100,
+};
+
+function isLogLevel(value: unknown): value is LogLevel {
+  return typeof value === "string" && value in LEVEL_ORDER;
+}
+
+/**
+ * Level from the build environment
+ * Read as plain process.env.X so Next inlines the values into the client bundle.
+ */
+function defaultLevel(): LogLevel {
+  const configured = process.env.NEXT_PUBLIC_LOG_LEVEL;
+  if (isLogLevel(configured)) return configured;
+  return process.env.NODE_ENV === "production" ? "silent" : "debug";
+}
+
+// ==================== Redaction ====================
+
+const REDACTED = "[redacted]";
+
+/** Keys whose values are never logged (compared case-insensitively) */
+const SENSITIVE_KEYS = new Set([
+  "authorization",
+  "password",
+  "hashedpassword",
+  "newpassword",
+  "apikey",
+  "x-api-key",
+  "token",
+  "accesstoken",
+  "access_token",
+  "authtoken",
+  "auth_token",
+  "jwt",
+  "jwttoken",
+  "refreshtoken",
+  "refresh_token",
+  "statetoken",
+  "credential",
+  "oauth_token",
+  "oauth_token_secret",
+  "oauth_verifier",
+  "token_secret",
+]);
+
+/** Sensitive query params inside URLs, e.g. /api/athletes?apiKey=... */
+const SENSITIVE_PARAM = /([?&](?:apiKey|token|jwt|token_secret|oauth_token|oauth_verifier|state)=)[^&#\s]*/gi;
+
+function redactString(value: string): string {
+  return value.replace(SENSITIVE_PARAM, `$1${REDACTED}`);
+}
+
+/**
+ * Copy a value with sensitive fields and URL params replaced by "[redacted]"
+ * @param value - Anything about to be logged
+ */
+export function redact(value: unknown, depth = 0): unknown {
+  if (typeof value === "string") return redactString(value);
+  if (value === null || typeof value !== "object") return value;
+  if (depth > 6) return "[…]";
+
+  if (value instanceof Error) {
+    return { name: value.name, message: redactString(value.message) };
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redact(item, depth + 1));
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const [key, entry] of Object.entries(value)) {
+    result[key] = SENSITIVE_KEYS.has(key.toLowerCase()) ? REDACTED : redact(entry, depth + 1);
+  }
+  return result;
+}
+
+// ==================== Configuration ====================
+
+const consoleSink: LogSink = ({ level, scope, message, context }) => {
+  const line = `[${scope}] ${message}`;
+  const args = context === undefined ? [line] : [line, context];
+  if (level === "error") console.error(...args);
+  else if (level === "warn") console.warn(...args);
+  else if (level === "info") console.info(...args);
+  else console.debug(...args);
+};
+
+let currentLevel: LogLevel = defaultLevel();
+const sinks = new Set<LogSink>([consoleSink]);
+
+/**
+ * Change the minimum level that is written (e.g. "silent" to mute everything)
+ */
+export function setLogLevel(level: LogLevel): void {
+  currentLevel = level;
+}
+
+export function getLogLevel(): LogLevel {
+  return currentLevel;
+}
+
+/**
+ * Route log entries somewhere else as well (e.g. a debug panel)
+ * @returns Function that removes the sink again
+ */
+export function addLogSink(sink: LogSink): () => void {
+  sinks.add(sink);
+  return () => {
+    sinks.delete(sink);
+  };
+}
+
+function write(level: LogEntry["level"], scope: string, message: string, context?: unknown): void {
+  if (LEVEL_ORDER[level] < LEVEL_ORDER[currentLevel]) return;
+
+  const entry: LogEntry = {
+    level,
+    scope,
+    message: redactString(message),
+    context: context === undefined ? undefined : redact(context),
+    timestamp: new Date().toISOString(),
+  };
+  for (const sink of sinks) {
+    try {
+      sink(entry);
+    } catch {
+      // A broken sink must never break the caller
+    }
+  }
+}
+
+/**
+ * Create a logger for a module
+ * @param scope - Short module name shown with every entry
+ */
+export function createLogger(scope: string): Logger {
+  return {
+    debug: (message, context) => write("debug", scope, message, context),
+    info: (message, context) => write("info", scope, message, context),
+    warn: (message, context) => write("warn", scope, message, context),
+    error: (message, context) => write("error", scope, message, context),
+  };
+}
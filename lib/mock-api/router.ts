@@ -0,0 +1,861 @@
+/**
+ * Mock API Router
+ * Implements the GooseNet API endpoints used by ApiService against the mock store
+ *
+ * Responses mirror the real backend's shapes (including its spellings), so
+ * the same schemas and pages work unchanged. Requests are authenticated by
+ * the X-Api-Key header, the ?apiKey= param or the Bearer JWT.
+ */
+
+import { API_KEY_HEADER, API_KEY_QUERY_PARAM } from "../credentials";
+import {
+  mapDrillLog,
+  mapWorkoutDrill,
+  type DrillLog,
+  type PlannedRunningWorkout,
+  type StrengthWorkout,
+  type WorkoutDrill,
+  type WorkoutInterval,
+  type WorkoutSummary,
+} from "../domain";
+import { array } from "../schema";
+import { drillKeys } from "../strength-workout";
+import {
+  formatWorkoutDate,
+  parseMockDate,
+  runDetails,
+  sameDay,
+  type MockDatabase,
+  type MockRun,
+  type MockUser,
+} from "./seed";
+import { athletesOf, canAccessAthlete, findUser, findUserByApiKey, getMockDatabase, nextMockId, resetMockDatabase } from "./store";
+
+/** Items per page for feed endpoints */
+const FEED_PAGE_SIZE = 10;
+
+/** Lifetime of issued mock JWTs */
+const TOKEN_TTL_SECONDS = 60 * 60;
+
+interface MockRequest {
+  db: MockDatabase;
+  query: URLSearchParams;
+  body: Record<string, unknown>;
+  /** Caller identified by API key or JWT, if any */
+  user: MockUser | null;
+}
+
+type MockHandler = (req: MockRequest) => Response;
+
+interface MockRoute {
+  method: "GET" | "POST";
+  path: string;
+  /** Reject anonymous callers with 401 */
+  auth?: boolean;
+  handler: MockHandler;
+}
+
+// ==================== Responses ====================
+
+function json(data: unknown, status = 200): Response {
+  return Response.json(data, { status });
+}
+
+function fail(message: string, status: number): Response {
+  return json({ message }, status);
+}
+
+// ==================== Tokens ====================
+
+function base64Url(value: unknown): string {
+  return Buffer.from(JSON.stringify(value)).toString("base64url");
+}
+
+/**
+ * Unsigned JWT carrying the username and expiry (enough for the client's expiry tracking)
+ */
+function issueToken(user: MockUser): string {
+  const now = Math.floor(Date.now() / 1000);
+  return `${base64Url({ alg: "none", typ: "JWT" })}.${base64Url({ sub: user.userName, iat: now, exp: now + TOKEN_TTL_SECONDS })}.`;
+}
+
+function userFromToken(db: MockDatabase, authorization: string | null): MockUser | undefined {
+  const token = authorization?.replace(/^Bearer\s+/i, "");
+  const payload = token?.split(".")[1];
+  if (!payload) return undefined;
+  try {
+    const claims = JSON.parse(Buffer.from(payload, "base64url").toString()) as { sub?: string; exp?: number };
+    if (typeof claims.exp === "number" && claims.exp * 1000 <= Date.now()) return undefined;
+    return findUser(db, claims.sub);
+  } catch {
+    return undefined;
+  }
+}
+
+// ==================== Helpers ====================
+
+/**
+ * Resolve ?athleteName= and check the caller may read it
+ * @param forbiddenStatus - Status the real endpoint uses for a denied athlete
+ */
+function readableAthlete(req: MockRequest, forbiddenStatus = 403): MockUser | Response {
+  const athlete = findUser(req.db, req.query.get("athleteName"));
+  if (!athlete || athlete.role !== "athlete") return fail("Athlete not found", 404);
+  if (!req.user || !canAccessAthlete(req.user, athlete)) {
+    return fail("You do not have access to this athlete", forbiddenStatus);
+  }
+  return athlete;
+}
+
+function requireCoach(req: MockRequest): MockUser | Response {
+  return req.user?.role === "coach" ? req.user : fail("Only coaches can do this", 403);
+}
+
+/**
+ * One page of a newest-first list, using the item offset as the cursor
+ */
+function page<T>(items: T[], cursor: string | null, size = FEED_PAGE_SIZE): { items: T[]; nextCursor: string | null } {
+  const start = Math.max(0, Number(cursor) || 0);
+  const end = start + size;
+  return { items: items.slice(start, end), nextCursor: end < items.length ? String(end) : null };
+}
+
+function byDateDesc<T>(dateOf: (item: T) => string): (a: T, b: T) => number {
+  return (a, b) => (parseMockDate(dateOf(b))?.getTime() ?? 0) - (parseMockDate(dateOf(a))?.getTime() ?? 0);
+}
+
+function onDate(value: string, date: Date | null): boolean {
+  const parsed = parseMockDate(value);
+  return !!parsed && !!date && sameDay(parsed, date);
+}
+
+function isPastOrToday(value: string): boolean {
+  const parsed = parseMockDate(value);
+  return !!parsed && parsed.getTime() <= Date.now();
+}
+
+function runsOf(db: MockDatabase, athlete: MockUser): MockRun[] {
+  return db.runs.filter((run) => run.athleteName === athlete.userName).sort(byDateDesc((run) => run.workoutDate));
+}
+
+function strengthOf(db: MockDatabase, athlete: MockUser): StrengthWorkout[] {
+  return db.strengthWorkouts
+    .filter((workout) => workout.athleteNames.includes(athlete.userName))
+    .sort(byDateDesc((workout) => workout.workoutDate));
+}
+
+function plannedOf(db: MockDatabase, athlete: MockUser): PlannedRunningWorkout[] {
+  return db.plannedWorkouts
+    .filter((workout) => workout.athleteNames.includes(athlete.userName))
+    .sort(byDateDesc((workout) => workout.date));
+}
+
+/** Strip mock-only fields from a run */
+function runSummary(run: MockRun): WorkoutSummary {
+  const summary: WorkoutSummary & { workoutDeviceName?: string } = { ...run };
+  delete summary.workoutDeviceName;
+  return summary;
+}
+
+/** Strip mock-only fields from a planned workout */
+function plannedSummary(workout: PlannedRunningWorkout): PlannedRunningWorkout {
+  const summary: PlannedRunningWorkout & { plannedWorkoutJson?: string } = { ...workout };
+  delete summary.plannedWorkoutJson;
+  return summary;
+}
+
+/**
+ * Resolve the athletes a coach is assigning a workout to
+ */
+function assignmentTargets(req: MockRequest, coach: MockUser): string[] | Response {
+  const targetName = String(req.body.targetName ?? "");
+  if (req.body.isFlock) {
+    const members = req.db.flocks[coach.userName]?.[targetName];
+    return members ?? fail("Flock not found", 404);
+  }
+  const athlete = findUser(req.db, targetName);
+  if (!athlete || athlete.coachName !== coach.userName) return fail("Athlete not found", 404);
+  return [athlete.userName];
+}
+
+/**
+ * Find a workout by ?id= that the calling coach assigned
+ */
+function ownedWorkout<T extends { workoutId: string | null; coachName: string }>(
+  req: MockRequest,
+  workouts: T[]
+): T | Response {
+  const coach = requireCoach(req);
+  if (coach instanceof Response) return coach;
+  const workout = workouts.find((item) => item.workoutId === req.query.get("id"));
+  if (!workout) return fail("Workout not found", 404);
+  if (workout.coachName !== coach.userName) return fail("Only the coach who planned this workout can change it", 403);
+  return workout;
+}
+
+function parseJsonBody(req: MockRequest): Record<string, unknown> | null {
+  try {
+    const parsed: unknown = JSON.parse(String(req.body.jsonBody ?? ""));
+    return typeof parsed === "object" && parsed !== null ? (parsed as Record<string, unknown>) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Drills of a strength workout JSON body (PascalCase keys), or null if malformed
+ */
+function parseDrills(workout: Record<string, unknown>): WorkoutDrill[] | null {
+  if (!Array.isArray(workout.WorkoutDrills)) return [];
+  try {
+    return workout.WorkoutDrills.map((drill, index) => mapWorkoutDrill(drill, `WorkoutDrills[${index}]`));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Drill logs from a review body, null when malformed or when a log names a
+ * drill that isn't in the workout
+ */
+function parseDrillLogs(value: unknown, drills: WorkoutDrill[]): DrillLog[] | null {
+  if (value === undefined || value === null) return [];
+  try {
+    const logs = array(mapDrillLog)(value, "drillLogs");
+    const keys = new Set(drillKeys(drills));
+    return logs.every((log) => keys.has(log.drillKey)) ? logs : null;
+  } catch {
+    return null;
+  }
+}
+
+// ==================== Auth ====================
+
+const authRoutes: MockRoute[] = [
+  {
+    method: "POST",
+    path: "/api/userAuth",
+    handler: ({ db, body }) => {
+      const user = findUser(db, String(body.userName ?? ""));
+      if (!user || user.passwordHash !== body.hashedPassword) return fail("Invalid username or password", 401);
+      return json({ token: issueToken(user) });
+    },
+  },
+  {
+    method: "POST",
+    path: "/api/userAuth/google",
+    handler: () => fail("Google sign-in is not available on the mock server", 401),
+  },
+  {
+    method: "POST",
+    path: "/api/userAuth/refresh",
+    auth: true,
+    handler: ({ user }) => json({ token: issueToken(user!) }),
+  },
+  {
+    method: "GET",
+    path: "/api/userAuth/me",
+    auth: true,
+    handler: ({ user }) =>
+      json({
+        userName: user!.userName,
+        email: user!.email,
+        role: user!.role === "coach" ? "Coach" : "Athlete",
+        apiKey: user!.apiKey,
+        profilePicString: user!.profilePicString,
+      }),
+  },
+  {
+    method: "POST",
+    path: "/auth/logout",
+    handler: () => json({ message: "Logged out" }),
+  },
+  {
+    method: "POST",
+    path: "/api/registration",
+    handler: ({ db, body }) => {
+      const userName = String(body.userName ?? "").trim();
+      const role = String(body.role ?? "").toLowerCase();
+      if (!userName || !body.password || (role !== "coach" && role !== "athlete")) {
+        return fail("Missing registration details", 400);
+      }
+      if (findUser(db, userName)) return fail("Username is already taken", 409);
+
+      db.users.push({
+        userName,
+        fullName: String(body.fullName ?? userName),
+        email: String(body.email ?? ""),
+        role,
+        apiKey: `mock-${userName}-${nextMockId(db)}`,
+        passwordHash: String(body.password),
+        profilePicString: "",
+        coachId: role === "coach" ? `MOCK-${userName.toUpperCase()}` : null,
+        coachName: null,
+        garminConnected: false,
+      });
+      return json({ message: "Registered" });
+    },
+  },
+];
+
+// ==================== Coach Connection ====================
+
+const connectionRoutes: MockRoute[] = [
+  {
+    method: "GET",
+    path: "/api/CoachConnection/getCoachId",
+    auth: true,
+    handler: ({ db, query }) => {
+      const coach = findUser(db, query.get("coachName"));
+      return coach?.coachId ? json({ coachId: coach.coachId }) : fail("Coach not found", 404);
+    },
+  },
+  {
+    method: "GET",
+    path: "/api/coachConnection/getCoachName",
+    auth: true,
+    handler: ({ db, query }) => {
+      const coach = db.users.find((user) => user.coachId === query.get("coachId"));
+      return coach ? json({ coachUsername: coach.userName }) : fail("No coach with this code", 404);
+    },
+  },
+  {
+    method: "POST",
+    path: "/api/coachConnection/connect",
+    handler: ({ db, body }) => {
+      const athlete = findUserByApiKey(db, String(body.apiKey ?? ""));
+      const coach = db.users.find((user) => user.coachId === body.coachId);
+      if (!athlete || athlete.role !== "athlete") return fail("There is no user with this apikey", 401);
+      if (!coach) return fail("No coach with this code", 404);
+      if (athlete.coachName === coach.userName) return fail("Already connected to this coach", 401);
+      athlete.coachName = coach.userName;
+      return json({ message: "Connected" });
+    },
+  },
+];
+
+// ==================== Athletes & Flocks ====================
+
+const rosterRoutes: MockRoute[] = [
+  {
+    method: "GET",
+    path: "/api/athletes",
+    auth: true,
+    handler: (req) => {
+      const coach = requireCoach(req);
+      if (coach instanceof Response) return coach;
+      return json({
+        athletesData: athletesOf(req.db, coach).map((athlete) => ({
+          athleteName: athlete.userName,
+          imageData: athlete.profilePicString,
+        })),
+      });
+    },
+  },
+  {
+    method: "GET",
+    path: "/api/flocks/getFlocks",
+    auth: true,
+    handler: (req) => {
+      const coach = requireCoach(req);
+      if (coach instanceof Response) return coach;
+      return json({ flocks: Object.keys(req.db.flocks[coach.userName] ?? {}) });
+    },
+  },
+  {
+    method: "POST",
+    path: "/api/flocks/createFlock",
+    auth: true,
+    handler: (req) => {
+      const coach = requireCoach(req);
+      if (coach instanceof Response) return coach;
+      const flockName = req.query.get("flockName")?.trim();
+      if (!flockName) return fail("Flock name is required", 400);
+      const flocks = (req.db.flocks[coach.userName] ??= {});
+      if (flocks[flockName]) return fail("A flock with this name already exists", 409);
+      flocks[flockName] = [];
+      return json({ message: "Flock created" });
+    },
+  },
+  {
+    method: "GET",
+    path: "/api/flocks/flockAthletes",
+    auth: true,
+    handler: (req) => {
+      const coach = requireCoach(req);
+      if (coach instanceof Response) return coach;
+      const members = req.db.flocks[coach.userName]?.[req.query.get("flockName") ?? ""];
+      return members ? json({ athletes: members }) : fail("Flock not found", 404);
+    },
+  },
+  {
+    method: "POST",
+    path: "/api/flocks/addToFlock",
+    auth: true,
+    handler: (req) => {
+      const coach = requireCoach(req);
+      if (coach instanceof Response) return coach;
+      const members = req.db.flocks[coach.userName]?.[String(req.body.flockName ?? "")];
+      const athlete = findUser(req.db, String(req.body.athleteUserName ?? ""));
+      if (!members) return fail("Flock not found", 404);
+      if (!athlete || athlete.coachName !== coach.userName) return fail("Athlete not found", 404);
+      if (!members.includes(athlete.userName)) members.push(athlete.userName);
+      return json({ message: "Added to flock" });
+    },
+  },
+  {
+    method: "POST",
+    path: "/api/flocks/removeAthlete",
+    auth: true,
+    handler: (req) => {
+      const coach = requireCoach(req);
+      if (coach instanceof Response) return coach;
+      const flockName = String(req.body.flockName ?? "");
+      const members = req.db.flocks[coach.userName]?.[flockName];
+      if (!members) return fail("Flock not found", 404);
+      req.db.flocks[coach.userName][flockName] = members.filter(
+        (name) => name.toLowerCase() !== String(req.body.athleteName ?? "").toLowerCase()
+      );
+      return json({ message: "Removed from flock" });
+    },
+  },
+];
+
+// ==================== Garmin ====================
+
+const garminRoutes: MockRoute[] = [
+  {
+    method: "GET",
+    path: "/api/ValidateGarminConnection",
+    auth: true,
+    handler: ({ user }) => json({ isConnected: user!.garminConnected }),
+  },
+  {
+    method: "GET",
+    path: "/api/request-token",
+    auth: true,
+    handler: () => fail("Garmin pairing is not available on the mock server", 501),
+  },
+];
+
+// ==================== Workouts ====================
+
+const workoutRoutes: MockRoute[] = [
+  {
+    method: "GET",
+    path: "/api/workoutSummary",
+    auth: true,
+    handler: (req) => {
+      const athlete = readableAthlete(req);
+      if (athlete instanceof Response) return athlete;
+      const date = parseMockDate(req.query.get("date"));
+      return json({
+        runningWorkouts: runsOf(req.db, athlete).filter((run) => onDate(run.workoutDate, date)).map(runSummary),
+        strengthWorkouts: strengthOf(req.db, athlete).filter((workout) => onDate(workout.workoutDate, date)),
+      });
+    },
+  },
+  {
+    method: "GET",
+    path: "/api/workoutSummary/feed",
+    auth: true,
+    handler: (req) => {
+      const athlete = readableAthlete(req);
+      if (athlete instanceof Response) return athlete;
+      const running = page(runsOf(req.db, athlete).map(runSummary), req.query.get("runningCursor"));
+      const strength = page(
+        strengthOf(req.db, athlete).filter((workout) => isPastOrToday(workout.workoutDate)),
+        req.query.get("strengthCursor")
+      );
+      return json({
+        runningWorkouts: running.items,
+        strengthWorkouts: strength.items,
+        runningNextCursor: running.nextCursor,
+        strengthNextCursor: strength.nextCursor,
+      });
+    },
+  },
+  {
+    method: "GET",
+    path: "/api/workoutSummary/getWorkout",
+    handler: ({ db, query }) => {
+      const run = db.runs.find(
+        (item) => String(item.workoutId) === query.get("id") && item.athleteName === findUser(db, query.get("userName"))?.userName
+      );
+      return run ? json(runSummary(run)) : fail("Workout not found", 404);
+    },
+  },
+  {
+    method: "GET",
+    path: "/api/workoutSummary/data",
+    handler: ({ db, query }) => {
+      const run = db.runs.find((item) => String(item.workoutId) === query.get("workoutId"));
+      return run ? json(runDetails(run)) : fail("Workout not found", 404);
+    },
+  },
+  {
+    method: "GET",
+    path: "/api/profilePic",
+    handler: ({ db, query }) => {
+      const user = findUser(db, query.get("userName"));
+      return user ? new Response(user.profilePicString, { headers: { "content-type": "text/plain" } }) : fail("User not found", 404);
+    },
+  },
+  {
+    method: "GET",
+    path: "/api/trainingSummary",
+    auth: true,
+    handler: (req) => {
+      const athlete = readableAthlete(req, 401);
+      if (athlete instanceof Response) return athlete;
+      const start = parseMockDate(req.query.get("startDate"));
+      const end = parseMockDate(req.query.get("endDate"));
+      if (!start || !end || start > end) return fail("Invalid date range", 400);
+
+      const runs = runsOf(req.db, athlete).filter((run) => {
+        const date = parseMockDate(run.workoutDate);
+        return !!date && date >= start && date <= end;
+      });
+      const days = Math.round((end.getTime() - start.getTime()) / 86_400_000) + 1;
+      const distanceKm = runs.reduce((sum, run) => sum + run.workoutDistanceInMeters, 0) / 1000;
+      const seconds = runs.reduce((sum, run) => sum + run.workoutDurationInSeconds, 0);
+
+      return json({
+        startDate: formatWorkoutDate(start),
+        endDate: formatWorkoutDate(end),
+        distanceInKilometers: Number(distanceKm.toFixed(2)),
+        averageDailyInKilometers: Number((distanceKm / days).toFixed(2)),
+        timeInSeconds: seconds,
+        averageDailyInSeconds: Math.round(seconds / days),
+        allWorkouts: runs.map((run) => {
+          const coords = JSON.parse(run.workoutCoordsJsonStr) as [number, number][];
+          return {
+            workoutId: run.workoutId,
+            // The real API misspells this key
+            wokroutName: run.workoutName,
+            workoutDurationInSeconds: run.workoutDurationInSeconds,
+            workoutDistanceInMeters: run.workoutDistanceInMeters,
+            workoutAvgHR: run.workoutAvgHR,
+            workoutAvgPaceInMinKm: run.workoutAvgPaceInMinKm,
+            workoutCoordsJsonStr: run.workoutCoordsJsonStr,
+            workoutMapCenterJsonStr: JSON.stringify(coords[0] ?? []),
+            workoutMapZoom: 13,
+            workoutDeviceName: run.workoutDeviceName,
+            userAccessToken: "",
+            workoutDate: run.workoutDate,
+            ...runDetails(run),
+          };
+        }),
+      });
+    },
+  },
+];
+
+// ==================== Strength ====================
+
+const strengthRoutes: MockRoute[] = [
+  {
+    method: "GET",
+    path: "/api/strength/workout",
+    handler: ({ db, query }) => {
+      const workout = db.strengthWorkouts.find((item) => item.workoutId === query.get("id"));
+      return workout ? json(workout) : fail("Workout not found", 404);
+    },
+  },
+  {
+    method: "POST",
+    path: "/api/strength/reviews",
+    auth: true,
+    handler: ({ db, query, body, user }) => {
+      const workout = db.strengthWorkouts.find((item) => item.workoutId === query.get("workoutId"));
+      if (!workout) return fail("Workout not found", 404);
+      if (!workout.athleteNames.includes(user!.userName)) return fail("This workout is not assigned to you", 403);
+      const drillLogs = parseDrillLogs(body.drillLogs, workout.workoutDrills);
+      if (!drillLogs) return fail("Invalid drill logs", 400);
+      workout.workoutReviews[user!.userName] = {
+        athleteName: user!.userName,
+        reviewContent: String(body.reviewContent ?? ""),
+        difficultyLevel: Number(body.difficultyLevel) || 0,
+        drillLogs,
+      };
+      return json({ message: "Review saved" });
+    },
+  },
+  {
+    method: "POST",
+    path: "/api/strength/addWorkout",
+    auth: true,
+    handler: (req) => {
+      const coach = requireCoach(req);
+      if (coach instanceof Response) return coach;
+      const targets = assignmentTargets(req, coach);
+      if (targets instanceof Response) return targets;
+      const workout = parseJsonBody(req);
+      if (!workout) return fail("Invalid workout JSON", 400);
+
+      const date = parseMockDate(String(workout.WorkoutDate ?? req.body.date ?? ""));
+      const drills = parseDrills(workout);
+      if (!drills) return fail("Invalid workout drills", 400);
+      req.db.strengthWorkouts.push({
+        coachName: coach.userName,
+        workoutName: String(workout.WorkoutName ?? "Strength Workout"),
+        workoutDescription: String(workout.WorkoutDescription ?? ""),
+        workoutDate: date ? formatWorkoutDate(date) : String(req.body.date ?? ""),
+        workoutDrills: drills,
+        athleteNames: targets,
+        workoutReviews: {},
+        workoutId: String(nextMockId(req.db)),
+      });
+      return json({ message: "Workout added" });
+    },
+  },
+  {
+    method: "POST",
+    path: "/api/strength/updateWorkout",
+    auth: true,
+    handler: (req) => {
+      const existing = ownedWorkout(req, req.db.strengthWorkouts);
+      if (existing instanceof Response) return existing;
+      const workout = parseJsonBody(req);
+      if (!workout) return fail("Invalid workout JSON", 400);
+
+      const date = parseMockDate(String(workout.WorkoutDate ?? req.body.date ?? ""));
+      if (!date) return fail("Invalid date", 400);
+      const drills = parseDrills(workout);
+      if (!drills) return fail("Invalid workout drills", 400);
+      Object.assign(existing, {
+        workoutName: String(workout.WorkoutName ?? existing.workoutName),
+        workoutDescription: String(workout.WorkoutDescription ?? ""),
+        workoutDate: formatWorkoutDate(date),
+        workoutDrills: drills,
+      });
+      return json({ message: "Workout updated" });
+    },
+  },
+  {
+    method: "POST",
+    path: "/api/strength/deleteWorkout",
+    auth: true,
+    handler: (req) => {
+      const existing = ownedWorkout(req, req.db.strengthWorkouts);
+      if (existing instanceof Response) return existing;
+      req.db.strengthWorkouts = req.db.strengthWorkouts.filter((workout) => workout !== existing);
+      return json({ message: "Workout deleted" });
+    },
+  },
+];
+
+// ==================== Planned Workouts ====================
+
+const plannedRoutes: MockRoute[] = [
+  {
+    method: "GET",
+    path: "/api/planned/feed",
+    auth: true,
+    handler: (req) => {
+      const athlete = readableAthlete(req);
+      if (athlete instanceof Response) return athlete;
+      const running = page(plannedOf(req.db, athlete).map(plannedSummary), req.query.get("runningCursor"));
+      const strength = page(strengthOf(req.db, athlete), req.query.get("strengthCursor"));
+      return json({
+        runningWorkouts: running.items,
+        strengthWorkouts: strength.items,
+        runningNextCursor: running.nextCursor,
+        strengthNextCursor: strength.nextCursor,
+      });
+    },
+  },
+  {
+    method: "GET",
+    path: "/api/plannedWorkout/byDate",
+    auth: true,
+    handler: (req) => {
+      const athlete = readableAthlete(req);
+      if (athlete instanceof Response) return athlete;
+      const date = parseMockDate(req.query.get("date"));
+      return json({
+        runningWorkouts: plannedOf(req.db, athlete).filter((workout) => onDate(workout.date, date)).map(plannedSummary),
+        strengthWorkouts: strengthOf(req.db, athlete).filter((workout) => onDate(workout.workoutDate, date)),
+      });
+    },
+  },
+  {
+    method: "GET",
+    path: "/api/plannedWorkout/byId",
+    handler: ({ db, query }) => {
+      const workout = db.plannedWorkouts.find((item) => item.workoutId === query.get("id"));
+      if (!workout) return fail("Workout not found", 404);
+      // The real API misspells the wrapper key
+      return json({ worokutObject: plannedSummary(workout), plannedWorkoutJson: workout.plannedWorkoutJson });
+    },
+  },
+  {
+    method: "POST",
+    path: "/api/addWorkout",
+    auth: true,
+    handler: (req) => {
+      const coach = requireCoach(req);
+      if (coach instanceof Response) return coach;
+      const targets = assignmentTargets(req, coach);
+      if (targets instanceof Response) return targets;
+      const workout = parseJsonBody(req);
+      if (!workout) return fail("Invalid workout JSON", 400);
+
+      const date = parseMockDate(String(req.body.date ?? ""));
+      if (!date) return fail("Invalid date", 400);
+      req.db.plannedWorkouts.push({
+        date: formatWorkoutDate(date),
+        workoutName: String(workout.workoutName ?? "Workout"),
+        description: String(workout.description ?? ""),
+        intervals: Array.isArray(workout.steps) ? (workout.steps as WorkoutInterval[]) : [],
+        coachName: coach.userName,
+        athleteNames: targets,
+        workoutId: String(nextMockId(req.db)),
+        plannedWorkoutJson: String(req.body.jsonBody),
+      });
+      return json({ message: "Workout added" });
+    },
+  },
+  {
+    method: "POST",
+    path: "/api/plannedWorkout/update",
+    auth: true,
+    handler: (req) => {
+      const existing = ownedWorkout(req, req.db.plannedWorkouts);
+      if (existing instanceof Response) return existing;
+      const workout = parseJsonBody(req);
+      if (!workout) return fail("Invalid workout JSON", 400);
+
+      const date = parseMockDate(String(req.body.date ?? ""));
+      if (!date) return fail("Invalid date", 400);
+      Object.assign(existing, {
+        date: formatWorkoutDate(date),
+        workoutName: String(workout.workoutName ?? existing.workoutName),
+        description: String(workout.description ?? ""),
+        intervals: Array.isArray(workout.steps) ? (workout.steps as WorkoutInterval[]) : [],
+        plannedWorkoutJson: String(req.body.jsonBody),
+      });
+      return json({ message: "Workout updated" });
+    },
+  },
+  {
+    method: "POST",
+    path: "/api/plannedWorkout/delete",
+    auth: true,
+    handler: (req) => {
+      const existing = ownedWorkout(req, req.db.plannedWorkouts);
+      if (existing instanceof Response) return existing;
+      req.db.plannedWorkouts = req.db.plannedWorkouts.filter((workout) => workout !== existing);
+      return json({ message: "Workout deleted" });
+    },
+  },
+];
+
+// ==================== Sleep ====================
+
+const sleepRoutes: MockRoute[] = [
+  {
+    method: "GET",
+    path: "/api/sleep/feed",
+    auth: true,
+    handler: (req) => {
+      const athlete = readableAthlete(req);
+      if (athlete instanceof Response) return athlete;
+      return json(page(req.db.sleep[athlete.userName] ?? [], req.query.get("cursor")));
+    },
+  },
+  {
+    method: "GET",
+    path: "/api/sleep/byDate",
+    auth: true,
+    handler: (req) => {
+      const athlete = readableAthlete(req);
+      if (athlete instanceof Response) return athlete;
+      const date = parseMockDate(req.query.get("date"));
+      const night = (req.db.sleep[athlete.userName] ?? []).find((item) => onDate(item.sleepDate, date));
+      return night ? json(night) : fail("No sleep data for this date", 404);
+    },
+  },
+];
+
+// ==================== Profile ====================
+
+const profileRoutes: MockRoute[] = [
+  {
+    method: "POST",
+    path: "/api/editProfile/changePassword",
+    auth: true,
+    handler: ({ body, user }) => {
+      if (!body.newPassword) return fail("New password is required", 400);
+      user!.passwordHash = String(body.newPassword);
+      return json({ message: "Password changed" });
+    },
+  },
+  {
+    method: "POST",
+    path: "/api/editProfile/changePic",
+    auth: true,
+    handler: ({ body, query, user }) => {
+      user!.profilePicString = query.get("isRevert") === "true" ? "" : String(body.picString ?? "");
+      return json({ message: "Profile picture updated" });
+    },
+  },
+  {
+    // Not part of the real API: lets end-to-end tests start from a clean seed
+    method: "POST",
+    path: "/mock/reset",
+    handler: () => {
+      resetMockDatabase();
+      return json({ message: "Mock database reset" });
+    },
+  },
+];
+
+const ROUTES: MockRoute[] = [
+  ...authRoutes,
+  ...connectionRoutes,
+  ...rosterRoutes,
+  ...garminRoutes,
+  ...workoutRoutes,
+  ...strengthRoutes,
+  ...plannedRoutes,
+  ...sleepRoutes,
+  ...profileRoutes,
+];
+
+/**
+ * Normalize body keys to camelCase (the client mixes FlockName / flockName)
+ */
+function camelCaseKeys(body: unknown): Record<string, unknown> {
+  if (typeof body !== "object" || body === null || Array.isArray(body)) return {};
+  return Object.fromEntries(
+    Object.entries(body).map(([key, value]) => [key.charAt(0).toLowerCase() + key.slice(1), value])
+  );
+}
+
+/**
+ * Handle a request addressed to the mock API
+ * @param request - Incoming request
+ * @param path - Endpoint path without the mock prefix, e.g. "/api/athletes"
+ */
+export async function handleMockRequest(request: Request, path: string): Promise<Response> {
+  const route = ROUTES.find(
+    (candidate) => candidate.method === request.method && candidate.path.toLowerCase() === path.toLowerCase()
+  );
+  if (!route) return fail(`No mock for ${request.method} ${path}`, 404);
+
+  const db = getMockDatabase();
+  const query = new URL(request.url).searchParams;
+  const user =
+    findUserByApiKey(db, request.headers.get(API_KEY_HEADER) ?? query.get(API_KEY_QUERY_PARAM)) ??
+    userFromToken(db, request.headers.get("authorization")) ??
+    null;
+  if (route.auth && !user) return fail("Unauthorized", 401);
+
+  let body: Record<string, unknown> = {};
+  if (request.method === "POST") {
+    body = camelCaseKeys(await request.json().catch(() => ({})));
+  }
+
+  return route.handler({ db, query, body, user });
+}
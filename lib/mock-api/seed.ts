@@ -0,0 +1,549 @@
+/**
+ * Mock API Seed Data
+ * Coaches, athletes and deterministic training history for the mock backend
+ *
+ * Every seeded account signs in with the password "goosenet". Workout
+ * samples are generated from the workout id, so the same run always shows
+ * the same laps, map and heart-rate trace.
+ */
+
+import { createHash } from "node:crypto";
+import {
+  mapWorkoutDrill,
+  type DataSample,
+  type DrillLog,
+  type PlannedRunningWorkout,
+  type SleepDataItem,
+  type StrengthWorkout,
+  type WorkoutDrill,
+  type WorkoutInterval,
+  type WorkoutLap,
+  type WorkoutSummary,
+} from "../domain";
+import { asPrescribed, toDrillLogs } from "../strength-workout";
+
+export const MOCK_PASSWORD = "goosenet";
+
+/** Days of history generated for each athlete */
+const HISTORY_DAYS = 90;
+
+/** Days of upcoming plan generated for each coached athlete */
+const PLAN_DAYS = 21;
+
+/** Rough start point for routes (Yarkon Park, Tel Aviv) */
+const ROUTE_ORIGIN: [number, number] = [32.1007, 34.8075];
+
+// ==================== Types ====================
+
+export type MockRole = "coach" | "athlete";
+
+export interface MockUser {
+  userName: string;
+  fullName: string;
+  email: string;
+  role: MockRole;
+  apiKey: string;
+  /** SHA-256 hex digest, as sent by the login form */
+  passwordHash: string;
+  profilePicString: string;
+  /** Coach connection code (coaches only) */
+  coachId: string | null;
+  /** Coach of an athlete, if connected */
+  coachName: string | null;
+  garminConnected: boolean;
+}
+
+export interface MockRun extends WorkoutSummary {
+  workoutDeviceName: string;
+}
+
+export interface MockStrengthWorkout extends StrengthWorkout {
+  workoutId: string;
+}
+
+export interface MockPlannedWorkout extends PlannedRunningWorkout {
+  workoutId: string;
+  plannedWorkoutJson: string;
+}
+
+export interface MockDatabase {
+  users: MockUser[];
+  /** Flocks by coach, then flock name -> athlete usernames */
+  flocks: Record<string, Record<string, string[]>>;
+  runs: MockRun[];
+  strengthWorkouts: MockStrengthWorkout[];
+  plannedWorkouts: MockPlannedWorkout[];
+  /** Nights by athlete, most recent first */
+  sleep: Record<string, SleepDataItem[]>;
+  /** Last id handed out (workout ids share one sequence) */
+  lastId: number;
+}
+
+// ==================== Helpers ====================
+
+/**
+ * Small seeded PRNG (mulberry32) so generated data is stable between restarts
+ */
+export function seededRandom(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function hashSeed(text: string): number {
+  let hash = 2166136261;
+  for (let i = 0; i < text.length; i++) {
+    hash = Math.imul(hash ^ text.charCodeAt(i), 16777619);
+  }
+  return hash >>> 0;
+}
+
+export function sha256Hex(text: string): string {
+  return createHash("sha256").update(text).digest("hex");
+}
+
+/** M/d/yyyy, the format the API uses for workout dates */
+export function formatWorkoutDate(date: Date): string {
+  return `${date.getMonth() + 1}/${date.getDate()}/${date.getFullYear()}`;
+}
+
+/** yyyy-MM-dd, the format the API uses for sleep dates */
+export function formatIsoDate(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Parse any date format the client sends (yyyy-MM-dd, MM/dd/yyyy, M/d/yyyy)
+ * @returns Local midnight of that day, or null when unparseable
+ */
+export function parseMockDate(value: string | null | undefined): Date | null {
+  if (!value) return null;
+  const iso = /^(\d{4})-(\d{1,2})-(\d{1,2})/.exec(value);
+  if (iso) return new Date(Number(iso[1]), Number(iso[2]) - 1, Number(iso[3]));
+  const us = /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/.exec(value);
+  if (us) return new Date(Number(us[3]), Number(us[1]) - 1, Number(us[2]));
+  return null;
+}
+
+export function sameDay(a: Date, b: Date): boolean {
+  return a.getFullYear() === b.getFullYear() && a.getMonth() === b.getMonth() && a.getDate() === b.getDate();
+}
+
+function daysFromToday(offset: number): Date {
+  const date = new Date();
+  date.setHours(0, 0, 0, 0);
+  date.setDate(date.getDate() + offset);
+  return date;
+}
+
+/**
+ * Initials avatar as an SVG data URI
+ */
+function avatar(name: string, color: string): string {
+  const initials = name
+    .split(/\s+/)
+    .map((part) => part.charAt(0).toUpperCase())
+    .slice(0, 2)
+    .join("");
+  const svg =
+    `<svg xmlns="http://www.w3.org/2000/svg" width="96" height="96" viewBox="0 0 96 96">` +
+    `<rect width="96" height="96" rx="48" fill="${color}"/>` +
+    `<text x="48" y="58" font-family="Arial, sans-serif" font-size="34" font-weight="700" fill="#fff" text-anchor="middle">${initials}</text>` +
+    `</svg>`;
+  return `data:image/svg+xml;base64,${Buffer.from(svg).toString("base64")}`;
+}
+
+// ==================== Users ====================
+
+interface UserSeed {
+  userName: string;
+  fullName: string;
+  role: MockRole;
+  color: string;
+  coachName?: string;
+}
+
+const USER_SEEDS: UserSeed[] = [
+  { userName: "coach_maya", fullName: "Maya Levi", role: "coach", color: "#2563eb" },
+  { userName: "coach_eli", fullName: "Eli Ben-David", role: "coach", color: "#7c3aed" },
+  { userName: "noa_runs", fullName: "Noa Cohen", role: "athlete", color: "#db2777", coachName: "coach_maya" },
+  { userName: "daniel_k", fullName: "Daniel Katz", role: "athlete", color: "#059669", coachName: "coach_maya" },
+  { userName: "tamar_trail", fullName: "Tamar Shapiro", role: "athlete", color: "#d97706", coachName: "coach_maya" },
+  { userName: "yoni_5k", fullName: "Yoni Mizrahi", role: "athlete", color: "#0891b2", coachName: "coach_eli" },
+  { userName: "free_runner", fullName: "Lior Adler", role: "athlete", color: "#4b5563" },
+];
+
+function seedUsers(): MockUser[] {
+  const passwordHash = sha256Hex(MOCK_PASSWORD);
+  return USER_SEEDS.map((seed) => ({
+    userName: seed.userName,
+    fullName: seed.fullName,
+    email: `${seed.userName}@example.com`,
+    role: seed.role,
+    apiKey: `mock-${seed.userName}`,
+    passwordHash,
+    profilePicString: avatar(seed.fullName, seed.color),
+    coachId: seed.role === "coach" ? `MOCK-${seed.userName.replace("coach_", "").toUpperCase()}` : null,
+    coachName: seed.coachName ?? null,
+    garminConnected: seed.role === "athlete",
+  }));
+}
+
+// ==================== Runs ====================
+
+const RUN_TYPES = [
+  { name: "Easy Run", km: [6, 10], pace: [5.4, 6.1], hr: [135, 148] },
+  { name: "Tempo Run", km: [8, 12], pace: [4.3, 4.8], hr: [158, 170] },
+  { name: "Intervals", km: [7, 10], pace: [4.1, 4.6], hr: [155, 172] },
+  { name: "Long Run", km: [15, 24], pace: [5.2, 5.8], hr: [142, 155] },
+  { name: "Recovery Run", km: [4, 7], pace: [6.0, 6.6], hr: [125, 138] },
+] as const;
+
+function between(random: () => number, [low, high]: readonly [number, number]): number {
+  return low + (high - low) * random();
+}
+
+/**
+ * Closed loop around the route origin, roughly matching the run distance
+ */
+function routeCoords(seed: number, distanceKm: number): [number, number][] {
+  const random = seededRandom(seed);
+  const points = 48;
+  // Circumference of the loop ~ distance, clamped so long runs stay on screen
+  const radiusKm = Math.min(distanceKm, 14) / (2 * Math.PI);
+  const bearing = random() * Math.PI * 2;
+  const center: [number, number] = [
+    ROUTE_ORIGIN[0] + (Math.cos(bearing) * radiusKm) / 111,
+    ROUTE_ORIGIN[1] + (Math.sin(bearing) * radiusKm) / 94,
+  ];
+  const coords: [number, number][] = [];
+  for (let i = 0; i <= points; i++) {
+    const angle = bearing + Math.PI + (i / points) * Math.PI * 2;
+    const wobble = 1 + (random() - 0.5) * 0.12;
+    coords.push([
+      Number((center[0] + (Math.cos(angle) * radiusKm * wobble) / 111).toFixed(6)),
+      Number((center[1] + (Math.sin(angle) * radiusKm * wobble) / 94).toFixed(6)),
+    ]);
+  }
+  return coords;
+}
+
+function seedRuns(athletes: MockUser[], nextId: () => number): MockRun[] {
+  const runs: MockRun[] = [];
+  for (const athlete of athletes) {
+    const random = seededRandom(hashSeed(athlete.userName));
+    for (let day = HISTORY_DAYS; day >= 1; day--) {
+      // ~4-5 runs a week, long run on Fridays
+      const date = daysFromToday(-day);
+      const isLongDay = date.getDay() === 5;
+      if (!isLongDay && random() > 0.62) continue;
+
+      const type = isLongDay ? RUN_TYPES[3] : RUN_TYPES[[0, 1, 2, 4][Math.floor(random() * 4)]];
+      const distanceKm = between(random, type.km);
+      const pace = between(random, type.pace);
+      const workoutId = nextId();
+      runs.push({
+        workoutName: type.name,
+        workoutId,
+        workoutDurationInSeconds: Math.round(distanceKm * pace * 60),
+        workoutDistanceInMeters: Math.round(distanceKm * 1000),
+        workoutAvgHR: Math.round(between(random, type.hr)),
+        workoutAvgPaceInMinKm: Number(pace.toFixed(2)),
+        workoutCoordsJsonStr: JSON.stringify(routeCoords(workoutId, distanceKm)),
+        workoutDate: formatWorkoutDate(date),
+        profilePicData: athlete.profilePicString,
+        athleteName: athlete.userName,
+        workoutDeviceName: "Forerunner 265",
+      });
+    }
+  }
+  return runs;
+}
+
+/**
+ * Per-km laps and 10-second samples for a run (generated on demand)
+ */
+export function runDetails(run: MockRun): { workoutLaps: WorkoutLap[]; dataSamples: DataSample[] } {
+  const random = seededRandom(run.workoutId);
+  const distanceKm = run.workoutDistanceInMeters / 1000;
+  const workoutLaps: WorkoutLap[] = [];
+  for (let km = 0; km < distanceKm; km++) {
+    const lapDistance = Math.min(1, distanceKm - km);
+    const pace = run.workoutAvgPaceInMinKm * (1 + (random() - 0.5) * 0.08);
+    workoutLaps.push({
+      lapDistanceInKilometers: Number(lapDistance.toFixed(2)),
+      lapDurationInSeconds: Math.round(lapDistance * pace * 60),
+      lapPaceInMinKm: Number(pace.toFixed(2)),
+      avgHeartRate: Math.round(run.workoutAvgHR - 6 + (km / distanceKm) * 12 + (random() - 0.5) * 4),
+    });
+  }
+
+  const dataSamples: DataSample[] = [];
+  const avgSpeed = 1000 / (run.workoutAvgPaceInMinKm * 60);
+  for (let t = 0; t <= run.workoutDurationInSeconds; t += 10) {
+    const progress = t / run.workoutDurationInSeconds;
+    const warmup = Math.min(1, t / 300);
+    dataSamples.push({
+      timerDurationInSeconds: t,
+      heartRate: Math.round(95 + (run.workoutAvgHR - 95) * warmup + progress * 8 + (random() - 0.5) * 4),
+      speedMetersPerSecond: Number((avgSpeed * (0.96 + random() * 0.08)).toFixed(3)),
+      elevationInMeters: Number((12 + Math.sin(progress * Math.PI * 4) * 6 + random()).toFixed(1)),
+    });
+  }
+  return { workoutLaps, dataSamples };
+}
+
+// ==================== Planned Workouts ====================
+
+function paceToSpeed(minPerKm: number): number {
+  return Number((1000 / (minPerKm * 60)).toFixed(3));
+}
+
+function step(
+  stepOrder: number,
+  intensity: "WARMUP" | "INTERVAL" | "RECOVERY" | "REST" | "COOLDOWN",
+  durationType: "TIME" | "DISTANCE" | "OPEN",
+  durationValue: number,
+  paceRange: [number, number] | null
+): WorkoutInterval {
+  return {
+    stepOrder,
+    repeatValue: 0,
+    type: "WorkoutStep",
+    steps: null,
+    description: intensity === "INTERVAL" ? "run" : intensity.toLowerCase(),
+    durationType,
+    durationValue,
+    intensity,
+    targetType: paceRange ? "PACE" : "OPEN",
+    targetValue: null,
+    targetValueLow: paceRange ? paceToSpeed(paceRange[1]) : 0,
+    targetValueHigh: paceRange ? paceToSpeed(paceRange[0]) : 0,
+    repeatType: null,
+  };
+}
+
+function repeat(stepOrder: number, count: number, steps: WorkoutInterval[]): WorkoutInterval {
+  return {
+    stepOrder,
+    repeatValue: count,
+    type: "WorkoutRepeatStep",
+    steps,
+    description: "Run",
+    durationType: null,
+    durationValue: 0,
+    intensity: "INTERVAL",
+    targetType: "PACE",
+    targetValue: null,
+    targetValueLow: 0,
+    targetValueHigh: 0,
+    repeatType: "REPEAT_UNTIL_STEPS_CMPLT",
+  };
+}
+
+const PLAN_TEMPLATES: { workoutName: string; description: string; intervals: () => WorkoutInterval[] }[] = [
+  {
+    workoutName: "6 x 800m",
+    description: "Track session. Jog recoveries, keep the reps even.",
+    intervals: () => [
+      step(1, "WARMUP", "TIME", 900, [5.5, 6.0]),
+      repeat(2, 6, [step(1, "INTERVAL", "DISTANCE", 800, [3.9, 4.1]), step(2, "RECOVERY", "DISTANCE", 200, null)]),
+      step(3, "COOLDOWN", "OPEN", 0, null),
+    ],
+  },
+  {
+    workoutName: "Tempo 3 x 10min",
+    description: "Comfortably hard, 2 minutes easy between blocks.",
+    intervals: () => [
+      step(1, "WARMUP", "DISTANCE", 2000, [5.4, 5.9]),
+      repeat(2, 3, [step(1, "INTERVAL", "TIME", 600, [4.3, 4.5]), step(2, "REST", "TIME", 120, null)]),
+      step(3, "COOLDOWN", "DISTANCE", 1500, [5.6, 6.1]),
+    ],
+  },
+  {
+    workoutName: "Easy 8k",
+    description: "Conversational pace, strides at the end if you feel good.",
+    intervals: () => [repeat(1, 1, [step(1, "INTERVAL", "DISTANCE", 8000, [5.4, 6.0])])],
+  },
+];
+
+function seedPlannedWorkouts(athletes: MockUser[], nextId: () => number): MockPlannedWorkout[] {
+  const planned: MockPlannedWorkout[] = [];
+  for (const athlete of athletes) {
+    if (!athlete.coachName) continue;
+    for (let day = -7; day <= PLAN_DAYS; day++) {
+      const date = daysFromToday(day);
+      // Tuesday, Thursday and Sunday sessions
+      const templateIndex = [2, 4, 0].indexOf(date.getDay());
+      if (templateIndex < 0) continue;
+
+      const template = PLAN_TEMPLATES[templateIndex];
+      const intervals = template.intervals();
+      planned.push({
+        date: formatWorkoutDate(date),
+        workoutName: template.workoutName,
+        description: template.description,
+        intervals,
+        coachName: athlete.coachName,
+        athleteNames: [athlete.userName],
+        workoutId: String(nextId()),
+        plannedWorkoutJson: JSON.stringify({
+          sport: "RUNNING",
+          steps: intervals,
+          workoutName: template.workoutName,
+          description: template.description,
+        }),
+      });
+    }
+  }
+  return planned;
+}
+
+// ==================== Strength Workouts ====================
+
+// Unset prescription fields are filled in by mapWorkoutDrill
+const STRENGTH_DRILLS: WorkoutDrill[][] = [
+  [
+    { drillName: "Goblet Squat", drillSets: 3, drillReps: 10, drillLoad: 16, drillTempo: "3-1-1-0" },
+    {
+      drillName: "Romanian Deadlift",
+      drillSets: 3,
+      drillReps: 8,
+      drillLoad: 60,
+      drillLoadUnit: "percent1rm",
+      drillGroup: "A",
+    },
+    { drillName: "Walking Lunge", drillSets: 3, drillReps: 12, drillRpe: 7, drillRestSeconds: 60, drillGroup: "A" },
+    { drillName: "Plank", drillSets: 3, drillReps: 1, drillHoldSeconds: 45, drillRestSeconds: 30 },
+  ],
+  [
+    { drillName: "Single-Leg Calf Raise", drillSets: 3, drillReps: 15, drillRepScheme: [15, 12, 10] },
+    { drillName: "Step-Up", drillSets: 3, drillReps: 10, drillLoad: 10, drillGroup: "A" },
+    { drillName: "Glute Bridge", drillSets: 3, drillReps: 12, drillTempo: "2-2-1-0", drillGroup: "A" },
+    { drillName: "Side Plank", drillSets: 2, drillReps: 1, drillHoldSeconds: 30, drillGroup: "A" },
+  ],
+].map((drills) => drills.map((drill) => mapWorkoutDrill(drill)));
+
+/**
+ * Mostly as prescribed; some sessions end a couple of reps short or with the last set skipped
+ */
+function seedDrillLogs(drills: WorkoutDrill[], seed: number): DrillLog[] {
+  const logs = drills.map(asPrescribed);
+  const first = logs[0][logs[0].length - 1];
+  const last = logs[logs.length - 1];
+  if (seed % 4 === 0) last[last.length - 1] = { ...last[last.length - 1], reps: null, skipped: true };
+  if (seed % 4 === 1) first.reps = Math.max(0, (first.reps ?? 0) - 2);
+  return toDrillLogs(drills, logs);
+}
+
+function seedStrengthWorkouts(athletes: MockUser[], nextId: () => number): MockStrengthWorkout[] {
+  const workouts: MockStrengthWorkout[] = [];
+  for (const athlete of athletes) {
+    if (!athlete.coachName) continue;
+    for (let day = -28; day <= PLAN_DAYS; day++) {
+      const date = daysFromToday(day);
+      // Monday and Wednesday
+      const drillsIndex = [1, 3].indexOf(date.getDay());
+      if (drillsIndex < 0) continue;
+
+      const done = day < 0 && hashSeed(`${athlete.userName}${day}`) % 3 !== 0;
+      const drills = STRENGTH_DRILLS[drillsIndex].map((drill) => ({ ...drill }));
+      workouts.push({
+        coachName: athlete.coachName,
+        workoutName: drillsIndex === 0 ? "Runner Strength A" : "Runner Strength B",
+        workoutDescription: "Controlled tempo, full range of motion.",
+        workoutDate: formatWorkoutDate(date),
+        workoutDrills: drills,
+        athleteNames: [athlete.userName],
+        workoutReviews: done
+          ? {
+              [athlete.userName]: {
+                athleteName: athlete.userName,
+                reviewContent: "Felt solid, legs a bit heavy on the last set.",
+                difficultyLevel: 3 + (hashSeed(`${athlete.userName}${day}`) % 5),
+                drillLogs: seedDrillLogs(drills, hashSeed(`${athlete.userName}${day}`)),
+              },
+            }
+          : {},
+        workoutId: String(nextId()),
+      });
+    }
+  }
+  return workouts;
+}
+
+// ==================== Sleep ====================
+
+function seedSleep(athletes: MockUser[]): Record<string, SleepDataItem[]> {
+  const byAthlete: Record<string, SleepDataItem[]> = {};
+  for (const athlete of athletes) {
+    const random = seededRandom(hashSeed(`${athlete.userName}:sleep`));
+    const nights: SleepDataItem[] = [];
+    for (let day = 1; day <= HISTORY_DAYS; day++) {
+      const date = daysFromToday(-day);
+      const duration = Math.round((6.2 + random() * 2.4) * 3600);
+      const deep = Math.round(duration * (0.13 + random() * 0.08));
+      const rem = Math.round(duration * (0.18 + random() * 0.07));
+      const awake = Math.round(300 + random() * 1500);
+      const score = Math.round(55 + (duration / 3600 - 6) * 10 + random() * 12);
+      const qualifier = score >= 80 ? "GOOD" : score >= 60 ? "FAIR" : "POOR";
+      const start = new Date(date);
+      start.setHours(22, Math.floor(random() * 90), 0, 0);
+      nights.push({
+        summaryID: `mock-sleep-${athlete.userName}-${formatIsoDate(date)}`,
+        sleepDurationInSeconds: duration,
+        sleepStartTimeInSeconds: Math.floor(start.getTime() / 1000),
+        sleepTimeOffsetInSeconds: -start.getTimezoneOffset() * 60,
+        sleepDate: formatIsoDate(date),
+        deepSleepDurationInSeconds: deep,
+        lightSleepDurationInSeconds: Math.max(0, duration - deep - rem - awake),
+        remSleepInSeconds: rem,
+        awakeDurationInSeconds: awake,
+        sleepScores: [
+          { key: "totalDuration", value: { qualifierKey: qualifier, value: null } },
+          { key: "stress", value: { qualifierKey: random() > 0.5 ? "GOOD" : "FAIR", value: null } },
+        ],
+        overallSleepScore: { qualifierKey: qualifier, value: String(Math.min(score, 98)) },
+      });
+    }
+    byAthlete[athlete.userName] = nights;
+  }
+  return byAthlete;
+}
+
+// ==================== Database ====================
+
+/**
+ * Build a fresh database with seeded accounts and history
+ */
+export function createSeedDatabase(): MockDatabase {
+  let id = 1000;
+  const nextId = () => ++id;
+
+  const users = seedUsers();
+  const athletes = users.filter((user) => user.role === "athlete");
+
+  const db: MockDatabase = {
+    users,
+    flocks: {
+      coach_maya: {
+        "Marathon Squad": ["noa_runs", "daniel_k"],
+        "Trail Crew": ["tamar_trail"],
+      },
+      coach_eli: {},
+    },
+    runs: seedRuns(athletes, nextId),
+    strengthWorkouts: seedStrengthWorkouts(athletes, nextId),
+    plannedWorkouts: seedPlannedWorkouts(athletes, nextId),
+    sleep: seedSleep(athletes),
+    lastId: id,
+  };
+  return db;
+}
@@ -0,0 +1,55 @@
+/**
+ * Mock API Store
+ * In-memory database for the mock backend, shared across route handler reloads
+ *
+ * Lives on globalThis so dev-server hot reloads keep sign-ups and new
+ * workouts; a server restart (or resetMockDatabase) reseeds it.
+ */
+
+import { createSeedDatabase, type MockDatabase, type MockUser } from "./seed";
+
+const globalStore = globalThis as typeof globalThis & { __gooseNetMockDb?: MockDatabase };
+
+export function getMockDatabase(): MockDatabase {
+  if (!globalStore.__gooseNetMockDb) {
+    globalStore.__gooseNetMockDb = createSeedDatabase();
+  }
+  return globalStore.__gooseNetMockDb;
+}
+
+/**
+ * Drop all changes and reseed (e.g. between end-to-end tests)
+ */
+export function resetMockDatabase(): MockDatabase {
+  globalStore.__gooseNetMockDb = createSeedDatabase();
+  return globalStore.__gooseNetMockDb;
+}
+
+export function nextMockId(db: MockDatabase): number {
+  db.lastId += 1;
+  return db.lastId;
+}
+
+export function findUser(db: MockDatabase, userName: string | null | undefined): MockUser | undefined {
+  if (!userName) return undefined;
+  const name = userName.toLowerCase();
+  return db.users.find((user) => user.userName.toLowerCase() === name);
+}
+
+export function findUserByApiKey(db: MockDatabase, apiKey: string | null | undefined): MockUser | undefined {
+  return apiKey ? db.users.find((user) => user.apiKey === apiKey) : undefined;
+}
+
+/**
+ * Athletes connected to a coach
+ */
+export function athletesOf(db: MockDatabase, coach: MockUser): MockUser[] {
+  return db.users.filter((user) => user.role === "athlete" && user.coachName === coach.userName);
+}
+
+/**
+ * Whether a user may read an athlete's data (themselves, or their coach)
+ */
+export function canAccessAthlete(viewer: MockUser, athlete: MockUser): boolean {
+  return viewer.userName === athlete.userName || athlete.coachName === viewer.userName;
+}
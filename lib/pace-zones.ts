@@ -0,0 +1,140 @@
+/**
+ * Pace Zones
+ * Per-athlete training paces a coach sets (localStorage, per coach)
+ *
+ * A profile is anchored on the athlete's threshold pace, either entered
+ * directly or estimated from a race result. Zones are fixed fractions of
+ * that pace, so a builder step targeting "threshold" resolves to a
+ * different concrete pace range for every athlete it is sent to.
+ */
+
+import { createLocalStore } from "./local-store";
+
+export type PaceZoneId = "easy" | "marathon" | "threshold" | "interval" | "repetition";
+
+export interface PaceZone {
+  id: PaceZoneId;
+  label: string;
+  /** Letter used in shorthand ("@ T") */
+  short: string;
+  /** Slow and fast ends of the zone as multiples of threshold pace (min/km) */
+  slowFactor: number;
+  fastFactor: number;
+}
+
+export const PACE_ZONES: PaceZone[] = [
+  { id: "easy", label: "Easy", short: "E", slowFactor: 1.33, fastFactor: 1.2 },
+  { id: "marathon", label: "Marathon", short: "M", slowFactor: 1.1, fastFactor: 1.06 },
+  { id: "threshold", label: "Threshold", short: "T", slowFactor: 1.02, fastFactor: 0.98 },
+  { id: "interval", label: "Interval", short: "I", slowFactor: 0.94, fastFactor: 0.9 },
+  { id: "repetition", label: "Repetition", short: "R", slowFactor: 0.88, fastFactor: 0.84 },
+];
+
+export type PaceProfileSource =
+  | { kind: "threshold" }
+  | { kind: "race"; distanceKm: number; timeSeconds: number };
+
+export interface PaceProfile {
+  athleteName: string;
+  /** Threshold pace in min/km */
+  thresholdPace: number;
+  source: PaceProfileSource;
+  updatedAt: number;
+}
+
+/** Race distances offered when deriving zones from a result */
+export const RACE_DISTANCES: { label: string; km: number }[] = [
+  { label: "5K", km: 5 },
+  { label: "10K", km: 10 },
+  { label: "Half marathon", km: 21.0975 },
+  { label: "Marathon", km: 42.195 },
+];
+
+export function paceZone(id: PaceZoneId): PaceZone | undefined {
+  return PACE_ZONES.find((zone) => zone.id === id);
+}
+
+/**
+ * Estimate threshold pace (roughly one-hour race pace) from a race result
+ * using Riegel's formula, T2 = T1 × (D2 / D1)^1.06
+ * @returns Threshold pace in min/km
+ */
+export function thresholdFromRace(distanceKm: number, timeSeconds: number): number {
+  const raceMinutes = timeSeconds / 60;
+  const hourDistanceKm = distanceKm * Math.pow(60 / raceMinutes, 1 / 1.06);
+  return 60 / hourDistanceKm;
+}
+
+/**
+ * Concrete pace range of a zone for one athlete
+ * @returns low (faster) and high (slower) pace in min/km, as the builder's pace ranges
+ */
+export function resolvePaceZone(profile: Pick<PaceProfile, "thresholdPace">, id: PaceZoneId): { low: number; high: number } | null {
+  const zone = paceZone(id);
+  if (!zone || !(profile.thresholdPace > 0)) return null;
+  return { low: profile.thresholdPace * zone.fastFactor, high: profile.thresholdPace * zone.slowFactor };
+}
+
+/**
+ * Parse a race time as "mm:ss" or "h:mm:ss"
+ * @returns Seconds, or null when malformed
+ */
+export function parseRaceTime(text: string): number | null {
+  const parts = text.trim().split(":");
+  if (parts.length < 2 || parts.length > 3 || parts.some((part) => !/^\d+$/.test(part))) return null;
+  const numbers = parts.map((part) => parseInt(part, 10));
+  if (numbers.slice(1).some((value) => value >= 60)) return null;
+  const seconds = numbers.reduce((total, value) => total * 60 + value, 0);
+  return seconds > 0 ? seconds : null;
+}
+
+export function formatRaceTime(seconds: number): string {
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = Math.round(seconds % 60);
+  if (h > 0) return `${h}:${m.toString().padStart(2, "0")}:${s.toString().padStart(2, "0")}`;
+  return `${m}:${s.toString().padStart(2, "0")}`;
+}
+
+// ==================== Storage ====================
+
+const paceProfilesStore = createLocalStore("goosenet_pace_zones:", "goosenet:pace-zones-changed");
+
+function isProfile(value: unknown): value is PaceProfile {
+  if (typeof value !== "object" || value === null) return false;
+  const profile = value as Partial<PaceProfile>;
+  return typeof profile.athleteName === "string" && typeof profile.thresholdPace === "number";
+}
+
+/**
+ * A coach's athlete profiles, keyed by athlete name
+ * @param coachName - Owner of the profiles
+ */
+export function listPaceProfiles(coachName: string): Record<string, PaceProfile> {
+  const raw = paceProfilesStore.readSnapshot(coachName);
+  if (!raw) return {};
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    if (typeof parsed !== "object" || parsed === null) return {};
+    return Object.fromEntries(Object.entries(parsed).filter(([, profile]) => isProfile(profile)));
+  } catch {
+    return {};
+  }
+}
+
+export function getPaceProfile(coachName: string, athleteName: string): PaceProfile | null {
+  return listPaceProfiles(coachName)[athleteName] ?? null;
+}
+
+/**
+ * @returns The updated profiles
+ * @throws LocalStoreError when the browser's storage is full or unavailable
+ */
+export function savePaceProfile(
+  coachName: string,
+  profile: Omit<PaceProfile, "updatedAt">
+): Record<string, PaceProfile> {
+  const profiles = { ...listPaceProfiles(coachName), [profile.athleteName]: { ...profile, updatedAt: Date.now() } };
+  paceProfilesStore.write(coachName, profiles);
+  return profiles;
+}
@@ -0,0 +1,135 @@
+/**
+ * Query Cache
+ * In-memory cache for GET responses, keyed by endpoint + query params
+ *
+ * - Concurrent reads of the same key share one in-flight request
+ * - Fresh entries (younger than staleTime) are served without a request
+ * - Stale entries (younger than cacheTime) are served immediately while a
+ *   background request refreshes them (stale-while-revalidate)
+ * - Mutations invalidate entries by endpoint path prefix
+ */
+
+export interface CachePolicy {
+  /** How long (ms) a response is served without revalidating */
+  staleTime: number;
+  /** How long (ms) a stale response may still be served while revalidating */
+  cacheTime: number;
+}
+
+interface CacheEntry {
+  data: unknown;
+  updatedAt: number;
+}
+
+/**
+ * Build a cache key from an endpoint
+ * Query params are sorted so ?a=1&b=2 and ?b=2&a=1 share an entry
+ */
+export function queryKey(endpoint: string): string {
+  const [path, query = ""] = endpoint.split("?", 2);
+  const params = new URLSearchParams(query);
+  params.sort();
+  const search = params.toString();
+  return search ? `${path}?${search}` : path;
+}
+
+function keyPath(key: string): string {
+  return key.split("?", 1)[0];
+}
+
+export class QueryCache {
+  private entries = new Map<string, CacheEntry>();
+  private inflight = new Map<string, Promise<unknown>>();
+
+  /**
+   * Read a query through the cache
+   * @param key - Cache key (see queryKey)
+   * @param fetcher - Loads the value when it is missing or stale
+   * @param policy - Freshness window for this query
+   */
+  async fetch<T>(key: string, fetcher: () => Promise<T>, policy: CachePolicy): Promise<T> {
+    const entry = this.entries.get(key);
+    const age = entry ? Date.now() - entry.updatedAt : Infinity;
+
+    if (entry && age < policy.staleTime) {
+      return entry.data as T;
+    }
+
+    if (entry && age < policy.cacheTime) {
+      // Serve stale data now; a failed refresh keeps the old entry
+      this.load(key, fetcher).catch(() => undefined);
+      return entry.data as T;
+    }
+
+    return this.load(key, fetcher);
+  }
+
+  /**
+   * Run the fetcher for a key, sharing the request with concurrent callers
+   */
+  private load<T>(key: string, fetcher: () => Promise<T>): Promise<T> {
+    const pending = this.inflight.get(key);
+    if (pending) return pending as Promise<T>;
+
+    const promise = fetcher()
+      .then((data) => {
+        // Skip the write if the key was invalidated while the request was in flight
+        if (this.inflight.get(key) === promise) {
+          this.entries.set(key, { data, updatedAt: Date.now() });
+        }
+        return data;
+      })
+      .finally(() => {
+        if (this.inflight.get(key) === promise) {
+          this.inflight.delete(key);
+        }
+      });
+
+    this.inflight.set(key, promise);
+    return promise;
+  }
+
+  /**
+   * Drop cached and in-flight queries whose endpoint path starts with a prefix
+   * @param pathPrefixes - Endpoint paths, e.g. "/api/flocks/flockAthletes"
+   */
+  invalidate(...pathPrefixes: string[]): void {
+    const lowered = pathPrefixes.map((prefix) => prefix.toLowerCase());
+    const matches = (key: string) => {
+      const path = keyPath(key).toLowerCase();
+      return lowered.some((prefix) => path.startsWith(prefix));
+    };
+
+    for (const key of [...this.entries.keys()]) {
+      if (matches(key)) this.entries.delete(key);
+    }
+    for (const key of [...this.inflight.keys()]) {
+      if (matches(key)) this.inflight.delete(key);
+    }
+  }
+
+  /**
+   * Drop everything (e.g. when the signed-in user changes)
+   */
+  clear(): void {
+    this.entries.clear();
+    this.inflight.clear();
+  }
+}
+
+// ==================== Cache Policies ====================
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+
+/** Lists that change whenever someone logs a workout (feeds, by-date views) */
+export const SHORT_LIVED: CachePolicy = { staleTime: 30 * SECOND, cacheTime: 5 * MINUTE };
+
+/** Coach rosters, flocks and planned workouts */
+export const STANDARD: CachePolicy = { staleTime: MINUTE, cacheTime: 10 * MINUTE };
+
+/** Recorded workout data and profile pictures, which rarely change */
+export const LONG_LIVED: CachePolicy = { staleTime: 10 * MINUTE, cacheTime: 60 * MINUTE };
+
+// Shared instance used by the API service
+export const queryCache = new QueryCache();
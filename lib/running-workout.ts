@@ -0,0 +1,466 @@
+/**
+ * Running Workout Builder Model
+ * Interval blocks as edited in the running builder, and their Garmin workout JSON
+ */
+
+import type { PaceZoneId } from "./pace-zones";
+
+export type StepType = "warmup" | "run" | "recovery" | "rest" | "cooldown";
+/** "open" ends the step when the athlete presses the lap button */
+export type DurationType = "time" | "distance" | "open";
+export type DurationUnit = "seconds" | "minutes" | "meters" | "kilometers";
+export type PaceMode = "specific" | "range";
+/** What the watch holds the athlete to during a step */
+export type TargetKind = "none" | "pace" | "paceZone" | "hrZone" | "hrRange" | "power" | "cadence";
+
+export interface Step {
+  id: string;
+  type: StepType;
+  durationType: DurationType;
+  durationUnit?: DurationUnit;
+  durationValue: number;
+  paceMode?: PaceMode;
+  paceMinPerKm?: number;
+  paceMinPerKmLow?: number;
+  paceMinPerKmHigh?: number;
+  paceString?: string;
+  paceStringLow?: string;
+  paceStringHigh?: string;
+  /** Missing on steps saved before non-pace targets; see stepTargetKind */
+  targetKind?: TargetKind;
+  /** Athlete pace zone for "paceZone", resolved per athlete when sending */
+  targetPaceZone?: PaceZoneId;
+  /** Heart-rate zone (1-5) for "hrZone" */
+  targetZone?: number;
+  /** bpm, watts or steps per minute for "hrRange", "power" and "cadence" */
+  targetLow?: number;
+  targetHigh?: number;
+}
+
+/** A repeat group; its items are steps or (one level down) further repeat groups */
+export interface IntervalBlock {
+  id: string;
+  repeatCount: number;
+  steps: WorkoutItem[];
+}
+
+/** A top-level or nested entry in the workout structure */
+export type WorkoutItem = Step | IntervalBlock;
+
+/** Repeat groups may nest once, e.g. 3 sets of [4x400m, 2min rest] */
+export const MAX_REPEAT_DEPTH = 2;
+
+/** Step in the Garmin workout JSON sent to /api/addWorkout */
+export interface GarminWorkoutStep {
+  targetType: string;
+  stepOrder: number;
+  repeatValue: number;
+  type: "WorkoutStep" | "WorkoutRepeatStep";
+  steps: GarminWorkoutStep[] | null;
+  description: string;
+  durationType: string | null;
+  durationValue: number;
+  intensity: string;
+  targetValue: number | null;
+  targetValueLow: number;
+  targetValueHigh: number;
+  repeatType: string | null;
+}
+
+export interface GarminWorkout {
+  sport: "RUNNING";
+  steps: GarminWorkoutStep[];
+  workoutName: string;
+  description: string;
+}
+
+/** Step types in the order they are offered in the builder */
+export const STEP_TYPES: { value: StepType; label: string }[] = [
+  { value: "warmup", label: "Warm-up" },
+  { value: "run", label: "Run" },
+  { value: "recovery", label: "Recovery" },
+  { value: "rest", label: "Rest" },
+  { value: "cooldown", label: "Cool-down" },
+];
+
+const GARMIN_INTENSITY: Record<StepType, string> = {
+  warmup: "WARMUP",
+  run: "INTERVAL",
+  recovery: "RECOVERY",
+  rest: "REST",
+  cooldown: "COOLDOWN",
+};
+
+/**
+ * Builder step type for a Garmin intensity (e.g. to label plan totals)
+ */
+export function stepTypeForIntensity(intensity: string): StepType {
+  const upper = intensity.toUpperCase();
+  return STEP_TYPES.find((option) => GARMIN_INTENSITY[option.value] === upper)?.value ?? "run";
+}
+
+export function stepTypeLabel(type: StepType): string {
+  return STEP_TYPES.find((option) => option.value === type)?.label ?? "Run";
+}
+
+export const TARGET_KINDS: { value: TargetKind; label: string }[] = [
+  { value: "none", label: "No target" },
+  { value: "pace", label: "Pace" },
+  { value: "paceZone", label: "Pace zone (per athlete)" },
+  { value: "hrZone", label: "Heart-rate zone" },
+  { value: "hrRange", label: "Heart-rate range (bpm)" },
+  { value: "power", label: "Power (W)" },
+  { value: "cadence", label: "Cadence (spm)" },
+];
+
+/** Zones are resolved on the watch against the athlete's own heart-rate settings */
+export const HEART_RATE_ZONES = [1, 2, 3, 4, 5];
+
+const GARMIN_TARGET_TYPE: Record<TargetKind, string> = {
+  none: "OPEN",
+  pace: "PACE",
+  paceZone: "PACE",
+  hrZone: "HEART_RATE",
+  hrRange: "HEART_RATE",
+  power: "POWER",
+  cadence: "CADENCE",
+};
+
+/**
+ * Whether a step type can carry a target (everything but rest)
+ */
+export function stepAllowsTarget(type: StepType): boolean {
+  return type !== "rest";
+}
+
+/**
+ * Target a step starts with when its type is picked: work intervals
+ * default to pace, warm-up, recovery and cool-down to running by feel
+ */
+export function defaultTargetKind(type: StepType): TargetKind {
+  return type === "run" ? "pace" : "none";
+}
+
+/**
+ * The step's target, treating steps saved before targetKind existed as
+ * pace steps when they have a pace mode
+ */
+export function stepTargetKind(step: Step): TargetKind {
+  if (!stepAllowsTarget(step.type)) return "none";
+  return step.targetKind ?? (step.paceMode ? "pace" : "none");
+}
+
+/** Step fields cleared when the target changes */
+export const CLEARED_TARGET: Partial<Step> = {
+  paceMode: undefined,
+  paceMinPerKm: undefined,
+  paceMinPerKmLow: undefined,
+  paceMinPerKmHigh: undefined,
+  paceString: undefined,
+  paceStringLow: undefined,
+  paceStringHigh: undefined,
+  targetPaceZone: undefined,
+  targetZone: undefined,
+  targetLow: undefined,
+  targetHigh: undefined,
+};
+
+export function generateId(): string {
+  return Math.random().toString(36).substring(2, 9);
+}
+
+export function paceStringToMinutes(paceString: string): number | null {
+  if (!paceString || !paceString.trim()) return null;
+  const parts = paceString.trim().split(":");
+  if (parts.length !== 2) return null;
+  const minutes = parseInt(parts[0], 10);
+  const seconds = parseInt(parts[1], 10);
+  if (isNaN(minutes) || isNaN(seconds) || minutes < 0 || seconds < 0 || seconds >= 60) {
+    return null;
+  }
+  return minutes + seconds / 60;
+}
+
+export function minutesToPaceString(minutes: number): string {
+  if (isNaN(minutes) || minutes < 0) return "";
+  const mins = Math.floor(minutes);
+  const secs = Math.round((minutes - mins) * 60);
+  return `${mins}:${secs.toString().padStart(2, "0")}`;
+}
+
+export function convertDurationToNormalized(value: number, durationType: DurationType, unit: DurationUnit): number {
+  if (durationType === "time") {
+    switch (unit) {
+      case "seconds":
+        return value;
+      case "minutes":
+        return value * 60;
+      default:
+        return value;
+    }
+  } else {
+    switch (unit) {
+      case "meters":
+        return value;
+      case "kilometers":
+        return value * 1000;
+      default:
+        return value;
+    }
+  }
+}
+
+export function paceMinPerKmToMetersPerSecond(minPerKm: number): number {
+  return 1000 / (minPerKm * 60);
+}
+
+/**
+ * Resolves an athlete's pace zone to a pace range in min/km (low is faster)
+ */
+export type PaceZoneResolver = (zone: PaceZoneId) => { low: number; high: number } | null;
+
+export function isRepeatBlock(item: WorkoutItem): item is IntervalBlock {
+  return Array.isArray((item as IntervalBlock).steps);
+}
+
+export function createStep(type: StepType = "run"): Step {
+  const targetKind = defaultTargetKind(type);
+  return {
+    id: generateId(),
+    type,
+    durationType: "time",
+    durationUnit: "seconds",
+    durationValue: 0,
+    targetKind,
+    paceMode: targetKind === "pace" ? "specific" : undefined,
+  };
+}
+
+export function createRepeatBlock(): IntervalBlock {
+  return { id: generateId(), repeatCount: 1, steps: [createStep()] };
+}
+
+/**
+ * Number of steps the athlete runs, with repeats expanded
+ */
+export function countSteps(items: WorkoutItem[]): number {
+  return items.reduce(
+    (sum, item) => sum + (isRepeatBlock(item) ? countSteps(item.steps) * item.repeatCount : 1),
+    0
+  );
+}
+
+/**
+ * Whether any step targets a pace zone, so the JSON differs per athlete
+ */
+export function usesPaceZones(items: WorkoutItem[]): boolean {
+  return items.some((item) =>
+    isRepeatBlock(item) ? usesPaceZones(item.steps) : stepTargetKind(item) === "paceZone"
+  );
+}
+
+/**
+ * Copy items with fresh ids (e.g. when loading a template twice)
+ */
+export function cloneBlocks(items: WorkoutItem[]): WorkoutItem[] {
+  return items.map((item) =>
+    isRepeatBlock(item)
+      ? { ...item, id: generateId(), steps: cloneBlocks(item.steps) }
+      : { ...item, id: generateId() }
+  );
+}
+
+function stepToGarmin(step: Step, stepOrder: number, paceZones?: PaceZoneResolver): GarminWorkoutStep {
+  let targetValue: number | null = null;
+  let targetValueLow = 0.0;
+  let targetValueHigh = 0.0;
+  const targetKind = stepTargetKind(step);
+  const intensity = GARMIN_INTENSITY[step.type] ?? "INTERVAL";
+
+  if (targetKind === "pace") {
+    if (step.paceMode === "specific" && step.paceMinPerKm !== undefined) {
+      const metersPerSecond = paceMinPerKmToMetersPerSecond(step.paceMinPerKm);
+      targetValueLow = metersPerSecond;
+      targetValueHigh = metersPerSecond;
+    } else if (step.paceMode === "range" && step.paceMinPerKmLow !== undefined && step.paceMinPerKmHigh !== undefined) {
+      targetValueLow = paceMinPerKmToMetersPerSecond(step.paceMinPerKmLow);
+      targetValueHigh = paceMinPerKmToMetersPerSecond(step.paceMinPerKmHigh);
+    }
+  } else if (targetKind === "paceZone") {
+    const range = step.targetPaceZone ? paceZones?.(step.targetPaceZone) : null;
+    if (range) {
+      targetValueLow = paceMinPerKmToMetersPerSecond(range.low);
+      targetValueHigh = paceMinPerKmToMetersPerSecond(range.high);
+    }
+  } else if (targetKind === "hrZone") {
+    targetValue = step.targetZone ?? null;
+  } else if (targetKind !== "none") {
+    targetValueLow = step.targetLow ?? 0;
+    targetValueHigh = step.targetHigh ?? 0;
+  }
+
+  return {
+    targetType: GARMIN_TARGET_TYPE[targetKind],
+    stepOrder: stepOrder,
+    repeatValue: 0,
+    type: "WorkoutStep",
+    steps: null,
+    description: step.type,
+    durationType: step.durationType === "open" ? "OPEN" : step.durationType === "time" ? "TIME" : "DISTANCE",
+    durationValue:
+      step.durationType === "open"
+        ? 0
+        : convertDurationToNormalized(
+            step.durationValue,
+            step.durationType,
+            step.durationUnit || (step.durationType === "time" ? "seconds" : "meters")
+          ),
+    intensity: intensity,
+    targetValue: targetValue,
+    targetValueLow: targetValueLow,
+    targetValueHigh: targetValueHigh,
+    repeatType: null,
+  };
+}
+
+function speedToPaceString(metersPerSecond: number): string {
+  return minutesToPaceString(1000 / (metersPerSecond * 60));
+}
+
+function garminToStep(garmin: GarminWorkoutStep): Step {
+  // The builder sends its step type as the description; fall back to the intensity for other plans
+  const type =
+    STEP_TYPES.find((option) => option.value === garmin.description)?.value ??
+    stepTypeForIntensity(garmin.intensity ?? "");
+  const value = Number(garmin.durationValue) || 0;
+  let step: Step = { ...createStep(type), ...CLEARED_TARGET, targetKind: "none" };
+
+  switch ((garmin.durationType ?? "").toUpperCase()) {
+    case "TIME":
+      step = value > 0 && value % 60 === 0
+        ? { ...step, durationType: "time", durationUnit: "minutes", durationValue: value / 60 }
+        : { ...step, durationType: "time", durationUnit: "seconds", durationValue: value };
+      break;
+    case "DISTANCE":
+      step = value > 0 && value % 1000 === 0
+        ? { ...step, durationType: "distance", durationUnit: "kilometers", durationValue: value / 1000 }
+        : { ...step, durationType: "distance", durationUnit: "meters", durationValue: value };
+      break;
+    default:
+      step = { ...step, durationType: "open", durationUnit: undefined, durationValue: 0 };
+  }
+
+  if (!stepAllowsTarget(type)) return step;
+  const low = Number(garmin.targetValueLow) || 0;
+  const high = Number(garmin.targetValueHigh) || 0;
+  const hasRange = low > 0 && high > 0;
+  switch ((garmin.targetType ?? "").toUpperCase()) {
+    case "PACE":
+    case "SPEED": {
+      if (!hasRange) return step;
+      if (Math.abs(low - high) < 1e-9) {
+        const paceString = speedToPaceString(low);
+        return {
+          ...step,
+          targetKind: "pace",
+          paceMode: "specific",
+          paceString,
+          paceMinPerKm: paceStringToMinutes(paceString) ?? undefined,
+        };
+      }
+      const paceStringLow = speedToPaceString(low);
+      const paceStringHigh = speedToPaceString(high);
+      return {
+        ...step,
+        targetKind: "pace",
+        paceMode: "range",
+        paceStringLow,
+        paceStringHigh,
+        paceMinPerKmLow: paceStringToMinutes(paceStringLow) ?? undefined,
+        paceMinPerKmHigh: paceStringToMinutes(paceStringHigh) ?? undefined,
+      };
+    }
+    case "HEART_RATE":
+      if (garmin.targetValue) return { ...step, targetKind: "hrZone", targetZone: garmin.targetValue };
+      return hasRange ? { ...step, targetKind: "hrRange", targetLow: low, targetHigh: high } : step;
+    case "POWER":
+      return hasRange ? { ...step, targetKind: "power", targetLow: low, targetHigh: high } : step;
+    case "CADENCE":
+      return hasRange ? { ...step, targetKind: "cadence", targetLow: low, targetHigh: high } : step;
+    default:
+      return step;
+  }
+}
+
+/**
+ * Read a sent workout's Garmin JSON back into builder items (e.g. to edit it)
+ * Pace-zone steps come back as the concrete pace range they were sent with.
+ * @returns null when the JSON isn't a workout
+ */
+export function parseGarminJson(json: string): { workoutName: string; description: string; blocks: WorkoutItem[] } | null {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    return null;
+  }
+  if (typeof parsed !== "object" || parsed === null || !Array.isArray((parsed as GarminWorkout).steps)) return null;
+  const workout = parsed as GarminWorkout;
+
+  const toItem = (garmin: GarminWorkoutStep): WorkoutItem =>
+    garmin.type === "WorkoutRepeatStep" || Array.isArray(garmin.steps)
+      ? { id: generateId(), repeatCount: Number(garmin.repeatValue) || 1, steps: (garmin.steps ?? []).map(toItem) }
+      : garminToStep(garmin);
+
+  return {
+    workoutName: typeof workout.workoutName === "string" ? workout.workoutName : "",
+    description: typeof workout.description === "string" ? workout.description : "",
+    blocks: workout.steps.map(toItem),
+  };
+}
+
+/**
+ * Build the Garmin workout JSON for the builder's items
+ * Plain steps stay plain and repeat groups become repeat steps. stepOrder
+ * runs depth-first across the whole workout (a repeat step is numbered
+ * before its children), as Garmin expects. Open steps are sent with a
+ * zero duration and end on the lap button.
+ * @param paceZones - The receiving athlete's zones; pace-zone steps without one get no pace values
+ */
+export function buildGarminJson(
+  blocks: WorkoutItem[],
+  workoutName: string,
+  description: string,
+  paceZones?: PaceZoneResolver
+): GarminWorkout {
+  let order = 0;
+
+  const toGarmin = (item: WorkoutItem): GarminWorkoutStep => {
+    order += 1;
+    const stepOrder = order;
+    if (!isRepeatBlock(item)) return stepToGarmin(item, stepOrder, paceZones);
+
+    return {
+      targetType: "PACE",
+      stepOrder: stepOrder,
+      repeatValue: item.repeatCount,
+      type: "WorkoutRepeatStep",
+      steps: item.steps.map(toGarmin),
+      description: "Run",
+      durationType: null,
+      durationValue: 0.0,
+      intensity: "INTERVAL",
+      targetValue: null,
+      targetValueLow: 0.0,
+      targetValueHigh: 0.0,
+      repeatType: "REPEAT_UNTIL_STEPS_CMPLT",
+    };
+  };
+
+  return {
+    sport: "RUNNING",
+    steps: blocks.map(toGarmin),
+    workoutName: workoutName,
+    description: description || "",
+  };
+}
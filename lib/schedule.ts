@@ -0,0 +1,178 @@
+/**
+ * Workout Scheduling
+ * Expands a builder's schedule (one date, a weekly pattern or a picked list)
+ * into concrete dates, and sends a workout to each of them
+ *
+ * Dates are handled as local "yyyy-MM-dd" strings, the value of a native
+ * date input, so the builders can keep formatting them for their own API.
+ */
+
+export type ScheduleMode = "single" | "weekly" | "dates";
+
+export interface WorkoutSchedule {
+  mode: ScheduleMode;
+  /** The single date, or the first day of a weekly pattern */
+  date: string;
+  /** Days of the week for the weekly pattern, 0 = Sunday */
+  weekdays: number[];
+  /** How many weeks the weekly pattern runs for */
+  weeks: number;
+  /** Hand-picked dates */
+  dates: string[];
+}
+
+/** Upper bound on dates one schedule may expand to */
+export const MAX_SCHEDULE_DATES = 60;
+
+export const WEEKDAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+export function createSchedule(): WorkoutSchedule {
+  return { mode: "single", date: "", weekdays: [], weeks: 4, dates: [] };
+}
+
+/**
+ * Parse "yyyy-MM-dd" as a local calendar date
+ * @returns The date at local midnight, or null when malformed
+ */
+export function parseLocalDate(value: string): Date | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (!match) return null;
+  const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  return date.getMonth() === Number(match[2]) - 1 ? date : null;
+}
+
+export function toLocalDateString(date: Date): string {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${year}-${month}-${day}`;
+}
+
+/**
+ * Date input value for a workout's stored date ("M/d/yyyy", or already "yyyy-MM-dd")
+ * @returns "yyyy-MM-dd", or "" when unrecognized
+ */
+export function fromWorkoutDate(value: string): string {
+  if (parseLocalDate(value)) return value;
+  const match = /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/.exec(value.trim());
+  if (!match) return "";
+  return toLocalDateString(new Date(Number(match[3]), Number(match[1]) - 1, Number(match[2])));
+}
+
+/**
+ * Stored workout date ("M/d/yyyy") for a date input value
+ */
+export function toWorkoutDate(value: string): string {
+  const date = parseLocalDate(value);
+  return date ? `${date.getMonth() + 1}/${date.getDate()}/${date.getFullYear()}` : value;
+}
+
+/**
+ * Every date a schedule covers, sorted and without duplicates
+ * @returns "yyyy-MM-dd" strings; may exceed MAX_SCHEDULE_DATES, see scheduleError
+ */
+export function resolveScheduleDates(schedule: WorkoutSchedule): string[] {
+  let dates: string[];
+  switch (schedule.mode) {
+    case "single":
+      dates = parseLocalDate(schedule.date) ? [schedule.date] : [];
+      break;
+    case "weekly": {
+      const start = parseLocalDate(schedule.date);
+      dates = [];
+      if (start && schedule.weeks > 0) {
+        for (let offset = 0; offset < schedule.weeks * 7; offset++) {
+          const day = new Date(start.getFullYear(), start.getMonth(), start.getDate() + offset);
+          if (schedule.weekdays.includes(day.getDay())) dates.push(toLocalDateString(day));
+        }
+      }
+      break;
+    }
+    case "dates":
+      dates = schedule.dates.filter((date) => parseLocalDate(date));
+      break;
+  }
+  return Array.from(new Set(dates)).sort();
+}
+
+/**
+ * Validation message for a schedule, or null when it can be sent
+ */
+export function scheduleError(schedule: WorkoutSchedule): string | null {
+  if (schedule.mode === "dates") {
+    if (schedule.dates.length === 0) return "Add at least one date";
+  } else if (!parseLocalDate(schedule.date)) {
+    return schedule.mode === "weekly" ? "Start date is required" : "Workout date is required";
+  }
+  if (schedule.mode === "weekly") {
+    if (schedule.weekdays.length === 0) return "Pick at least one day of the week";
+    if (!Number.isInteger(schedule.weeks) || schedule.weeks < 1) return "Number of weeks must be at least 1";
+  }
+  const count = resolveScheduleDates(schedule).length;
+  if (count === 0) return "The schedule doesn't cover any dates";
+  if (count > MAX_SCHEDULE_DATES) return `Schedule at most ${MAX_SCHEDULE_DATES} dates at once (this covers ${count})`;
+  return null;
+}
+
+// ==================== Sending ====================
+
+/** The requests one date needs, e.g. one per athlete when targets are resolved per athlete */
+export interface ScheduleBatch<T> {
+  date: string;
+  requests: T[];
+}
+
+export interface ScheduleResult<T> {
+  date: string;
+  ok: boolean;
+  /** First failure message for the date */
+  error?: string;
+  /** Requests that did not go through, kept so a retry doesn't resend the rest */
+  failed: T[];
+}
+
+/**
+ * Send every batch in order, one request at a time
+ * A failure is recorded against its date and sending carries on with the next request.
+ * @param send - Posts one request; anything but a 200 response counts as failed
+ */
+export async function sendScheduled<T>(
+  batches: ScheduleBatch<T>[],
+  send: (request: T) => Promise<{ status: number; message?: string }>
+): Promise<ScheduleResult<T>[]> {
+  const results: ScheduleResult<T>[] = [];
+  for (const batch of batches) {
+    const failed: T[] = [];
+    let error: string | undefined;
+    for (const request of batch.requests) {
+      try {
+        const response = await send(request);
+        if (response.status !== 200) {
+          failed.push(request);
+          error ??= response.message || `Request failed (${response.status})`;
+        }
+      } catch (err) {
+        failed.push(request);
+        error ??= err instanceof Error ? err.message : "Request failed";
+      }
+    }
+    results.push({ date: batch.date, ok: failed.length === 0, error, failed });
+  }
+  return results;
+}
+
+/**
+ * Resend only what failed last time
+ * @returns The previous results with the retried dates replaced
+ */
+export async function retryScheduled<T>(
+  results: ScheduleResult<T>[],
+  send: (request: T) => Promise<{ status: number; message?: string }>
+): Promise<ScheduleResult<T>[]> {
+  const retried = await sendScheduled(
+    results.filter((result) => !result.ok).map((result) => ({ date: result.date, requests: result.failed })),
+    send
+  );
+  const byDate = new Map(retried.map((result) => [result.date, result]));
+  return results.map((result) => byDate.get(result.date) ?? result);
+}
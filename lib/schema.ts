@@ -0,0 +1,152 @@
+/**
+ * Schema Primitives
+ * Small runtime validators used to normalize GooseNet API payloads
+ *
+ * Object schemas read both camelCase and PascalCase keys, since the backend
+ * is inconsistent about casing (workoutName vs WorkoutName).
+ */
+
+/**
+ * A schema validates an unknown value and returns a typed, normalized value
+ * @param value - Raw value (e.g. from a response body or storage)
+ * @param path - Location of the value, used in error messages
+ */
+export type Schema<T> = (value: unknown, path?: string) => T;
+
+type Infer<S> = S extends Schema<infer T> ? T : never;
+
+/**
+ * Error raised when a value does not match its schema
+ */
+export class SchemaError extends Error {
+  readonly path: string;
+
+  constructor(path: string, expected: string, received: unknown) {
+    super(`expected ${expected} at ${path}, got ${describeValue(received)}`);
+    this.name = "SchemaError";
+    this.path = path;
+  }
+}
+
+function describeValue(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "string") return `string "${value.length > 40 ? `${value.slice(0, 40)}…` : value}"`;
+  return typeof value;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Read a key in camelCase or PascalCase
+ */
+function readKey(source: Record<string, unknown>, key: string): unknown {
+  if (source[key] !== undefined) return source[key];
+  const pascal = key.charAt(0).toUpperCase() + key.slice(1);
+  return source[pascal];
+}
+
+export const string: Schema<string> = (value, path = "value") => {
+  if (typeof value !== "string") throw new SchemaError(path, "string", value);
+  return value;
+};
+
+/**
+ * Number schema - also accepts numeric strings (e.g. workoutId "123")
+ */
+export const number: Schema<number> = (value, path = "value") => {
+  if (typeof value === "number" && Number.isFinite(value)) return value;
+  if (typeof value === "string" && value.trim() !== "" && Number.isFinite(Number(value))) {
+    return Number(value);
+  }
+  throw new SchemaError(path, "number", value);
+};
+
+export const boolean: Schema<boolean> = (value, path = "value") => {
+  if (typeof value !== "boolean") throw new SchemaError(path, "boolean", value);
+  return value;
+};
+
+/**
+ * Id schema - ids come back as strings or numbers; normalized to a string
+ */
+export const id: Schema<string> = (value, path = "value") => {
+  if (typeof value === "number" && Number.isFinite(value)) return String(value);
+  if (typeof value !== "string") throw new SchemaError(path, "string or number", value);
+  return value;
+};
+
+/**
+ * Use fallback when the value is missing (undefined or null)
+ */
+export function optional<T>(schema: Schema<T>, fallback: T): Schema<T> {
+  return (value, path) => (value === undefined || value === null ? fallback : schema(value, path));
+}
+
+/**
+ * Allow null (missing values are normalized to null)
+ */
+export function nullable<T>(schema: Schema<T>): Schema<T | null> {
+  return (value, path) => (value === undefined || value === null ? null : schema(value, path));
+}
+
+export function array<T>(item: Schema<T>): Schema<T[]> {
+  return (value, path = "value") => {
+    if (!Array.isArray(value)) throw new SchemaError(path, "array", value);
+    return value.map((entry, index) => item(entry, `${path}[${index}]`));
+  };
+}
+
+export function record<T>(item: Schema<T>): Schema<Record<string, T>> {
+  return (value, path = "value") => {
+    if (!isRecord(value)) throw new SchemaError(path, "object", value);
+    const result: Record<string, T> = {};
+    for (const [key, entry] of Object.entries(value)) {
+      result[key] = item(entry, `${path}.${key}`);
+    }
+    return result;
+  };
+}
+
+/**
+ * Object schema
+ * Each key is read in camelCase or PascalCase; aliases list extra legacy key names
+ */
+export function object<S extends Record<string, Schema<unknown>>>(
+  shape: S,
+  aliases: { [K in keyof S]?: string[] } = {}
+): Schema<{ [K in keyof S]: Infer<S[K]> }> {
+  return (value, path = "value") => {
+    if (!isRecord(value)) throw new SchemaError(path, "object", value);
+    const result = {} as { [K in keyof S]: Infer<S[K]> };
+    for (const key of Object.keys(shape) as (keyof S & string)[]) {
+      let raw = readKey(value, key);
+      for (const alias of aliases[key] ?? []) {
+        if (raw !== undefined && raw !== null) break;
+        raw = readKey(value, alias);
+      }
+      result[key] = shape[key](raw, `${path}.${key}`) as Infer<S[typeof key]>;
+    }
+    return result;
+  };
+}
+
+/**
+ * A list returned either bare or wrapped in one of the given keys
+ * e.g. listOf(athlete, "athletesData", "athletes") accepts [..] or { athletesData: [..] }
+ */
+export function listOf<T>(item: Schema<T>, ...keys: string[]): Schema<T[]> {
+  const list = array(item);
+  return (value, path = "value") => {
+    if (Array.isArray(value)) return list(value, path);
+    if (isRecord(value)) {
+      for (const key of keys) {
+        const wrapped = readKey(value, key);
+        if (wrapped !== undefined && wrapped !== null) return list(wrapped, `${path}.${key}`);
+      }
+    }
+    throw new SchemaError(path, `array or object with ${keys.join("/")}`, value);
+  };
+}
@@ -0,0 +1,105 @@
+/**
+ * Session Restore Helpers
+ * Keep the user's place (page and unsaved form state) across a re-login
+ *
+ * When the session ends, the auth layer dispatches SESSION_ENDING_EVENT so
+ * pages can snapshot their state, then remembers the current path. After the
+ * user signs in again, the login flow returns to that path and the page
+ * restores its snapshot. Everything lives in sessionStorage (this tab only).
+ */
+
+const RETURN_PATH_KEY = "goosenet_return_path";
+const SNAPSHOT_PREFIX = "goosenet_snapshot:";
+
+/** Fired on window right before the session is cleared */
+export const SESSION_ENDING_EVENT = "goosenet:session-ending";
+
+function storage(): Storage | null {
+  if (typeof window === "undefined") return null;
+  try {
+    return window.sessionStorage;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Only same-origin paths are allowed, so a crafted ?returnUrl= cannot
+ * send the user to another site after login
+ */
+export function isSafeReturnPath(path: string | null | undefined): path is string {
+  return !!path && path.startsWith("/") && !path.startsWith("//") && !path.startsWith("/login");
+}
+
+/**
+ * Remember where to send the user after they sign in again
+ * @param path - Defaults to the current path and query string
+ */
+export function rememberReturnPath(path?: string): void {
+  const target = path ?? (typeof window !== "undefined" ? window.location.pathname + window.location.search : undefined);
+  if (!isSafeReturnPath(target)) return;
+  storage()?.setItem(RETURN_PATH_KEY, target);
+}
+
+/**
+ * Read the remembered return path without forgetting it
+ */
+export function peekReturnPath(): string | null {
+  const path = storage()?.getItem(RETURN_PATH_KEY) ?? null;
+  return isSafeReturnPath(path) ? path : null;
+}
+
+/**
+ * Forget the remembered return path
+ */
+export function clearReturnPath(): void {
+  storage()?.removeItem(RETURN_PATH_KEY);
+}
+
+/**
+ * Read and forget the remembered return path
+ */
+export function takeReturnPath(): string | null {
+  const path = peekReturnPath();
+  clearReturnPath();
+  return path;
+}
+
+/**
+ * Let pages snapshot their state, then remember the current path
+ * Call right before clearing the session and redirecting to /login
+ */
+export function notifySessionEnding(): void {
+  if (typeof window === "undefined") return;
+  window.dispatchEvent(new Event(SESSION_ENDING_EVENT));
+  rememberReturnPath();
+}
+
+/**
+ * Save page state to restore after re-login
+ * @param key - Page-specific key, e.g. "running-builder"
+ * @param data - JSON-serializable state
+ */
+export function savePageSnapshot(key: string, data: unknown): void {
+  try {
+    storage()?.setItem(SNAPSHOT_PREFIX + key, JSON.stringify(data));
+  } catch {
+    // Quota exceeded or unserializable state - nothing to restore then
+  }
+}
+
+/**
+ * Read and forget a saved page snapshot
+ * @param key - Page-specific key used with savePageSnapshot
+ */
+export function takePageSnapshot(key: string): unknown {
+  const store = storage();
+  const raw = store?.getItem(SNAPSHOT_PREFIX + key);
+  if (!raw) return undefined;
+  store?.removeItem(SNAPSHOT_PREFIX + key);
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,84 @@
+/**
+ * Session Sync
+ * Broadcasts login / logout / refresh events to other open GooseNet tabs
+ *
+ * Uses BroadcastChannel where available and falls back to localStorage
+ * "storage" events. Neither delivers to the tab that sent the event.
+ */
+
+export type SessionEvent =
+  | { type: "login" }
+  | { type: "logout"; reason: "user" | "expired" }
+  | { type: "user-refresh" }
+  | { type: "token-refresh" };
+
+type SessionEventListener = (event: SessionEvent) => void;
+
+const CHANNEL_NAME = "goosenet-session";
+const STORAGE_KEY = "goosenet_session_event";
+
+let channel: BroadcastChannel | null | undefined;
+
+function getChannel(): BroadcastChannel | null {
+  if (channel === undefined) {
+    channel = typeof BroadcastChannel !== "undefined" ? new BroadcastChannel(CHANNEL_NAME) : null;
+  }
+  return channel;
+}
+
+function isSessionEvent(value: unknown): value is SessionEvent {
+  if (typeof value !== "object" || value === null) return false;
+  const type = (value as { type?: unknown }).type;
+  return type === "login" || type === "logout" || type === "user-refresh" || type === "token-refresh";
+}
+
+/**
+ * Tell the other tabs about a session change
+ * @param event - What happened in this tab
+ */
+export function broadcastSessionEvent(event: SessionEvent): void {
+  if (typeof window === "undefined") return;
+
+  const bc = getChannel();
+  if (bc) {
+    bc.postMessage(event);
+    return;
+  }
+
+  try {
+    // The timestamp makes repeated identical events still count as a change
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...event, at: Date.now() }));
+    localStorage.removeItem(STORAGE_KEY);
+  } catch {
+    // Storage unavailable (private mode) - other tabs catch up on their next request
+  }
+}
+
+/**
+ * Listen for session changes made in other tabs
+ * @returns Function that stops listening
+ */
+export function subscribeToSessionEvents(listener: SessionEventListener): () => void {
+  if (typeof window === "undefined") return () => {};
+
+  const bc = getChannel();
+  if (bc) {
+    const handleMessage = (message: MessageEvent) => {
+      if (isSessionEvent(message.data)) listener(message.data);
+    };
+    bc.addEventListener("message", handleMessage);
+    return () => bc.removeEventListener("message", handleMessage);
+  }
+
+  const handleStorage = (e: StorageEvent) => {
+    if (e.key !== STORAGE_KEY || !e.newValue) return;
+    try {
+      const event: unknown = JSON.parse(e.newValue);
+      if (isSessionEvent(event)) listener(event);
+    } catch {
+      // Ignore malformed values
+    }
+  };
+  window.addEventListener("storage", handleStorage);
+  return () => window.removeEventListener("storage", handleStorage);
+}
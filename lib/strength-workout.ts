@@ -0,0 +1,401 @@
+/**
+ * Strength Workout Builder Model
+ * Drills as edited in the strength builder, their prescription text, the
+ * strength workout JSON, and athlete set logs compared to the prescription
+ */
+
+import type { DrillLoadUnit, DrillLog, LoggedSet, WorkoutDrill } from "./domain";
+import { generateId } from "./running-workout";
+
+/** A drill in the builder; the rep scheme is kept as typed until it is sent */
+export interface StrengthDrill extends Omit<WorkoutDrill, "drillRepScheme"> {
+  id: string;
+  /** e.g. "5/3/1", blank when every set is drillReps; see parseRepScheme */
+  drillRepScheme: string;
+}
+
+/** Body sent to /api/strength/addWorkout and updateWorkout */
+export interface StrengthWorkoutJson {
+  WorkoutName: string;
+  WorkoutDescription: string;
+  /** MM/dd/yyyy */
+  WorkoutDate: string;
+  WorkoutDrills: {
+    DrillName: string;
+    DrillExerciseId: string;
+    DrillSets: number;
+    DrillReps: number;
+    DrillRepScheme: number[];
+    DrillHoldSeconds: number;
+    DrillLoad: number | null;
+    DrillLoadUnit: DrillLoadUnit;
+    DrillRpe: number | null;
+    DrillTempo: string;
+    DrillRestSeconds: number | null;
+    DrillGroup: string;
+  }[];
+}
+
+export const LOAD_UNITS: { value: DrillLoadUnit; label: string }[] = [
+  { value: "kg", label: "kg" },
+  { value: "percent1rm", label: "% 1RM" },
+];
+
+/** Superset/circuit labels offered in the builder */
+export const DRILL_GROUPS = ["A", "B", "C", "D", "E", "F"];
+
+/** Default hold when a drill is switched to a timed hold */
+export const DEFAULT_HOLD_SECONDS = 30;
+
+/** Four phases of seconds or "X", e.g. "3-1-1-0" or "2-0-X-0" */
+const TEMPO_PATTERN = /^([0-9]|X)-([0-9]|X)-([0-9]|X)-([0-9]|X)$/i;
+
+export function createDrill(): StrengthDrill {
+  return {
+    id: generateId(),
+    drillName: "",
+    drillExerciseId: "",
+    drillSets: 1,
+    drillReps: 1,
+    drillRepScheme: "",
+    drillHoldSeconds: 0,
+    drillLoad: null,
+    drillLoadUnit: "kg",
+    drillRpe: null,
+    drillTempo: "",
+    drillRestSeconds: null,
+    drillGroup: "",
+  };
+}
+
+/**
+ * Builder drill for a saved one
+ */
+export function toStrengthDrill(drill: WorkoutDrill): StrengthDrill {
+  return { ...drill, id: generateId(), drillRepScheme: drill.drillRepScheme.join("/") };
+}
+
+/**
+ * Parse a per-set rep scheme ("5/3/1", "5, 3, 1" or "5 3 1")
+ * @returns Reps per set ([] for blank), or null if any part isn't a positive whole number
+ */
+export function parseRepScheme(text: string): number[] | null {
+  const parts = text.split(/[\s,/]+/).filter(Boolean);
+  const reps = parts.map(Number);
+  return reps.every((value) => Number.isInteger(value) && value >= 1) ? reps : null;
+}
+
+export function isValidTempo(tempo: string): boolean {
+  return TEMPO_PATTERN.test(tempo.trim());
+}
+
+/**
+ * Saved drill for a builder drill (its rep scheme must already be valid)
+ */
+export function toWorkoutDrill(drill: StrengthDrill): WorkoutDrill {
+  const scheme = drill.drillHoldSeconds > 0 ? [] : (parseRepScheme(drill.drillRepScheme) ?? []);
+  return {
+    drillName: drill.drillName.trim(),
+    drillExerciseId: drill.drillExerciseId,
+    // A scheme sets the number of sets; drillReps stays as its first set for older clients
+    drillSets: scheme.length > 0 ? scheme.length : drill.drillSets,
+    drillReps: scheme.length > 0 ? scheme[0] : drill.drillReps,
+    drillRepScheme: scheme,
+    drillHoldSeconds: drill.drillHoldSeconds,
+    drillLoad: drill.drillLoad,
+    drillLoadUnit: drill.drillLoadUnit,
+    drillRpe: drill.drillRpe,
+    drillTempo: drill.drillTempo.trim().toUpperCase(),
+    drillRestSeconds: drill.drillRestSeconds,
+    drillGroup: drill.drillGroup,
+  };
+}
+
+export function buildStrengthJson(
+  workoutName: string,
+  workoutDescription: string,
+  workoutDate: string,
+  drills: WorkoutDrill[]
+): StrengthWorkoutJson {
+  return {
+    WorkoutName: workoutName,
+    WorkoutDescription: workoutDescription || "",
+    WorkoutDate: workoutDate,
+    WorkoutDrills: drills.map((drill) => ({
+      DrillName: drill.drillName,
+      DrillExerciseId: drill.drillExerciseId,
+      DrillSets: drill.drillSets,
+      DrillReps: drill.drillReps,
+      DrillRepScheme: drill.drillRepScheme,
+      DrillHoldSeconds: drill.drillHoldSeconds,
+      DrillLoad: drill.drillLoad,
+      DrillLoadUnit: drill.drillLoadUnit,
+      DrillRpe: drill.drillRpe,
+      DrillTempo: drill.drillTempo,
+      DrillRestSeconds: drill.drillRestSeconds,
+      DrillGroup: drill.drillGroup,
+    })),
+  };
+}
+
+/**
+ * Reps in each set (holds have none)
+ */
+export function setReps(drill: WorkoutDrill): number[] {
+  if (drill.drillHoldSeconds > 0) return [];
+  if (drill.drillRepScheme.length > 0) return drill.drillRepScheme;
+  return Array.from({ length: drill.drillSets }, () => drill.drillReps);
+}
+
+export function countReps(drills: WorkoutDrill[]): number {
+  return drills.reduce((total, drill) => total + setReps(drill).reduce((sum, reps) => sum + reps, 0), 0);
+}
+
+/**
+ * "45s", "2 min" or "1 min 30s"
+ */
+export function formatSeconds(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  const rest = seconds % 60;
+  if (minutes === 0) return `${rest}s`;
+  return rest === 0 ? `${minutes} min` : `${minutes} min ${rest}s`;
+}
+
+/**
+ * "60 kg" or "75% 1RM", blank without a load
+ */
+export function formatLoad(drill: Pick<WorkoutDrill, "drillLoad" | "drillLoadUnit">): string {
+  if (drill.drillLoad === null) return "";
+  return drill.drillLoadUnit === "percent1rm" ? `${drill.drillLoad}% 1RM` : `${drill.drillLoad} kg`;
+}
+
+/**
+ * Sets and reps: "3 × 10", "5/3/1" or "3 × 30s hold"
+ */
+export function formatVolume(drill: WorkoutDrill): string {
+  if (drill.drillHoldSeconds > 0) return `${drill.drillSets} × ${formatSeconds(drill.drillHoldSeconds)} hold`;
+  if (drill.drillRepScheme.length > 0) return drill.drillRepScheme.join("/");
+  return `${drill.drillSets} × ${drill.drillReps}`;
+}
+
+/**
+ * Effort, tempo and rest, each as a short label ("RPE 8", "tempo 3-1-1-0", "rest 90s")
+ */
+export function prescriptionDetails(drill: WorkoutDrill): string[] {
+  const details: string[] = [];
+  if (drill.drillRpe !== null) details.push(`RPE ${drill.drillRpe}`);
+  if (drill.drillTempo) details.push(`tempo ${drill.drillTempo}`);
+  if (drill.drillRestSeconds !== null) details.push(`rest ${formatSeconds(drill.drillRestSeconds)}`);
+  return details;
+}
+
+/**
+ * One-line prescription for feed cards, e.g. "3 × 5 @ 75% 1RM · RPE 8 · rest 2 min"
+ */
+export function formatDrillPrescription(drill: WorkoutDrill): string {
+  const load = formatLoad(drill);
+  const volume = load ? `${formatVolume(drill)} @ ${load}` : formatVolume(drill);
+  return [volume, ...prescriptionDetails(drill)].join(" · ");
+}
+
+export interface DrillGroup<T> {
+  /** Shared group label, "" for a drill on its own */
+  label: string;
+  kind: "single" | "superset" | "circuit";
+  drills: T[];
+}
+
+/**
+ * Split drills into runs sharing a group label, in order
+ * A label on a single drill, or split by another drill, doesn't form a group.
+ */
+export function groupDrills<T extends Pick<WorkoutDrill, "drillGroup">>(drills: T[]): DrillGroup<T>[] {
+  const groups: DrillGroup<T>[] = [];
+  for (const drill of drills) {
+    const last = groups[groups.length - 1];
+    if (drill.drillGroup && last && last.label === drill.drillGroup) {
+      last.drills.push(drill);
+    } else {
+      groups.push({ label: drill.drillGroup, kind: "single", drills: [drill] });
+    }
+  }
+  return groups.map((group) =>
+    group.drills.length === 1
+      ? { ...group, kind: "single" }
+      : { ...group, kind: group.drills.length === 2 ? "superset" : "circuit" }
+  );
+}
+
+/**
+ * Position of each drill in its superset or circuit ("A1", "A2", …), "" for drills on their own
+ */
+export function drillGroupLabels(drills: Pick<WorkoutDrill, "drillGroup">[]): string[] {
+  return groupDrills(drills).flatMap((group) =>
+    group.kind === "single" ? [""] : group.drills.map((_, position) => `${group.label}${position + 1}`)
+  );
+}
+
+/**
+ * Label of a group whose drills aren't next to each other, if any
+ */
+export function splitGroupLabel(drills: Pick<WorkoutDrill, "drillGroup">[]): string | null {
+  const seen = new Set<string>();
+  for (const group of groupDrills(drills)) {
+    if (!group.label) continue;
+    if (seen.has(group.label)) return group.label;
+    seen.add(group.label);
+  }
+  return null;
+}
+
+// ==================== Athlete set logs ====================
+
+/** How a logged set compares to the prescribed one */
+export type SetOutcome = "done" | "short" | "skipped" | "missing" | "extra";
+
+export interface SetComparison {
+  /** Prescribed reps (or hold seconds), null for a set beyond the prescription */
+  target: number | null;
+  set: LoggedSet | null;
+  outcome: SetOutcome;
+}
+
+export interface Compliance {
+  prescribedSets: number;
+  /** Prescribed sets logged as done, in full or not */
+  completedSets: number;
+  skippedSets: number;
+  /** Share of the prescribed work done, 0-100; each set counts up to its target */
+  percent: number;
+}
+
+/**
+ * Target for each prescribed set: reps, or seconds for a timed hold
+ */
+export function setTargets(drill: WorkoutDrill): number[] {
+  if (drill.drillHoldSeconds > 0) return Array.from({ length: drill.drillSets }, () => drill.drillHoldSeconds);
+  return setReps(drill);
+}
+
+export function blankSet(): LoggedSet {
+  return { reps: null, load: null, rpe: null, skipped: false };
+}
+
+/**
+ * Key for each drill that survives the coach reordering, adding or removing drills
+ * The library exercise (or the name when there's none), numbered when a workout repeats it.
+ */
+export function drillKeys(drills: Pick<WorkoutDrill, "drillName" | "drillExerciseId">[]): string[] {
+  const seen = new Map<string, number>();
+  return drills.map((drill) => {
+    const base = drill.drillExerciseId || `name:${drill.drillName.trim().toLowerCase()}`;
+    const count = (seen.get(base) ?? 0) + 1;
+    seen.set(base, count);
+    return count === 1 ? base : `${base}#${count}`;
+  });
+}
+
+/**
+ * Saved logs lined up with the current drills
+ * @returns Sets for each drill ([] when not logged) and logs whose drill is no longer in the workout
+ */
+export function matchDrillLogs(
+  drills: WorkoutDrill[],
+  logs: DrillLog[]
+): { sets: LoggedSet[][]; unmatched: DrillLog[] } {
+  const byKey = new Map(logs.map((log) => [log.drillKey, log]));
+  const keys = drillKeys(drills);
+  const sets = keys.map((key) => byKey.get(key)?.sets ?? []);
+  const current = new Set(keys);
+  return { sets, unmatched: logs.filter((log) => !current.has(log.drillKey)) };
+}
+
+/**
+ * Logs to save for the sets entered against each drill
+ */
+export function toDrillLogs(drills: WorkoutDrill[], sets: LoggedSet[][]): DrillLog[] {
+  const keys = drillKeys(drills);
+  return drills.map((drill, index) => ({ drillKey: keys[index], drillName: drill.drillName, sets: sets[index] ?? [] }));
+}
+
+/**
+ * Sets to edit for each drill, a row per prescribed set unless the athlete logged it before
+ */
+export function createDrillLogs(drills: WorkoutDrill[], existing: DrillLog[] = []): LoggedSet[][] {
+  const { sets } = matchDrillLogs(drills, existing);
+  return drills.map((drill, index) => (sets[index].length > 0 ? sets[index] : setTargets(drill).map(() => blankSet())));
+}
+
+/**
+ * Every set done exactly as prescribed; a %1RM load is left for the athlete to fill in
+ */
+export function asPrescribed(drill: WorkoutDrill): LoggedSet[] {
+  const load = drill.drillLoadUnit === "kg" ? drill.drillLoad : null;
+  return setTargets(drill).map((target) => ({ reps: target, load, rpe: null, skipped: false }));
+}
+
+export function isSetLogged(set: LoggedSet): boolean {
+  return set.skipped || set.reps !== null;
+}
+
+export function hasLoggedSets(logs: LoggedSet[][]): boolean {
+  return logs.some((sets) => sets.some(isSetLogged));
+}
+
+/**
+ * What's wrong with a logged set, if anything (skipped sets aren't checked)
+ */
+export function loggedSetProblem(set: LoggedSet): string | null {
+  if (set.skipped) return null;
+  if (set.reps !== null && (!Number.isInteger(set.reps) || set.reps < 0)) {
+    return "Reps must be a whole number of 0 or more";
+  }
+  if (set.load !== null && set.load <= 0) return "Load must be more than 0 kg";
+  if (set.rpe !== null && (set.rpe < 1 || set.rpe > 10)) return "RPE must be between 1 and 10";
+  return null;
+}
+
+/**
+ * Each prescribed set next to the logged one, then any extra sets the athlete logged
+ */
+export function compareSets(drill: WorkoutDrill, sets: LoggedSet[]): SetComparison[] {
+  const targets = setTargets(drill);
+  const comparisons: SetComparison[] = [];
+  for (let index = 0; index < Math.max(targets.length, sets.length); index++) {
+    const target = targets[index] ?? null;
+    const set = sets[index] && isSetLogged(sets[index]) ? sets[index] : null;
+    if (target === null) {
+      // Blank rows added past the prescription aren't worth showing
+      if (set && !set.skipped) comparisons.push({ target, set, outcome: "extra" });
+      continue;
+    }
+    let outcome: SetOutcome = "missing";
+    if (set?.skipped) outcome = "skipped";
+    else if (set) outcome = (set.reps ?? 0) >= target ? "done" : "short";
+    comparisons.push({ target, set, outcome });
+  }
+  return comparisons;
+}
+
+/**
+ * How much of the prescription an athlete's log covers
+ */
+export function workoutCompliance(drills: WorkoutDrill[], logs: LoggedSet[][]): Compliance {
+  let prescribedSets = 0;
+  let completedSets = 0;
+  let skippedSets = 0;
+  let work = 0;
+  drills.forEach((drill, index) => {
+    for (const { target, set, outcome } of compareSets(drill, logs[index] ?? [])) {
+      if (target === null) continue;
+      prescribedSets++;
+      if (outcome === "skipped") skippedSets++;
+      if (outcome === "done" || outcome === "short") {
+        completedSets++;
+        work += target > 0 ? Math.min(1, (set?.reps ?? 0) / target) : 1;
+      }
+    }
+  });
+  const percent = prescribedSets > 0 ? Math.round((work / prescribedSets) * 100) : 0;
+  return { prescribedSets, completedSets, skippedSets, percent };
+}
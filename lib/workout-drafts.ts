@@ -0,0 +1,107 @@
+/**
+ * Workout Drafts
+ * Unsent builder state, autosaved per coach (localStorage) so a reload doesn't lose it
+ *
+ * A draft is keyed by builder and target ("running?athlete=noa_runs"), so
+ * each athlete or flock has at most one draft per builder. Unlike the
+ * session-restore snapshots these survive closing the tab, and are listed
+ * on the workout type page until sent or discarded.
+ */
+
+import { createLocalStore } from "./local-store";
+
+/** A coach's drafts, for useLocalStoreSnapshot */
+export const draftsStore = createLocalStore("goosenet_workout_drafts:", "goosenet:drafts-changed");
+
+export type DraftKind = "running" | "strength";
+
+export interface WorkoutDraft<T = unknown> {
+  /** Builder and target, see draftKey */
+  key: string;
+  kind: DraftKind;
+  /** Athlete or flock the workout is for, for listing */
+  targetLabel: string;
+  /** Builder URL that reopens the draft */
+  href: string;
+  workoutName: string;
+  /** The builder's own JSON-serializable state */
+  state: T;
+  updatedAt: number;
+}
+
+function isDraft(value: unknown): value is WorkoutDraft {
+  if (typeof value !== "object" || value === null) return false;
+  const draft = value as Partial<WorkoutDraft>;
+  return (
+    typeof draft.key === "string" &&
+    (draft.kind === "running" || draft.kind === "strength") &&
+    typeof draft.href === "string" &&
+    typeof draft.updatedAt === "number" &&
+    draft.state !== undefined
+  );
+}
+
+/**
+ * Draft key for a builder opened with the given query string
+ * Only the target is part of the key, so e.g. an athlete's image param doesn't split drafts.
+ */
+export function draftKey(kind: DraftKind, params: URLSearchParams): string {
+  const target = new URLSearchParams();
+  const flock = params.get("flock");
+  const athlete = params.get("athlete");
+  if (flock) target.set("flock", flock);
+  else if (athlete) target.set("athlete", athlete);
+  return `${kind}?${target.toString()}`;
+}
+
+/**
+ * Parse a draftsStore snapshot, most recently updated first
+ */
+export function parseDrafts(raw: string | null): WorkoutDraft[] {
+  if (!raw) return [];
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed.filter(isDraft).sort((a, b) => b.updatedAt - a.updatedAt) : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * A coach's drafts, most recently updated first
+ * @param ownerName - Owner of the drafts
+ */
+export function listDrafts(ownerName: string): WorkoutDraft[] {
+  return parseDrafts(draftsStore.readSnapshot(ownerName));
+}
+
+function write(ownerName: string, drafts: WorkoutDraft[]): void {
+  try {
+    draftsStore.write(ownerName, drafts);
+  } catch {
+    // Storage full or unavailable - the draft is simply not kept
+  }
+}
+
+/**
+ * Create or replace the draft with the same key
+ */
+export function saveDraft<T>(ownerName: string, draft: Omit<WorkoutDraft<T>, "updatedAt">): void {
+  const others = listDrafts(ownerName).filter((existing) => existing.key !== draft.key);
+  write(ownerName, [{ ...draft, updatedAt: Date.now() }, ...others]);
+}
+
+export function deleteDraft(ownerName: string, key: string): void {
+  const drafts = listDrafts(ownerName);
+  if (!drafts.some((draft) => draft.key === key)) return;
+  write(ownerName, drafts.filter((draft) => draft.key !== key));
+}
+
+/**
+ * Who a builder opened with the given query string is planning for
+ */
+export function draftTargetLabel(params: URLSearchParams): string {
+  const flock = params.get("flock");
+  if (flock) return `Flock: ${flock}`;
+  return params.get("athlete") || "No athlete";
+}
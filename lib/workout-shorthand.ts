@@ -0,0 +1,361 @@
+/**
+ * Running Workout Shorthand
+ * Parse and write the text notation coaches use in chats and spreadsheets
+ *
+ *   15' WU; 5x(1k @ 3:40-3:45, 2' jog); 10' CD
+ *
+ * Items are separated by ";", "," or new lines. "Nx(…)" repeats a group
+ * (one level of nesting), "Nx step" repeats a single step. A step is a
+ * length (15', 90", 1'30", 20min, 400m, 1.5k, or "lap" for the lap
+ * button), an optional type (WU, CD, jog/rec, rest; run by default; a
+ * describing word may come with it, as in "2' easy jog") and an optional
+ * target after "@": a pace (3:40 or 3:40-3:45), an athlete pace zone (E,
+ * M, T, I, R or the zone name), a heart-rate zone (Z3), or a bpm / W / spm
+ * range (140-155bpm).
+ */
+
+import {
+  createRepeatBlock,
+  generateId,
+  isRepeatBlock,
+  MAX_REPEAT_DEPTH,
+  minutesToPaceString,
+  paceStringToMinutes,
+  stepTargetKind,
+  type Step,
+  type StepType,
+  type TargetKind,
+  type WorkoutItem,
+} from "./running-workout";
+import { PACE_ZONES, paceZone } from "./pace-zones";
+
+/**
+ * Error raised for shorthand that cannot be parsed
+ * start/end are character offsets into the input, for highlighting
+ */
+export class ShorthandError extends Error {
+  readonly start: number;
+  readonly end: number;
+
+  constructor(message: string, start: number, end: number) {
+    super(message);
+    this.name = "ShorthandError";
+    this.start = start;
+    this.end = Math.max(end, start + 1);
+  }
+}
+
+// ==================== Parsing ====================
+
+const TYPE_WORDS = new Map<string, StepType>(Object.entries({
+  wu: "warmup",
+  warmup: "warmup",
+  "warm-up": "warmup",
+  cd: "cooldown",
+  cooldown: "cooldown",
+  "cool-down": "cooldown",
+  jog: "recovery",
+  rec: "recovery",
+  recovery: "recovery",
+  float: "recovery",
+  rest: "rest",
+  walk: "rest",
+  run: "run",
+  easy: "run",
+  tempo: "run",
+  steady: "run",
+}));
+
+const OPEN_WORDS = new Set(["lap", "open"]);
+
+const SEPARATORS = new Set([";", ",", "\n"]);
+
+/** A length followed by its unit; longer unit names are tried first */
+const DURATION_PATTERN =
+  /(\d+(?:\.\d+)?)\s*(minutes|mins|min|seconds|secs|sec|hours|hrs|hr|h|s|km|k|meters|metres|m|'|′|"|″)(?:\s*(\d{1,2})\s*(?:"|″))?(?![a-z])/i;
+
+const RANGE_UNITS: Record<string, TargetKind> = { bpm: "hrRange", w: "power", spm: "cadence" };
+
+const RANGE_SUFFIX: Partial<Record<TargetKind, string>> = { hrRange: "bpm", power: "W", cadence: "spm" };
+
+type Duration = Pick<Step, "durationType" | "durationUnit" | "durationValue">;
+
+function parseDuration(value: number, unit: string, extraSeconds: number | null): Duration | null {
+  switch (unit.toLowerCase()) {
+    case "'":
+    case "′":
+    case "min":
+    case "mins":
+    case "minutes":
+      return extraSeconds === null
+        ? { durationType: "time", durationUnit: "minutes", durationValue: value }
+        : { durationType: "time", durationUnit: "seconds", durationValue: value * 60 + extraSeconds };
+    case '"':
+    case "″":
+    case "s":
+    case "sec":
+    case "secs":
+    case "seconds":
+      return { durationType: "time", durationUnit: "seconds", durationValue: value };
+    case "h":
+    case "hr":
+    case "hrs":
+    case "hours":
+      return { durationType: "time", durationUnit: "minutes", durationValue: value * 60 };
+    case "k":
+    case "km":
+      return { durationType: "distance", durationUnit: "kilometers", durationValue: value };
+    case "m":
+    case "meters":
+    case "metres":
+      return { durationType: "distance", durationUnit: "meters", durationValue: value };
+    default:
+      return null;
+  }
+}
+
+function parseTarget(text: string, start: number, end: number): Partial<Step> {
+  const target = text.trim().replace(/\s*\/\s*km$/i, "");
+
+  const lower = target.toLowerCase();
+  const athleteZone = PACE_ZONES.find((zone) => zone.short.toLowerCase() === lower || zone.id === lower);
+  if (athleteZone) return { targetKind: "paceZone", targetPaceZone: athleteZone.id };
+
+  const zone = target.match(/^(?:hr\s*)?z(?:one)?\s*([1-5])$/i);
+  if (zone) return { targetKind: "hrZone", targetZone: parseInt(zone[1], 10) };
+
+  const range = target.match(/^(\d+)(?:\s*(?:-|–|to)\s*(\d+))?\s*(bpm|w|spm)$/i);
+  if (range) {
+    const low = parseInt(range[1], 10);
+    const high = range[2] ? parseInt(range[2], 10) : low;
+    return {
+      targetKind: RANGE_UNITS[range[3].toLowerCase()],
+      targetLow: Math.min(low, high),
+      targetHigh: Math.max(low, high),
+    };
+  }
+
+  const pace = target.match(/^(\d+:\d{2})(?:\s*(?:-|–)\s*(\d+:\d{2}))?$/);
+  if (pace) {
+    const first = paceStringToMinutes(pace[1]);
+    const second = pace[2] ? paceStringToMinutes(pace[2]) : null;
+    if (first === null || (pace[2] && second === null)) {
+      throw new ShorthandError(`Invalid pace "${target}"`, start, end);
+    }
+    if (second === null) {
+      return { targetKind: "pace", paceMode: "specific", paceMinPerKm: first, paceString: pace[1] };
+    }
+    const [low, high] = first <= second ? [pace[1], pace[2]] : [pace[2], pace[1]];
+    return {
+      targetKind: "pace",
+      paceMode: "range",
+      paceMinPerKmLow: Math.min(first, second),
+      paceMinPerKmHigh: Math.max(first, second),
+      paceStringLow: low,
+      paceStringHigh: high,
+    };
+  }
+
+  throw new ShorthandError(`Unknown target "${target}" (try 3:40, 3:40-3:45, T, Z3 or 140-155bpm)`, start, end);
+}
+
+/**
+ * Parse one step, e.g. "1k @ 3:40-3:45", "2' jog" or "2' easy jog"
+ * @param offset - Position of the text in the full input
+ */
+function parseStep(text: string, offset: number): Step {
+  const end = offset + text.length;
+  const at = text.indexOf("@");
+  const left = at === -1 ? text : text.slice(0, at);
+  const target = at === -1 ? null : text.slice(at + 1);
+
+  let duration: Duration | null = null;
+  let rest = left;
+  const match = left.match(DURATION_PATTERN);
+  if (match && match.index !== undefined) {
+    duration = parseDuration(parseFloat(match[1]), match[2], match[3] ? parseInt(match[3], 10) : null);
+    rest = left.slice(0, match.index) + " " + left.slice(match.index + match[0].length);
+  }
+
+  let type: StepType | null = null;
+  const words = rest
+    .toLowerCase()
+    .replace(/\bwarm\s+up\b/g, "warmup")
+    .replace(/\bcool\s+down\b/g, "cooldown")
+    .split(/\s+/)
+    .filter(Boolean);
+  for (const word of words) {
+    if (OPEN_WORDS.has(word) && !duration) {
+      duration = { durationType: "open", durationUnit: undefined, durationValue: 0 };
+    } else if (TYPE_WORDS.has(word)) {
+      // Later words only describe the step, except that "easy jog" is a jog rather than a run
+      const wordType = TYPE_WORDS.get(word) ?? null;
+      if (!type || type === "run") type = wordType;
+    } else {
+      const index = offset + Math.max(text.toLowerCase().indexOf(word), 0);
+      const message = /^\d/.test(word) ? `Add a unit to "${word}" (', ", m or k)` : `Unexpected "${word}"`;
+      throw new ShorthandError(message, index, index + word.length);
+    }
+  }
+
+  if (!duration) {
+    throw new ShorthandError(`Missing length in "${text.trim()}" (e.g. 5', 90", 400m, 1k or lap)`, offset, end);
+  }
+
+  const stepType = type ?? "run";
+  const step: Step = { id: generateId(), type: stepType, ...duration, targetKind: "none" };
+  if (target !== null) {
+    const targetStart = offset + at + 1 + (target.length - target.trimStart().length);
+    if (stepType === "rest") {
+      throw new ShorthandError("Rest steps cannot have a target", targetStart, end);
+    }
+    Object.assign(step, parseTarget(target, targetStart, end));
+  }
+  return step;
+}
+
+/**
+ * Parse shorthand into builder items
+ * @throws ShorthandError with the offending character range
+ */
+export function parseShorthand(input: string): WorkoutItem[] {
+  let pos = 0;
+
+  const skipSpaces = () => {
+    while (pos < input.length && (input[pos] === " " || input[pos] === "\t" || input[pos] === "\r")) pos += 1;
+  };
+
+  const parseList = (depth: number, openedAt: number | null): WorkoutItem[] => {
+    const items: WorkoutItem[] = [];
+    for (;;) {
+      skipSpaces();
+      if (pos >= input.length) {
+        if (openedAt !== null) throw new ShorthandError("Missing closing )", openedAt, openedAt + 1);
+        return items;
+      }
+      const char = input[pos];
+      if (SEPARATORS.has(char)) {
+        pos += 1;
+        continue;
+      }
+      if (char === ")") {
+        if (openedAt === null) throw new ShorthandError("Unexpected )", pos, pos + 1);
+        if (items.length === 0) throw new ShorthandError("Empty repeat", openedAt, pos + 1);
+        pos += 1;
+        return items;
+      }
+      items.push(parseItem(depth));
+    }
+  };
+
+  const parseItem = (depth: number): WorkoutItem => {
+    const start = pos;
+    const repeat = input.slice(pos).match(/^(\d+)\s*[x×]\s*/i);
+    if (repeat) {
+      if (depth >= MAX_REPEAT_DEPTH) {
+        throw new ShorthandError("Repeats can only be nested one level deep", start, start + repeat[0].length);
+      }
+      const count = parseInt(repeat[1], 10);
+      if (count < 1) throw new ShorthandError("Repeat count must be at least 1", start, start + repeat[1].length);
+      pos += repeat[0].length;
+      const block = createRepeatBlock();
+      block.repeatCount = count;
+      if (input[pos] === "(") {
+        pos += 1;
+        block.steps = parseList(depth + 1, pos - 1);
+      } else {
+        block.steps = [parseItem(depth + 1)];
+      }
+      return block;
+    }
+
+    while (pos < input.length && !SEPARATORS.has(input[pos]) && input[pos] !== ")") {
+      if (input[pos] === "(") throw new ShorthandError('Unexpected ( — repeats are written "5x(…)"', pos, pos + 1);
+      pos += 1;
+    }
+    return parseStep(input.slice(start, pos), start);
+  };
+
+  return parseList(0, null);
+}
+
+// ==================== Writing ====================
+
+const TYPE_SHORTHAND: Record<StepType, string> = {
+  warmup: "WU",
+  run: "",
+  recovery: "jog",
+  rest: "rest",
+  cooldown: "CD",
+};
+
+function formatNumber(value: number): string {
+  return String(Number(value.toFixed(3)));
+}
+
+function formatStepLength(step: Step): string {
+  if (step.durationType === "open") return "lap";
+  const unit = step.durationUnit || (step.durationType === "time" ? "seconds" : "meters");
+  switch (unit) {
+    case "minutes":
+      return Number.isInteger(step.durationValue)
+        ? `${step.durationValue}'`
+        : formatSeconds(Math.round(step.durationValue * 60));
+    case "seconds":
+      return formatSeconds(step.durationValue);
+    case "kilometers":
+      return `${formatNumber(step.durationValue)}k`;
+    case "meters":
+      return step.durationValue >= 1000 && step.durationValue % 100 === 0
+        ? `${formatNumber(step.durationValue / 1000)}k`
+        : `${formatNumber(step.durationValue)}m`;
+  }
+}
+
+function formatSeconds(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  const remainder = Math.round(seconds - minutes * 60);
+  if (minutes === 0) return `${formatNumber(seconds)}"`;
+  return remainder === 0 ? `${minutes}'` : `${minutes}'${remainder.toString().padStart(2, "0")}"`;
+}
+
+function formatTarget(step: Step): string {
+  switch (stepTargetKind(step)) {
+    case "pace":
+      if (step.paceMode === "range" && step.paceMinPerKmLow !== undefined && step.paceMinPerKmHigh !== undefined) {
+        return `${minutesToPaceString(step.paceMinPerKmLow)}-${minutesToPaceString(step.paceMinPerKmHigh)}`;
+      }
+      return step.paceMinPerKm !== undefined ? minutesToPaceString(step.paceMinPerKm) : "";
+    case "paceZone":
+      return step.targetPaceZone ? (paceZone(step.targetPaceZone)?.short ?? "") : "";
+    case "hrZone":
+      return step.targetZone ? `Z${step.targetZone}` : "";
+    case "hrRange":
+    case "power":
+    case "cadence": {
+      if (step.targetLow === undefined || step.targetHigh === undefined) return "";
+      const unit = RANGE_SUFFIX[stepTargetKind(step)];
+      return step.targetLow === step.targetHigh
+        ? `${step.targetLow}${unit}`
+        : `${step.targetLow}-${step.targetHigh}${unit}`;
+    }
+    default:
+      return "";
+  }
+}
+
+function formatItem(item: WorkoutItem): string {
+  if (isRepeatBlock(item)) {
+    return `${item.repeatCount}x(${item.steps.map(formatItem).join(", ")})`;
+  }
+  const target = formatTarget(item);
+  return [formatStepLength(item), TYPE_SHORTHAND[item.type], target && `@ ${target}`].filter(Boolean).join(" ");
+}
+
+/**
+ * Write builder items as shorthand (the inverse of parseShorthand)
+ * Incomplete targets are dropped rather than written half-filled.
+ */
+export function toShorthand(items: WorkoutItem[]): string {
+  return items.map(formatItem).join("; ");
+}
@@ -0,0 +1,122 @@
+/**
+ * Running Workout Templates
+ * Reusable interval structures saved by a coach (localStorage, per user)
+ *
+ * A template stores the builder's blocks plus a name, tags and description,
+ * so a recurring session ("6x800m @ 3:30 w/ 90s jog") can be loaded back
+ * into the running builder instead of rebuilt by hand.
+ */
+
+import { createLocalStore } from "./local-store";
+import { cloneBlocks, generateId, type WorkoutItem } from "./running-workout";
+
+const templatesStore = createLocalStore("goosenet_running_templates:", "goosenet:templates-changed");
+
+export interface RunningWorkoutTemplate {
+  id: string;
+  name: string;
+  tags: string[];
+  description: string;
+  blocks: WorkoutItem[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type TemplateInput = Pick<RunningWorkoutTemplate, "name" | "tags" | "description" | "blocks">;
+
+function isTemplate(value: unknown): value is RunningWorkoutTemplate {
+  if (typeof value !== "object" || value === null) return false;
+  const template = value as Partial<RunningWorkoutTemplate>;
+  return typeof template.id === "string" && typeof template.name === "string" && Array.isArray(template.blocks);
+}
+
+function write(userName: string, templates: RunningWorkoutTemplate[]): void {
+  try {
+    templatesStore.write(userName, templates);
+  } catch {
+    // Quota exceeded - the caller's list still reflects the change for this session
+  }
+}
+
+/**
+ * Split a comma-separated tag string into unique, trimmed tags
+ */
+export function parseTags(input: string): string[] {
+  const tags = input
+    .split(",")
+    .map((tag) => tag.trim())
+    .filter(Boolean);
+  return Array.from(new Set(tags));
+}
+
+/**
+ * A user's templates, most recently updated first
+ * @param userName - Owner of the templates
+ */
+export function listTemplates(userName: string): RunningWorkoutTemplate[] {
+  const raw = templatesStore.readSnapshot(userName);
+  if (!raw) return [];
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    return Array.isArray(parsed)
+      ? parsed
+          .filter(isTemplate)
+          .map((template) => ({ ...template, tags: Array.isArray(template.tags) ? template.tags : [] }))
+          .sort((a, b) => b.updatedAt - a.updatedAt)
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Save the current blocks as a new template
+ * @returns The updated template list
+ */
+export function saveTemplate(userName: string, input: TemplateInput): RunningWorkoutTemplate[] {
+  const now = Date.now();
+  const template: RunningWorkoutTemplate = {
+    ...input,
+    id: generateId(),
+    name: input.name.trim(),
+    blocks: cloneBlocks(input.blocks),
+    createdAt: now,
+    updatedAt: now,
+  };
+  const templates = [template, ...listTemplates(userName)];
+  write(userName, templates);
+  return templates;
+}
+
+/**
+ * Copy a template under a "(copy)" name
+ * @returns The updated template list
+ */
+export function duplicateTemplate(userName: string, id: string): RunningWorkoutTemplate[] {
+  const source = listTemplates(userName).find((template) => template.id === id);
+  if (!source) return listTemplates(userName);
+  return saveTemplate(userName, { ...source, name: `${source.name} (copy)` });
+}
+
+/**
+ * @returns The updated template list
+ */
+export function deleteTemplate(userName: string, id: string): RunningWorkoutTemplate[] {
+  const templates = listTemplates(userName).filter((template) => template.id !== id);
+  write(userName, templates);
+  return templates;
+}
+
+/**
+ * Filter templates by name, description or tag (case-insensitive)
+ */
+export function searchTemplates(templates: RunningWorkoutTemplate[], query: string): RunningWorkoutTemplate[] {
+  const q = query.trim().toLowerCase();
+  if (!q) return templates;
+  return templates.filter(
+    (template) =>
+      template.name.toLowerCase().includes(q) ||
+      template.description.toLowerCase().includes(q) ||
+      template.tags.some((tag) => tag.toLowerCase().includes(q))
+  );
+}